@@ -302,6 +302,32 @@ describe('S3ClientWrapper', () => {
       );
     });
 
+    it('should follow continuation tokens past the first page', async () => {
+      mockS3.send
+        .mockResolvedValueOnce({ Contents: [{ Key: 'a.json' }], IsTruncated: true, NextContinuationToken: 'page-2' })
+        .mockResolvedValueOnce({ Contents: [{ Key: 'b.json' }], IsTruncated: false });
+
+      const keys = await s3Client.list({ bucket: 'test-bucket', prefix: 'test-history/' });
+
+      expect(keys).toEqual(['a.json', 'b.json']);
+      expect(ListObjectsV2Command).toHaveBeenLastCalledWith(
+        expect.objectContaining({ ContinuationToken: 'page-2', MaxKeys: 1000 })
+      );
+    });
+
+    it('should stop paging once maxKeys keys are listed', async () => {
+      mockS3.send.mockResolvedValueOnce({
+        Contents: [{ Key: 'a.json' }, { Key: 'b.json' }],
+        IsTruncated: true,
+        NextContinuationToken: 'page-2',
+      });
+
+      const keys = await s3Client.list({ bucket: 'test-bucket', maxKeys: 2 });
+
+      expect(keys).toEqual(['a.json', 'b.json']);
+      expect(mockS3.send).toHaveBeenCalledTimes(1);
+    });
+
     it('should throw error on list failure', async () => {
       mockS3.send.mockRejectedValueOnce(new Error('List failed'));
 
@@ -568,5 +594,13 @@ describe('S3ClientWrapper', () => {
 
       expect(client).toBeInstanceOf(S3ClientWrapper);
     });
+
+    it('should use path-style addressing for a custom endpoint', () => {
+      createS3Client('us-east-1', 'http://localhost:9000');
+
+      expect(S3Client).toHaveBeenLastCalledWith(
+        expect.objectContaining({ endpoint: 'http://localhost:9000', forcePathStyle: true })
+      );
+    });
   });
 });
\ No newline at end of file
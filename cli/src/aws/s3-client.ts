@@ -12,9 +12,12 @@ import { Upload } from '@aws-sdk/lib-storage';
 import fs from 'fs/promises';
 import { createReadStream } from 'fs';
 import { Readable } from 'stream';
+import os from 'os';
 import path from 'path';
 import * as tar from 'tar';
 import { getErrorMessage } from '../utils/retry';
+import { redactMetadata } from '../utils/redact';
+import type { Storage } from '../storage';
 
 export interface S3UploadOptions {
   bucket: string;
@@ -38,16 +41,24 @@ export interface S3DeleteOptions {
 export interface S3ListOptions {
   bucket: string;
   prefix?: string;
-  maxKeys?: number;
+  maxKeys?: number; // Total keys to return; every key by default
 }
 
-export class S3ClientWrapper {
+export class S3ClientWrapper implements Storage {
   private client: S3Client;
   private region: string;
 
-  constructor(region: string) {
+  /**
+   * @param endpoint S3-compatible endpoint such as MinIO (path-style addressing)
+   */
+  constructor(region: string, endpoint?: string) {
     this.region = region;
-    this.client = new S3Client({ region, maxAttempts: 3, retryMode: 'adaptive' });
+    this.client = new S3Client({
+      region,
+      maxAttempts: 3,
+      retryMode: 'adaptive',
+      ...(endpoint && { endpoint, forcePathStyle: true }),
+    });
   }
 
   /**
@@ -81,7 +92,8 @@ export class S3ClientWrapper {
    * Upload content to S3
    */
   async upload(options: S3UploadOptions): Promise<string> {
-    const { bucket, key, body, contentType, metadata } = options;
+    const { bucket, key, body, contentType } = options;
+    const metadata = redactMetadata(options.metadata);
 
     try {
       // For small uploads, use PutObjectCommand
@@ -177,21 +189,30 @@ export class S3ClientWrapper {
   }
 
   /**
-   * List objects in S3
+   * List objects in S3, following continuation tokens past the
+   * 1000 keys ListObjectsV2 returns per page
    */
   async list(options: S3ListOptions): Promise<string[]> {
-    const { bucket, prefix, maxKeys = 1000 } = options;
+    const { bucket, prefix, maxKeys = Infinity } = options;
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
 
     try {
-      const response = await this.client.send(
-        new ListObjectsV2Command({
-          Bucket: bucket,
-          Prefix: prefix,
-          MaxKeys: maxKeys,
-        })
-      );
+      do {
+        const response = await this.client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: prefix,
+            MaxKeys: Math.min(1000, maxKeys - keys.length),
+            ContinuationToken: continuationToken,
+          })
+        );
 
-      return (response.Contents || []).map((obj) => obj.Key!).filter(Boolean);
+        keys.push(...(response.Contents || []).map((obj) => obj.Key!).filter(Boolean));
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken && keys.length < maxKeys);
+
+      return keys;
     } catch (err: unknown) {
       throw new Error(`Failed to list S3 objects: ${getErrorMessage(err)}`);
     }
@@ -223,16 +244,16 @@ export class S3ClientWrapper {
   async uploadDirectory(
     directory: string,
     bucket: string,
-    key: string
+    key: string,
+    files?: string[]
   ): Promise<string> {
-    try {
-      // Create tarball in memory
-      const tarballPath = path.join(
-        path.dirname(directory),
-        `${path.basename(directory)}.tar.gz`
-      );
+    // Build the tarball outside the source directory's parent, which may be read-only
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cheaptest-upload-'));
+    const tarballPath = path.join(tempDir, `${path.basename(directory)}.tar.gz`);
 
+    try {
       // Create tar.gz, excluding node_modules to avoid version conflicts
+      const base = path.basename(directory);
       await tar.create(
         {
           gzip: true,
@@ -240,10 +261,10 @@ export class S3ClientWrapper {
           cwd: path.dirname(directory),
           filter: (filePath: string) => {
             // Exclude node_modules directories
-            return !filePath.includes('node_modules');
+            return !!files || !filePath.includes('node_modules');
           },
         },
-        [path.basename(directory)]
+        files ? files.map(file => `${base}/${file}`) : [base]
       );
 
       // Verify tarball was created (defensive check for file system sync)
@@ -251,19 +272,17 @@ export class S3ClientWrapper {
 
       // Upload tarball
       const stream = createReadStream(tarballPath);
-      const result = await this.upload({
+      return await this.upload({
         bucket,
         key,
         body: stream,
         contentType: 'application/gzip',
       });
-
-      // Clean up temporary tarball
-      await fs.unlink(tarballPath);
-
-      return result;
     } catch (err: unknown) {
       throw new Error(`Failed to upload directory: ${getErrorMessage(err)}`);
+    } finally {
+      // Clean up temporary tarball
+      await fs.rm(tempDir, { recursive: true, force: true });
     }
   }
 
@@ -293,6 +312,14 @@ export class S3ClientWrapper {
     }
   }
 
+  /**
+   * Download an object to a local file
+   */
+  async downloadFile(bucket: string, key: string, destination: string): Promise<string> {
+    await this.download({ bucket, key, destination });
+    return destination;
+  }
+
   /**
    * Upload JSON data
    */
@@ -320,6 +347,14 @@ export class S3ClientWrapper {
     return JSON.parse(buffer.toString('utf-8'));
   }
 
+  /**
+   * Download an object as UTF-8 text
+   */
+  async downloadText(bucket: string, key: string): Promise<string> {
+    const buffer = await this.download({ bucket, key });
+    return buffer.toString('utf-8');
+  }
+
   /**
    * Get object metadata
    */
@@ -377,6 +412,6 @@ export class S3ClientWrapper {
 /**
  * Convenience function to create S3 client
  */
-export function createS3Client(region: string): S3ClientWrapper {
-  return new S3ClientWrapper(region);
-}
\ No newline at end of file
+export function createS3Client(region: string, endpoint?: string): S3ClientWrapper {
+  return new S3ClientWrapper(region, endpoint);
+}
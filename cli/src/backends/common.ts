@@ -0,0 +1,411 @@
+import { Storage } from '../storage';
+import { createShards, queueOrder } from '../core/sharding';
+import { createBundle, RunManifest } from '../core/bundle';
+import { collectFailedFiles, mergeRetryResults } from '../core/retries';
+import { loadProgress, formatProgress } from '../core/progress';
+import { BackendType, CheaptestConfig, RunOptions, RunSummary, TestCase, TestFile, TestResult, TestShard } from '../types';
+import { Logger } from '../utils/logger';
+import { withRetry, getErrorMessage } from '../utils/retry';
+
+/**
+ * Steps shared by every backend that uses the storage worker contract:
+ * the worker downloads the test code named in runs/<id>/manifest.json and
+ * runs/<id>/shards.json, then uploads runs/<id>/results/shard-N.json.
+ */
+
+/**
+ * Workers in the cloud can't read this machine's disk, so only the
+ * local backend can use filesystem storage
+ */
+export function requireSharedStorage(config: CheaptestConfig, backend: string): void {
+  if (config.storage.type === 'filesystem') {
+    throw new Error(
+      `Filesystem storage is not reachable from ${backend} workers. ` +
+      'Set storage.type to s3 in your .cheaptest.yml, or use --backend local'
+    );
+  }
+}
+
+export async function ensureBucket(
+  storage: Storage,
+  config: CheaptestConfig,
+  logger: Logger
+): Promise<void> {
+  logger.startSpinner('Checking storage bucket...');
+  try {
+    await storage.ensureBucketExists(config.storage.bucket);
+    logger.succeedSpinner(`Storage bucket ready: ${config.storage.bucket}`);
+  } catch (error: unknown) {
+    logger.failSpinner(`Failed to access/create bucket: ${getErrorMessage(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Upload the test code unless a bundle with the same content is already
+ * stored, and point the run's manifest at it. The manifest also records
+ * the backend, so `status` and `cancel` know where the workers run.
+ */
+export async function uploadTestCode(
+  storage: Storage,
+  runId: string,
+  config: CheaptestConfig,
+  logger: Logger,
+  backend: BackendType
+): Promise<void> {
+  logger.startSpinner('Uploading test code...');
+
+  try {
+    const bundle = await createBundle(config.tests.directory, config.tests);
+
+    if (await storage.exists(config.storage.bucket, bundle.key)) {
+      logger.succeedSpinner(`Test code unchanged (${bundle.hash.slice(0, 12)}), skipping upload`);
+    } else {
+      const location = await storage.uploadDirectory(
+        config.tests.directory,
+        config.storage.bucket,
+        bundle.key,
+        bundle.files.map(file => file.path)
+      );
+      logger.succeedSpinner(`Test code uploaded to ${location}`);
+    }
+
+    const manifest: RunManifest = { testCode: bundle.key, hash: bundle.hash, backend };
+    await storage.uploadJSON(config.storage.bucket, `runs/${runId}/manifest.json`, manifest);
+  } catch (error: unknown) {
+    logger.failSpinner(`Failed to upload test code: ${getErrorMessage(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * The backend a run used, from its manifest. Runs from before the backend
+ * was recorded, and runs without a manifest, were started on ECS.
+ */
+export async function runBackend(storage: Storage, bucket: string, runId: string): Promise<BackendType> {
+  try {
+    const manifest = await storage.downloadJSON<RunManifest>(bucket, `runs/${runId}/manifest.json`);
+    return manifest.backend || 'ecs';
+  } catch {
+    return 'ecs';
+  }
+}
+
+export async function uploadShards(
+  storage: Storage,
+  shards: TestShard[],
+  runId: string,
+  config: CheaptestConfig,
+  logger: Logger
+): Promise<void> {
+  logger.startSpinner('Uploading shard configuration...');
+
+  try {
+    const shardsKey = `runs/${runId}/shards.json`;
+
+    await storage.uploadJSON(
+      config.storage.bucket,
+      shardsKey,
+      shards,
+      {
+        runId,
+        timestamp: new Date().toISOString(),
+        framework: config.tests.framework,
+        totalShards: shards.length.toString(),
+      }
+    );
+
+    logger.succeedSpinner(
+      `Shard configuration uploaded (${shards.length} shards)`
+    );
+  } catch (error: unknown) {
+    logger.failSpinner(`Failed to upload shards: ${getErrorMessage(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Upload the shared work queue read by queue shards. Claims are written by
+ * the workers themselves under runs/<id>/queue/claims/.
+ */
+export async function uploadQueue(
+  storage: Storage,
+  files: TestFile[],
+  runId: string,
+  config: CheaptestConfig,
+  logger: Logger
+): Promise<void> {
+  logger.startSpinner('Uploading work queue...');
+
+  try {
+    await storage.uploadJSON(config.storage.bucket, `runs/${runId}/queue.json`, queueOrder(files));
+    logger.succeedSpinner(`Work queue uploaded (${files.length} files)`);
+  } catch (error: unknown) {
+    logger.failSpinner(`Failed to upload work queue: ${getErrorMessage(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * Check that every runs/<id>/queue.json entry was finished by some worker.
+ * A worker that dies after claiming a file (OOM, SIGKILL, a Spot
+ * interruption mid-file) leaves the claim behind, so no other worker runs
+ * it. Those files are added to the first queue shard's result as failed
+ * `notRun` tests: the run fails instead of passing with tests missing, and
+ * --retries runs them again.
+ */
+export async function reportUnfinishedQueueItems(
+  storage: Storage,
+  runId: string,
+  shards: TestShard[],
+  results: TestResult[],
+  config: CheaptestConfig,
+  logger: Logger
+): Promise<TestResult[]> {
+  const queueShard = shards.find(s => s.queue);
+  if (!queueShard) return results;
+
+  const files = await storage.downloadJSON<TestFile[]>(config.storage.bucket, `runs/${runId}/queue.json`);
+  const finished = new Set(results.flatMap(r => r.queueItems || []));
+  const unfinished = files
+    .map((file, index) => ({ file, index }))
+    .filter(({ index }) => !finished.has(index));
+  if (unfinished.length === 0) return results;
+
+  logger.warn(`${unfinished.length} queued file(s) were never finished by a worker:`);
+  for (const { file, index } of unfinished) {
+    logger.warn(`  #${index} ${file.relativePath}${file.browser ? ` (${file.browser})` : ''}`);
+  }
+
+  const tests: TestCase[] = unfinished.map(({ file, index }) => ({
+    name: file.relativePath,
+    file: file.relativePath,
+    status: 'failed',
+    duration: 0,
+    error: `Queue item #${index} was claimed but never finished: its worker stopped before reporting it`,
+    notRun: true,
+    ...(file.browser && { browser: file.browser }),
+  }));
+
+  const existing = results.find(r => r.shard === queueShard.id);
+  const base: TestResult = existing || { shard: queueShard.id, passed: 0, failed: 0, skipped: 0, duration: 0, tests: [] };
+  const withUnfinished = { ...base, failed: base.failed + tests.length, tests: [...base.tests, ...tests] };
+
+  return existing
+    ? results.map(r => (r === existing ? withUnfinished : r))
+    : [...results, withUnfinished];
+}
+
+export async function aggregateResults(
+  storage: Storage,
+  runId: string,
+  shardIds: number[],
+  config: CheaptestConfig,
+  logger: Logger
+): Promise<TestResult[]> {
+  logger.info('');
+  logger.startSpinner('Aggregating results...');
+
+  // Wait briefly for S3 eventual consistency after workers stop
+  await new Promise(resolve => setTimeout(resolve, 2000));
+
+  try {
+    const results: TestResult[] = [];
+    const failedShards: number[] = [];
+    const shardCount = shardIds.length;
+
+    for (const i of shardIds) {
+      const resultKey = `runs/${runId}/results/shard-${i}.json`;
+
+      try {
+        const result = await withRetry(
+          () => storage.downloadJSON<TestResult>(config.storage.bucket, resultKey),
+          {
+            maxAttempts: 5,
+            baseDelayMs: 1000,
+            maxDelayMs: 15000,
+            onRetry: (attempt) => {
+              if (config.output.verbose) {
+                logger.debug(`  Shard ${i} not ready, retry ${attempt}...`);
+              }
+            },
+          },
+        );
+        results.push(result);
+      } catch (err: unknown) {
+        logger.warn(`  Failed to download results for shard ${i} after retries`);
+        if (config.output.verbose) {
+          logger.debug(`  Error: ${getErrorMessage(err)}`);
+        }
+        failedShards.push(i);
+      }
+
+      logger.updateSpinner(`Aggregating results... (${results.length}/${shardCount})`);
+    }
+
+    if (failedShards.length > 0) {
+      logger.stopSpinner();
+      logger.warn(`Could not retrieve results for shards: ${failedShards.join(', ')}`);
+    } else {
+      logger.succeedSpinner(`Aggregated results from ${results.length}/${shardCount} shards`);
+    }
+
+    return results;
+  } catch (error: unknown) {
+    logger.failSpinner(`Failed to aggregate results: ${getErrorMessage(error)}`);
+    throw error;
+  }
+}
+
+/**
+ * How long to wait for stopped workers to upload partial results. ECS,
+ * Kubernetes and `docker stop` send SIGKILL 30 seconds after SIGTERM.
+ */
+const WORKER_STOP_TIMEOUT_MS = 60000;
+
+/**
+ * After workers were told to stop, poll until `allStopped` says they have
+ * exited (and so uploaded what they finished) or the stop timeout passes
+ */
+export async function waitForWorkersToStop(
+  allStopped: () => Promise<boolean>,
+  intervalMs: number,
+  logger: Logger
+): Promise<void> {
+  logger.startSpinner('Waiting for workers to upload partial results...');
+  const deadline = Date.now() + WORKER_STOP_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    try {
+      if (await allStopped()) break;
+    } catch {
+      // Keep waiting; the results are what matter
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+
+  logger.stopSpinner();
+}
+
+/**
+ * Update the wait spinner with live test counts from the workers' progress
+ * events, one line per shard still running. Shards whose heartbeat stopped
+ * are warned about once; `stalled` remembers which were already reported.
+ */
+export async function showProgress(
+  storage: Storage,
+  runId: string,
+  shards: TestShard[],
+  config: CheaptestConfig,
+  logger: Logger,
+  message: string,
+  stalled: Set<number>
+): Promise<void> {
+  const progress = await loadProgress(storage, config.storage.bucket, runId, shards);
+  if (progress.length === 0) {
+    logger.updateSpinner(message);
+    return;
+  }
+
+  // Shards that haven't uploaded events yet still have all their tests ahead
+  const counted = progress.length === shards.length && progress.every(p => p.remaining !== undefined);
+  const total = {
+    passed: progress.reduce((sum, p) => sum + p.passed, 0),
+    failed: progress.reduce((sum, p) => sum + p.failed, 0),
+    remaining: counted ? progress.reduce((sum, p) => sum + (p.remaining || 0), 0) : undefined,
+  };
+
+  const lines = progress
+    .filter(p => !p.done)
+    .map(p => `  Shard ${p.shard}: ${formatProgress(p)}${p.stalled ? ' (no heartbeat)' : p.current ? ` - ${p.current}` : ''}`);
+  const text = [`${message} - ${formatProgress(total)}`, ...lines].join('\n');
+  logger.updateSpinner(text);
+
+  const newlyStalled = progress.filter(p => p.stalled && !stalled.has(p.shard));
+  if (newlyStalled.length > 0) {
+    logger.stopSpinner();
+    for (const p of newlyStalled) {
+      stalled.add(p.shard);
+      logger.warn(`Shard ${p.shard} stopped sending heartbeats (last event at ${p.lastEventAt})`);
+    }
+    logger.startSpinner(text);
+  }
+}
+
+/**
+ * Re-run files with failed tests on fresh workers, up to options.retries times.
+ *
+ * Retry shards get new IDs after the existing ones so the worker contract is
+ * unchanged: they are appended to shards.json and write their own
+ * results/shard-N.json. `launchWave` persists the full shard list, starts the
+ * new shards and returns their results.
+ */
+export async function retryFailedTests(
+  results: TestResult[],
+  shards: TestShard[],
+  options: RunOptions,
+  logger: Logger,
+  launchWave: (retryShards: TestShard[], allShards: TestShard[]) => Promise<TestResult[]>
+): Promise<{ results: TestResult[]; shards: TestShard[]; interrupted: boolean }> {
+  // Workers that were stopped didn't run everything; retrying would hide that
+  if (results.some(r => r.interrupted)) {
+    return { results, shards, interrupted: true };
+  }
+
+  const maxRetries = Number(options.retries) || 0;
+  const parallel = Number(options.parallel) || 1;
+  const files = options.testFiles || shards.flatMap(s => s.files);
+  let allShards = [...shards];
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    const failedFiles = collectFailedFiles(results, files);
+    if (failedFiles.length === 0) {
+      break;
+    }
+
+    logger.info('');
+    logger.info(
+      `Retry ${attempt}/${maxRetries}: re-running ${failedFiles.length} file(s) with failed tests on fresh workers`
+    );
+
+    const nextId = Math.max(...allShards.map(s => s.id)) + 1;
+    const retryShards = createShards(failedFiles, parallel).map((shard, i) => ({
+      ...shard,
+      id: nextId + i,
+      attempt,
+    }));
+    allShards = [...allShards, ...retryShards];
+
+    const retryResults = await launchWave(retryShards, allShards);
+    results = mergeRetryResults(results, retryResults, attempt);
+    if (retryResults.some(r => r.interrupted)) {
+      return { results, shards: allShards, interrupted: true };
+    }
+  }
+
+  return { results, shards: allShards, interrupted: false };
+}
+
+export function logRunSummary(summary: RunSummary, logger: Logger): void {
+  logger.info('');
+  logger.info('='.repeat(60));
+  logger.info(summary.interrupted ? 'Run Stopped' : 'Run Complete');
+  logger.info('='.repeat(60));
+  if (summary.interrupted) {
+    const reported = summary.results?.length ?? 0;
+    logger.warn(`Workers were stopped before finishing; partial results from ${reported} shard(s)`);
+  }
+  logger.success(`Passed: ${summary.passed}`);
+  if (summary.flaky) {
+    logger.warn(`Flaky (passed on retry): ${summary.flaky}`);
+  }
+  if (summary.failed > 0) {
+    logger.error(`Failed: ${summary.failed}`);
+  }
+  if (summary.skipped > 0) {
+    logger.info(`Skipped: ${summary.skipped}`);
+  }
+  logger.info(`Duration: ${(summary.duration / 1000).toFixed(2)}s`);
+  logger.info(`Estimated Cost: $${summary.cost.toFixed(4)}`);
+  logger.info('');
+}
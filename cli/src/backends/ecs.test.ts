@@ -0,0 +1,196 @@
+import { RunTaskCommand, RunTaskCommandOutput } from '@aws-sdk/client-ecs';
+import { TaskBatch, buildRunTaskInput, launchTaskBatches, taskUsage } from './ecs';
+import { CheaptestConfig } from '../types';
+
+function makeConfig(overrides?: Partial<CheaptestConfig>): CheaptestConfig {
+  return {
+    version: 1,
+    aws: { region: 'us-east-1', cluster: 'c', taskDefinition: 't', subnets: ['subnet-1'], securityGroups: ['sg-1'] },
+    tests: { directory: './e2e', pattern: '', framework: 'playwright' },
+    execution: { cpu: 1024, memory: 2048, timeout: 10 },
+    storage: { bucket: 'test-bucket', retentionDays: 30 },
+    output: { format: 'pretty', verbose: false },
+    ...overrides,
+  };
+}
+
+function makeBatch(shardIds: number[]): TaskBatch {
+  return { shardIds, input: buildRunTaskInput('run-1', shardIds, makeConfig()) };
+}
+
+/**
+ * Answers RunTask calls from a script, starting `count` tasks unless the
+ * next response says otherwise
+ */
+class ScriptedEcs {
+  calls: Array<{ count: number; shardIds?: string }> = [];
+  responses: Array<(count: number) => RunTaskCommandOutput> = [];
+  private started = 0;
+
+  async send(command: RunTaskCommand): Promise<RunTaskCommandOutput> {
+    const count = command.input.count || 1;
+    const env = command.input.overrides!.containerOverrides![0].environment!;
+    this.calls.push({ count, shardIds: env.find(e => e.name === 'SHARD_IDS')?.value });
+
+    const respond = this.responses.shift();
+    return respond ? respond(count) : this.start(count);
+  }
+
+  start(count: number, failures: RunTaskCommandOutput['failures'] = []): RunTaskCommandOutput {
+    const tasks = Array.from({ length: count }, () => ({ taskArn: `arn:task/${this.started++}` }));
+    return { tasks, failures, $metadata: {} };
+  }
+}
+
+const fast = { baseDelayMs: 1, maxDelayMs: 1 };
+
+describe('buildRunTaskInput', () => {
+  it('should pass SHARD_ID and tag the shard for a single shard', () => {
+    const input = buildRunTaskInput('run-1', [3], makeConfig(), { API_URL: 'https://staging.example.com' });
+    const env = input.overrides!.containerOverrides![0].environment!;
+
+    expect(env).toContainEqual({ name: 'SHARD_ID', value: '3' });
+    expect(env).toContainEqual({ name: 'API_URL', value: 'https://staging.example.com' });
+    expect(env.some(e => e.name === 'SHARD_IDS')).toBe(false);
+    expect(input.tags).toContainEqual({ key: 'CheaptestShard', value: '3' });
+  });
+
+  it('should pass SHARD_IDS for a batch so each task claims one', () => {
+    const input = buildRunTaskInput('run-1', [0, 1, 2], makeConfig());
+    const env = input.overrides!.containerOverrides![0].environment!;
+
+    expect(env).toContainEqual({ name: 'SHARD_IDS', value: '0,1,2' });
+    expect(env.some(e => e.name === 'SHARD_ID')).toBe(false);
+    expect(input.tags).toContainEqual({ key: 'CheaptestShards', value: '0,1,2' });
+    expect(input.count).toBeUndefined();
+  });
+
+  it('should use launchType FARGATE without execution.capacityProvider', () => {
+    const input = buildRunTaskInput('run-1', [0], makeConfig());
+
+    expect(input.launchType).toBe('FARGATE');
+    expect(input.capacityProviderStrategy).toBeUndefined();
+  });
+
+  it('should weight FARGATE_SPOT and FARGATE by execution.capacityProvider', () => {
+    const config = makeConfig({ execution: { cpu: 1024, memory: 2048, timeout: 10, capacityProvider: { spot: 3, onDemand: 1 } } });
+
+    const input = buildRunTaskInput('run-1', [0], config);
+
+    expect(input.launchType).toBeUndefined();
+    expect(input.capacityProviderStrategy).toEqual([
+      { capacityProvider: 'FARGATE_SPOT', weight: 3 },
+      { capacityProvider: 'FARGATE', weight: 1 },
+    ]);
+  });
+
+  it('should run only on Fargate Spot by default, and on-demand when forced', () => {
+    const config = makeConfig({ execution: { cpu: 1024, memory: 2048, timeout: 10, capacityProvider: {} } });
+
+    expect(buildRunTaskInput('run-1', [0], config).capacityProviderStrategy).toEqual([
+      { capacityProvider: 'FARGATE_SPOT', weight: 1 },
+    ]);
+    const relaunch = buildRunTaskInput('run-1', [0], config, {}, true);
+    expect(relaunch.launchType).toBe('FARGATE');
+    expect(relaunch.capacityProviderStrategy).toBeUndefined();
+  });
+});
+
+describe('launchTaskBatches', () => {
+  it('should start each batch with one RunTask call using count', async () => {
+    const ecs = new ScriptedEcs();
+
+    const result = await launchTaskBatches(ecs, [makeBatch([0, 1, 2]), makeBatch([3])], fast);
+
+    expect(ecs.calls).toEqual([{ count: 3, shardIds: '0,1,2' }, { count: 1, shardIds: undefined }]);
+    expect(result.taskArns).toHaveLength(4);
+    expect(result.unplaced).toEqual([]);
+  });
+
+  it('should retry only the tasks that could not be placed for lack of capacity', async () => {
+    const ecs = new ScriptedEcs();
+    ecs.responses = [
+      count => ecs.start(count - 2, [{ reason: 'RESOURCE:FARGATE', detail: 'Capacity is unavailable at this time' }]),
+    ];
+    const onRetry = jest.fn();
+
+    const result = await launchTaskBatches(ecs, [makeBatch([0, 1, 2, 3])], { ...fast, onRetry });
+
+    expect(ecs.calls.map(c => c.count)).toEqual([4, 2]);
+    expect(result.taskArns).toHaveLength(4);
+    expect(result.unplaced).toEqual([]);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ shardIds: [0, 1, 2, 3] }), 'RESOURCE:FARGATE: Capacity is unavailable at this time');
+  });
+
+  it('should retry throttled calls', async () => {
+    const ecs = new ScriptedEcs();
+    const throttled = Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' });
+    ecs.responses = [() => { throw throttled; }];
+
+    const result = await launchTaskBatches(ecs, [makeBatch([0, 1])], fast);
+
+    expect(ecs.calls).toHaveLength(2);
+    expect(result.taskArns).toHaveLength(2);
+  });
+
+  it('should report tasks still unplaced after the last attempt instead of throwing', async () => {
+    const ecs = new ScriptedEcs();
+    const noCapacity = () => ecs.start(1, [{ reason: 'RESOURCE:FARGATE' }]);
+    ecs.responses = [noCapacity, noCapacity, noCapacity];
+
+    const result = await launchTaskBatches(ecs, [makeBatch([0, 1, 2, 3, 4])], { ...fast, maxAttempts: 3 });
+
+    expect(ecs.calls.map(c => c.count)).toEqual([5, 4, 3]);
+    expect(result.taskArns).toHaveLength(3);
+    expect(result.unplaced).toEqual([{ shardIds: [0, 1, 2, 3, 4], count: 2, reason: 'RESOURCE:FARGATE' }]);
+  });
+
+  it('should not retry other failures, and still start the other batches', async () => {
+    const ecs = new ScriptedEcs();
+    ecs.responses = [() => { throw new Error('TaskDefinition is inactive'); }];
+
+    const result = await launchTaskBatches(ecs, [makeBatch([0, 1]), makeBatch([2, 3])], { ...fast, concurrency: 1 });
+
+    expect(ecs.calls).toHaveLength(2);
+    expect(result.taskArns).toHaveLength(2);
+    expect(result.unplaced).toEqual([{ shardIds: [0, 1], count: 2, reason: 'TaskDefinition is inactive' }]);
+  });
+
+  it('should keep at most `concurrency` RunTask calls in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const ecs = new ScriptedEcs();
+    const client = {
+      send: async (command: RunTaskCommand) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return ecs.send(command);
+      },
+    };
+
+    const batches = [0, 1, 2, 3, 4, 5].map(i => makeBatch([i * 2, i * 2 + 1]));
+    const result = await launchTaskBatches(client, batches, { ...fast, concurrency: 2 });
+
+    expect(maxInFlight).toBe(2);
+    expect(result.taskArns).toHaveLength(12);
+  });
+});
+
+describe('taskUsage', () => {
+  const pullStartedAt = new Date('2024-01-01T00:00:00Z');
+  const startedAt = new Date('2024-01-01T00:00:40Z');
+  const stoppedAt = new Date('2024-01-01T00:05:00Z');
+
+  it('should bill from the image pull to the stop, on the capacity the task ran on', () => {
+    expect(taskUsage({ pullStartedAt, startedAt, stoppedAt, capacityProviderName: 'FARGATE_SPOT' }, 2))
+      .toEqual({ shard: 2, start: pullStartedAt, stop: stoppedAt, spot: true });
+    expect(taskUsage({ startedAt, stoppedAt }, 2))
+      .toEqual({ shard: 2, start: startedAt, stop: stoppedAt, spot: false });
+  });
+
+  it('should skip tasks that stopped before their image was pulled', () => {
+    expect(taskUsage({ stoppedAt, lastStatus: 'STOPPED' }, 0)).toBeUndefined();
+  });
+});
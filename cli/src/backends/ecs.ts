@@ -1,33 +1,101 @@
 import {
   ECSClient,
   RunTaskCommand,
+  RunTaskCommandInput,
+  RunTaskCommandOutput,
   DescribeTasksCommand,
   StopTaskCommand,
   Task,
 } from '@aws-sdk/client-ecs';
 import { createS3Client } from '../aws/s3-client';
+import { Storage, createStorage } from '../storage';
 import {
   BackendInterface,
   RunOptions,
   CheaptestConfig,
   RunSummary,
   RunStatus,
+  ShardCost,
+  SpotUsage,
   TestResult,
+  TestShard,
 } from '../types';
 import { Logger } from '../utils/logger';
-import { withRetry, getErrorMessage } from '../utils/retry';
+import { getErrorMessage } from '../utils/retry';
+import {
+  requireSharedStorage,
+  ensureBucket,
+  uploadTestCode,
+  uploadShards,
+  uploadQueue,
+  aggregateResults,
+  reportUnfinishedQueueItems,
+  retryFailedTests,
+  waitForWorkersToStop,
+  showProgress,
+  logRunSummary,
+} from './common';
+import { countFlaky } from '../core/retries';
+import { TaskUsage, costByShard, fargateTaskCost } from '../core/cost-tracker';
+
+// RunTask starts at most 10 tasks per call
+export const RUN_TASK_MAX_COUNT = 10;
+
+// RunTask calls in flight at once, kept under the API's rate limit
+const LAUNCH_CONCURRENCY = 5;
+
+// Spot interruptions of a shard before it is relaunched on on-demand Fargate
+export const DEFAULT_MAX_SPOT_INTERRUPTIONS = 2;
+
+/**
+ * Tasks started by one RunTask call. They share their overrides, so a batch
+ * of several shards passes SHARD_IDS and each worker claims one of them.
+ */
+export interface TaskBatch {
+  shardIds: number[];
+  input: RunTaskCommandInput; // Everything but count
+}
+
+export interface UnplacedTasks {
+  shardIds: number[]; // The batch; `count` of these were not started
+  count: number;
+  reason: string;
+}
+
+export interface LaunchResult {
+  taskArns: string[];
+  unplaced: UnplacedTasks[];
+}
+
+export interface LaunchOptions {
+  concurrency: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  onRetry?: (batch: TaskBatch, reason: string) => void;
+}
+
+const DEFAULT_LAUNCH_OPTIONS: LaunchOptions = {
+  concurrency: LAUNCH_CONCURRENCY,
+  maxAttempts: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
 
 export class ECSBackend implements BackendInterface {
   private ecsClient: ECSClient;
-  private s3Client: ReturnType<typeof createS3Client>;
+  private storage: Storage;
   private logger: Logger;
   lastRunId: string | null = null;
+  // Every task of the current run, including relaunches, for tasks.json
+  private runTaskArns: string[] = [];
+  private spotInterruptions = new Map<number, number>(); // Shard -> count
 
   constructor(logger: Logger, region?: string) {
     this.logger = logger;
     // Get region from config, will be passed in run() method
     this.ecsClient = new ECSClient({ region: region || 'us-east-1', maxAttempts: 3, retryMode: 'adaptive' });
-    this.s3Client = createS3Client(region || 'us-east-1');
+    this.storage = createS3Client(region || 'us-east-1');
   }
 
   async run(options: RunOptions, config: CheaptestConfig): Promise<RunSummary> {
@@ -41,14 +109,17 @@ export class ECSBackend implements BackendInterface {
     if (!config.aws.taskDefinition) {
       throw new Error('No task definition configured. Add aws.taskDefinition to your .cheaptest.yml');
     }
+    requireSharedStorage(config, 'ECS');
 
     // Update clients with correct region from config
     this.ecsClient = new ECSClient({ region: config.aws.region, maxAttempts: 3, retryMode: 'adaptive' });
-    this.s3Client = createS3Client(config.aws.region);
+    this.storage = createStorage(config);
     this.config = config;
 
-    const runId = `run-${Date.now()}`;
+    const runId = options.runId || `run-${Date.now()}`;
     this.lastRunId = runId;
+    this.runTaskArns = [];
+    this.spotInterruptions.clear();
     const startTime = new Date();
 
     this.logger.info('');
@@ -58,39 +129,66 @@ export class ECSBackend implements BackendInterface {
     this.logger.info('');
 
     try {
-      // Step 0: Ensure S3 bucket exists
-      this.logger.startSpinner('Checking S3 bucket...');
-      try {
-        await this.s3Client.ensureBucketExists(config.storage.bucket);
-        this.logger.succeedSpinner(`S3 bucket ready: ${config.storage.bucket}`);
-      } catch (error: unknown) {
-        this.logger.failSpinner(`Failed to access/create bucket: ${getErrorMessage(error)}`);
-        throw error;
-      }
+      // Step 0: Ensure storage bucket exists
+      await ensureBucket(this.storage, config, this.logger);
 
-      // Step 1: Upload test code to S3
-      await this.uploadTestCode(config.tests.directory, runId, config);
+      // Step 1: Upload test code
+      await uploadTestCode(this.storage, runId, config, this.logger, 'ecs');
 
-      // Step 2: Upload shard configuration to S3
-      await this.uploadShards(options.shards!, runId, config);
+      const shards = options.shards!;
+
+      // Step 2: Upload shard configuration
+      await uploadShards(this.storage, shards, runId, config, this.logger);
+      if (shards.some(s => s.queue)) {
+        await uploadQueue(this.storage, options.testFiles || [], runId, config, this.logger);
+      }
 
       // Step 3: Create ECS tasks
-      const taskArns = await this.createTasks(runId, options.shards!, config);
+      const launch = await this.createTasks(runId, shards, config, options.workerEnv);
 
-      // Step 4: Wait for tasks to complete
-      await this.waitForCompletion(taskArns, runId, config);
+      // Step 4: Wait for tasks to complete, relaunching shards Spot interrupts
+      const firstRun = await this.waitForCompletion(launch.taskArns, shards, runId, config, options.workerEnv);
+      let timedOut = firstRun.timedOut;
+      const ranTasks = [...firstRun.tasks];
 
       // Step 5: Aggregate results (even if some tasks had test failures)
-      const results = await this.aggregateResults(runId, options.shards!.length, config);
+      const firstWave = await this.collectResults(runId, shards, launch, config);
 
-      // Check if we got all results
-      if (results.length < options.shards!.length) {
+      // Check if we got all results (stopped tasks may not have uploaded any)
+      if (firstWave.length < shards.length && !timedOut) {
         throw new Error(
-          `Failed to collect all shard results: got ${results.length}/${options.shards!.length}. ` +
+          `Failed to collect all shard results: got ${firstWave.length}/${shards.length}. ` +
           `Check S3 bucket for missing shard-*.json files.`
         );
       }
 
+      const ranResults = [...firstWave];
+
+      // Files a queue worker claimed but never finished count as failed
+      const checkedWave = await reportUnfinishedQueueItems(this.storage, runId, shards, firstWave, config, this.logger);
+
+      // Step 6: Re-run files with failed tests on fresh tasks (--retries)
+      const { results, interrupted } = await retryFailedTests(
+        checkedWave,
+        shards,
+        options,
+        this.logger,
+        async (retryShards, allShards) => {
+          await uploadShards(this.storage, allShards, runId, config, this.logger);
+
+          const waveLaunch = await this.createTasks(runId, retryShards, config, options.workerEnv);
+          const wave = await this.waitForCompletion(waveLaunch.taskArns, retryShards, runId, config, options.workerEnv);
+          timedOut = timedOut || wave.timedOut;
+          ranTasks.push(...wave.tasks);
+
+          const waveResults = await this.collectResults(runId, retryShards, waveLaunch, config);
+          ranResults.push(...waveResults);
+          return waveResults;
+        }
+      );
+
+      const { cost, shardCosts } = await this.billTasks(runId, ranTasks, ranResults, config);
+
       const endTime = new Date();
       const duration = endTime.getTime() - startTime.getTime();
 
@@ -102,27 +200,18 @@ export class ECSBackend implements BackendInterface {
         passed: results.reduce((sum, r) => sum + r.passed, 0),
         failed: results.reduce((sum, r) => sum + r.failed, 0),
         skipped: results.reduce((sum, r) => sum + r.skipped, 0),
+        flaky: countFlaky(results),
+        ...((timedOut || interrupted) && { interrupted: true }),
         duration,
-        cost: this.estimateCost(duration, options.shards!.length, config),
+        cost,
         startTime,
         endTime,
         results,
+        ...(config.execution.capacityProvider && { spot: this.spotUsage(ranTasks) }),
+        shardCosts,
       };
 
-      this.logger.info('');
-      this.logger.info('='.repeat(60));
-      this.logger.info('Run Complete');
-      this.logger.info('='.repeat(60));
-      this.logger.success(`Passed: ${summary.passed}`);
-      if (summary.failed > 0) {
-        this.logger.error(`Failed: ${summary.failed}`);
-      }
-      if (summary.skipped > 0) {
-        this.logger.info(`Skipped: ${summary.skipped}`);
-      }
-      this.logger.info(`Duration: ${(duration / 1000).toFixed(2)}s`);
-      this.logger.info(`Estimated Cost: $${summary.cost.toFixed(4)}`);
-      this.logger.info('');
+      logRunSummary(summary, this.logger);
 
       return summary;
     } catch (error) {
@@ -141,8 +230,8 @@ export class ECSBackend implements BackendInterface {
       throw new Error('Backend not initialized. Call run() or setConfig() first.');
     }
 
-    // Load task ARNs from S3
-    const tasksData = await this.s3Client.downloadJSON<{
+    // Load task ARNs from storage
+    const tasksData = await this.storage.downloadJSON<{
       taskArns: string[];
       cluster: string;
     }>(config.storage.bucket, `runs/${runId}/tasks.json`);
@@ -162,166 +251,192 @@ export class ECSBackend implements BackendInterface {
 
   private config: CheaptestConfig | null = null;
 
-  private async uploadTestCode(
-    directory: string,
+  private async createTasks(
     runId: string,
-    config: CheaptestConfig
-  ): Promise<void> {
-    this.logger.startSpinner('Uploading test code to S3...');
+    shards: TestShard[],
+    config: CheaptestConfig,
+    env: Record<string, string> = {}
+  ): Promise<LaunchResult> {
+    this.logger.startSpinner(`Creating ${shards.length} ECS tasks...`);
 
-    try {
-      const testCodeKey = `runs/${runId}/test-code.tar.gz`;
+    const batches: TaskBatch[] = [];
+    for (let i = 0; i < shards.length; i += RUN_TASK_MAX_COUNT) {
+      const shardIds = shards.slice(i, i + RUN_TASK_MAX_COUNT).map(s => s.id);
+      batches.push({ shardIds, input: buildRunTaskInput(runId, shardIds, config, env) });
+    }
 
-      await this.s3Client.uploadDirectory(
-        directory,
-        config.storage.bucket,
-        testCodeKey
-      );
+    const launch = await launchTaskBatches(this.ecsClient, batches, {
+      onRetry: (batch, reason) => {
+        if (config.output.verbose) {
+          this.logger.debug(`  Retrying shards ${batch.shardIds.join(', ')}: ${reason}`);
+        }
+      },
+    });
+    const { taskArns, unplaced } = launch;
 
-      this.logger.succeedSpinner(
-        `Test code uploaded to s3://${config.storage.bucket}/${testCodeKey}`
-      );
-    } catch (error: unknown) {
-      this.logger.failSpinner(`Failed to upload test code: ${getErrorMessage(error)}`);
-      throw error;
+    if (taskArns.length === 0) {
+      this.logger.failSpinner('Failed to create ECS tasks');
+      throw new Error(`No ECS tasks could be started: ${unplaced.map(u => u.reason).join('; ')}`);
     }
-  }
 
-  private async uploadShards(
-    shards: any[],
-    runId: string,
-    config: CheaptestConfig
-  ): Promise<void> {
-    this.logger.startSpinner('Uploading shard configuration...');
+    if (unplaced.length > 0) {
+      const missing = unplaced.reduce((sum, u) => sum + u.count, 0);
+      this.logger.stopSpinner();
+      this.logger.warn(`${taskArns.length} ECS tasks created, ${missing} could not be placed:`);
+      for (const batch of unplaced) {
+        this.logger.warn(`  ${batch.count} of shards ${batch.shardIds.join(', ')}: ${batch.reason}`);
+      }
+      this.logger.warn('Their test files are reported as failed; --retries re-runs them on new tasks');
+    } else {
+      this.logger.succeedSpinner(`${taskArns.length} ECS tasks created`);
+    }
 
-    try {
-      const shardsKey = `runs/${runId}/shards.json`;
+    if (config.output.verbose) {
+      taskArns.forEach(taskArn => this.logger.debug(`  ${taskArn}`));
+    }
+
+    await this.saveTaskArns(runId, taskArns, config);
+    return launch;
+  }
 
-      await this.s3Client.uploadJSON(
+  /**
+   * Persist the run's task ARNs for the status and cancel commands
+   */
+  private async saveTaskArns(runId: string, taskArns: string[], config: CheaptestConfig): Promise<void> {
+    this.runTaskArns.push(...taskArns);
+    try {
+      const tasksKey = `runs/${runId}/tasks.json`;
+      await this.storage.uploadJSON(
         config.storage.bucket,
-        shardsKey,
-        shards,
+        tasksKey,
         {
-          runId,
-          timestamp: new Date().toISOString(),
-          framework: config.tests.framework,
-          totalShards: shards.length.toString(),
+          taskArns: this.runTaskArns,
+          cluster: config.aws.cluster,
+          region: config.aws.region,
+          createdAt: new Date().toISOString(),
         }
       );
-
-      this.logger.succeedSpinner(
-        `Shard configuration uploaded (${shards.length} shards)`
-      );
-    } catch (error: unknown) {
-      this.logger.failSpinner(`Failed to upload shards: ${getErrorMessage(error)}`);
-      throw error;
+    } catch (err: unknown) {
+      // Non-fatal: status command will fall back to S3-only mode
+      if (config.output.verbose) {
+        this.logger.debug(`Warning: could not persist task ARNs: ${getErrorMessage(err)}`);
+      }
     }
   }
 
-  private async createTasks(
+  /**
+   * Start a new task for each shard whose task Fargate Spot reclaimed. After
+   * capacityProvider.maxInterruptions interruptions of the same shard it
+   * runs on on-demand Fargate. Returns the replacement for each task.
+   */
+  private async relaunchInterrupted(
     runId: string,
-    shards: any[],
-    config: CheaptestConfig
-  ): Promise<string[]> {
-    this.logger.startSpinner(`Creating ${shards.length} ECS tasks...`);
+    interrupted: Task[],
+    shards: TestShard[],
+    config: CheaptestConfig,
+    env: Record<string, string>
+  ): Promise<Map<string, string>> {
+    const maxInterruptions = config.execution.capacityProvider?.maxInterruptions ?? DEFAULT_MAX_SPOT_INTERRUPTIONS;
+    const shardOfTask = await taskShards(this.storage, config.storage.bucket, runId, interrupted);
+    const relaunched = new Map<string, string>();
+
+    for (const task of interrupted) {
+      const taskId = task.taskArn!.split('/').pop();
+      const shard = shards.find(s => s.id === shardOfTask.get(task.taskArn!));
+      if (!shard) {
+        this.logger.warn(`Task ${taskId} was interrupted by Fargate Spot, but its shard is unknown; not relaunching`);
+        continue;
+      }
+      if (shard.queue) {
+        // Other workers keep draining the queue. The file it was running is
+        // reported as unfinished (see reportUnfinishedQueueItems) and --retries re-runs it.
+        this.logger.warn(`Shard ${shard.id} was interrupted by Fargate Spot; the other workers take its remaining queue items`);
+        continue;
+      }
 
-    try {
-      const taskArns: string[] = [];
-
-      for (let i = 0; i < shards.length; i++) {
-        const shard = shards[i];
-
-        const response = await this.ecsClient.send(
-          new RunTaskCommand({
-            cluster: config.aws.cluster,
-            taskDefinition: config.aws.taskDefinition,
-            launchType: 'FARGATE',
-            networkConfiguration: {
-              awsvpcConfiguration: {
-                subnets: config.aws.subnets,
-                securityGroups: config.aws.securityGroups,
-                assignPublicIp: 'ENABLED',
-              },
-            },
-            overrides: {
-              containerOverrides: [
-                {
-                  name: 'cheaptest-worker',
-                  environment: [
-                    { name: 'RUN_ID', value: runId },
-                    { name: 'SHARD_ID', value: shard.id.toString() },
-                    { name: 'S3_BUCKET', value: config.storage.bucket },
-                    { name: 'AWS_REGION', value: config.aws.region },
-                    { name: 'TEST_FRAMEWORK', value: config.tests.framework },
-                    { name: 'TEST_TIMEOUT', value: (config.execution.timeout * 60 * 1000).toString() },
-                  ],
-                },
-              ],
-            },
-            tags: [
-              { key: 'CheaptestRunId', value: runId },
-              { key: 'CheaptestShard', value: shard.id.toString() },
-              { key: 'CheaptestFramework', value: config.tests.framework },
-            ],
-          })
+      const count = (this.spotInterruptions.get(shard.id) || 0) + 1;
+      this.spotInterruptions.set(shard.id, count);
+      const onDemand = count >= maxInterruptions;
+
+      const launch = await launchTaskBatches(this.ecsClient, [
+        { shardIds: [shard.id], input: buildRunTaskInput(runId, [shard.id], config, env, onDemand) },
+      ]);
+      if (launch.taskArns.length === 0) {
+        this.logger.warn(
+          `Shard ${shard.id} was interrupted by Fargate Spot and could not be relaunched: ${launch.unplaced[0]?.reason}. ` +
+          'Its partial results are kept'
         );
-
-        if (response.tasks && response.tasks.length > 0) {
-          const taskArn = response.tasks[0].taskArn!;
-          taskArns.push(taskArn);
-
-          if (config.output.verbose) {
-            this.logger.debug(`  Shard ${shard.id}: ${taskArn}`);
-          }
-        } else {
-          throw new Error(`Failed to create task for shard ${shard.id}`);
-        }
-
-        if (i < shards.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+        continue;
       }
 
-      this.logger.succeedSpinner(`${taskArns.length} ECS tasks created`);
+      this.logger.warn(
+        `Shard ${shard.id} was interrupted by Fargate Spot (${count}x), relaunched on ${onDemand ? 'on-demand Fargate' : 'Fargate Spot'}`
+      );
+      relaunched.set(task.taskArn!, launch.taskArns[0]);
+    }
 
-      // Persist task ARNs to S3 for the status command
-      try {
-        const tasksKey = `runs/${runId}/tasks.json`;
-        await this.s3Client.uploadJSON(
-          config.storage.bucket,
-          tasksKey,
-          {
-            taskArns,
-            cluster: config.aws.cluster,
-            region: config.aws.region,
-            createdAt: new Date().toISOString(),
-          }
-        );
-      } catch (err: unknown) {
-        // Non-fatal: status command will fall back to S3-only mode
-        if (config.output.verbose) {
-          this.logger.debug(`Warning: could not persist task ARNs: ${getErrorMessage(err)}`);
-        }
-      }
+    if (relaunched.size > 0) {
+      await this.saveTaskArns(runId, [...relaunched.values()], config);
+    }
+    return relaunched;
+  }
 
-      return taskArns;
-    } catch (error: unknown) {
-      this.logger.failSpinner(`Failed to create ECS tasks: ${getErrorMessage(error)}`);
-      throw error;
+  /**
+   * Results of a wave of shards. Shards whose task was never placed get a
+   * result with their files failed; which of a batch's shards those are is
+   * known from the claims the placed tasks made.
+   */
+  private async collectResults(
+    runId: string,
+    shards: TestShard[],
+    launch: LaunchResult,
+    config: CheaptestConfig
+  ): Promise<TestResult[]> {
+    const unplaced = new Map<number, string>();
+    if (launch.unplaced.length > 0) {
+      const claimed = new Set(
+        (await this.storage.list({ bucket: config.storage.bucket, prefix: `runs/${runId}/shard-claims/` }))
+          .map(key => parseInt(key.split('/').pop()!))
+      );
+      for (const batch of launch.unplaced) {
+        // A batch of one is launched with SHARD_ID, so nothing claims it
+        const ids = batch.shardIds.length === 1 ? batch.shardIds : batch.shardIds.filter(id => !claimed.has(id));
+        ids.forEach(id => unplaced.set(id, batch.reason));
+      }
     }
+
+    const results = await aggregateResults(
+      this.storage, runId, shards.filter(s => !unplaced.has(s.id)).map(s => s.id), config, this.logger
+    );
+    return [
+      ...results,
+      ...shards.filter(s => unplaced.has(s.id)).map(s => notStartedResult(s, unplaced.get(s.id)!)),
+    ];
   }
 
+  /**
+   * Poll until every task has stopped. Tasks Fargate Spot interrupts are
+   * replaced by relaunches of their shards, which are waited for too.
+   * `tasks` is every task that ran, for cost and Spot usage.
+   */
   private async waitForCompletion(
-    taskArns: string[],
+    launchedTaskArns: string[],
+    shards: TestShard[],
     runId: string,
-    config: CheaptestConfig
-  ): Promise<{ failedTasks: Task[] }> {
+    config: CheaptestConfig,
+    env: Record<string, string> = {}
+  ): Promise<{ failedTasks: Task[]; timedOut: boolean; tasks: Task[] }> {
     this.logger.info('');
     this.logger.startSpinner('Waiting for tasks to complete...');
 
     const startTime = Date.now();
     // Convert timeout from minutes to milliseconds, with 1.5x buffer
     const timeout = config.execution.timeout * 60 * 1000 * 1.5;
+    const stalled = new Set<number>();
+    let taskArns = [...launchedTaskArns];
+    const replaced: Task[] = []; // Interrupted tasks that were relaunched
+    const handled = new Set<string>(); // Interruptions already acted on
+    let tasks: Task[] = [];
 
     while (true) {
       const elapsed = Date.now() - startTime;
@@ -340,24 +455,51 @@ export class ECSBackend implements BackendInterface {
             // Task may already be stopped
           }
         }
-        throw new Error('Tasks exceeded timeout. Running tasks have been stopped.');
+
+        // Workers upload the tests they finished when stopped
+        await waitForWorkersToStop(async () => {
+          const response = await this.ecsClient.send(
+            new DescribeTasksCommand({ cluster: config.aws.cluster, tasks: taskArns, include: ['TAGS'] })
+          );
+          tasks = response.tasks || [];
+          return tasks.every(t => t.lastStatus === 'STOPPED');
+        }, 5000, this.logger);
+        this.logger.warn('Tasks exceeded timeout and were stopped. Results are partial.');
+        return { failedTasks: [], timedOut: true, tasks: [...replaced, ...tasks] };
       }
 
       const response = await this.ecsClient.send(
         new DescribeTasksCommand({
           cluster: config.aws.cluster,
           tasks: taskArns,
+          include: ['TAGS'], // For the shard of a Spot-interrupted task
         })
       );
 
-      const tasks = response.tasks || [];
+      tasks = response.tasks || [];
+
+      const interrupted = tasks.filter(t => isSpotInterruption(t) && !handled.has(t.taskArn!));
+      if (interrupted.length > 0) {
+        interrupted.forEach(t => handled.add(t.taskArn!));
+        this.logger.stopSpinner();
+        const relaunched = await this.relaunchInterrupted(runId, interrupted, shards, config, env);
+        this.logger.startSpinner('Waiting for tasks to complete...');
+        if (relaunched.size > 0) {
+          replaced.push(...tasks.filter(t => relaunched.has(t.taskArn!)));
+          taskArns = [...taskArns.filter(arn => !relaunched.has(arn)), ...relaunched.values()];
+          continue;
+        }
+      }
 
       const running = tasks.filter(t => t.lastStatus === 'RUNNING').length;
       const stopped = tasks.filter(t => t.lastStatus === 'STOPPED').length;
       const pending = tasks.filter(t => t.lastStatus === 'PENDING').length;
 
       const progress = `${stopped}/${taskArns.length} complete`;
-      this.logger.updateSpinner(`Running tasks... ${progress} (${(elapsed / 1000).toFixed(0)}s)`);
+      await showProgress(
+        this.storage, runId, shards, config, this.logger,
+        `Running tasks... ${progress} (${(elapsed / 1000).toFixed(0)}s)`, stalled
+      );
 
       if (config.output.verbose) {
         this.logger.debug(`  Pending: ${pending}, Running: ${running}, Stopped: ${stopped}`);
@@ -389,83 +531,264 @@ export class ECSBackend implements BackendInterface {
           this.logger.succeedSpinner(`All ${taskArns.length} tasks completed successfully`);
         }
 
-        return { failedTasks };
+        return { failedTasks, timedOut: false, tasks: [...replaced, ...tasks] };
       }
 
       await new Promise(resolve => setTimeout(resolve, 5000));
     }
   }
 
-  private async aggregateResults(
+  /**
+   * Cost of the run as Fargate bills it: each task from its image pull to
+   * its stop, at the price of the capacity it ran on, and per shard
+   */
+  private async billTasks(
     runId: string,
-    shardCount: number,
+    tasks: Task[],
+    results: TestResult[],
     config: CheaptestConfig
-  ): Promise<TestResult[]> {
-    this.logger.info('');
-    this.logger.startSpinner('Aggregating results from S3...');
-
-    // Wait briefly for S3 eventual consistency after tasks stop
-    await new Promise(resolve => setTimeout(resolve, 2000));
+  ): Promise<{ cost: number; shardCosts: ShardCost[] }> {
+    // Without the shard mapping the run's cost is still known, just not per shard
+    const shardOfTask = await taskShards(this.storage, config.storage.bucket, runId, tasks)
+      .catch(() => new Map<string, number>());
+    const usage = tasks
+      .map(task => taskUsage(task, shardOfTask.get(task.taskArn!)))
+      .filter((u): u is TaskUsage => u !== undefined);
+
+    const { cpu, memory } = config.execution;
+    return {
+      cost: usage.reduce((sum, u) => sum + fargateTaskCost(u, cpu, memory), 0),
+      shardCosts: costByShard(usage, results, cpu, memory),
+    };
+  }
 
-    try {
-      const results: TestResult[] = [];
-      const failedShards: number[] = [];
-
-      for (let i = 0; i < shardCount; i++) {
-        const resultKey = `runs/${runId}/results/shard-${i}.json`;
-
-        try {
-          const result = await withRetry(
-            () => this.s3Client.downloadJSON<TestResult>(config.storage.bucket, resultKey),
-            {
-              maxAttempts: 5,
-              baseDelayMs: 1000,
-              maxDelayMs: 15000,
-              onRetry: (attempt) => {
-                if (config.output.verbose) {
-                  this.logger.debug(`  Shard ${i} not ready, retry ${attempt}...`);
-                }
-              },
-            },
-          );
-          results.push(result);
-        } catch (err: unknown) {
-          this.logger.warn(`  Failed to download results for shard ${i} after retries`);
-          if (config.output.verbose) {
-            this.logger.debug(`  Error: ${getErrorMessage(err)}`);
-          }
-          failedShards.push(i);
-        }
+  private spotUsage(tasks: Task[]): SpotUsage {
+    const spotTasks = tasks.filter(t => t.capacityProviderName === 'FARGATE_SPOT').length;
+    return {
+      tasks: spotTasks,
+      onDemandTasks: tasks.length - spotTasks,
+      interruptions: [...this.spotInterruptions.values()].reduce((sum, n) => sum + n, 0),
+    };
+  }
+}
+
+/**
+ * RunTask parameters for a batch of shards: SHARD_ID for a single shard,
+ * SHARD_IDS for several, with the rest of the worker contract and `env`
+ * (execution.env and the resolved execution.secrets)
+ */
+export function buildRunTaskInput(
+  runId: string,
+  shardIds: number[],
+  config: CheaptestConfig,
+  env: Record<string, string> = {},
+  onDemand = false
+): RunTaskCommandInput {
+  const shardEnv = shardIds.length === 1
+    ? { name: 'SHARD_ID', value: shardIds[0].toString() }
+    : { name: 'SHARD_IDS', value: shardIds.join(',') };
+  const shardTag = shardIds.length === 1
+    ? { key: 'CheaptestShard', value: shardIds[0].toString() }
+    : { key: 'CheaptestShards', value: shardIds.join(',') };
+
+  return {
+    cluster: config.aws.cluster,
+    taskDefinition: config.aws.taskDefinition,
+    ...capacitySettings(config, onDemand),
+    networkConfiguration: {
+      awsvpcConfiguration: {
+        subnets: config.aws.subnets,
+        securityGroups: config.aws.securityGroups,
+        assignPublicIp: 'ENABLED',
+      },
+    },
+    overrides: {
+      containerOverrides: [
+        {
+          name: 'cheaptest-worker',
+          environment: [
+            ...Object.entries(env).map(([name, value]) => ({ name, value })),
+            { name: 'RUN_ID', value: runId },
+            shardEnv,
+            { name: 'S3_BUCKET', value: config.storage.bucket },
+            { name: 'AWS_REGION', value: config.aws.region },
+            { name: 'TEST_FRAMEWORK', value: config.tests.framework },
+            { name: 'TEST_TIMEOUT', value: (config.execution.timeout * 60 * 1000).toString() },
+            ...(config.storage.endpoint ? [{ name: 'S3_ENDPOINT', value: config.storage.endpoint }] : []),
+            ...(config.tests.runner ? [{ name: 'TEST_RUNNER_MODULE', value: config.tests.runner }] : []),
+          ],
+        },
+      ],
+    },
+    tags: [
+      { key: 'CheaptestRunId', value: runId },
+      shardTag,
+      { key: 'CheaptestFramework', value: config.tests.framework },
+    ],
+  };
+}
+
+/**
+ * launchType FARGATE, or a FARGATE_SPOT / FARGATE capacity provider strategy
+ * weighted by execution.capacityProvider (the two can't be combined).
+ * `onDemand` forces FARGATE, for shards Spot keeps interrupting.
+ */
+function capacitySettings(
+  config: CheaptestConfig,
+  onDemand: boolean
+): Pick<RunTaskCommandInput, 'launchType' | 'capacityProviderStrategy'> {
+  const capacity = config.execution.capacityProvider;
+  if (!capacity || onDemand) {
+    return { launchType: 'FARGATE' };
+  }
 
-        this.logger.updateSpinner(`Aggregating results from S3... (${results.length}/${shardCount})`);
+  const strategy = [
+    { capacityProvider: 'FARGATE_SPOT', weight: capacity.spot ?? 1 },
+    { capacityProvider: 'FARGATE', weight: capacity.onDemand ?? 0 },
+  ];
+  return { capacityProviderStrategy: strategy.filter(s => s.weight > 0) };
+}
+
+/**
+ * Billed period of a task, or undefined if it stopped before Fargate began
+ * pulling its image (nothing is billed then)
+ */
+export function taskUsage(task: Task, shard?: number): TaskUsage | undefined {
+  const start = task.pullStartedAt || task.startedAt;
+  if (!start) return undefined;
+  return {
+    shard,
+    start,
+    stop: task.stoppedAt || new Date(),
+    spot: task.capacityProviderName === 'FARGATE_SPOT',
+  };
+}
+
+function isSpotInterruption(task: Task): boolean {
+  return task.lastStatus === 'STOPPED' && task.stopCode === 'SpotInterruption';
+}
+
+/**
+ * Start every batch, a few RunTask calls at a time. Tasks RunTask couldn't
+ * place for lack of capacity (RESOURCE:* failures) or because of throttling
+ * are retried with backoff; whatever is still missing after that, or failed
+ * for another reason, is returned as unplaced instead of thrown, since the
+ * tasks that did start are already running.
+ */
+export async function launchTaskBatches(
+  client: { send(command: RunTaskCommand): Promise<RunTaskCommandOutput> },
+  batches: TaskBatch[],
+  options: Partial<LaunchOptions> = {}
+): Promise<LaunchResult> {
+  const opts = { ...DEFAULT_LAUNCH_OPTIONS, ...options };
+  const taskArns: string[] = [];
+  const unplaced: UnplacedTasks[] = [];
+
+  const launch = async (batch: TaskBatch) => {
+    let remaining = batch.shardIds.length;
+
+    for (let attempt = 0; ; attempt++) {
+      let reason: string;
+      let retryable: boolean;
+      try {
+        const response = await client.send(new RunTaskCommand({ ...batch.input, count: remaining }));
+        const started = (response.tasks || []).map(task => task.taskArn!).filter(Boolean);
+        taskArns.push(...started);
+        remaining -= started.length;
+        if (remaining <= 0) return;
+
+        const failures = response.failures || [];
+        reason = failures.map(f => [f.reason, f.detail].filter(Boolean).join(': ')).join('; ') || 'No tasks started';
+        // An empty failure list says nothing about the cause; try again
+        retryable = failures.length === 0 || failures.some(f => isRetryableFailure(f.reason || ''));
+      } catch (err: unknown) {
+        reason = getErrorMessage(err);
+        retryable = isThrottlingError(err);
       }
 
-      if (failedShards.length > 0) {
-        this.logger.stopSpinner();
-        this.logger.warn(`Could not retrieve results for shards: ${failedShards.join(', ')}`);
-      } else {
-        this.logger.succeedSpinner(`Aggregated results from ${results.length}/${shardCount} shards`);
+      if (!retryable || attempt >= opts.maxAttempts - 1) {
+        unplaced.push({ shardIds: batch.shardIds, count: remaining, reason });
+        return;
       }
 
-      return results;
-    } catch (error: unknown) {
-      this.logger.failSpinner(`Failed to aggregate results: ${getErrorMessage(error)}`);
-      throw error;
+      opts.onRetry?.(batch, reason);
+      const delay = Math.min(opts.baseDelayMs * Math.pow(2, attempt), opts.maxDelayMs);
+      // Add ±25% jitter so batches waiting on capacity don't retry in lockstep
+      await new Promise(resolve => setTimeout(resolve, delay * (0.75 + Math.random() * 0.5)));
     }
-  }
+  };
 
-  private estimateCost(
-    durationMs: number,
-    shardCount: number,
-    config: CheaptestConfig
-  ): number {
-    const durationHours = durationMs / (1000 * 60 * 60);
-    const vCPU = config.execution.cpu / 1024;
-    const memoryGB = config.execution.memory / 1024;
+  let next = 0;
+  const launchers = Array.from({ length: Math.min(opts.concurrency, batches.length) }, async () => {
+    while (next < batches.length) {
+      await launch(batches[next++]);
+    }
+  });
+  await Promise.all(launchers);
+
+  return { taskArns, unplaced };
+}
+
+function isRetryableFailure(reason: string): boolean {
+  return reason.startsWith('RESOURCE:') || /capacity|throttl|rate exceeded/i.test(reason);
+}
+
+function isThrottlingError(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  return err.name === 'ThrottlingException' || /throttl|rate exceeded/i.test(err.message);
+}
+
+/**
+ * Result for a shard whose task never started: every file failed, so the
+ * run fails and --retries picks the files up again
+ */
+function notStartedResult(shard: TestShard, reason: string): TestResult {
+  return {
+    shard: shard.id,
+    passed: 0,
+    failed: shard.files.length,
+    skipped: 0,
+    duration: 0,
+    tests: shard.files.map(file => ({
+      name: file.relativePath,
+      file: file.relativePath,
+      status: 'failed' as const,
+      duration: 0,
+      error: `ECS task for shard ${shard.id} could not be started: ${reason}`,
+      notRun: true,
+      ...(file.browser && { browser: file.browser }),
+    })),
+  };
+}
+
+/**
+ * Shard of each ECS task of a run: the CheaptestShard tag for a task
+ * started alone, otherwise the claim its worker wrote for one of SHARD_IDS
+ */
+export async function taskShards(
+  storage: Storage,
+  bucket: string,
+  runId: string,
+  tasks: Task[]
+): Promise<Map<string, number>> {
+  const shards = new Map<string, number>();
+  for (const task of tasks) {
+    const tag = task.tags?.find(t => t.key === 'CheaptestShard');
+    if (task.taskArn && tag?.value !== undefined) shards.set(task.taskArn, parseInt(tag.value));
+  }
 
-    const vCpuCost = vCPU * 0.04048 * durationHours * shardCount;
-    const memoryCost = memoryGB * 0.004445 * durationHours * shardCount;
+  if (tasks.every(task => task.taskArn && shards.has(task.taskArn))) {
+    return shards;
+  }
 
-    return vCpuCost + memoryCost;
+  const claimKeys = await storage.list({ bucket, prefix: `runs/${runId}/shard-claims/` });
+  for (const key of claimKeys) {
+    try {
+      const claim = await storage.downloadJSON<{ taskArn?: string }>(bucket, key);
+      if (claim.taskArn) shards.set(claim.taskArn, parseInt(key.split('/').pop()!));
+    } catch {
+      // A claim that can't be read leaves its task unmapped
+    }
   }
-}
\ No newline at end of file
+  return shards;
+}
@@ -0,0 +1,459 @@
+import type { V1Job, V1Pod, V1Secret } from '@kubernetes/client-node';
+import {
+  KubernetesBackend,
+  buildJob,
+  buildSecret,
+  latestPodStates,
+  RUN_ID_LABEL,
+  SHARD_LABEL,
+} from './kubernetes';
+import { KubernetesApi } from '../kubernetes/client';
+import { Logger } from '../utils/logger';
+import { CheaptestConfig, TestResult, TestShard } from '../types';
+
+const mockStorage = {
+  ensureBucketExists: jest.fn(),
+  uploadDirectory: jest.fn(),
+  uploadJSON: jest.fn(),
+  downloadJSON: jest.fn(),
+  exists: jest.fn(),
+};
+
+jest.mock('../storage', () => ({
+  createStorage: () => mockStorage,
+}));
+
+jest.mock('../core/bundle', () => ({
+  createBundle: async () => ({
+    hash: 'abc123',
+    key: 'cache/test-code/abc123.tar.gz',
+    files: [{ path: 'login.spec.ts', size: 120 }],
+    size: 120,
+  }),
+}));
+
+/**
+ * Records every call and replays scripted pod listings,
+ * standing in for a real API server.
+ */
+class RecordedKubernetesClient implements KubernetesApi {
+  createdJobs: Array<{ namespace: string; job: V1Job }> = [];
+  deletedSelectors: Array<{ namespace: string; labelSelector: string }> = [];
+  createdSecrets: Array<{ namespace: string; secret: V1Secret }> = [];
+  deletedSecretSelectors: string[] = [];
+  podResponses: V1Pod[][] = [];
+  jobs: V1Job[] = [];
+
+  async createJob(namespace: string, job: V1Job): Promise<void> {
+    this.createdJobs.push({ namespace, job });
+    this.jobs.push(job);
+  }
+
+  async listJobs(_namespace: string, _labelSelector: string): Promise<V1Job[]> {
+    return this.jobs;
+  }
+
+  async listPods(_namespace: string, _labelSelector: string): Promise<V1Pod[]> {
+    // Keep returning the last response once the script runs out
+    return this.podResponses.length > 1 ? this.podResponses.shift()! : this.podResponses[0] || [];
+  }
+
+  async deleteJobs(namespace: string, labelSelector: string): Promise<void> {
+    this.deletedSelectors.push({ namespace, labelSelector });
+  }
+
+  async createSecret(namespace: string, secret: V1Secret): Promise<void> {
+    this.createdSecrets.push({ namespace, secret });
+  }
+
+  async deleteSecrets(_namespace: string, labelSelector: string): Promise<void> {
+    this.deletedSecretSelectors.push(labelSelector);
+  }
+}
+
+function makeConfig(overrides?: Partial<CheaptestConfig>): CheaptestConfig {
+  return {
+    version: 1,
+    aws: { region: 'us-east-1', cluster: 'c', taskDefinition: 't', subnets: [], securityGroups: [] },
+    tests: { directory: './e2e', pattern: '', framework: 'playwright' },
+    execution: { cpu: 1024, memory: 2048, timeout: 10 },
+    storage: { bucket: 'test-bucket', retentionDays: 30 },
+    output: { format: 'pretty', verbose: false },
+    kubernetes: { namespace: 'ci', image: 'registry/cheaptest-worker:1.0' },
+    ...overrides,
+  };
+}
+
+function makeShards(count: number): TestShard[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: i,
+    files: [{ path: `/t${i}.spec.ts`, relativePath: `t${i}.spec.ts`, framework: 'playwright' as const, size: 10 }],
+    estimatedDuration: 1000,
+    totalSize: 10,
+  }));
+}
+
+function makePod(shardId: number, phase: string, extra?: Partial<V1Pod['status']>, created = '2025-01-15T10:00:00Z'): V1Pod {
+  return {
+    metadata: {
+      name: `pod-${shardId}-${phase}`,
+      labels: { [SHARD_LABEL]: shardId.toString() },
+      creationTimestamp: new Date(created),
+    },
+    status: { phase, ...extra },
+  };
+}
+
+function makeResult(shard: number, failed = 0): TestResult {
+  return {
+    shard,
+    passed: 2,
+    failed,
+    skipped: 0,
+    duration: 1000,
+    tests: [],
+  };
+}
+
+describe('KubernetesBackend', () => {
+  let client: RecordedKubernetesClient;
+  let backend: KubernetesBackend;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockStorage.ensureBucketExists.mockResolvedValue(undefined);
+    mockStorage.uploadDirectory.mockResolvedValue('s3://test-bucket/code');
+    mockStorage.uploadJSON.mockResolvedValue('s3://test-bucket/json');
+
+    client = new RecordedKubernetesClient();
+    backend = new KubernetesBackend(new Logger(), { namespace: 'ci' }, client);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('run', () => {
+    it('should create one job per shard and aggregate results', async () => {
+      jest.useFakeTimers();
+      client.podResponses = [[makePod(0, 'Succeeded'), makePod(1, 'Succeeded')]];
+      mockStorage.downloadJSON.mockImplementation(async (_bucket: string, key: string) => {
+        const shard = parseInt(key.match(/shard-(\d+)/)![1]);
+        return makeResult(shard);
+      });
+
+      const promise = backend.run({ tests: './e2e', parallel: 2, backend: 'kubernetes', shards: makeShards(2) }, makeConfig());
+      await jest.runAllTimersAsync();
+      const summary = await promise;
+
+      expect(client.createdJobs).toHaveLength(2);
+      expect(client.createdJobs.every(c => c.namespace === 'ci')).toBe(true);
+      expect(summary.backend).toBe('kubernetes');
+      expect(summary.passed).toBe(4);
+      expect(summary.totalTests).toBe(4);
+      expect(summary.results).toHaveLength(2);
+    });
+
+    it('should upload the work queue longest file first for queue shards', async () => {
+      jest.useFakeTimers();
+      client.podResponses = [[makePod(0, 'Succeeded')]];
+      mockStorage.downloadJSON.mockImplementation(async (_bucket: string, key: string) =>
+        key.endsWith('queue.json') ? [] : makeResult(0)
+      );
+      const testFiles = [
+        { path: '/fast.spec.ts', relativePath: 'fast.spec.ts', framework: 'playwright' as const, size: 10, estimatedDuration: 1000 },
+        { path: '/slow.spec.ts', relativePath: 'slow.spec.ts', framework: 'playwright' as const, size: 10, estimatedDuration: 9000 },
+      ];
+      const shards = [{ id: 0, files: [], estimatedDuration: 10000, totalSize: 0, queue: true }];
+
+      const promise = backend.run(
+        { tests: './e2e', parallel: 1, backend: 'kubernetes', shards, testFiles, runId: 'run-q' },
+        makeConfig()
+      );
+      await jest.runAllTimersAsync();
+      await promise;
+
+      const queueUpload = mockStorage.uploadJSON.mock.calls.find(call => call[1] === 'runs/run-q/queue.json');
+      expect(queueUpload![2].map((f: { relativePath: string }) => f.relativePath)).toEqual(['slow.spec.ts', 'fast.spec.ts']);
+    });
+
+    it('should report queued files no worker finished as failed', async () => {
+      jest.useFakeTimers();
+      client.podResponses = [[makePod(0, 'Succeeded'), makePod(1, 'Failed')]];
+      const queue = [
+        { path: '/a.spec.ts', relativePath: 'a.spec.ts', framework: 'playwright' as const, size: 10 },
+        { path: '/b.spec.ts', relativePath: 'b.spec.ts', framework: 'playwright' as const, size: 10 },
+      ];
+      mockStorage.downloadJSON.mockImplementation(async (_bucket: string, key: string) => {
+        if (key.endsWith('queue.json')) return queue;
+        const shard = parseInt(key.match(/shard-(\d+)/)![1]);
+        return { ...makeResult(shard), queueItems: shard === 0 ? [0] : [] };
+      });
+      const shards = [0, 1].map(id => ({ id, files: [], estimatedDuration: 1000, totalSize: 0, queue: true }));
+
+      const promise = backend.run(
+        { tests: './e2e', parallel: 2, backend: 'kubernetes', shards, testFiles: queue, runId: 'run-q' },
+        makeConfig()
+      );
+      await jest.runAllTimersAsync();
+      const summary = await promise;
+
+      const unfinished = summary.results!.flatMap(r => r.tests).filter(t => t.notRun);
+      expect(unfinished).toEqual([expect.objectContaining({ file: 'b.spec.ts', status: 'failed' })]);
+      expect(summary.failed).toBe(1);
+    });
+
+    it('should create a Secret for execution.secrets and delete it after the run', async () => {
+      jest.useFakeTimers();
+      client.podResponses = [[makePod(0, 'Succeeded')]];
+      mockStorage.downloadJSON.mockResolvedValue(makeResult(0));
+      const workerEnv = { API_TOKEN: 's3cr3t', CHEAPTEST_SECRETS: 'API_TOKEN' };
+
+      const promise = backend.run(
+        { tests: './e2e', parallel: 1, backend: 'kubernetes', shards: makeShards(1), runId: 'run-sec', workerEnv },
+        makeConfig()
+      );
+      await jest.runAllTimersAsync();
+      await promise;
+
+      expect(client.createdSecrets).toEqual([{ namespace: 'ci', secret: buildSecret('run-sec', { API_TOKEN: 's3cr3t' }) }]);
+      expect(JSON.stringify(client.createdJobs)).not.toContain('s3cr3t');
+      expect(client.deletedSecretSelectors).toEqual([`${RUN_ID_LABEL}=run-sec`]);
+    });
+
+    it('should not create a Secret for a run without secrets', async () => {
+      jest.useFakeTimers();
+      client.podResponses = [[makePod(0, 'Succeeded')]];
+      mockStorage.downloadJSON.mockResolvedValue(makeResult(0));
+
+      const promise = backend.run(
+        { tests: './e2e', parallel: 1, backend: 'kubernetes', shards: makeShards(1), runId: 'run-plain' },
+        makeConfig()
+      );
+      await jest.runAllTimersAsync();
+      await promise;
+
+      expect(client.createdSecrets).toEqual([]);
+      expect(client.deletedSecretSelectors).toEqual([]);
+    });
+
+    it('should not upload a work queue for static shards', async () => {
+      jest.useFakeTimers();
+      client.podResponses = [[makePod(0, 'Succeeded')]];
+      mockStorage.downloadJSON.mockResolvedValue(makeResult(0));
+      mockStorage.uploadJSON.mockClear();
+
+      const promise = backend.run(
+        { tests: './e2e', parallel: 1, backend: 'kubernetes', shards: makeShards(1), runId: 'run-s' },
+        makeConfig()
+      );
+      await jest.runAllTimersAsync();
+      await promise;
+
+      expect(mockStorage.uploadJSON.mock.calls.some(call => call[1].endsWith('queue.json'))).toBe(false);
+    });
+
+    it('should keep polling until every shard pod has finished', async () => {
+      jest.useFakeTimers();
+      client.podResponses = [
+        [makePod(0, 'Pending')],
+        [makePod(0, 'Running'), makePod(1, 'Running')],
+        [makePod(0, 'Succeeded'), makePod(1, 'Failed')],
+      ];
+      mockStorage.downloadJSON.mockImplementation(async (_bucket: string, key: string) => {
+        const shard = parseInt(key.match(/shard-(\d+)/)![1]);
+        return makeResult(shard, shard === 1 ? 1 : 0);
+      });
+
+      const promise = backend.run({ tests: './e2e', parallel: 2, backend: 'kubernetes', shards: makeShards(2) }, makeConfig());
+      await jest.runAllTimersAsync();
+      const summary = await promise;
+
+      expect(client.podResponses).toHaveLength(1);
+      expect(summary.failed).toBe(1);
+    });
+
+    it('should require a worker image', async () => {
+      const config = makeConfig({ kubernetes: { namespace: 'ci' } });
+
+      await expect(
+        backend.run({ tests: './e2e', parallel: 1, backend: 'kubernetes', shards: makeShards(1) }, config)
+      ).rejects.toThrow('kubernetes.image');
+      expect(client.createdJobs).toHaveLength(0);
+    });
+
+    it('should reject filesystem storage the pods cannot reach', async () => {
+      const config = makeConfig({ storage: { type: 'filesystem', bucket: 'test-bucket', retentionDays: 30 } });
+
+      await expect(
+        backend.run({ tests: './e2e', parallel: 1, backend: 'kubernetes', shards: makeShards(1) }, config)
+      ).rejects.toThrow('Filesystem storage is not reachable from Kubernetes workers');
+      expect(client.createdJobs).toHaveLength(0);
+    });
+
+    it('should delete already-created jobs when job creation fails', async () => {
+      let calls = 0;
+      client.createJob = async (namespace: string, job: V1Job) => {
+        if (++calls === 2) throw new Error('quota exceeded');
+        client.createdJobs.push({ namespace, job });
+      };
+
+      await expect(
+        backend.run({ tests: './e2e', parallel: 3, backend: 'kubernetes', shards: makeShards(3) }, makeConfig())
+      ).rejects.toThrow('quota exceeded');
+
+      expect(client.deletedSelectors).toHaveLength(1);
+      expect(client.deletedSelectors[0].labelSelector).toMatch(new RegExp(`^${RUN_ID_LABEL}=run-`));
+    });
+  });
+
+  describe('status', () => {
+    it('should map pod phases into RunStatus', async () => {
+      const config = makeConfig();
+      client.jobs = makeShards(3).map(s => buildJob('run-1', s, config));
+      client.podResponses = [[makePod(0, 'Succeeded'), makePod(1, 'Running')]];
+
+      const status = await backend.status('run-1');
+
+      expect(status.status).toBe('running');
+      expect(status.progress).toEqual({ total: 3, completed: 1, running: 1, failed: 0 });
+    });
+
+    it('should report failed when all pods finished and one failed', async () => {
+      const config = makeConfig();
+      client.jobs = makeShards(2).map(s => buildJob('run-1', s, config));
+      client.podResponses = [[makePod(0, 'Succeeded'), makePod(1, 'Failed')]];
+
+      const status = await backend.status('run-1');
+
+      expect(status.status).toBe('failed');
+      expect(status.progress.failed).toBe(1);
+    });
+
+    it('should report pending when no pods are scheduled yet', async () => {
+      const config = makeConfig();
+      client.jobs = makeShards(2).map(s => buildJob('run-1', s, config));
+
+      const status = await backend.status('run-1');
+
+      expect(status.status).toBe('pending');
+    });
+
+    it('should throw when the run has no jobs', async () => {
+      await expect(backend.status('run-missing')).rejects.toThrow('No jobs found');
+    });
+  });
+
+  describe('cancel', () => {
+    it('should delete all jobs for the run by label', async () => {
+      await backend.cancel('run-1');
+
+      expect(client.deletedSelectors).toEqual([
+        { namespace: 'ci', labelSelector: `${RUN_ID_LABEL}=run-1` },
+      ]);
+      expect(client.deletedSecretSelectors).toEqual([`${RUN_ID_LABEL}=run-1`]);
+    });
+  });
+});
+
+describe('buildJob', () => {
+  it('should pass the worker environment contract', () => {
+    const job = buildJob('run-1', makeShards(3)[2], makeConfig());
+    const env = job.spec!.template.spec!.containers[0].env!;
+    const envMap = Object.fromEntries(env.map(e => [e.name, e.value]));
+
+    expect(envMap).toEqual({
+      RUN_ID: 'run-1',
+      SHARD_ID: '2',
+      S3_BUCKET: 'test-bucket',
+      AWS_REGION: 'us-east-1',
+      TEST_FRAMEWORK: 'playwright',
+      TEST_TIMEOUT: '600000',
+    });
+  });
+
+  it('should add execution.env and resolved secrets to the environment', () => {
+    const env = buildJob('run-1', makeShards(1)[0], makeConfig(), { API_URL: 'https://staging.example.com' })
+      .spec!.template.spec!.containers[0].env!;
+
+    expect(env).toContainEqual({ name: 'API_URL', value: 'https://staging.example.com' });
+    expect(env).toContainEqual({ name: 'RUN_ID', value: 'run-1' });
+  });
+
+  it('should read secrets from the run\'s Secret instead of setting their values', () => {
+    const workerEnv = { API_TOKEN: 's3cr3t', CHEAPTEST_SECRETS: 'API_TOKEN' };
+
+    const job = buildJob('run-1', makeShards(1)[0], makeConfig(), workerEnv);
+    const env = job.spec!.template.spec!.containers[0].env!;
+
+    expect(JSON.stringify(job)).not.toContain('s3cr3t');
+    expect(env).toContainEqual({
+      name: 'API_TOKEN',
+      valueFrom: { secretKeyRef: { name: 'cheaptest-run-1-secrets', key: 'API_TOKEN' } },
+    });
+    expect(env).toContainEqual({ name: 'CHEAPTEST_SECRETS', value: 'API_TOKEN' });
+  });
+
+  it('should point the worker at a custom storage endpoint', () => {
+    const config = makeConfig({
+      storage: { bucket: 'test-bucket', retentionDays: 30, endpoint: 'http://minio.ci.svc:9000' },
+    });
+
+    const env = buildJob('run-1', makeShards(1)[0], config).spec!.template.spec!.containers[0].env!;
+
+    expect(env).toContainEqual({ name: 'S3_ENDPOINT', value: 'http://minio.ci.svc:9000' });
+  });
+
+  it('should label the job and pod template with run and shard', () => {
+    const job = buildJob('run-1', makeShards(2)[1], makeConfig());
+
+    expect(job.metadata!.name).toBe('cheaptest-run-1-1');
+    expect(job.metadata!.labels![RUN_ID_LABEL]).toBe('run-1');
+    expect(job.spec!.template.metadata!.labels![SHARD_LABEL]).toBe('1');
+  });
+
+  it('should convert ECS cpu units to millicores and never retry', () => {
+    const job = buildJob('run-1', makeShards(1)[0], makeConfig());
+    const container = job.spec!.template.spec!.containers[0];
+
+    expect(container.resources!.requests).toEqual({ cpu: '1000m', memory: '2048Mi' });
+    expect(job.spec!.backoffLimit).toBe(0);
+    expect(job.spec!.template.spec!.restartPolicy).toBe('Never');
+  });
+});
+
+describe('latestPodStates', () => {
+  it('should treat image pull errors as failed', () => {
+    const pod = makePod(0, 'Pending', {
+      containerStatuses: [{
+        name: 'cheaptest-worker',
+        image: 'x',
+        imageID: '',
+        ready: false,
+        restartCount: 0,
+        state: { waiting: { reason: 'ImagePullBackOff' } },
+      }],
+    });
+
+    expect(latestPodStates([pod]).get(0)).toBe('failed');
+  });
+
+  it('should use the newest pod for a shard', () => {
+    const states = latestPodStates([
+      makePod(0, 'Failed', undefined, '2025-01-15T10:00:00Z'),
+      makePod(0, 'Running', undefined, '2025-01-15T10:05:00Z'),
+    ]);
+
+    expect(states.get(0)).toBe('running');
+  });
+
+  it('should ignore pods without a shard label', () => {
+    const states = latestPodStates([{ metadata: { name: 'other' }, status: { phase: 'Running' } }]);
+
+    expect(states.size).toBe(0);
+  });
+});
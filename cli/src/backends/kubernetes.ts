@@ -1,20 +1,630 @@
-import { BackendInterface, RunOptions, CheaptestConfig, RunSummary, RunStatus } from '../types';
+import type { V1Job, V1Pod, V1Secret } from '@kubernetes/client-node';
+import { Storage, createStorage } from '../storage';
+import { KubernetesApi, createKubernetesClient } from '../kubernetes/client';
+import {
+  BackendInterface,
+  RunOptions,
+  CheaptestConfig,
+  RunSummary,
+  RunStatus,
+  TestShard,
+} from '../types';
 import { Logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/retry';
+import {
+  requireSharedStorage,
+  ensureBucket,
+  uploadTestCode,
+  uploadShards,
+  uploadQueue,
+  aggregateResults,
+  reportUnfinishedQueueItems,
+  retryFailedTests,
+  waitForWorkersToStop,
+  showProgress,
+  logRunSummary,
+} from './common';
+import { countFlaky } from '../core/retries';
+import { splitSecretEnv } from '../core/secrets';
+
+export const RUN_ID_LABEL = 'cheaptest.io/run-id';
+export const SHARD_LABEL = 'cheaptest.io/shard';
+
+const DEFAULT_NAMESPACE = 'default';
+const POLL_INTERVAL_MS = 5000;
+
+export type PodState = 'pending' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * `data` of runs/<id>/jobs.json
+ */
+interface JobsManifest {
+  jobNames: string[];
+  namespace: string;
+  context?: string;
+  createdAt: string;
+}
+
+// Container waiting reasons that will never resolve on their own
+const FATAL_WAITING_REASONS = [
+  'ErrImagePull',
+  'ImagePullBackOff',
+  'InvalidImageName',
+  'CreateContainerConfigError',
+  'CreateContainerError',
+];
 
 export class KubernetesBackend implements BackendInterface {
-  constructor(_logger: Logger) {
-    // Logger will be used when backend is implemented
+  private logger: Logger;
+  private client: KubernetesApi | null;
+  private namespace: string;
+  private context?: string;
+  lastRunId: string | null = null;
+
+  constructor(
+    logger: Logger,
+    k8sConfig: CheaptestConfig['kubernetes'] = {},
+    client?: KubernetesApi
+  ) {
+    this.logger = logger;
+    this.namespace = k8sConfig.namespace || DEFAULT_NAMESPACE;
+    this.context = k8sConfig.context;
+    this.client = client || null;
+  }
+
+  async run(options: RunOptions, config: CheaptestConfig): Promise<RunSummary> {
+    // Validate config before making any cluster calls
+    if (!config.kubernetes?.image) {
+      throw new Error('No worker image configured. Add kubernetes.image to your .cheaptest.yml');
+    }
+    requireSharedStorage(config, 'Kubernetes');
+
+    this.namespace = config.kubernetes.namespace || DEFAULT_NAMESPACE;
+    this.context = config.kubernetes.context;
+    const client = await this.getClient();
+    const storage = createStorage(config);
+
+    const runId = options.runId || `run-${Date.now()}`;
+    this.lastRunId = runId;
+    const startTime = new Date();
+    const shards = options.shards!;
+    let hasSecret = false;
+
+    this.logger.info('');
+    this.logger.info('='.repeat(60));
+    this.logger.info(`Starting Kubernetes Run: ${runId}`);
+    this.logger.info('='.repeat(60));
+    this.logger.info('');
+
+    try {
+      // Step 0: Ensure storage bucket exists
+      await ensureBucket(storage, config, this.logger);
+
+      // Step 1: Upload test code
+      await uploadTestCode(storage, runId, config, this.logger, 'kubernetes');
+
+      // Step 2: Upload shard configuration
+      await uploadShards(storage, shards, runId, config, this.logger);
+      if (shards.some(s => s.queue)) {
+        await uploadQueue(storage, options.testFiles || [], runId, config, this.logger);
+      }
+
+      // Step 3: Create one Job per shard, reading execution.secrets from a
+      // Secret for the run
+      hasSecret = await this.createSecret(client, runId, options.workerEnv);
+      await this.createJobs(client, runId, shards, config, options.workerEnv);
+      await this.persistJobNames(storage, runId, shards, config);
+
+      // Step 4: Wait for pods to finish
+      let { timedOut } = await this.waitForCompletion(client, storage, runId, shards, config);
+
+      // Step 5: Aggregate results (even if some pods had test failures)
+      const firstWave = await aggregateResults(storage, runId, shards.map(s => s.id), config, this.logger);
+
+      // Stopped pods may not have uploaded any
+      if (firstWave.length < shards.length && !timedOut) {
+        throw new Error(
+          `Failed to collect all shard results: got ${firstWave.length}/${shards.length}. ` +
+          `Check S3 bucket for missing shard-*.json files.`
+        );
+      }
+
+      let cost = this.estimateCost(Date.now() - startTime.getTime(), shards.length, config);
+
+      // Files a queue worker claimed but never finished count as failed
+      const checkedWave = await reportUnfinishedQueueItems(storage, runId, shards, firstWave, config, this.logger);
+
+      // Step 6: Re-run files with failed tests in new jobs (--retries)
+      const { results, interrupted } = await retryFailedTests(
+        checkedWave,
+        shards,
+        options,
+        this.logger,
+        async (retryShards, allShards) => {
+          const waveStart = Date.now();
+          await uploadShards(storage, allShards, runId, config, this.logger);
+
+          await this.createJobs(client, runId, retryShards, config, options.workerEnv);
+          await this.persistJobNames(storage, runId, allShards, config);
+          const wave = await this.waitForCompletion(client, storage, runId, retryShards, config);
+          timedOut = timedOut || wave.timedOut;
+
+          const waveResults = await aggregateResults(
+            storage, runId, retryShards.map(s => s.id), config, this.logger
+          );
+          cost += this.estimateCost(Date.now() - waveStart, retryShards.length, config);
+          return waveResults;
+        }
+      );
+
+      const endTime = new Date();
+      const duration = endTime.getTime() - startTime.getTime();
+
+      const summary: RunSummary = {
+        runId,
+        backend: 'kubernetes',
+        totalTests: results.reduce((sum, r) => sum + r.passed + r.failed + r.skipped, 0),
+        passed: results.reduce((sum, r) => sum + r.passed, 0),
+        failed: results.reduce((sum, r) => sum + r.failed, 0),
+        skipped: results.reduce((sum, r) => sum + r.skipped, 0),
+        flaky: countFlaky(results),
+        ...((timedOut || interrupted) && { interrupted: true }),
+        duration,
+        cost,
+        startTime,
+        endTime,
+        results,
+      };
+
+      logRunSummary(summary, this.logger);
+
+      return summary;
+    } catch (error) {
+      this.logger.error(`Run failed: ${error}`);
+      throw error;
+    } finally {
+      // Finished jobs linger until ttlSecondsAfterFinished; their secrets don't
+      if (hasSecret) {
+        await this.deleteSecret(client, runId);
+      }
+    }
+  }
+
+  async status(runId: string): Promise<RunStatus> {
+    const client = await this.getClient();
+    const selector = `${RUN_ID_LABEL}=${runId}`;
+
+    const jobs = await client.listJobs(this.namespace, selector);
+    if (jobs.length === 0) {
+      throw new Error(`No jobs found for run ${runId} in namespace ${this.namespace}`);
+    }
+
+    const states = await this.shardStates(runId);
+
+    // Jobs without a pod yet are still waiting to be scheduled
+    const running = [...states.values()].filter(s => s === 'running').length;
+    const failed = [...states.values()].filter(s => s === 'failed').length;
+    const completed = [...states.values()].filter(s => s === 'succeeded').length + failed;
+    const total = jobs.length;
+
+    let status: RunStatus['status'];
+    if (completed === total) {
+      status = failed > 0 ? 'failed' : 'completed';
+    } else if (running > 0 || completed > 0) {
+      status = 'running';
+    } else {
+      status = 'pending';
+    }
+
+    const creationTimes = jobs
+      .map(job => job.metadata?.creationTimestamp)
+      .filter((t): t is Date => t !== undefined)
+      .map(t => new Date(t).getTime());
+
+    const completionTimes = jobs
+      .map(job => job.status?.completionTime)
+      .filter((t): t is Date => t !== undefined)
+      .map(t => new Date(t).getTime());
+
+    return {
+      runId,
+      status,
+      progress: { total, completed, running, failed },
+      startTime: new Date(creationTimes.length > 0 ? Math.min(...creationTimes) : Date.now()),
+      endTime: completed === total && completionTimes.length > 0
+        ? new Date(Math.max(...completionTimes))
+        : undefined,
+    };
+  }
+
+  /**
+   * The state of each shard's latest pod. Shards whose pod hasn't been
+   * created yet are missing.
+   */
+  async shardStates(runId: string): Promise<Map<number, PodState>> {
+    const client = await this.getClient();
+    return latestPodStates(await client.listPods(this.namespace, `${RUN_ID_LABEL}=${runId}`));
+  }
+
+  async cancel(runId: string): Promise<void> {
+    const client = await this.getClient();
+    await client.deleteJobs(this.namespace, `${RUN_ID_LABEL}=${runId}`);
+    await this.deleteSecret(client, runId);
+  }
+
+  private async getClient(): Promise<KubernetesApi> {
+    if (!this.client) {
+      this.client = await createKubernetesClient(this.context);
+    }
+    return this.client;
+  }
+
+  /**
+   * Persist job names for status/cancel (non-fatal)
+   */
+  private async persistJobNames(
+    storage: Storage,
+    runId: string,
+    shards: TestShard[],
+    config: CheaptestConfig
+  ): Promise<void> {
+    try {
+      const manifest: JobsManifest = {
+        jobNames: shards.map(shard => jobName(runId, shard.id)),
+        namespace: this.namespace,
+        context: this.context,
+        createdAt: new Date().toISOString(),
+      };
+      await storage.uploadJSON(config.storage.bucket, `runs/${runId}/jobs.json`, manifest);
+    } catch (err: unknown) {
+      if (config.output.verbose) {
+        this.logger.debug(`Warning: could not persist job names: ${getErrorMessage(err)}`);
+      }
+    }
+  }
+
+  /**
+   * Store the resolved execution.secrets in a Secret the jobs reference,
+   * so their values aren't part of the Job spec. Returns false when the
+   * run has no secrets.
+   */
+  private async createSecret(
+    client: KubernetesApi,
+    runId: string,
+    env: Record<string, string> = {}
+  ): Promise<boolean> {
+    const { secrets } = splitSecretEnv(env);
+    if (Object.keys(secrets).length === 0) return false;
+
+    await client.createSecret(this.namespace, buildSecret(runId, secrets));
+    return true;
+  }
+
+  private async deleteSecret(client: KubernetesApi, runId: string): Promise<void> {
+    try {
+      await client.deleteSecrets(this.namespace, `${RUN_ID_LABEL}=${runId}`);
+    } catch (err: unknown) {
+      this.logger.warn(`Could not delete the run's secret ${secretName(runId)}: ${getErrorMessage(err)}`);
+    }
   }
 
-  async run(_options: RunOptions, _config: CheaptestConfig): Promise<RunSummary> {
-    throw new Error('Kubernetes backend not implemented yet');
+  private async createJobs(
+    client: KubernetesApi,
+    runId: string,
+    shards: TestShard[],
+    config: CheaptestConfig,
+    env: Record<string, string> = {}
+  ): Promise<void> {
+    this.logger.startSpinner(`Creating ${shards.length} Kubernetes jobs...`);
+
+    try {
+      for (const shard of shards) {
+        const job = buildJob(runId, shard, config, env);
+        await client.createJob(this.namespace, job);
+
+        if (config.output.verbose) {
+          this.logger.debug(`  Shard ${shard.id}: ${this.namespace}/${job.metadata!.name}`);
+        }
+      }
+
+      this.logger.succeedSpinner(`${shards.length} Kubernetes jobs created in namespace ${this.namespace}`);
+    } catch (error: unknown) {
+      this.logger.failSpinner(`Failed to create Kubernetes jobs: ${getErrorMessage(error)}`);
+      // Don't leave the jobs that did start running unattended
+      try {
+        await client.deleteJobs(this.namespace, `${RUN_ID_LABEL}=${runId}`);
+      } catch {
+        // Best effort
+      }
+      throw error;
+    }
   }
 
-  async status(_runId: string): Promise<RunStatus> {
-    throw new Error('Status not implemented yet');
+  private async waitForCompletion(
+    client: KubernetesApi,
+    storage: Storage,
+    runId: string,
+    shards: TestShard[],
+    config: CheaptestConfig
+  ): Promise<{ failedShards: number[]; timedOut: boolean }> {
+    this.logger.info('');
+    this.logger.startSpinner('Waiting for pods to complete...');
+
+    const startTime = Date.now();
+    // Convert timeout from minutes to milliseconds, with 1.5x buffer
+    const timeout = config.execution.timeout * 60 * 1000 * 1.5;
+    const selector = `${RUN_ID_LABEL}=${runId}`;
+    const shardIds = shards.map(s => s.id);
+    const shardCount = shardIds.length;
+    const stalled = new Set<number>();
+
+    while (true) {
+      const elapsed = Date.now() - startTime;
+
+      if (elapsed > timeout) {
+        this.logger.failSpinner('Pods timed out');
+        // Delete jobs to prevent pods from holding cluster capacity
+        try {
+          await client.deleteJobs(this.namespace, selector);
+        } catch {
+          // Jobs may already be gone
+        }
+
+        // Deleted pods get SIGTERM, and workers upload the tests they finished
+        await waitForWorkersToStop(async () => {
+          const remaining = (await client.listPods(this.namespace, selector))
+            .filter(pod => shardIds.includes(parseInt(pod.metadata?.labels?.[SHARD_LABEL] ?? '-1')));
+          return remaining.every(pod => podState(pod) !== 'running' && podState(pod) !== 'pending');
+        }, POLL_INTERVAL_MS, this.logger);
+        this.logger.warn('Pods exceeded timeout and their jobs were deleted. Results are partial.');
+        return { failedShards: [], timedOut: true };
+      }
+
+      // Earlier retry waves share the run label, so only watch this wave's shards
+      const pods = (await client.listPods(this.namespace, selector))
+        .filter(pod => shardIds.includes(parseInt(pod.metadata?.labels?.[SHARD_LABEL] ?? '-1')));
+      const states = latestPodStates(pods);
+
+      const values = [...states.values()];
+      const running = values.filter(s => s === 'running').length;
+      const finished = values.filter(s => s === 'succeeded' || s === 'failed').length;
+      const pending = shardCount - running - finished;
+
+      await showProgress(
+        storage, runId, shards, config, this.logger,
+        `Running pods... ${finished}/${shardCount} complete (${(elapsed / 1000).toFixed(0)}s)`, stalled
+      );
+
+      if (config.output.verbose) {
+        this.logger.debug(`  Pending: ${pending}, Running: ${running}, Finished: ${finished}`);
+      }
+
+      if (finished === shardCount) {
+        const failedShards = [...states.entries()]
+          .filter(([, state]) => state === 'failed')
+          .map(([shardId]) => shardId)
+          .sort((a, b) => a - b);
+
+        if (failedShards.length > 0) {
+          // Log failures but don't throw - allow aggregation to collect results first
+          this.logger.stopSpinner();
+          this.logger.warn(`${shardCount} pods completed (${failedShards.length} with test failures)`);
+
+          if (config.output.verbose) {
+            for (const pod of pods) {
+              if (podState(pod) !== 'failed') continue;
+              const reason = podFailureReason(pod);
+              this.logger.warn(
+                `  Pod ${pod.metadata?.name} failed${reason ? `: ${reason}` : ''}`
+              );
+            }
+          }
+        } else {
+          this.logger.succeedSpinner(`All ${shardCount} pods completed successfully`);
+        }
+
+        return { failedShards, timedOut: false };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+
+  private estimateCost(
+    durationMs: number,
+    shardCount: number,
+    config: CheaptestConfig
+  ): number {
+    // EKS + EC2 spot pricing (approximate)
+    // Assuming t3a.large spot at $0.0188/hour with 4 vCPU per node
+    const durationHours = durationMs / (1000 * 60 * 60);
+    const nodesNeeded = Math.ceil((shardCount * config.execution.cpu) / (4 * 1024));
+
+    return nodesNeeded * 0.0188 * durationHours;
+  }
+}
+
+/**
+ * A backend for an existing run, pointed at the namespace and context its
+ * jobs were created in (runs/<id>/jobs.json), for `status` and `cancel`
+ */
+export async function kubernetesBackendForRun(
+  storage: Storage,
+  config: CheaptestConfig,
+  runId: string,
+  logger: Logger
+): Promise<KubernetesBackend> {
+  let k8sConfig = config.kubernetes || {};
+  try {
+    const manifest = await storage.downloadJSON<JobsManifest>(config.storage.bucket, `runs/${runId}/jobs.json`);
+    k8sConfig = { ...k8sConfig, namespace: manifest.namespace, context: manifest.context };
+  } catch {
+    // Job names weren't persisted; use the configured namespace
+  }
+  return new KubernetesBackend(logger, k8sConfig);
+}
+
+export function jobName(runId: string, shardId: number): string {
+  return `cheaptest-${runId}-${shardId}`;
+}
+
+export function secretName(runId: string): string {
+  return `cheaptest-${runId}-secrets`;
+}
+
+/**
+ * The run's Secret, one key per execution.secrets variable
+ */
+export function buildSecret(runId: string, secrets: Record<string, string>): V1Secret {
+  return {
+    apiVersion: 'v1',
+    kind: 'Secret',
+    metadata: {
+      name: secretName(runId),
+      labels: {
+        'app.kubernetes.io/name': 'cheaptest-worker',
+        [RUN_ID_LABEL]: runId,
+      },
+    },
+    type: 'Opaque',
+    stringData: secrets,
+  };
+}
+
+/**
+ * Build the Job for a shard. The worker reads the same environment
+ * contract as on ECS, so the container image is identical. `env` holds
+ * execution.env and the resolved execution.secrets; secrets are read from
+ * the run's Secret (see buildSecret) rather than set by value.
+ */
+export function buildJob(
+  runId: string,
+  shard: TestShard,
+  config: CheaptestConfig,
+  env: Record<string, string> = {}
+): V1Job {
+  const labels = {
+    'app.kubernetes.io/name': 'cheaptest-worker',
+    [RUN_ID_LABEL]: runId,
+    [SHARD_LABEL]: shard.id.toString(),
+  };
+
+  // ECS CPU units are 1/1024 vCPU, Kubernetes uses millicores
+  const cpu = `${Math.round((config.execution.cpu / 1024) * 1000)}m`;
+  const memory = `${config.execution.memory}Mi`;
+  const { plain, secrets } = splitSecretEnv(env);
+
+  return {
+    apiVersion: 'batch/v1',
+    kind: 'Job',
+    metadata: {
+      name: jobName(runId, shard.id),
+      labels,
+    },
+    spec: {
+      backoffLimit: 0,
+      activeDeadlineSeconds: Math.ceil(config.execution.timeout * 60 * 1.5),
+      ttlSecondsAfterFinished: 3600,
+      template: {
+        metadata: { labels },
+        spec: {
+          restartPolicy: 'Never',
+          serviceAccountName: config.kubernetes?.serviceAccount,
+          containers: [
+            {
+              name: 'cheaptest-worker',
+              image: config.kubernetes!.image,
+              env: [
+                ...Object.entries(plain).map(([name, value]) => ({ name, value })),
+                ...Object.keys(secrets).map(name => ({
+                  name,
+                  valueFrom: { secretKeyRef: { name: secretName(runId), key: name } },
+                })),
+                { name: 'RUN_ID', value: runId },
+                { name: 'SHARD_ID', value: shard.id.toString() },
+                { name: 'S3_BUCKET', value: config.storage.bucket },
+                { name: 'AWS_REGION', value: config.aws.region },
+                { name: 'TEST_FRAMEWORK', value: config.tests.framework },
+                { name: 'TEST_TIMEOUT', value: (config.execution.timeout * 60 * 1000).toString() },
+                ...(config.storage.endpoint ? [{ name: 'S3_ENDPOINT', value: config.storage.endpoint }] : []),
+                ...(config.tests.runner ? [{ name: 'TEST_RUNNER_MODULE', value: config.tests.runner }] : []),
+              ],
+              resources: {
+                requests: { cpu, memory },
+                limits: { cpu, memory },
+              },
+            },
+          ],
+        },
+      },
+    },
+  };
+}
+
+export function podState(pod: V1Pod): PodState {
+  switch (pod.status?.phase) {
+    case 'Succeeded':
+      return 'succeeded';
+    case 'Failed':
+      return 'failed';
+    case 'Running':
+      return 'running';
+    default:
+      // A pod that can never start would otherwise sit in Pending until the deadline
+      return fatalWaitingReason(pod) ? 'failed' : 'pending';
+  }
+}
+
+function fatalWaitingReason(pod: V1Pod): string | undefined {
+  for (const container of pod.status?.containerStatuses || []) {
+    const waiting = container.state?.waiting;
+    if (waiting?.reason && FATAL_WAITING_REASONS.includes(waiting.reason)) {
+      return waiting.message ? `${waiting.reason}: ${waiting.message}` : waiting.reason;
+    }
+  }
+  return undefined;
+}
+
+function podFailureReason(pod: V1Pod): string | undefined {
+  const waitingReason = fatalWaitingReason(pod);
+  if (waitingReason) {
+    return waitingReason;
+  }
+
+  for (const container of pod.status?.containerStatuses || []) {
+    const terminated = container.state?.terminated;
+    if (terminated && terminated.exitCode !== 0) {
+      return `exited with code ${terminated.exitCode}${terminated.reason ? ` (${terminated.reason})` : ''}`;
+    }
+  }
+
+  return pod.status?.reason;
+}
+
+/**
+ * Map pods to per-shard state, keyed by shard ID.
+ * If a shard has several pods (e.g. a rescheduled one), the newest wins.
+ */
+export function latestPodStates(pods: V1Pod[]): Map<number, PodState> {
+  const newest = new Map<number, V1Pod>();
+
+  for (const pod of pods) {
+    const shardLabel = pod.metadata?.labels?.[SHARD_LABEL];
+    if (shardLabel === undefined) continue;
+
+    const shardId = parseInt(shardLabel);
+    const existing = newest.get(shardId);
+    const created = new Date(pod.metadata?.creationTimestamp || 0).getTime();
+    const existingCreated = new Date(existing?.metadata?.creationTimestamp || 0).getTime();
+
+    if (!existing || created >= existingCreated) {
+      newest.set(shardId, pod);
+    }
   }
 
-  async cancel(_runId: string): Promise<void> {
-    throw new Error('Cancel not implemented yet');
+  const states = new Map<number, PodState>();
+  for (const [shardId, pod] of newest) {
+    states.set(shardId, podState(pod));
   }
-}
\ No newline at end of file
+  return states;
+}
@@ -0,0 +1,391 @@
+import path from 'path';
+import {
+  LocalBackend,
+  buildContainerSpec,
+  RUN_ID_LABEL,
+  SHARD_LABEL,
+} from './local';
+import { DockerApi, ContainerInfo, ContainerSpec, buildRunArgs } from '../local/docker';
+import { Logger } from '../utils/logger';
+import { CheaptestConfig, TestResult, TestShard } from '../types';
+
+const mockStorage = {
+  ensureBucketExists: jest.fn(),
+  uploadDirectory: jest.fn(),
+  uploadJSON: jest.fn(),
+  downloadJSON: jest.fn(),
+  exists: jest.fn(),
+};
+
+jest.mock('../storage', () => ({
+  ...jest.requireActual('../storage'),
+  createStorage: () => mockStorage,
+}));
+
+jest.mock('../core/bundle', () => ({
+  createBundle: async () => ({
+    hash: 'abc123',
+    key: 'cache/test-code/abc123.tar.gz',
+    files: [{ path: 'login.spec.ts', size: 120 }],
+    size: 120,
+  }),
+}));
+
+/**
+ * Records started containers and replays scripted container listings,
+ * standing in for the Docker daemon.
+ */
+class FakeDocker implements DockerApi {
+  started: ContainerSpec[] = [];
+  stoppedLabels: string[] = [];
+  removedLabels: string[] = [];
+  listResponses: ContainerInfo[][] = [];
+
+  async run(spec: ContainerSpec): Promise<string> {
+    this.started.push(spec);
+    return `id-${spec.name}`;
+  }
+
+  async list(_label: string): Promise<ContainerInfo[]> {
+    // Keep returning the last response once the script runs out
+    return this.listResponses.length > 1 ? this.listResponses.shift()! : this.listResponses[0] || [];
+  }
+
+  async stop(label: string): Promise<void> {
+    this.stoppedLabels.push(label);
+  }
+
+  async remove(label: string): Promise<void> {
+    this.removedLabels.push(label);
+  }
+}
+
+function makeConfig(overrides?: Partial<CheaptestConfig>): CheaptestConfig {
+  return {
+    version: 1,
+    aws: { region: 'us-east-1', cluster: 'c', taskDefinition: 't', subnets: [], securityGroups: [] },
+    tests: { directory: './e2e', pattern: '', framework: 'playwright' },
+    execution: { cpu: 1024, memory: 2048, timeout: 10 },
+    storage: { type: 'filesystem', bucket: 'test-bucket', retentionDays: 30, path: '/tmp/cheaptest-storage' },
+    output: { format: 'pretty', verbose: false },
+    ...overrides,
+  };
+}
+
+function makeShards(count: number): TestShard[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: i,
+    files: [{ path: `/t${i}.spec.ts`, relativePath: `t${i}.spec.ts`, framework: 'playwright' as const, size: 10 }],
+    estimatedDuration: 1000,
+    totalSize: 10,
+  }));
+}
+
+function makeContainer(shardId: number, state: string, exitCode = 0): ContainerInfo {
+  return {
+    id: `id-${shardId}`,
+    name: `cheaptest-run-1-${shardId}`,
+    labels: { [RUN_ID_LABEL]: 'run-1', [SHARD_LABEL]: shardId.toString() },
+    state,
+    exitCode,
+    createdAt: new Date('2025-01-15T10:00:00Z'),
+    finishedAt: state === 'exited' ? new Date('2025-01-15T10:05:00Z') : undefined,
+  };
+}
+
+function makeResult(shard: number, failed = 0): TestResult {
+  return {
+    shard,
+    passed: 2,
+    failed,
+    skipped: 0,
+    duration: 1000,
+    tests: [],
+  };
+}
+
+describe('LocalBackend', () => {
+  let docker: FakeDocker;
+  let backend: LocalBackend;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockStorage.ensureBucketExists.mockResolvedValue(undefined);
+    mockStorage.uploadDirectory.mockResolvedValue('/tmp/code');
+    mockStorage.exists.mockResolvedValue(false);
+    mockStorage.uploadJSON.mockResolvedValue('/tmp/json');
+    mockStorage.downloadJSON.mockImplementation(async (_bucket: string, key: string) => {
+      const shard = parseInt(key.match(/shard-(\d+)/)![1]);
+      return makeResult(shard);
+    });
+
+    docker = new FakeDocker();
+    backend = new LocalBackend(new Logger(), docker);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('run', () => {
+    it('should start one container per shard and aggregate results', async () => {
+      jest.useFakeTimers();
+      docker.listResponses = [[makeContainer(0, 'exited'), makeContainer(1, 'exited')]];
+
+      const promise = backend.run({ tests: './e2e', parallel: 2, backend: 'local', shards: makeShards(2) }, makeConfig());
+      await jest.runAllTimersAsync();
+      const summary = await promise;
+
+      expect(docker.started).toHaveLength(2);
+      expect(mockStorage.uploadDirectory).toHaveBeenCalled();
+      expect(summary.backend).toBe('local');
+      expect(summary.passed).toBe(4);
+      expect(summary.cost).toBe(0);
+    });
+
+    it('should upload the test code bundle and point the run manifest at it', async () => {
+      jest.useFakeTimers();
+      docker.listResponses = [[makeContainer(0, 'exited')]];
+
+      const promise = backend.run({ tests: './e2e', parallel: 1, backend: 'local', shards: makeShards(1), runId: 'run-1' }, makeConfig());
+      await jest.runAllTimersAsync();
+      await promise;
+
+      expect(mockStorage.uploadDirectory).toHaveBeenCalledWith(
+        './e2e', 'test-bucket', 'cache/test-code/abc123.tar.gz', ['login.spec.ts']
+      );
+      expect(mockStorage.uploadJSON).toHaveBeenCalledWith(
+        'test-bucket', 'runs/run-1/manifest.json', { testCode: 'cache/test-code/abc123.tar.gz', hash: 'abc123', backend: 'local' }
+      );
+    });
+
+    it('should not upload test code that is already stored', async () => {
+      jest.useFakeTimers();
+      mockStorage.exists.mockResolvedValue(true);
+      mockStorage.uploadDirectory.mockClear();
+      docker.listResponses = [[makeContainer(0, 'exited')]];
+
+      const promise = backend.run({ tests: './e2e', parallel: 1, backend: 'local', shards: makeShards(1), runId: 'run-1' }, makeConfig());
+      await jest.runAllTimersAsync();
+      await promise;
+
+      expect(mockStorage.uploadDirectory).not.toHaveBeenCalled();
+      expect(mockStorage.uploadJSON).toHaveBeenCalledWith(
+        'test-bucket', 'runs/run-1/manifest.json', expect.objectContaining({ testCode: 'cache/test-code/abc123.tar.gz' })
+      );
+    });
+
+    it('should keep polling until every shard container has exited', async () => {
+      jest.useFakeTimers();
+      docker.listResponses = [
+        [makeContainer(0, 'created')],
+        [makeContainer(0, 'running'), makeContainer(1, 'running')],
+        [makeContainer(0, 'exited'), makeContainer(1, 'exited', 1)],
+      ];
+      mockStorage.downloadJSON.mockImplementation(async (_bucket: string, key: string) => {
+        const shard = parseInt(key.match(/shard-(\d+)/)![1]);
+        return makeResult(shard, shard === 1 ? 1 : 0);
+      });
+
+      const promise = backend.run({ tests: './e2e', parallel: 2, backend: 'local', shards: makeShards(2) }, makeConfig());
+      await jest.runAllTimersAsync();
+      const summary = await promise;
+
+      expect(docker.listResponses).toHaveLength(1);
+      expect(summary.failed).toBe(1);
+    });
+
+    it('should stop timed-out containers and report their partial results', async () => {
+      jest.useFakeTimers();
+      docker.listResponses = [[makeContainer(0, 'exited'), makeContainer(1, 'running')]];
+      mockStorage.downloadJSON.mockImplementation(async (_bucket: string, key: string) => {
+        const shard = parseInt(key.match(/shard-(\d+)/)![1]);
+        return shard === 1 ? { ...makeResult(1), passed: 1, interrupted: true } : makeResult(0);
+      });
+
+      const promise = backend.run({ tests: './e2e', parallel: 2, backend: 'local', shards: makeShards(2) }, makeConfig());
+      await jest.runAllTimersAsync();
+      const summary = await promise;
+
+      expect(docker.stoppedLabels).toHaveLength(1);
+      expect(summary.interrupted).toBe(true);
+      expect(summary.passed).toBe(3);
+    });
+
+    it('should not retry after workers were stopped', async () => {
+      jest.useFakeTimers();
+      docker.listResponses = [[makeContainer(0, 'exited', 1)]];
+      mockStorage.downloadJSON.mockResolvedValue({ ...makeResult(0, 1), interrupted: true });
+
+      const promise = backend.run(
+        { tests: './e2e', parallel: 1, backend: 'local', shards: makeShards(1), retries: 2 },
+        makeConfig()
+      );
+      await jest.runAllTimersAsync();
+      const summary = await promise;
+
+      expect(docker.started).toHaveLength(1);
+      expect(summary.interrupted).toBe(true);
+    });
+
+    it('should remove already-started containers when a container fails to start', async () => {
+      let calls = 0;
+      docker.run = async (spec: ContainerSpec) => {
+        if (++calls === 2) throw new Error('image not found');
+        docker.started.push(spec);
+        return spec.name;
+      };
+
+      await expect(
+        backend.run({ tests: './e2e', parallel: 3, backend: 'local', shards: makeShards(3) }, makeConfig())
+      ).rejects.toThrow('image not found');
+
+      expect(docker.removedLabels).toHaveLength(1);
+      expect(docker.removedLabels[0]).toMatch(new RegExp(`^${RUN_ID_LABEL}=run-`));
+    });
+  });
+
+  describe('status', () => {
+    it('should map container states into RunStatus', async () => {
+      docker.listResponses = [[makeContainer(0, 'exited'), makeContainer(1, 'running'), makeContainer(2, 'created')]];
+
+      const status = await backend.status('run-1');
+
+      expect(status.status).toBe('running');
+      expect(status.progress).toEqual({ total: 3, completed: 1, running: 1, failed: 0 });
+    });
+
+    it('should report failed when all containers exited and one failed', async () => {
+      docker.listResponses = [[makeContainer(0, 'exited'), makeContainer(1, 'exited', 1)]];
+
+      const status = await backend.status('run-1');
+
+      expect(status.status).toBe('failed');
+      expect(status.progress.failed).toBe(1);
+      expect(status.endTime).toEqual(new Date('2025-01-15T10:05:00Z'));
+    });
+
+    it('should throw when the run has no containers', async () => {
+      await expect(backend.status('run-missing')).rejects.toThrow('No containers found');
+    });
+  });
+
+  describe('cancel', () => {
+    it('should stop then remove all containers for the run by label', async () => {
+      await backend.cancel('run-1');
+
+      expect(docker.stoppedLabels).toEqual([`${RUN_ID_LABEL}=run-1`]);
+      expect(docker.removedLabels).toEqual([`${RUN_ID_LABEL}=run-1`]);
+    });
+  });
+});
+
+describe('buildContainerSpec', () => {
+  it('should pass the worker environment contract', () => {
+    const spec = buildContainerSpec('run-1', makeShards(3)[2], makeConfig());
+
+    expect(spec.env).toEqual({
+      RUN_ID: 'run-1',
+      SHARD_ID: '2',
+      S3_BUCKET: 'test-bucket',
+      AWS_REGION: 'us-east-1',
+      TEST_FRAMEWORK: 'playwright',
+      TEST_TIMEOUT: '600000',
+      STORAGE_DIR: '/storage',
+    });
+    expect(spec.name).toBe('cheaptest-run-1-2');
+    expect(spec.labels).toEqual({ [RUN_ID_LABEL]: 'run-1', [SHARD_LABEL]: '2' });
+  });
+
+  it('should add execution.env and resolved secrets to the environment', () => {
+    const spec = buildContainerSpec('run-1', makeShards(1)[0], makeConfig(), { API_URL: 'https://staging.example.com' });
+
+    expect(spec.env.API_URL).toBe('https://staging.example.com');
+    expect(spec.env.RUN_ID).toBe('run-1');
+  });
+
+  it('should keep secret values out of env and pass them by name', () => {
+    const env = { API_URL: 'https://staging.example.com', API_TOKEN: 's3cr3t', CHEAPTEST_SECRETS: 'API_TOKEN' };
+
+    const spec = buildContainerSpec('run-1', makeShards(1)[0], makeConfig(), env);
+
+    expect(spec.env.API_TOKEN).toBeUndefined();
+    expect(spec.env.CHEAPTEST_SECRETS).toBe('API_TOKEN');
+    expect(spec.secretEnv).toEqual({ API_TOKEN: 's3cr3t' });
+    expect(buildRunArgs(spec).join(' ')).not.toContain('s3cr3t');
+  });
+
+  it('should mount the storage directory by absolute path', () => {
+    const config = makeConfig({ storage: { type: 'filesystem', bucket: 'test-bucket', retentionDays: 30, path: 'tmp/storage' } });
+
+    const spec = buildContainerSpec('run-1', makeShards(1)[0], config);
+
+    expect(spec.volumes).toEqual([`${path.resolve('tmp/storage')}:/storage`]);
+  });
+
+  it('should point the worker at an S3-compatible endpoint without mounting storage', () => {
+    const config = makeConfig({
+      storage: { bucket: 'test-bucket', retentionDays: 30, endpoint: 'http://minio:9000' },
+      local: { network: 'cheaptest' },
+    });
+
+    const spec = buildContainerSpec('run-1', makeShards(1)[0], config);
+
+    expect(spec.env.S3_ENDPOINT).toBe('http://minio:9000');
+    expect(spec.env.STORAGE_DIR).toBeUndefined();
+    expect(spec.volumes).toBeUndefined();
+    expect(spec.network).toBe('cheaptest');
+  });
+
+  it('should tell the worker where the custom runner module is', () => {
+    const config = makeConfig({ tests: { directory: './e2e', pattern: '', framework: 'mocha-api', runner: 'runners/mocha.js' } });
+
+    const spec = buildContainerSpec('run-1', makeShards(1)[0], config);
+
+    expect(spec.env.TEST_FRAMEWORK).toBe('mocha-api');
+    expect(spec.env.TEST_RUNNER_MODULE).toBe('runners/mocha.js');
+  });
+
+  it('should default to the locally built worker image', () => {
+    expect(buildContainerSpec('run-1', makeShards(1)[0], makeConfig()).image).toBe('cheaptest-worker:latest');
+  });
+});
+
+describe('buildRunArgs', () => {
+  it('should pass credentials by name so their values stay off the command line', () => {
+    const args = buildRunArgs({
+      name: 'cheaptest-run-1-0',
+      image: 'cheaptest-worker:latest',
+      labels: {},
+      env: { RUN_ID: 'run-1' },
+      passEnv: ['AWS_SECRET_ACCESS_KEY'],
+      cpus: 1,
+      memoryMb: 2048,
+    });
+
+    expect(args).toEqual([
+      'run', '--detach', '--name', 'cheaptest-run-1-0',
+      '--env', 'RUN_ID=run-1',
+      '--env', 'AWS_SECRET_ACCESS_KEY',
+      '--cpus', '1',
+      '--memory', '2048m',
+      'cheaptest-worker:latest',
+    ]);
+  });
+
+  it('should pass secrets by name only', () => {
+    const args = buildRunArgs({
+      name: 'cheaptest-run-1-0',
+      image: 'cheaptest-worker:latest',
+      labels: {},
+      env: {},
+      secretEnv: { API_TOKEN: 's3cr3t' },
+    });
+
+    expect(args).toEqual(['run', '--detach', '--name', 'cheaptest-run-1-0', '--env', 'API_TOKEN', 'cheaptest-worker:latest']);
+  });
+});
@@ -0,0 +1,348 @@
+import { DockerApi, DockerCli, ContainerInfo, ContainerSpec } from '../local/docker';
+import { Storage, createStorage, storagePath } from '../storage';
+import {
+  BackendInterface,
+  RunOptions,
+  CheaptestConfig,
+  RunSummary,
+  RunStatus,
+  TestShard,
+} from '../types';
+import { Logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/retry';
+import {
+  ensureBucket,
+  uploadTestCode,
+  uploadShards,
+  uploadQueue,
+  aggregateResults,
+  reportUnfinishedQueueItems,
+  retryFailedTests,
+  showProgress,
+  logRunSummary,
+} from './common';
+import { countFlaky } from '../core/retries';
+import { splitSecretEnv } from '../core/secrets';
+
+export const RUN_ID_LABEL = 'io.cheaptest.run-id';
+export const SHARD_LABEL = 'io.cheaptest.shard';
+
+const DEFAULT_IMAGE = 'cheaptest-worker:latest';
+const CONTAINER_STORAGE_DIR = '/storage';
+const POLL_INTERVAL_MS = 2000;
+
+// Credentials the worker needs to reach S3 or an S3-compatible endpoint
+const CREDENTIAL_ENV = ['AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY', 'AWS_SESSION_TOKEN'];
+
+/**
+ * Runs shards as containers on this machine with the same worker image
+ * and environment contract as ECS, so a CI run can be reproduced offline.
+ * With filesystem storage the directory is mounted into every container;
+ * S3 or an S3-compatible endpoint such as MinIO also works.
+ */
+export class LocalBackend implements BackendInterface {
+  private logger: Logger;
+  private docker: DockerApi;
+  lastRunId: string | null = null;
+
+  constructor(logger: Logger, docker?: DockerApi) {
+    this.logger = logger;
+    this.docker = docker || new DockerCli();
+  }
+
+  async run(options: RunOptions, config: CheaptestConfig): Promise<RunSummary> {
+    const storage = createStorage(config);
+
+    const runId = options.runId || `run-${Date.now()}`;
+    this.lastRunId = runId;
+    const startTime = new Date();
+    const shards = options.shards!;
+
+    this.logger.info('');
+    this.logger.info('='.repeat(60));
+    this.logger.info(`Starting Local Docker Run: ${runId}`);
+    this.logger.info('='.repeat(60));
+    this.logger.info('');
+
+    try {
+      // Step 0: Ensure the bucket (or its directory) exists
+      await ensureBucket(storage, config, this.logger);
+
+      // Step 1: Upload test code
+      await uploadTestCode(storage, runId, config, this.logger, 'local');
+
+      // Step 2: Upload shard configuration
+      await uploadShards(storage, shards, runId, config, this.logger);
+      if (shards.some(s => s.queue)) {
+        await uploadQueue(storage, options.testFiles || [], runId, config, this.logger);
+      }
+
+      // Step 3: Start one container per shard
+      await this.startContainers(runId, shards, config, options.workerEnv);
+
+      // Step 4: Wait for containers to exit
+      let { timedOut } = await this.waitForCompletion(storage, runId, shards, config);
+
+      // Step 5: Aggregate results (even if some containers had test failures)
+      const firstWave = await aggregateResults(storage, runId, shards.map(s => s.id), config, this.logger);
+
+      // Stopped containers may not have uploaded any
+      if (firstWave.length < shards.length && !timedOut) {
+        throw new Error(
+          `Failed to collect all shard results: got ${firstWave.length}/${shards.length}. ` +
+          `Check container logs with: docker logs ${containerName(runId, shards[0].id)}`
+        );
+      }
+
+      // Files a queue worker claimed but never finished count as failed
+      const checkedWave = await reportUnfinishedQueueItems(storage, runId, shards, firstWave, config, this.logger);
+
+      // Step 6: Re-run files with failed tests in new containers (--retries)
+      const { results, interrupted } = await retryFailedTests(
+        checkedWave,
+        shards,
+        options,
+        this.logger,
+        async (retryShards, allShards) => {
+          await uploadShards(storage, allShards, runId, config, this.logger);
+          await this.startContainers(runId, retryShards, config, options.workerEnv);
+          const wave = await this.waitForCompletion(storage, runId, retryShards, config);
+          timedOut = timedOut || wave.timedOut;
+          return aggregateResults(storage, runId, retryShards.map(s => s.id), config, this.logger);
+        }
+      );
+
+      const endTime = new Date();
+      const duration = endTime.getTime() - startTime.getTime();
+
+      const summary: RunSummary = {
+        runId,
+        backend: 'local',
+        totalTests: results.reduce((sum, r) => sum + r.passed + r.failed + r.skipped, 0),
+        passed: results.reduce((sum, r) => sum + r.passed, 0),
+        failed: results.reduce((sum, r) => sum + r.failed, 0),
+        skipped: results.reduce((sum, r) => sum + r.skipped, 0),
+        flaky: countFlaky(results),
+        ...((timedOut || interrupted) && { interrupted: true }),
+        duration,
+        cost: 0, // Runs on the developer's own machine
+        startTime,
+        endTime,
+        results,
+      };
+
+      logRunSummary(summary, this.logger);
+
+      return summary;
+    } catch (error) {
+      this.logger.error(`Run failed: ${error}`);
+      throw error;
+    }
+  }
+
+  async status(runId: string): Promise<RunStatus> {
+    const containers = await this.docker.list(`${RUN_ID_LABEL}=${runId}`);
+    if (containers.length === 0) {
+      throw new Error(`No containers found for run ${runId}`);
+    }
+
+    const running = containers.filter(c => c.state === 'running').length;
+    const finished = containers.filter(isFinished);
+    const failed = finished.filter(c => c.exitCode !== 0).length;
+    const total = containers.length;
+
+    let status: RunStatus['status'];
+    if (finished.length === total) {
+      status = failed > 0 ? 'failed' : 'completed';
+    } else if (running > 0 || finished.length > 0) {
+      status = 'running';
+    } else {
+      status = 'pending';
+    }
+
+    const finishTimes = finished
+      .map(c => c.finishedAt?.getTime())
+      .filter((t): t is number => t !== undefined);
+
+    return {
+      runId,
+      status,
+      progress: { total, completed: finished.length, running, failed },
+      startTime: new Date(Math.min(...containers.map(c => c.createdAt.getTime()))),
+      endTime: finished.length === total && finishTimes.length > 0
+        ? new Date(Math.max(...finishTimes))
+        : undefined,
+    };
+  }
+
+  /**
+   * Stop gracefully first so workers upload the tests they finished
+   */
+  async cancel(runId: string): Promise<void> {
+    await this.docker.stop(`${RUN_ID_LABEL}=${runId}`);
+    await this.docker.remove(`${RUN_ID_LABEL}=${runId}`);
+  }
+
+  private async startContainers(
+    runId: string,
+    shards: TestShard[],
+    config: CheaptestConfig,
+    env: Record<string, string> = {}
+  ): Promise<void> {
+    this.logger.startSpinner(`Starting ${shards.length} containers...`);
+
+    try {
+      for (const shard of shards) {
+        const spec = buildContainerSpec(runId, shard, config, env);
+        await this.docker.run(spec);
+
+        if (config.output.verbose) {
+          this.logger.debug(`  Shard ${shard.id}: ${spec.name}`);
+        }
+      }
+
+      this.logger.succeedSpinner(`${shards.length} containers started`);
+    } catch (error: unknown) {
+      this.logger.failSpinner(`Failed to start containers: ${getErrorMessage(error)}`);
+      // Don't leave the containers that did start running unattended
+      try {
+        await this.docker.remove(`${RUN_ID_LABEL}=${runId}`);
+      } catch {
+        // Best effort
+      }
+      throw error;
+    }
+  }
+
+  private async waitForCompletion(
+    storage: Storage,
+    runId: string,
+    shards: TestShard[],
+    config: CheaptestConfig
+  ): Promise<{ failedShards: number[]; timedOut: boolean }> {
+    this.logger.info('');
+    this.logger.startSpinner('Waiting for containers to complete...');
+
+    const startTime = Date.now();
+    // Convert timeout from minutes to milliseconds, with 1.5x buffer
+    const timeout = config.execution.timeout * 60 * 1000 * 1.5;
+    const label = `${RUN_ID_LABEL}=${runId}`;
+    const shardIds = shards.map(s => s.id);
+    const shardCount = shardIds.length;
+    const stalled = new Set<number>();
+
+    while (true) {
+      const elapsed = Date.now() - startTime;
+
+      if (elapsed > timeout) {
+        this.logger.failSpinner('Containers timed out');
+        // `docker stop` waits while workers upload the tests they finished
+        this.logger.startSpinner('Waiting for workers to upload partial results...');
+        try {
+          await this.docker.stop(label);
+          await this.docker.remove(label);
+        } catch {
+          // Containers may already be gone
+        }
+        this.logger.stopSpinner();
+        this.logger.warn('Containers exceeded timeout and were stopped. Results are partial.');
+        return { failedShards: [], timedOut: true };
+      }
+
+      // Earlier retry waves share the run label, so only watch this wave's shards
+      const containers = (await this.docker.list(label))
+        .filter(c => shardIds.includes(parseInt(c.labels[SHARD_LABEL] ?? '-1')));
+      const finished = containers.filter(isFinished);
+
+      await showProgress(
+        storage, runId, shards, config, this.logger,
+        `Running containers... ${finished.length}/${shardCount} complete (${(elapsed / 1000).toFixed(0)}s)`, stalled
+      );
+
+      if (finished.length === shardCount) {
+        const failed = finished.filter(c => c.exitCode !== 0);
+        const failedShards = failed
+          .map(c => parseInt(c.labels[SHARD_LABEL]))
+          .sort((a, b) => a - b);
+
+        if (failedShards.length > 0) {
+          // Log failures but don't throw - allow aggregation to collect results first
+          this.logger.stopSpinner();
+          this.logger.warn(`${shardCount} containers completed (${failedShards.length} with test failures)`);
+
+          if (config.output.verbose) {
+            for (const container of failed) {
+              this.logger.warn(`  Container ${container.name} exited with code ${container.exitCode}`);
+            }
+          }
+        } else {
+          this.logger.succeedSpinner(`All ${shardCount} containers completed successfully`);
+        }
+
+        return { failedShards, timedOut: false };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  }
+}
+
+export function containerName(runId: string, shardId: number): string {
+  return `cheaptest-${runId}-${shardId}`;
+}
+
+/**
+ * Build the `docker run` spec for a shard. The worker reads the same
+ * environment contract as on ECS, plus where to find storage. `env` holds
+ * execution.env and the resolved execution.secrets; secrets are passed by
+ * name so their values don't show up in `ps` or `docker run`'s arguments.
+ */
+export function buildContainerSpec(
+  runId: string,
+  shard: TestShard,
+  config: CheaptestConfig,
+  env: Record<string, string> = {}
+): ContainerSpec {
+  const local = config.local || {};
+  const { plain, secrets } = splitSecretEnv(env);
+
+  const spec: ContainerSpec = {
+    name: containerName(runId, shard.id),
+    image: local.image || DEFAULT_IMAGE,
+    labels: {
+      [RUN_ID_LABEL]: runId,
+      [SHARD_LABEL]: shard.id.toString(),
+    },
+    env: {
+      ...plain,
+      RUN_ID: runId,
+      SHARD_ID: shard.id.toString(),
+      S3_BUCKET: config.storage.bucket,
+      AWS_REGION: config.aws.region,
+      TEST_FRAMEWORK: config.tests.framework,
+      TEST_TIMEOUT: (config.execution.timeout * 60 * 1000).toString(),
+      ...(config.tests.runner && { TEST_RUNNER_MODULE: config.tests.runner }),
+    },
+    ...(Object.keys(secrets).length > 0 && { secretEnv: secrets }),
+    network: local.network,
+    // ECS CPU units are 1/1024 vCPU
+    cpus: config.execution.cpu / 1024,
+    memoryMb: config.execution.memory,
+  };
+
+  if (config.storage.type === 'filesystem') {
+    spec.env.STORAGE_DIR = CONTAINER_STORAGE_DIR;
+    spec.volumes = [`${storagePath(config)}:${CONTAINER_STORAGE_DIR}`];
+  } else {
+    if (config.storage.endpoint) {
+      spec.env.S3_ENDPOINT = config.storage.endpoint;
+    }
+    spec.passEnv = CREDENTIAL_ENV.filter(key => process.env[key] !== undefined);
+  }
+
+  return spec;
+}
+
+function isFinished(container: ContainerInfo): boolean {
+  return container.state === 'exited' || container.state === 'dead';
+}
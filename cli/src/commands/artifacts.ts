@@ -0,0 +1,139 @@
+import path from 'path';
+import chalk from 'chalk';
+import { Logger } from '../utils/logger';
+import { loadConfig, findConfigFile } from '../utils/config';
+import { createStorage } from '../storage';
+import { findArtifacts, artifactDestination } from '../core/artifacts';
+import { OutputFormat, TestResult } from '../types';
+import { getErrorMessage } from '../utils/retry';
+import { isJsonOutput, printJson, printJsonError } from '../output/json';
+
+interface ArtifactsOptions {
+  test?: string;
+  dir: string;
+  output?: OutputFormat;
+}
+
+/**
+ * `data` of the --output json document
+ */
+interface ArtifactsReport {
+  runId: string;
+  directory: string;
+  artifacts: Array<{
+    shard: number;
+    file: string;
+    test: string;
+    status: string;
+    name: string;
+    contentType: string;
+    key: string;
+    path: string;
+  }>;
+}
+
+export async function artifactsCommand(runId: string, options: ArtifactsOptions): Promise<void> {
+  const logger = new Logger();
+  let json = isJsonOutput(options.output);
+  if (json) logger.useStderr();
+
+  try {
+    const configPath = await findConfigFile() || '.cheaptest.yml';
+    const config = await loadConfig(configPath);
+    const storage = createStorage(config);
+    json = isJsonOutput(options.output, config);
+    if (json) logger.useStderr();
+
+    logger.header('Test Artifacts');
+    logger.info('');
+
+    // 1. Load the shard results, which record each test's artifact keys
+    logger.startSpinner(`Loading results for run ${runId}...`);
+
+    const resultKeys = (await storage.list({
+      bucket: config.storage.bucket,
+      prefix: `runs/${runId}/results/`,
+    })).filter(key => key.endsWith('.json'));
+
+    if (resultKeys.length === 0) {
+      throw new Error(`No results found for run ${runId}`);
+    }
+
+    const results: TestResult[] = [];
+    for (const key of resultKeys) {
+      try {
+        results.push(await storage.downloadJSON<TestResult>(config.storage.bucket, key));
+      } catch {
+        // Skip corrupt results
+      }
+    }
+
+    const matches = findArtifacts(results, options.test);
+    logger.succeedSpinner(`Found ${matches.length} artifacts`);
+    logger.info('');
+
+    const directory = path.resolve(options.dir);
+    const report: ArtifactsReport = { runId, directory, artifacts: [] };
+
+    if (matches.length === 0) {
+      logger.warn(options.test
+        ? `No artifacts for tests matching "${options.test}"`
+        : 'No artifacts recorded for this run');
+      logger.info('');
+      logger.info('Artifacts are uploaded for Playwright tests that fail (traces, screenshots, videos).');
+      if (json) printJson('artifacts', report);
+      return;
+    }
+
+    // 2. Download them, mirroring the storage layout
+    logger.startSpinner(`Downloading ${matches.length} artifacts...`);
+
+    for (const { shard, test, artifact } of matches) {
+      const destination = artifactDestination(directory, runId, artifact.key);
+      await storage.downloadFile(config.storage.bucket, artifact.key, destination);
+      report.artifacts.push({
+        shard,
+        file: test.file,
+        test: test.name,
+        status: test.status,
+        name: artifact.name,
+        contentType: artifact.contentType,
+        key: artifact.key,
+        path: destination,
+      });
+      logger.updateSpinner(`Downloading artifacts... ${report.artifacts.length}/${matches.length}`);
+    }
+
+    logger.succeedSpinner(`Downloaded ${matches.length} artifacts to ${chalk.cyan(path.join(directory, runId))}`);
+    logger.info('');
+
+    if (json) {
+      printJson('artifacts', report);
+      return;
+    }
+
+    // 3. List them by test
+    let lastTest: string | null = null;
+    for (const entry of report.artifacts) {
+      const testLabel = `${entry.file} › ${entry.test}`;
+      if (testLabel !== lastTest) {
+        const icon = entry.status === 'failed' ? chalk.red('✖') : chalk.green('✔');
+        logger.info(`  ${icon} ${testLabel} ${chalk.gray(`(shard ${entry.shard})`)}`);
+        lastTest = testLabel;
+      }
+      logger.info(`      ${entry.name.padEnd(10)} ${chalk.gray(path.relative(process.cwd(), entry.path))}`);
+    }
+    logger.info('');
+
+    const firstTrace = report.artifacts.find(entry => entry.name === 'trace');
+    if (firstTrace) {
+      logger.info(`Open a trace with: ${chalk.cyan(`npx playwright show-trace ${path.relative(process.cwd(), firstTrace.path)}`)}`);
+      logger.info('');
+    }
+  } catch (err: unknown) {
+    logger.stopSpinner();
+    logger.error(`Failed to download artifacts: ${getErrorMessage(err)}`);
+    if (json) printJsonError('artifacts', err);
+    process.exit(1);
+  }
+}
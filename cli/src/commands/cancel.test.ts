@@ -0,0 +1,90 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import type { V1Job, V1Pod } from '@kubernetes/client-node';
+import { cancelCommand } from './cancel';
+import { FileSystemStorage } from '../storage/filesystem';
+import { KubernetesApi } from '../kubernetes/client';
+import { CheaptestConfig } from '../types';
+
+let root: string;
+const deleted: string[] = [];
+
+jest.mock('../utils/config', () => ({
+  findConfigFile: async () => null,
+  loadConfig: async (): Promise<CheaptestConfig> => ({
+    version: 1,
+    aws: { region: 'us-east-1', cluster: 'c', taskDefinition: 't', subnets: [], securityGroups: [] },
+    tests: { directory: './e2e', pattern: '', framework: 'playwright' },
+    execution: { cpu: 1024, memory: 2048, timeout: 10 },
+    storage: { type: 'filesystem', bucket: 'test-bucket', retentionDays: 30, path: root },
+    output: { format: 'pretty', verbose: false },
+    kubernetes: { namespace: 'default', image: 'worker:1.0' },
+  }),
+}));
+
+jest.mock('../kubernetes/client', () => ({
+  createKubernetesClient: async (): Promise<KubernetesApi> => ({
+    createJob: async () => {},
+    listJobs: async () => [0, 1].map(id => ({ metadata: { name: `cheaptest-run-k8s-${id}` } }) as V1Job),
+    listPods: async () => [
+      { metadata: { labels: { 'cheaptest.io/shard': '0' } }, status: { phase: 'Succeeded' } },
+      { metadata: { labels: { 'cheaptest.io/shard': '1' } }, status: { phase: 'Running' } },
+    ] as V1Pod[],
+    deleteJobs: async (namespace: string, selector: string) => {
+      deleted.push(`jobs ${namespace} ${selector}`);
+    },
+    createSecret: async () => {},
+    deleteSecrets: async (namespace: string, selector: string) => {
+      deleted.push(`secrets ${namespace} ${selector}`);
+    },
+  }),
+}));
+
+describe('cancelCommand', () => {
+  let output: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'cancel-test-'));
+    output = '';
+    deleted.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+      output += chunk;
+      return true;
+    });
+    jest.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    const storage = new FileSystemStorage(root);
+    await storage.uploadJSON('test-bucket', 'runs/run-k8s/manifest.json', { testCode: 'cache/test-code/abc.tar.gz', hash: 'abc', backend: 'kubernetes' });
+    await storage.uploadJSON('test-bucket', 'runs/run-k8s/jobs.json', { jobNames: [], namespace: 'ci', createdAt: '2025-01-15T10:00:00Z' });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should delete a Kubernetes run\'s jobs and secret with --force', async () => {
+    await cancelCommand('run-k8s', { force: true, output: 'json' });
+
+    expect(deleted).toEqual(['jobs ci cheaptest.io/run-id=run-k8s', 'secrets ci cheaptest.io/run-id=run-k8s']);
+    expect(JSON.parse(output).data).toEqual({
+      runId: 'run-k8s',
+      forced: true,
+      tasks: { total: 2, active: 1, alreadyStopped: 1 },
+      stopped: 1,
+      errors: 0,
+    });
+  });
+
+  it('should only report what would be stopped without --force', async () => {
+    await cancelCommand('run-k8s', { output: 'json' });
+
+    expect(deleted).toEqual([]);
+    expect(JSON.parse(output).data).toEqual(expect.objectContaining({ forced: false, stopped: 0 }));
+  });
+});
@@ -1,12 +1,18 @@
 import chalk from 'chalk';
-import { ECSClient, DescribeTasksCommand, StopTaskCommand } from '@aws-sdk/client-ecs';
+import { ECSClient, DescribeTasksCommand, Task, StopTaskCommand } from '@aws-sdk/client-ecs';
 import { Logger } from '../utils/logger';
 import { loadConfig, findConfigFile } from '../utils/config';
-import { createS3Client } from '../aws/s3-client';
+import { Storage, createStorage } from '../storage';
 import { getErrorMessage } from '../utils/retry';
+import { isJsonOutput, printJson, printJsonError } from '../output/json';
+import { taskShards } from '../backends/ecs';
+import { kubernetesBackendForRun } from '../backends/kubernetes';
+import { runBackend } from '../backends/common';
+import { CheaptestConfig, OutputFormat, RunStatus } from '../types';
 
 interface CancelOptions {
   force?: boolean;
+  output?: OutputFormat;
 }
 
 interface TasksManifest {
@@ -16,31 +22,58 @@ interface TasksManifest {
   createdAt: string;
 }
 
+/**
+ * `data` of the --output json document. Without --force nothing is
+ * stopped and `forced` is false. For Kubernetes runs, `tasks` counts jobs.
+ */
+interface CancelReport {
+  runId: string;
+  forced: boolean;
+  tasks: {
+    total: number;
+    active: number;
+    alreadyStopped: number;
+  };
+  stopped: number;
+  errors: number;
+}
+
 export async function cancelCommand(runId: string, options: CancelOptions): Promise<void> {
   const logger = new Logger();
+  let json = isJsonOutput(options.output);
+  if (json) logger.useStderr();
 
   if (!runId) {
     logger.error('Run ID is required');
     logger.info('');
     logger.info(`Usage: ${chalk.cyan('cheaptest cancel <runId>')}`);
     logger.info(`Example: ${chalk.cyan('cheaptest cancel run-1707600000000')}`);
+    if (json) printJsonError('cancel', new Error('Run ID is required'));
     process.exit(1);
   }
 
   try {
     const configPath = await findConfigFile() || '.cheaptest.yml';
     const config = await loadConfig(configPath);
-    const s3Client = createS3Client(config.aws.region);
+    const storage = createStorage(config);
+    json = isJsonOutput(options.output, config);
+    if (json) logger.useStderr();
 
     logger.header('Cancel Run');
     logger.info('');
 
+    if (await runBackend(storage, config.storage.bucket, runId) === 'kubernetes') {
+      const report = await cancelKubernetesRun(runId, !!options.force, config, storage, logger);
+      if (json) printJson('cancel', report);
+      return;
+    }
+
     // 1. Load tasks.json to get task ARNs
     logger.startSpinner(`Loading run ${runId}...`);
 
     let tasksManifest: TasksManifest;
     try {
-      tasksManifest = await s3Client.downloadJSON<TasksManifest>(
+      tasksManifest = await storage.downloadJSON<TasksManifest>(
         config.storage.bucket,
         `runs/${runId}/tasks.json`,
       );
@@ -50,6 +83,7 @@ export async function cancelCommand(runId: string, options: CancelOptions): Prom
       logger.info('');
       logger.info('Cancel requires task ARN tracking (tasks.json in S3).');
       logger.info('Runs created before this feature was added cannot be cancelled via CLI.');
+      if (json) printJsonError('cancel', new Error(`Could not load task data for run: ${runId}`));
       process.exit(1);
     }
 
@@ -57,12 +91,13 @@ export async function cancelCommand(runId: string, options: CancelOptions): Prom
     const ecsClient = new ECSClient({ region: tasksManifest.region, maxAttempts: 3, retryMode: 'adaptive' });
 
     const batchSize = 100;
-    const allTasks: any[] = [];
+    const allTasks: Task[] = [];
     for (let i = 0; i < tasksManifest.taskArns.length; i += batchSize) {
       const batch = tasksManifest.taskArns.slice(i, i + batchSize);
       const resp = await ecsClient.send(new DescribeTasksCommand({
         cluster: tasksManifest.cluster,
         tasks: batch,
+        include: ['TAGS'], // For the shard of a task started alone
       }));
       allTasks.push(...(resp.tasks || []));
     }
@@ -75,8 +110,17 @@ export async function cancelCommand(runId: string, options: CancelOptions): Prom
     logger.succeedSpinner(`Found ${allTasks.length} tasks (${activeTasks.length} active, ${stoppedTasks} already stopped)`);
     logger.info('');
 
+    const report: CancelReport = {
+      runId,
+      forced: !!options.force,
+      tasks: { total: allTasks.length, active: activeTasks.length, alreadyStopped: stoppedTasks },
+      stopped: 0,
+      errors: 0,
+    };
+
     if (activeTasks.length === 0) {
       logger.info('No active tasks to cancel. All tasks have already stopped.');
+      if (json) printJson('cancel', report);
       return;
     }
 
@@ -85,9 +129,10 @@ export async function cancelCommand(runId: string, options: CancelOptions): Prom
       logger.warn(`About to stop ${activeTasks.length} running ECS task(s) for run ${chalk.cyan(runId)}`);
       logger.info('');
 
+      const shardOfTask = await taskShards(storage, config.storage.bucket, runId, activeTasks);
       for (const task of activeTasks) {
-        const shardTag = task.tags?.find((t: any) => t.key === 'CheaptestShard');
-        const shardLabel = shardTag ? `Shard ${shardTag.value}` : 'Unknown shard';
+        const shardId = shardOfTask.get(task.taskArn!);
+        const shardLabel = shardId !== undefined ? `Shard ${shardId}` : 'Unknown shard';
         const taskId = task.taskArn?.split('/').pop();
         logger.info(`  ${chalk.blue('\u25B6')} ${shardLabel} - ${chalk.gray(taskId)} [${task.lastStatus}]`);
       }
@@ -95,6 +140,7 @@ export async function cancelCommand(runId: string, options: CancelOptions): Prom
       logger.info('');
       logger.warn('Use --force to skip this confirmation and stop tasks immediately.');
       logger.info(`Run: ${chalk.cyan(`cheaptest cancel ${runId} --force`)}`);
+      if (json) printJson('cancel', report);
       return;
     }
 
@@ -140,12 +186,82 @@ export async function cancelCommand(runId: string, options: CancelOptions): Prom
     }
     logger.info('');
 
-    logger.info('Partial results (if any) are still available in S3.');
-    logger.info(`Check with: ${chalk.cyan(`cheaptest status ${runId}`)}`);
+    logger.info('Stopped workers upload the tests they finished within 30 seconds.');
+    logger.info(`See the partial results with: ${chalk.cyan(`cheaptest status ${runId}`)}`);
     logger.info('');
 
+    if (json) printJson('cancel', { ...report, stopped, errors });
+
   } catch (err: unknown) {
     logger.error(`Failed to cancel run: ${getErrorMessage(err)}`);
+    if (json) printJsonError('cancel', err);
     process.exit(1);
   }
 }
+
+/**
+ * Delete a Kubernetes run's jobs, which sends their pods SIGTERM, and its
+ * Secret. Without `force`, only reports what would be stopped.
+ */
+async function cancelKubernetesRun(
+  runId: string,
+  force: boolean,
+  config: CheaptestConfig,
+  storage: Storage,
+  logger: Logger,
+): Promise<CancelReport> {
+  logger.startSpinner(`Loading run ${runId}...`);
+
+  const backend = await kubernetesBackendForRun(storage, config, runId, logger);
+  let status: RunStatus;
+  try {
+    status = await backend.status(runId);
+  } catch (err: unknown) {
+    logger.failSpinner('Run not found');
+    throw err;
+  }
+
+  const { total, completed } = status.progress;
+  const active = total - completed;
+  logger.succeedSpinner(`Found ${total} jobs (${active} active, ${completed} already finished)`);
+  logger.info('');
+
+  const report: CancelReport = {
+    runId,
+    forced: force,
+    tasks: { total, active, alreadyStopped: completed },
+    stopped: 0,
+    errors: 0,
+  };
+
+  if (active === 0) {
+    logger.info('No active jobs to cancel. All jobs have already finished.');
+    return report;
+  }
+
+  if (!force) {
+    logger.warn(`About to delete ${active} active Kubernetes job(s) for run ${chalk.cyan(runId)}`);
+    logger.info('');
+    logger.warn('Use --force to skip this confirmation and stop jobs immediately.');
+    logger.info(`Run: ${chalk.cyan(`cheaptest cancel ${runId} --force`)}`);
+    return report;
+  }
+
+  logger.startSpinner(`Deleting ${total} jobs...`);
+  await backend.cancel(runId);
+  logger.succeedSpinner(`Deleted ${total} jobs`);
+  logger.info('');
+
+  logger.info(`  Run ID:       ${chalk.cyan(runId)}`);
+  logger.info(`  Jobs stopped: ${chalk.yellow(String(active))}`);
+  if (completed > 0) {
+    logger.info(`  Already finished: ${chalk.gray(String(completed))}`);
+  }
+  logger.info('');
+
+  logger.info('Stopped workers upload the tests they finished within 30 seconds.');
+  logger.info(`See the partial results with: ${chalk.cyan(`cheaptest status ${runId}`)}`);
+  logger.info('');
+
+  return { ...report, stopped: active };
+}
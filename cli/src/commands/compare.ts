@@ -1,15 +1,349 @@
+import chalk from 'chalk';
+import { table } from 'table';
 import { Logger } from '../utils/logger';
+import { redactRows } from '../utils/redact';
+import { loadConfig, validateConfig, findConfigFile } from '../utils/config';
+import { TestParser, detectFrameworkFromPath } from '../core/test-parser';
+import { getFramework, loadConfiguredRunner } from '../core/frameworks';
+import { resolveWorkerEnv } from '../core/secrets';
+import { TestSharding, expandBrowsers } from '../core/sharding';
+import { TimingStore, applyTimings } from '../core/timing-store';
+import { createStorage } from '../storage';
+import { compareRuns, BackendComparison } from '../core/backend-comparison';
+import { ECSBackend } from '../backends/ecs';
+import { KubernetesBackend } from '../backends/kubernetes';
+import { BackendInterface, BackendType, CheaptestConfig, OutputFormat, RunSummary, TestFramework } from '../types';
+import { getErrorMessage } from '../utils/retry';
+import { isJsonOutput, printJson, printJsonError } from '../output/json';
 
 interface CompareOptions {
   tests: string;
-  parallel: number;
+  parallel: string | number;
+  framework?: TestFramework;
+  config?: string;
+  concurrent?: boolean;
+  verbose?: boolean;
+  output?: OutputFormat;
 }
 
-export async function compareCommand(_options: CompareOptions): Promise<void> {
-  const logger = new Logger();
-  
-  logger.header('Backend Comparison');
-  
-  // TODO: Run tests on both backends and compare
-  logger.warn('Compare command not yet implemented');
-}
\ No newline at end of file
+/**
+ * `data` of the --output json document
+ */
+interface CompareReport {
+  comparison: BackendComparison;
+  runs: RunSummary[];
+}
+
+const BACKEND_LABELS: Record<BackendType, string> = {
+  ecs: 'ECS',
+  kubernetes: 'Kubernetes',
+  local: 'Local Docker',
+};
+
+export async function compareCommand(options: CompareOptions): Promise<void> {
+  const logger = new Logger(options.verbose);
+  let json = isJsonOutput(options.output);
+  if (json) logger.useStderr();
+
+  try {
+    logger.header('Backend Comparison');
+    logger.info('');
+
+    // ============================================
+    // 1. LOAD CONFIGURATION
+    // ============================================
+    const configPath = options.config || await findConfigFile() || '.cheaptest.yml';
+    const config = await loadConfig(configPath);
+    json = isJsonOutput(options.output, config);
+    if (json) logger.useStderr();
+
+    const errors = validateConfig(config);
+    if (errors.length > 0) {
+      logger.error('Configuration errors found:');
+      errors.forEach(err => logger.error(`  • ${err}`));
+      if (json) printJsonError('compare-backends', new Error(`Configuration errors: ${errors.join('; ')}`));
+      process.exit(1);
+    }
+
+    // ============================================
+    // 2. DISCOVER AND SHARD ONCE
+    // ============================================
+    const testDirectory = options.tests || config.tests.directory;
+    const runner = loadConfiguredRunner(config.tests.runner, testDirectory);
+    const framework: TestFramework =
+      options.framework ||
+      runner?.name ||
+      detectFrameworkFromPath(testDirectory) ||
+      config.tests.framework;
+    const pattern = framework !== config.tests.framework ? '' : config.tests.pattern;
+    const parallel = parseInt(String(options.parallel));
+
+    const browsers = config.tests.browsers || [];
+    if (browsers.length > 0 && !getFramework(framework).browsers) {
+      logger.error('tests.browsers is only supported for Playwright and Selenium');
+      logger.info(`Remove tests.browsers from your .cheaptest.yml to compare ${framework} tests`);
+      if (json) printJsonError('compare-backends', new Error('tests.browsers is only supported for Playwright and Selenium'));
+      process.exit(1);
+    }
+
+    logger.startSpinner('Discovering test files...');
+    const parser = new TestParser();
+    const discovery = await parser.discover({
+      directory: testDirectory,
+      pattern,
+      framework,
+      include: config.tests.include,
+      exclude: config.tests.exclude,
+      includeEstimates: true,
+    });
+    logger.succeedSpinner(`Found ${chalk.green(discovery.totalFiles)} test files`);
+
+    let files = discovery.files;
+    try {
+      const timings = await new TimingStore(createStorage(config), config.storage.bucket).load(framework);
+      files = applyTimings(discovery.files, timings).files;
+    } catch (err: unknown) {
+      logger.debug(`Could not load test timings, using estimates: ${getErrorMessage(err)}`);
+    }
+    // With tests.browsers every file runs once per browser, as in `run`
+    files = expandBrowsers(files, browsers);
+
+    const sharding = new TestSharding();
+    const { shards, balanceScore } = sharding.createShards({
+      files,
+      shardCount: parallel,
+      strategy: 'duration-based',
+    });
+    logger.success(`Created ${shards.length} shards (balance score ${balanceScore.toFixed(3)})`);
+
+    if (options.verbose) {
+      logger.debug(sharding.visualizeShards(shards));
+    }
+
+    const effectiveConfig: CheaptestConfig = {
+      ...config,
+      tests: { ...config.tests, directory: testDirectory, framework },
+    };
+
+    // ============================================
+    // 3. RUN THE SAME PLAN ON BOTH BACKENDS
+    // ============================================
+    logger.info('');
+    logger.info(`  Framework:   ${chalk.cyan(framework)}`);
+    if (browsers.length > 0) {
+      logger.info(`  Browsers:    ${chalk.cyan(browsers.join(', '))} (${files.length} file runs)`);
+    }
+    logger.info(`  Shards:      ${chalk.yellow(shards.length)}`);
+    logger.info(`  Mode:        ${options.concurrent ? 'concurrent' : 'sequential'}`);
+
+    // Concurrent runs would interleave their spinners, so silence the backends
+    const backendLogger = options.concurrent ? new Logger(false, true) : logger;
+    if (json) backendLogger.useStderr();
+    const backends: Array<[BackendType, BackendInterface]> = [
+      ['ecs', new ECSBackend(backendLogger)],
+      ['kubernetes', new KubernetesBackend(backendLogger, config.kubernetes)],
+    ];
+
+    // Graceful shutdown: cancel the ECS tasks and Kubernetes jobs still running
+    const running = new Map<BackendInterface, string>();
+    const cancelRunning = (signal: NodeJS.Signals, exitCode: number) => {
+      process.on(signal, async () => {
+        logger.stopSpinner();
+        logger.info('');
+        logger.warn('Interrupt received, cancelling tasks...');
+        await Promise.all([...running].map(async ([backend, runId]) => {
+          try { await backend.cancel(runId); } catch { /* best effort */ }
+        }));
+        process.exit(exitCode);
+      });
+    };
+    cancelRunning('SIGINT', 130);
+    cancelRunning('SIGTERM', 143);
+
+    const workerEnv = await resolveWorkerEnv(config.execution);
+    const baseRunId = `run-${Date.now()}`;
+    const runOn = (type: BackendType, backend: BackendInterface): Promise<RunSummary> => {
+      const runId = `${baseRunId}-${type === 'kubernetes' ? 'k8s' : type}`;
+      running.set(backend, runId);
+      return backend.run(
+        {
+          tests: testDirectory,
+          parallel,
+          backend: type,
+          framework,
+          testFiles: files,
+          shards,
+          runId,
+          workerEnv,
+        },
+        effectiveConfig
+      ).finally(() => running.delete(backend));
+    };
+
+    let settled: PromiseSettledResult<RunSummary>[];
+    if (options.concurrent) {
+      logger.info('');
+      logger.startSpinner('Running on ECS and Kubernetes...');
+      settled = await Promise.allSettled(backends.map(([type, backend]) => runOn(type, backend)));
+      logger.stopSpinner();
+    } else {
+      settled = [];
+      for (const [type, backend] of backends) {
+        logger.info('');
+        logger.header(`Running on ${BACKEND_LABELS[type]}`);
+        settled.push(await runOn(type, backend).then(
+          value => ({ status: 'fulfilled', value }) as const,
+          reason => ({ status: 'rejected', reason }) as const,
+        ));
+      }
+    }
+
+    const failures = settled
+      .map((outcome, i) => ({ outcome, type: backends[i][0] }))
+      .filter(({ outcome }) => outcome.status === 'rejected');
+
+    if (failures.length > 0) {
+      logger.info('');
+      for (const { outcome, type } of failures) {
+        const reason = (outcome as PromiseRejectedResult).reason;
+        logger.error(`${BACKEND_LABELS[type]} run failed: ${getErrorMessage(reason)}`);
+      }
+      logger.info('');
+      logger.info('Both backends must complete to compare them.');
+      if (json) {
+        const messages = failures.map(({ outcome, type }) =>
+          `${BACKEND_LABELS[type]} run failed: ${getErrorMessage((outcome as PromiseRejectedResult).reason)}`
+        );
+        printJsonError('compare-backends', new Error(messages.join('; ')));
+      }
+      process.exit(1);
+    }
+
+    const [ecsSummary, k8sSummary] = settled.map(
+      outcome => (outcome as PromiseFulfilledResult<RunSummary>).value
+    );
+
+    // ============================================
+    // 4. REPORT
+    // ============================================
+    const comparison = compareRuns(ecsSummary, k8sSummary);
+    if (json) {
+      const report: CompareReport = { comparison, runs: [ecsSummary, k8sSummary] };
+      printJson('compare-backends', report);
+      return;
+    }
+    renderComparison(comparison, ecsSummary, k8sSummary, logger);
+  } catch (err: unknown) {
+    logger.stopSpinner();
+    logger.error(`Comparison failed: ${getErrorMessage(err)}`);
+    if (json) printJsonError('compare-backends', err);
+    process.exit(1);
+  }
+}
+
+function renderComparison(
+  comparison: BackendComparison,
+  a: RunSummary,
+  b: RunSummary,
+  logger: Logger
+): void {
+  const [typeA, typeB] = comparison.backends;
+  const labelA = BACKEND_LABELS[typeA];
+  const labelB = BACKEND_LABELS[typeB];
+
+  // --- Headline metrics ---
+  logger.info('');
+  logger.section('Summary', '');
+  logger.info('');
+
+  const skewA = comparison.skew[typeA];
+  const skewB = comparison.skew[typeB];
+
+  const summaryRows = [
+    ['Metric', labelA, labelB, 'Difference'],
+    ['Wall time', formatDuration(a.duration), formatDuration(b.duration), formatDelta(a.duration, b.duration)],
+    ['Cost', `$${a.cost.toFixed(4)}`, `$${b.cost.toFixed(4)}`, formatDelta(a.cost, b.cost)],
+    ['Shard skew (max/avg)', `${skewA.skew.toFixed(2)}x`, `${skewB.skew.toFixed(2)}x`, ''],
+    ['Slowest shard', formatDuration(skewA.maxDuration), formatDuration(skewB.maxDuration), formatDelta(skewA.maxDuration, skewB.maxDuration)],
+    ['Passed', String(a.passed), String(b.passed), ''],
+    ['Failed', String(a.failed), String(b.failed), ''],
+    ['Skipped', String(a.skipped), String(b.skipped), ''],
+  ];
+
+  console.log(table(redactRows(summaryRows), {
+    columns: {
+      0: { width: 22 },
+      1: { width: 12, alignment: 'right' as const },
+      2: { width: 12, alignment: 'right' as const },
+      3: { width: 12, alignment: 'right' as const },
+    },
+  }));
+
+  // --- Per-shard durations ---
+  logger.section('Per-Shard Duration', '');
+  logger.info('');
+
+  const shardRows = [
+    ['Shard', labelA, labelB, 'Difference'],
+    ...comparison.shards.map(row => {
+      const durationA = row.durations[typeA];
+      const durationB = row.durations[typeB];
+      return [
+        String(row.shard),
+        durationA !== undefined ? formatDuration(durationA) : '-',
+        durationB !== undefined ? formatDuration(durationB) : '-',
+        durationA !== undefined && durationB !== undefined ? formatDelta(durationA, durationB) : '',
+      ];
+    }),
+  ];
+
+  console.log(table(redactRows(shardRows), {
+    columns: {
+      0: { width: 6, alignment: 'right' as const },
+      1: { width: 12, alignment: 'right' as const },
+      2: { width: 12, alignment: 'right' as const },
+      3: { width: 12, alignment: 'right' as const },
+    },
+  }));
+
+  // --- Result differences ---
+  if (comparison.differences.length === 0) {
+    logger.success('Both backends produced identical test results');
+  } else {
+    logger.warn(`${comparison.differences.length} test(s) had different results:`);
+    for (const diff of comparison.differences) {
+      logger.info(
+        `  ${chalk.cyan(diff.file)} - ${diff.name}${diff.browser ? ` (${diff.browser})` : ''}: ` +
+        `${labelA} ${statusLabel(diff.statuses[typeA])}, ${labelB} ${statusLabel(diff.statuses[typeB])}`
+      );
+    }
+  }
+
+  logger.info('');
+  logger.info(`Run IDs: ${chalk.cyan(a.runId)} (${labelA}), ${chalk.cyan(b.runId)} (${labelB})`);
+  logger.info('');
+}
+
+function statusLabel(status: string | undefined): string {
+  switch (status) {
+    case 'passed':  return chalk.green('passed');
+    case 'failed':  return chalk.red('failed');
+    case 'skipped': return chalk.yellow('skipped');
+    default:        return chalk.gray('missing');
+  }
+}
+
+/**
+ * Relative change of b against a, e.g. "-23.5%"
+ */
+function formatDelta(a: number, b: number): string {
+  if (a === 0) return b === 0 ? '0%' : 'n/a';
+  const percent = ((b - a) / a) * 100;
+  return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
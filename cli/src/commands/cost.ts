@@ -1,8 +1,12 @@
 import chalk from 'chalk';
 import { table } from 'table';
 import { Logger } from '../utils/logger';
+import { redactRows } from '../utils/redact';
 import { CostTracker, CostEntry, CostSummary } from '../core/cost-tracker';
 import { loadConfig, findConfigFile } from '../utils/config';
+import { createStorage } from '../storage';
+import { isJsonOutput, printJson, printJsonError } from '../output/json';
+import { OutputFormat, ShardCost } from '../types';
 
 interface CostOptions {
   lastRun?: boolean;
@@ -11,10 +15,29 @@ interface CostOptions {
   breakdown?: boolean;
   runId?: string;
   export?: string; // Export to CSV/JSON
+  output?: OutputFormat;
+}
+
+/**
+ * `data` of the --output json document. Only timeRange and entries are
+ * set when there is no cost data for the period.
+ */
+interface CostReport {
+  timeRange: string;
+  entries: CostEntry[];
+  summary?: CostSummary;
+  comparison?: {
+    circleCI: number;
+    githubActions: number;
+    savings: number;
+  };
+  projection?: ReturnType<typeof calculateMonthlyProjection>;
 }
 
 export async function costCommand(options: CostOptions): Promise<void> {
   const logger = new Logger();
+  let json = isJsonOutput(options.output);
+  if (json) logger.useStderr();
   
   try {
     logger.header('Cost Analysis');
@@ -23,8 +46,10 @@ export async function costCommand(options: CostOptions): Promise<void> {
     // Load configuration to get storage bucket
     const configPath = await findConfigFile() || '.cheaptest.yml';
     const config = await loadConfig(configPath);
+    json = isJsonOutput(options.output, config);
+    if (json) logger.useStderr();
     
-    const tracker = new CostTracker(config.storage.bucket, config.aws.region);
+    const tracker = new CostTracker(createStorage(config), config.storage.bucket);
     
     // Determine time range
     let entries: CostEntry[];
@@ -65,6 +90,11 @@ export async function costCommand(options: CostOptions): Promise<void> {
     }
     
     if (entries.length === 0) {
+      if (json) {
+        const report: CostReport = { timeRange, entries };
+        printJson('cost', report);
+        return;
+      }
       logger.warn('No cost data found for the specified period');
       logger.info('');
       logger.info('Run some tests to generate cost data:');
@@ -74,6 +104,25 @@ export async function costCommand(options: CostOptions): Promise<void> {
     
     // Calculate summary
     const summary = tracker.calculateSummary(entries);
+    const circleCICost = calculateCircleCICostForPeriod(entries);
+    const githubActionsCost = calculateGitHubActionsCost(entries);
+    const savings = circleCICost - summary.totalCost;
+
+    if (json) {
+      if (options.export) {
+        await exportCostData(entries, options.export);
+        logger.success(`Exported to ${options.export}`);
+      }
+      const report: CostReport = {
+        timeRange,
+        entries,
+        summary,
+        comparison: { circleCI: circleCICost, githubActions: githubActionsCost, savings },
+        projection: entries.length >= 3 ? calculateMonthlyProjection(entries) : undefined,
+      };
+      printJson('cost', report);
+      return;
+    }
     
     logger.info('');
     
@@ -96,6 +145,21 @@ export async function costCommand(options: CostOptions): Promise<void> {
       logger.info(`    ECS:        ${summary.byBackend.ecs.runs} runs, ${logger.cost(summary.byBackend.ecs.totalCost)}`);
       logger.info(`    Kubernetes: ${summary.byBackend.kubernetes.runs} runs, ${logger.cost(summary.byBackend.kubernetes.totalCost)}`);
     }
+
+    if (summary.byBrowser) {
+      logger.info('');
+      logger.info('  By Browser:');
+      for (const [browser, cost] of Object.entries(summary.byBrowser)) {
+        const failed = cost.failed > 0 ? chalk.red(`, ${cost.failed} failed`) : '';
+        logger.info(`    ${browser.padEnd(10)}  ${cost.tests} tests${failed}, ${logger.duration(cost.duration)}, ${logger.cost(cost.cost)}`);
+      }
+    }
+
+    if (summary.spot) {
+      const { tasks, onDemandTasks, interruptions } = summary.spot;
+      logger.info('');
+      logger.info(`  Fargate Spot:        ${tasks} of ${tasks + onDemandTasks} tasks, ${interruptions} interruption(s)`);
+    }
     
     // ============================================
     // COST COMPARISON
@@ -104,9 +168,6 @@ export async function costCommand(options: CostOptions): Promise<void> {
     logger.section('Cost Comparison vs Traditional CI/CD', '');
     logger.info('');
     
-    const circleCICost = calculateCircleCICostForPeriod(entries);
-    const githubActionsCost = calculateGitHubActionsCost(entries);
-    const savings = circleCICost - summary.totalCost;
     const savingsPercent = ((savings / circleCICost) * 100).toFixed(1);
     
     logger.info(`  CircleCI (estimated):       ${logger.cost(circleCICost)}`);
@@ -124,6 +185,11 @@ export async function costCommand(options: CostOptions): Promise<void> {
       logger.info('');
       
       displayBreakdownTable(entries);
+
+      for (const entry of entries.filter(e => e.shards?.length)) {
+        logger.info(`  Shards of ${chalk.cyan(entry.runId)}:`);
+        displayShardTable(entry.shards!);
+      }
     }
     
     // ============================================
@@ -196,6 +262,7 @@ export async function costCommand(options: CostOptions): Promise<void> {
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     logger.error(`Failed to load cost data: ${message}`);
+    if (json) printJsonError('cost', err);
     process.exit(1);
   }
 }
@@ -205,15 +272,20 @@ export async function costCommand(options: CostOptions): Promise<void> {
  */
 function displayBreakdownTable(entries: CostEntry[]): void {
   const data = [
-    ['Run ID', 'Date', 'Backend', 'Tests', 'Duration', 'Cost'],
-    ...entries.map(entry => [
-      entry.runId.substring(0, 20) + '...',
-      new Date(entry.timestamp).toLocaleDateString(),
-      entry.backend,
-      entry.totalTests.toString(),
-      formatDuration(entry.duration),
-      `$${entry.cost.toFixed(4)}`,
-    ]),
+    ['Run ID', 'Date', 'Backend', 'Tests', 'Duration', 'Cost', 'Idle'],
+    ...entries.map(entry => {
+      // Only runs billed per task (ECS) know their idle cost
+      const idleCost = entry.shards?.reduce((sum, shard) => sum + shard.idleCost, 0);
+      return [
+        entry.runId.substring(0, 20) + '...',
+        new Date(entry.timestamp).toLocaleDateString(),
+        entry.backend,
+        entry.totalTests.toString(),
+        formatDuration(entry.duration),
+        `$${entry.cost.toFixed(4)}`,
+        idleCost !== undefined ? `$${idleCost.toFixed(4)}` : '-',
+      ];
+    }),
   ];
   
   const config = {
@@ -224,10 +296,44 @@ function displayBreakdownTable(entries: CostEntry[]): void {
       3: { width: 8, alignment: 'right' as const },
       4: { width: 12, alignment: 'right' as const },
       5: { width: 10, alignment: 'right' as const },
+      6: { width: 10, alignment: 'right' as const },
     },
   };
   
-  console.log(table(data, config));
+  console.log(table(redactRows(data), config));
+}
+
+/**
+ * Display billed time, test time and cost of each shard of a run
+ */
+function displayShardTable(shards: ShardCost[]): void {
+  const data = [
+    ['Shard', 'Tasks', 'Billed', 'In Tests', 'Cost', 'Idle Cost'],
+    ...shards.map(shard => {
+      const idlePercent = shard.cost > 0 ? ((shard.idleCost / shard.cost) * 100).toFixed(0) : '0';
+      return [
+        shard.shard.toString(),
+        shard.tasks.toString(),
+        formatDuration(shard.billed),
+        formatDuration(shard.testTime),
+        `$${shard.cost.toFixed(4)}`,
+        `$${shard.idleCost.toFixed(4)} (${idlePercent}%)`,
+      ];
+    }),
+  ];
+
+  const config = {
+    columns: {
+      0: { width: 6, alignment: 'right' as const },
+      1: { width: 6, alignment: 'right' as const },
+      2: { width: 10, alignment: 'right' as const },
+      3: { width: 10, alignment: 'right' as const },
+      4: { width: 10, alignment: 'right' as const },
+      5: { width: 16, alignment: 'right' as const },
+    },
+  };
+
+  console.log(table(redactRows(data), config));
 }
 
 /**
@@ -261,7 +367,7 @@ function displayRecentRunsTable(entries: CostEntry[]): void {
     },
   };
   
-  console.log(table(data, config));
+  console.log(table(redactRows(data), config));
 }
 
 /**
@@ -0,0 +1,135 @@
+import chalk from 'chalk';
+import { table } from 'table';
+import { Logger } from '../utils/logger';
+import { redactRows } from '../utils/redact';
+import { TestHistory, TestFlakiness } from '../core/test-history';
+import { isQuarantined } from '../core/quarantine';
+import { loadConfig, findConfigFile } from '../utils/config';
+import { createStorage } from '../storage';
+import { getErrorMessage } from '../utils/retry';
+import { isJsonOutput, printJson, printJsonError } from '../output/json';
+import { OutputFormat } from '../types';
+
+interface FlakyOptions {
+  days: string;
+  limit: string;
+  minRuns: string;
+  config?: string;
+  output?: OutputFormat;
+}
+
+/**
+ * `data` of the --output json document, worst offenders first
+ */
+interface FlakyReport {
+  days: number;
+  runs: number;
+  totalFlaky: number;
+  tests: Array<TestFlakiness & { quarantined: boolean }>;
+}
+
+export async function flakyCommand(options: FlakyOptions): Promise<void> {
+  const logger = new Logger();
+  let json = isJsonOutput(options.output);
+  if (json) logger.useStderr();
+
+  try {
+    logger.header('Flaky Tests');
+    logger.info('');
+
+    const configPath = options.config || await findConfigFile() || '.cheaptest.yml';
+    const config = await loadConfig(configPath);
+    json = isJsonOutput(options.output, config);
+    if (json) logger.useStderr();
+
+    const days = parseInt(options.days);
+    const limit = parseInt(options.limit);
+    const minRuns = parseInt(options.minRuns);
+
+    const history = new TestHistory(createStorage(config), config.storage.bucket);
+
+    logger.startSpinner(`Loading test history for last ${days} days...`);
+    const entries = await history.getHistory(days);
+    logger.succeedSpinner(`Loaded ${entries.length} runs`);
+
+    const quarantine = config.tests.quarantine || [];
+    const flaky = history
+      .calculateFlakiness(entries)
+      .filter(test => test.score > 0 && test.runs >= minRuns);
+
+    if (json) {
+      const report: FlakyReport = {
+        days,
+        runs: entries.length,
+        totalFlaky: flaky.length,
+        tests: flaky.slice(0, limit).map(test => ({ ...test, quarantined: isQuarantined(test, quarantine) })),
+      };
+      printJson('flaky', report);
+      return;
+    }
+
+    if (entries.length === 0) {
+      logger.warn('No test history found for the specified period');
+      logger.info('');
+      logger.info('History is recorded for every run:');
+      logger.info(`  ${chalk.cyan('cheaptest run --tests ./e2e')}`);
+      return;
+    }
+
+    logger.info('');
+
+    if (flaky.length === 0) {
+      logger.success(`No flaky tests across ${entries.length} runs`);
+      return;
+    }
+
+    logger.section('Worst Offenders', `${flaky.length} flaky tests, showing ${Math.min(flaky.length, limit)}`);
+    logger.info('');
+
+    displayFlakyTable(flaky.slice(0, limit), quarantine);
+
+    const unquarantined = flaky.filter(test => !isQuarantined(test, quarantine));
+    if (unquarantined.length > 0) {
+      logger.info('💡 Quarantine a test so it still runs but cannot fail the run:');
+      logger.info('');
+      logger.info(chalk.gray('  # .cheaptest.yml'));
+      logger.info(chalk.gray('  tests:'));
+      logger.info(chalk.gray('    quarantine:'));
+      logger.info(chalk.gray(`      - "${unquarantined[0].file}::${unquarantined[0].name}"`));
+    }
+  } catch (err: unknown) {
+    logger.error(`Failed to load test history: ${getErrorMessage(err)}`);
+    if (json) printJsonError('flaky', err);
+    process.exit(1);
+  }
+}
+
+/**
+ * Display flaky tests with their score and history
+ */
+function displayFlakyTable(tests: TestFlakiness[], quarantine: string[]): void {
+  const data = [
+    ['Score', 'Runs', 'Failed', 'Flaky', 'Last Failure', 'Test'],
+    ...tests.map(test => [
+      `${(test.score * 100).toFixed(0)}%`,
+      test.runs.toString(),
+      test.failed.toString(),
+      test.flakyRuns.toString(),
+      test.lastFailure ? new Date(test.lastFailure).toLocaleDateString() : '-',
+      `${test.file} › ${test.name}` + (test.browser ? ` (${test.browser})` : '') + (isQuarantined(test, quarantine) ? chalk.gray(' (quarantined)') : ''),
+    ]),
+  ];
+
+  const config = {
+    columns: {
+      0: { width: 6, alignment: 'right' as const },
+      1: { width: 5, alignment: 'right' as const },
+      2: { width: 6, alignment: 'right' as const },
+      3: { width: 5, alignment: 'right' as const },
+      4: { width: 12 },
+      5: { width: 50 },
+    },
+  };
+
+  console.log(table(redactRows(data), config));
+}
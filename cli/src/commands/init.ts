@@ -2,15 +2,19 @@ import path from 'path';
 import chalk from 'chalk';
 import { Logger } from '../utils/logger';
 import { saveConfig, DEFAULT_CONFIG } from '../utils/config';
-import { CheaptestConfig } from '../types';
+import { BackendType, CheaptestConfig, OutputFormat } from '../types';
+import { isJsonOutput, printJson, printJsonError } from '../output/json';
 
 interface InitOptions {
   force?: boolean;
-  backend?: 'ecs' | 'kubernetes';
+  backend?: BackendType;
+  output?: OutputFormat;
 }
 
 export async function initCommand(options: InitOptions): Promise<void> {
   const logger = new Logger();
+  const json = isJsonOutput(options.output);
+  if (json) logger.useStderr();
   
   try {
     logger.header('Initializing cheaptest configuration');
@@ -27,8 +31,15 @@ export async function initCommand(options: InitOptions): Promise<void> {
       config.kubernetes = {
         context: 'default',
         namespace: 'default',
+        image: 'cheaptest-worker:latest',
       };
     }
+
+    // Keep run artifacts and history on this machine for the local backend
+    if (options.backend === 'local') {
+      config.storage = { ...config.storage, type: 'filesystem' };
+      config.local = { image: 'cheaptest-worker:latest' };
+    }
     
     logger.startSpinner('Creating configuration file...');
     
@@ -44,10 +55,13 @@ export async function initCommand(options: InitOptions): Promise<void> {
     logger.info(`     ${chalk.cyan('cd terraform/phase1 && terraform init && terraform apply')}`);
     logger.info('  3. Run your first test:');
     logger.info(`     ${chalk.cyan('cheaptest run --tests ./e2e --parallel 10')}`);
+
+    if (json) printJson('init', { configPath, backend: options.backend || 'ecs' });
     
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     logger.error(`Failed to initialize: ${message}`);
+    if (json) printJsonError('init', err);
     process.exit(1);
   }
 }
\ No newline at end of file
@@ -0,0 +1,175 @@
+import chalk from 'chalk';
+import { Logger } from '../utils/logger';
+import { loadConfig, findConfigFile } from '../utils/config';
+import { Storage, createStorage } from '../storage';
+import { LogLine, logPrefix, groupLogParts, parseShardLog, interleaveLogs } from '../core/logs';
+import { CheaptestConfig, OutputFormat, TestShard } from '../types';
+import { getErrorMessage } from '../utils/retry';
+import { isJsonOutput, printJson, printJsonError } from '../output/json';
+
+interface LogsOptions {
+  shard?: string;
+  follow?: boolean;
+  output?: OutputFormat;
+}
+
+/**
+ * `data` of the --output json document
+ */
+interface LogsReport {
+  runId: string;
+  shards: number[];
+  lines: LogLine[];
+}
+
+const POLL_INTERVAL_MS = 2000;
+const SHARD_COLORS = [chalk.cyan, chalk.magenta, chalk.yellow, chalk.green, chalk.blue];
+
+export async function logsCommand(runId: string, options: LogsOptions): Promise<void> {
+  const logger = new Logger();
+  let json = isJsonOutput(options.output);
+  if (json) logger.useStderr();
+
+  const shardFilter = options.shard !== undefined ? parseInt(options.shard) : undefined;
+
+  try {
+    const configPath = await findConfigFile() || '.cheaptest.yml';
+    const config = await loadConfig(configPath);
+    const storage = createStorage(config);
+    json = isJsonOutput(options.output, config);
+    if (json) logger.useStderr();
+
+    // Full parts never change again, so following downloads them once
+    const fullParts = new Map<string, string>();
+    let logs = await loadLogs(runId, shardFilter, config, storage, fullParts);
+
+    if (!options.follow) {
+      if (logs.size === 0) {
+        throw new Error(shardFilter !== undefined
+          ? `No logs found for shard ${shardFilter} of run ${runId}`
+          : `No logs found for run ${runId}`);
+      }
+      if (json) {
+        printJson('logs', report(runId, logs));
+      } else {
+        printLines(interleaveLogs([...logs.values()]), shardFilter === undefined && logs.size > 1);
+      }
+      return;
+    }
+
+    // Follow: print new lines as workers upload them until every shard has results
+    const printed = new Map<number, number>();
+    const printNew = (current: Map<number, LogLine[]>) => {
+      const fresh = [...current.entries()].map(([shard, lines]) => lines.slice(printed.get(shard) || 0));
+      for (const [shard, lines] of current) {
+        printed.set(shard, lines.length);
+      }
+      printLines(interleaveLogs(fresh), shardFilter === undefined);
+    };
+
+    process.on('SIGINT', () => {
+      process.exit(0);
+    });
+
+    while (true) {
+      if (!json) printNew(logs);
+
+      const finished = await isFinished(runId, shardFilter, config, storage);
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      logs = await loadLogs(runId, shardFilter, config, storage, fullParts);
+
+      // Workers upload their last lines just after their results
+      if (finished) {
+        if (json) {
+          printJson('logs', report(runId, logs));
+        } else {
+          printNew(logs);
+        }
+        return;
+      }
+    }
+  } catch (err: unknown) {
+    logger.error(`Failed to load logs: ${getErrorMessage(err)}`);
+    if (json) printJsonError('logs', err);
+    process.exit(1);
+  }
+}
+
+/**
+ * Current log of each shard (or just the requested one) that has uploaded
+ * one, its parts joined. Every part but a shard's last is full and is kept
+ * in `fullParts`.
+ */
+async function loadLogs(
+  runId: string,
+  shardFilter: number | undefined,
+  config: CheaptestConfig,
+  storage: Storage,
+  fullParts: Map<string, string>,
+): Promise<Map<number, LogLine[]>> {
+  const keys = await storage.list({ bucket: config.storage.bucket, prefix: logPrefix(runId, shardFilter) });
+
+  const logs = new Map<number, LogLine[]>();
+  for (const [shard, parts] of groupLogParts(keys)) {
+    let content = '';
+    for (const [index, key] of parts.entries()) {
+      let text = fullParts.get(key);
+      if (text === undefined) {
+        text = await storage.downloadText(config.storage.bucket, key);
+        if (index < parts.length - 1) fullParts.set(key, text);
+      }
+      content += text;
+    }
+    logs.set(shard, parseShardLog(shard, content));
+  }
+
+  return logs;
+}
+
+/**
+ * Whether every shard being followed has uploaded its results
+ */
+async function isFinished(
+  runId: string,
+  shardFilter: number | undefined,
+  config: CheaptestConfig,
+  storage: Storage,
+): Promise<boolean> {
+  let shardIds: number[];
+  if (shardFilter !== undefined) {
+    shardIds = [shardFilter];
+  } else {
+    try {
+      const shards = await storage.downloadJSON<TestShard[]>(config.storage.bucket, `runs/${runId}/shards.json`);
+      shardIds = shards.map(s => s.id);
+    } catch {
+      return false;
+    }
+  }
+
+  for (const id of shardIds) {
+    if (!(await storage.exists(config.storage.bucket, `runs/${runId}/results/shard-${id}.json`))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function printLines(lines: LogLine[], prefixed: boolean): void {
+  for (const line of lines) {
+    if (prefixed) {
+      const color = SHARD_COLORS[line.shard % SHARD_COLORS.length];
+      console.log(`${color(`[shard ${line.shard}]`)} ${line.text}`);
+    } else {
+      console.log(line.text);
+    }
+  }
+}
+
+function report(runId: string, logs: Map<number, LogLine[]>): LogsReport {
+  return {
+    runId,
+    shards: [...logs.keys()],
+    lines: interleaveLogs([...logs.values()]),
+  };
+}
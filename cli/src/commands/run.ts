@@ -1,37 +1,48 @@
 import path from 'path';
 import chalk from 'chalk';
-import { createShards } from '../core/sharding';
-import { RunOptions, TestFramework } from '../types';
+import { createShards, createQueueShards, splitLargeFiles, expandBrowsers } from '../core/sharding';
+import { BackendType, Browser, RunOptions, RunSummary, TestFramework } from '../types';
 import { Logger } from '../utils/logger';
 import { loadConfig, validateConfig, findConfigFile } from '../utils/config';
-import { TestParser } from '../core/test-parser';
+import { TestParser, detectFrameworkFromPath } from '../core/test-parser';
+import { FrameworkDefinition, getFramework, isFramework, listFrameworks, loadConfiguredRunner } from '../core/frameworks';
+import { resolveWorkerEnv } from '../core/secrets';
+import { BundleFile, TestBundle, createBundle } from '../core/bundle';
 import { ECSBackend } from '../backends/ecs';
 import { KubernetesBackend } from '../backends/kubernetes';
+import { LocalBackend } from '../backends/local';
 import { getErrorMessage } from '../utils/retry';
 import { writeJunitXml } from '../output/junit';
+import { isJsonOutput, printJson, printJsonError } from '../output/json';
+import { TestHistory } from '../core/test-history';
+import { applyQuarantine } from '../core/quarantine';
+import { TimingStore, applyTimings, recordTimings } from '../core/timing-store';
+import { CostTracker, costByBrowser, expectedSpotShare, fargateTaskHourCost } from '../core/cost-tracker';
+import { createStorage } from '../storage';
 
 /**
- * Auto-detect test framework from directory path
- * Looks for framework names in the path (e.g., "examples/playwright" -> "playwright")
+ * `data` of the --output json document for a --dry-run
  */
-function detectFrameworkFromPath(testPath: string): TestFramework | null {
-  const normalizedPath = testPath.toLowerCase();
-
-  if (normalizedPath.includes('playwright')) {
-    return 'playwright';
-  }
-  if (normalizedPath.includes('selenium')) {
-    return 'selenium';
-  }
-  if (normalizedPath.includes('cypress')) {
-    return 'cypress';
-  }
-
-  return null;
+interface RunPlan {
+  dryRun: true;
+  testDirectory: string;
+  framework: TestFramework;
+  backend: BackendType;
+  parallelism: number;
+  estimatedCost: number;
+  files: string[];
+  browsers?: Browser[];
+  bundle: {
+    hash: string;
+    size: number;
+    files: BundleFile[];
+  };
 }
 
 export async function runCommand(options: RunOptions): Promise<void> {
   const logger = new Logger(options.verbose);
+  let json = isJsonOutput(options.output);
+  if (json) logger.useStderr();
   
   try {
     // Header
@@ -45,6 +56,8 @@ export async function runCommand(options: RunOptions): Promise<void> {
     
     const configPath = options.config || await findConfigFile() || '.cheaptest.yml';
     const config = await loadConfig(configPath);
+    json = isJsonOutput(options.output, config);
+    if (json) logger.useStderr();
     
     logger.succeedSpinner(`Loaded config from ${chalk.cyan(configPath)}`);
     
@@ -56,6 +69,7 @@ export async function runCommand(options: RunOptions): Promise<void> {
       errors.forEach(err => logger.error(`  • ${err}`));
       logger.info('');
       logger.info('Fix these errors in your .cheaptest.yml file');
+      if (json) printJsonError('run', new Error(`Configuration errors: ${errors.join('; ')}`));
       process.exit(1);
     }
     
@@ -67,10 +81,23 @@ export async function runCommand(options: RunOptions): Promise<void> {
     
     const parser = new TestParser();
 
-    // Resolve framework: CLI flag > auto-detect from path > config
+    // Resolve framework: CLI flag > tests.runner > auto-detect from path > config
     const testDirectory = options.tests || config.tests.directory;
+
+    // A custom runner registers its framework before anything looks it up
+    let runner: FrameworkDefinition | undefined;
+    try {
+      runner = loadConfiguredRunner(config.tests.runner, testDirectory);
+    } catch (err: unknown) {
+      logger.failSpinner('Could not load tests.runner');
+      logger.error(getErrorMessage(err));
+      if (json) printJsonError('run', err);
+      process.exit(1);
+    }
+
     const effectiveFramework: TestFramework =
       options.framework ||
+      runner?.name ||
       detectFrameworkFromPath(testDirectory) ||
       config.tests.framework;
 
@@ -82,6 +109,8 @@ export async function runCommand(options: RunOptions): Promise<void> {
     if (options.verbose) {
       if (options.framework) {
         logger.debug(`Framework: ${effectiveFramework} (from --framework flag)`);
+      } else if (runner) {
+        logger.debug(`Framework: ${effectiveFramework} (from tests.runner)`);
       } else if (detectFrameworkFromPath(testDirectory)) {
         logger.debug(`Framework: ${effectiveFramework} (auto-detected from path)`);
       } else {
@@ -89,13 +118,34 @@ export async function runCommand(options: RunOptions): Promise<void> {
       }
     }
 
+    if (!isFramework(effectiveFramework)) {
+      const message = `Unknown test framework "${effectiveFramework}" (expected ${listFrameworks().join(', ')})`;
+      logger.failSpinner('Test discovery failed');
+      logger.error(message);
+      logger.info('Set tests.runner in your .cheaptest.yml to use a custom runner');
+      if (json) printJsonError('run', new Error(message));
+      process.exit(1);
+    }
+
+    const browsers = config.tests.browsers || [];
+    if (browsers.length > 0 && !getFramework(effectiveFramework).browsers) {
+      logger.stopSpinner();
+      logger.error('tests.browsers is only supported for Playwright and Selenium');
+      logger.info(`Remove tests.browsers from your .cheaptest.yml to run ${effectiveFramework} tests`);
+      if (json) printJsonError('run', new Error('tests.browsers is only supported for Playwright and Selenium'));
+      process.exit(1);
+    }
+
     let discovery;
     try {
       discovery = await parser.discover({
         directory: testDirectory,
         pattern: effectivePattern,
         framework: effectiveFramework,
+        include: config.tests.include,
+        exclude: config.tests.exclude,
         includeEstimates: true, // Get duration estimates for better sharding
+        includeTests: options.splitTests,
       });
     } catch (err: unknown) {
       logger.failSpinner('Test discovery failed');
@@ -104,13 +154,41 @@ export async function runCommand(options: RunOptions): Promise<void> {
       logger.info('Make sure your test directory exists and contains test files');
       logger.info(`Looking in: ${chalk.cyan(options.tests || config.tests.directory)}`);
       logger.info(`Pattern: ${chalk.cyan(config.tests.pattern)}`);
+      if (json) printJsonError('run', err);
       process.exit(1);
     }
     
     logger.succeedSpinner(
       `Found ${chalk.green(discovery.totalFiles)} test files`
     );
+    if (discovery.configFile) {
+      logger.info(`  Using test files from ${chalk.cyan(discovery.configFile)}`);
+    }
+
+    // Prefer durations measured in previous runs over heuristic estimates
+    const storage = createStorage(config);
+    const timingStore = new TimingStore(storage, config.storage.bucket);
+    try {
+      const timings = await timingStore.load(effectiveFramework);
+      const { files, measured } = applyTimings(discovery.files, timings);
+      if (measured > 0) {
+        discovery = {
+          ...discovery,
+          files,
+          estimatedDuration: files.reduce((sum, file) => sum + (file.estimatedDuration || 0), 0),
+        };
+        logger.info(`  Using measured durations for ${measured}/${discovery.totalFiles} files`);
+      }
+    } catch (err: unknown) {
+      if (options.verbose) {
+        logger.debug(`Warning: could not load test timings, using estimates: ${getErrorMessage(err)}`);
+      }
+    }
     
+    // With tests.browsers every file runs once per browser
+    const units = expandBrowsers(discovery.files, browsers);
+    const estimatedDuration = units.reduce((sum, unit) => sum + (unit.estimatedDuration || 0), 0);
+
     // Show detailed stats in verbose mode
     if (options.verbose) {
       const stats = parser.getStats(discovery.files);
@@ -158,13 +236,13 @@ export async function runCommand(options: RunOptions): Promise<void> {
     // ============================================
     // 4. VALIDATE TEST COUNT VS PARALLELISM
     // ============================================
-    if (discovery.totalFiles < options.parallel) {
+    if (units.length < options.parallel) {
       logger.warn('');
       logger.warn(
-        `Only ${discovery.totalFiles} test files found, but parallelism is set to ${options.parallel}`
+        `Only ${units.length} test ${browsers.length > 0 ? 'runs' : 'files'} found, but parallelism is set to ${options.parallel}`
       );
       logger.warn(
-        `Consider reducing --parallel to ${discovery.totalFiles} for optimal resource usage`
+        `Consider reducing --parallel to ${units.length} for optimal resource usage`
       );
     }
     
@@ -180,14 +258,31 @@ export async function runCommand(options: RunOptions): Promise<void> {
     logger.info(`  Test Directory:  ${chalk.cyan(testDir)}`);
     logger.info(`  Test Files:      ${chalk.green(discovery.totalFiles)}`);
     logger.info(`  Framework:       ${chalk.cyan(effectiveFramework)}`);
+    if (browsers.length > 0) {
+      logger.info(`  Browsers:        ${chalk.cyan(browsers.join(', '))} (${units.length} file runs)`);
+    }
     logger.info(`  Backend:         ${chalk.cyan(options.backend)}`);
     logger.info(`  Parallelism:     ${chalk.yellow(options.parallel)} workers`);
+    logger.info(`  Scheduling:      ${options.queue ? 'work queue (files pulled on demand)' : 'static shards'}`);
+    if (options.splitTests && options.queue) {
+      logger.warn('  --split-tests has no effect with --queue; files are queued whole');
+    }
     logger.info(`  Timeout:         ${options.timeout || config.execution.timeout} minutes`);
     logger.info(`  Retries:         ${options.retries || 0}`);
     
     if (config.execution.cpu && config.execution.memory) {
       logger.info(`  Resources:       ${config.execution.cpu} CPU, ${config.execution.memory} MB`);
     }
+
+    const envNames = [...Object.keys(config.execution.env || {}), ...Object.keys(config.execution.secrets || {})];
+    if (envNames.length > 0) {
+      logger.info(`  Environment:     ${chalk.cyan(envNames.join(', '))}`);
+    }
+
+    const spotShare = expectedSpotShare(config);
+    if (options.backend === 'ecs' && config.execution.capacityProvider) {
+      logger.info(`  Capacity:        ${chalk.cyan(`${Math.round(spotShare * 100)}% Fargate Spot`)}`);
+    }
     
     // Show estimated costs
     const estimatedCost = calculateEstimatedCost(
@@ -195,7 +290,8 @@ export async function runCommand(options: RunOptions): Promise<void> {
       options.parallel,
       config.execution.cpu,
       config.execution.memory,
-      discovery.estimatedDuration || 300000 // Default 5 min if no estimate
+      estimatedDuration || 300000, // Default 5 min if no estimate
+      spotShare
     );
     
     logger.info(`  Estimated Cost:  ${logger.cost(estimatedCost)}`);
@@ -211,33 +307,75 @@ export async function runCommand(options: RunOptions): Promise<void> {
       discovery.files.forEach((file, idx) => {
         logger.info(`  ${idx + 1}. ${file.relativePath}`);
       });
+      if (browsers.length > 0) {
+        logger.info(`Each in: ${browsers.join(', ')}`);
+      }
+
+      // What would be uploaded, after .cheaptestignore and tests.include/exclude
+      let bundle: TestBundle;
+      try {
+        bundle = await createBundle(testDirectory, config.tests);
+      } catch (err: unknown) {
+        logger.error(`Could not read the test directory: ${getErrorMessage(err)}`);
+        if (json) printJsonError('run', err);
+        process.exit(1);
+      }
+      logger.info('');
+      logger.info(`Test code bundle (${bundle.files.length} files, ${formatSize(bundle.size)} uncompressed):`);
+      bundle.files.forEach(file => {
+        logger.info(`  ${formatSize(file.size).padStart(9)}  ${file.path}`);
+      });
       logger.info('');
       logger.info('Run without --dry-run to execute tests');
+      if (json) {
+        const plan: RunPlan = {
+          dryRun: true,
+          testDirectory: testDir,
+          framework: effectiveFramework,
+          backend: options.backend,
+          parallelism: Number(options.parallel),
+          estimatedCost,
+          files: discovery.files.map(file => file.relativePath),
+          ...(browsers.length > 0 && { browsers }),
+          bundle: { hash: bundle.hash, size: bundle.size, files: bundle.files },
+        };
+        printJson('run', plan);
+      }
       return;
     }
     
+    // Secrets are only read for a real run
+    let workerEnv: Record<string, string>;
+    try {
+      workerEnv = await resolveWorkerEnv(config.execution);
+    } catch (err: unknown) {
+      logger.error(getErrorMessage(err));
+      if (json) printJsonError('run', err);
+      process.exit(1);
+    }
+
     // ============================================
     // 7. INITIALIZE BACKEND
     // ============================================
     logger.startSpinner(`Initializing ${options.backend} backend...`);
     
     const backend = options.backend === 'kubernetes'
-      ? new KubernetesBackend(logger)
-      : new ECSBackend(logger);
+      ? new KubernetesBackend(logger, config.kubernetes)
+      : options.backend === 'local'
+        ? new LocalBackend(logger)
+        : new ECSBackend(logger);
     
     logger.succeedSpinner(`${options.backend} backend ready`);
 
-    // Graceful shutdown: cancel ECS tasks on Ctrl+C
-    if (backend instanceof ECSBackend) {
-      process.on('SIGINT', async () => {
-        logger.info('');
-        logger.warn('Interrupt received, cancelling tasks...');
-        if (backend.lastRunId) {
-          try { await backend.cancel(backend.lastRunId); } catch { /* best effort */ }
-        }
-        process.exit(130);
-      });
-    }
+    // Graceful shutdown: cancel ECS tasks / Kubernetes jobs / containers on Ctrl+C
+    process.on('SIGINT', async () => {
+      logger.info('');
+      logger.warn('Interrupt received, cancelling tasks...');
+      if (backend.lastRunId) {
+        try { await backend.cancel(backend.lastRunId); } catch { /* best effort */ }
+      }
+      process.exit(130);
+    });
 
     // ============================================
     // 8. EXECUTE TESTS
@@ -254,15 +392,29 @@ export async function runCommand(options: RunOptions): Promise<void> {
     logger.info('');
     logger.startSpinner(`Creating ${options.parallel} test shards...`);
 
-    const shards = createShards(
-      discovery.files,
-      options.parallel,
-      'duration-based' // Use duration-based for best balance
+    // Spread large spec files over several shards by test (static shards only)
+    const shardFiles = options.splitTests && !options.queue
+      ? splitLargeFiles(units, options.parallel)
+      : units;
+
+    const shards = options.queue
+      ? createQueueShards(units, options.parallel)
+      : createShards(
+          shardFiles,
+          options.parallel,
+          'duration-based' // Use duration-based for best balance
+        );
+
+    logger.succeedSpinner(
+      options.queue ? `${shards.length} queue workers created` : 'Shards created'
     );
 
-    logger.succeedSpinner('Shards created');
+    if (shardFiles.length > units.length) {
+      const splitCount = new Set(shardFiles.filter(f => f.selectedTests).map(f => `${f.relativePath}:${f.browser}`)).size;
+      logger.info(`  Split ${splitCount} large file(s) into ${shardFiles.length - units.length + splitCount} test groups`);
+    }
 
-    if (options.verbose) {
+    if (options.verbose && !options.queue) {
       const { TestSharding } = await import('../core/sharding');
       const sharding = new TestSharding();
       const visualization = sharding.visualizeShards(shards);
@@ -285,8 +437,9 @@ export async function runCommand(options: RunOptions): Promise<void> {
       result = await backend.run(
         {
           ...options,
-          testFiles: discovery.files,
+          testFiles: units,
           shards,
+          workerEnv,
         },
         effectiveConfig
       );
@@ -301,16 +454,78 @@ export async function runCommand(options: RunOptions): Promise<void> {
       
       logger.info('');
       logger.info('Troubleshooting tips:');
-      logger.info('  • Check AWS credentials are configured');
-      logger.info('  • Verify infrastructure is deployed (terraform apply)');
-      logger.info('  • Ensure S3 bucket exists and is accessible');
+      if (options.backend === 'local') {
+        logger.info('  • Check Docker is running (docker info)');
+        logger.info('  • Build the worker image (docker build -t cheaptest-worker:latest worker)');
+      } else {
+        logger.info('  • Check AWS credentials are configured');
+        logger.info('  • Verify infrastructure is deployed (terraform apply)');
+        logger.info('  • Ensure S3 bucket exists and is accessible');
+      }
       logger.info('  • Run with --verbose for detailed logs');
       
+      if (json) printJsonError('run', err);
       process.exit(1);
     }
     
     const endTime = Date.now();
     const totalDuration = endTime - startTime;
+
+    // Record per-test outcomes for `cheaptest flaky` (non-fatal)
+    try {
+      await new TestHistory(storage, config.storage.bucket).saveRun(result);
+    } catch (err: unknown) {
+      if (options.verbose) {
+        logger.debug(`Warning: could not save test history: ${getErrorMessage(err)}`);
+      }
+    }
+
+    // Feed measured durations into the next run's sharding (non-fatal)
+    try {
+      const timings = await timingStore.load(effectiveFramework);
+      await timingStore.save(effectiveFramework, recordTimings(timings, result.results || [], discovery.files));
+    } catch (err: unknown) {
+      if (options.verbose) {
+        logger.debug(`Warning: could not save test timings: ${getErrorMessage(err)}`);
+      }
+    }
+
+    // Record the run's cost for `cheaptest cost` (non-fatal)
+    try {
+      await new CostTracker(storage, config.storage.bucket).saveCost({
+        runId: result.runId,
+        timestamp: startTime,
+        backend: result.backend,
+        cost: result.cost,
+        duration: totalDuration,
+        totalTests: result.totalTests,
+        passed: result.passed,
+        failed: result.failed,
+        skipped: result.skipped,
+        parallelism: Number(options.parallel),
+        cpu: config.execution.cpu,
+        memory: config.execution.memory,
+        byBrowser: costByBrowser(result.results || [], result.cost),
+        spot: result.spot,
+        shards: result.shardCosts,
+      });
+    } catch (err: unknown) {
+      if (options.verbose) {
+        logger.debug(`Warning: could not save cost history: ${getErrorMessage(err)}`);
+      }
+    }
+
+    // Quarantined tests still run, but their failures don't fail the run
+    result = applyQuarantine(result, config.tests.quarantine);
+
+    // The summary on stdout replaces the human-readable report
+    if (json) {
+      if (options.junit) {
+        await exportJunit(result, options.junit, logger);
+      }
+      printJson('run', result);
+      process.exit(result.failed > 0 || result.interrupted ? 1 : 0);
+    }
     
     // ============================================
     // 9. DISPLAY RESULTS
@@ -337,21 +552,33 @@ export async function runCommand(options: RunOptions): Promise<void> {
 
     logger.info('');
 
-    const totalTests = result.passed + result.failed + result.skipped;
+    const totalTests = result.passed + result.failed + result.skipped + (result.quarantined || 0);
     const passRate = totalTests > 0 
       ? ((result.passed / totalTests) * 100).toFixed(1)
       : '0';
 
     logger.info(`  Total Tests:     ${totalTests}`);
 
+    if (result.interrupted) {
+      logger.warn(`  Partial:         workers were stopped before finishing`);
+    }
+
     if (result.passed > 0) {
       logger.success(`  Passed:          ${result.passed} (${passRate}%)`);
     }
 
+    if (result.flaky) {
+      logger.warn(`  Flaky:           ${result.flaky} (passed on retry)`);
+    }
+
     if (result.failed > 0) {
       logger.error(`  Failed:          ${result.failed}`);
     }
 
+    if (result.quarantined) {
+      logger.warn(`  Quarantined:     ${result.quarantined} failed (not counted)`);
+    }
+
     if (result.skipped > 0) {
       logger.warn(`  Skipped:         ${result.skipped}`);
     }
@@ -364,13 +591,18 @@ export async function runCommand(options: RunOptions): Promise<void> {
       logger.section('Cost Breakdown', '');
       
       if (result.backend === 'ecs') {
-        const hours = totalDuration / (1000 * 60 * 60);
-        const cpuCost = (config.execution.cpu / 1024) * 0.04048 * options.parallel * hours;
-        const memCost = (config.execution.memory / 1024) * 0.004445 * options.parallel * hours;
+        const shardCosts = result.shardCosts || [];
+        const tasks = shardCosts.reduce((sum, c) => sum + c.tasks, 0);
+        const billed = shardCosts.reduce((sum, c) => sum + c.billed, 0);
+        const idleCost = shardCosts.reduce((sum, c) => sum + c.idleCost, 0);
+        const spotTaskShare = result.spot ? result.spot.tasks / Math.max(result.spot.tasks + result.spot.onDemandTasks, 1) : 0;
         
-        logger.info('  ECS Fargate:');
-        logger.info(`    • CPU:         ${options.parallel} tasks × ${config.execution.cpu / 1024} vCPU × ${(totalDuration / 60000).toFixed(2)} min = ${logger.cost(cpuCost)}`);
-        logger.info(`    • Memory:      ${options.parallel} tasks × ${config.execution.memory / 1024} GB × ${(totalDuration / 60000).toFixed(2)} min = ${logger.cost(memCost)}`);
+        logger.info(result.spot ? `  ECS Fargate (${Math.round(spotTaskShare * 100)}% Spot):` : '  ECS Fargate:');
+        logger.info(`    • Billed:      ${tasks} tasks × ${config.execution.cpu / 1024} vCPU × ${config.execution.memory / 1024} GB, ${(billed / 60000).toFixed(2)} min in total`);
+        logger.info(`    • Idle:        ${logger.cost(idleCost)} outside tests (image pull, setup, uploads, 1-minute minimum)`);
+        if (result.spot?.interruptions) {
+          logger.info(`    • Spot:        ${result.spot.interruptions} interruption(s), shards relaunched`);
+        }
         logger.info(`    • Total:       ${logger.cost(result.cost)}`);
       } else if (result.backend === 'kubernetes') {
         const hours = totalDuration / (1000 * 60 * 60);
@@ -383,6 +615,10 @@ export async function runCommand(options: RunOptions): Promise<void> {
         logger.info(`    • Node cost:   ${logger.cost(nodeCost)}`);
         logger.info(`    • Total:       ${logger.cost(result.cost)}`);
         logger.info(chalk.gray(`    • EKS control plane: $72/month (not included above)`));
+      } else if (result.backend === 'local') {
+        logger.info('  Local Docker:');
+        logger.info(`    • Containers:  ${options.parallel} on this machine`);
+        logger.info(`    • Total:       ${logger.cost(0)}`);
       }
       
       logger.info('');
@@ -413,8 +649,8 @@ export async function runCommand(options: RunOptions): Promise<void> {
       logger.info(`  Tests per second:      ${testsPerSecond}`);
       logger.info(`  Parallelization:       ${options.parallel}x`);
       
-      if (discovery.estimatedDuration) {
-        const speedup = discovery.estimatedDuration / totalDuration;
+      if (estimatedDuration) {
+        const speedup = estimatedDuration / totalDuration;
         logger.info(`  Speedup vs serial:     ${speedup.toFixed(1)}x`);
       }
     }
@@ -435,12 +671,7 @@ export async function runCommand(options: RunOptions): Promise<void> {
     // 12b. JUNIT XML EXPORT
     // ============================================
     if (options.junit) {
-      try {
-        const junitPath = await writeJunitXml(result, options.junit);
-        logger.success(`JUnit XML report written to ${chalk.cyan(junitPath)}`);
-      } catch (err: unknown) {
-        logger.warn(`Failed to write JUnit XML: ${getErrorMessage(err)}`);
-      }
+      await exportJunit(result, options.junit, logger);
     }
 
     logger.info('');
@@ -448,7 +679,10 @@ export async function runCommand(options: RunOptions): Promise<void> {
     // ============================================
     // 13. EXIT WITH APPROPRIATE CODE
     // ============================================
-    if (result.failed > 0) {
+    if (result.interrupted) {
+      logger.error('Test run was stopped before finishing; results are partial');
+      process.exit(1);
+    } else if (result.failed > 0) {
       logger.error('Test run completed with failures');
       process.exit(1);
     } else {
@@ -466,29 +700,48 @@ export async function runCommand(options: RunOptions): Promise<void> {
       logger.debug(err.stack);
     }
     
+    if (json) printJsonError('run', err);
     process.exit(1);
   }
 }
 
+/**
+ * Write the JUnit XML report; a failure here doesn't fail the run
+ */
+async function exportJunit(result: RunSummary, outputPath: string, logger: Logger): Promise<void> {
+  try {
+    const junitPath = await writeJunitXml(result, outputPath);
+    logger.success(`JUnit XML report written to ${chalk.cyan(junitPath)}`);
+  } catch (err: unknown) {
+    logger.warn(`Failed to write JUnit XML: ${getErrorMessage(err)}`);
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Calculate estimated cost for test run
  */
 function calculateEstimatedCost(
-  backend: 'ecs' | 'kubernetes',
+  backend: BackendType,
   parallelism: number,
   cpu: number,
   memory: number,
-  estimatedDurationMs: number
+  estimatedDurationMs: number,
+  spotShare: number
 ): number {
   const hours = estimatedDurationMs / (1000 * 60 * 60);
   
-  if (backend === 'ecs') {
-    // Fargate pricing (us-east-1)
-    const cpuCost = (cpu / 1024) * 0.04048; // per vCPU-hour
-    const memCost = (memory / 1024) * 0.004445; // per GB-hour
-    const costPerTaskHour = cpuCost + memCost;
-    
-    return parallelism * costPerTaskHour * hours;
+  if (backend === 'local') {
+    // Runs on the developer's own machine
+    return 0;
+  } else if (backend === 'ecs') {
+    // Fargate pricing (us-east-1), weighted by execution.capacityProvider
+    return parallelism * fargateTaskHourCost(cpu, memory, spotShare) * hours;
   } else {
     // EKS + EC2 spot pricing (approximate)
     // Assuming t3a.large spot at $0.0188/hour
@@ -0,0 +1,149 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import type { V1Job, V1Pod } from '@kubernetes/client-node';
+import type { DescribeTasksCommand, Task } from '@aws-sdk/client-ecs';
+import { statusCommand } from './status';
+import { FileSystemStorage } from '../storage/filesystem';
+import { KubernetesApi } from '../kubernetes/client';
+import { CheaptestConfig } from '../types';
+
+let root: string;
+const listedNamespaces: string[] = [];
+let pods: V1Pod[] = [];
+let ecsTasks: Task[] = [];
+const describeRequests: DescribeTasksCommand['input'][] = [];
+
+jest.mock('../utils/config', () => ({
+  findConfigFile: async () => null,
+  loadConfig: async (): Promise<CheaptestConfig> => ({
+    version: 1,
+    aws: { region: 'us-east-1', cluster: 'c', taskDefinition: 't', subnets: [], securityGroups: [] },
+    tests: { directory: './e2e', pattern: '', framework: 'playwright' },
+    execution: { cpu: 1024, memory: 2048, timeout: 10 },
+    storage: { type: 'filesystem', bucket: 'test-bucket', retentionDays: 30, path: root },
+    output: { format: 'pretty', verbose: false },
+    kubernetes: { namespace: 'default', image: 'worker:1.0' },
+  }),
+}));
+
+jest.mock('../kubernetes/client', () => ({
+  createKubernetesClient: async (): Promise<KubernetesApi> => ({
+    createJob: async () => {},
+    listJobs: async () => [] as V1Job[],
+    listPods: async (namespace: string) => {
+      listedNamespaces.push(namespace);
+      return pods;
+    },
+    deleteJobs: async () => {},
+    createSecret: async () => {},
+    deleteSecrets: async () => {},
+  }),
+}));
+
+jest.mock('@aws-sdk/client-ecs', () => ({
+  ...jest.requireActual('@aws-sdk/client-ecs'),
+  ECSClient: class {
+    async send(command: DescribeTasksCommand) {
+      describeRequests.push(command.input);
+      return { tasks: ecsTasks };
+    }
+  },
+}));
+
+function makeTask(arn: string, shardId: number, lastStatus: string, createdAt: string): Task {
+  return {
+    taskArn: arn,
+    lastStatus,
+    createdAt: new Date(createdAt),
+    tags: [{ key: 'CheaptestShard', value: shardId.toString() }],
+  };
+}
+
+function makePod(shardId: number, phase: string): V1Pod {
+  return {
+    metadata: {
+      name: `cheaptest-run-k8s-${shardId}-abc`,
+      labels: { 'cheaptest.io/shard': shardId.toString() },
+      creationTimestamp: new Date('2025-01-15T10:00:00Z'),
+    },
+    status: { phase },
+  };
+}
+
+describe('statusCommand', () => {
+  let output: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'status-test-'));
+    output = '';
+    listedNamespaces.length = 0;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+      output += chunk;
+      return true;
+    });
+    jest.spyOn(process, 'exit').mockImplementation(code => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    const storage = new FileSystemStorage(root);
+    const shards = [0, 1].map(id => ({ id, files: [], estimatedDuration: 1000, totalSize: 0 }));
+    await storage.uploadJSON('test-bucket', 'runs/run-k8s/manifest.json', { testCode: 'cache/test-code/abc.tar.gz', hash: 'abc', backend: 'kubernetes' });
+    await storage.uploadJSON('test-bucket', 'runs/run-k8s/shards.json', shards);
+    await storage.uploadJSON('test-bucket', 'runs/run-k8s/jobs.json', { jobNames: [], namespace: 'ci', createdAt: '2025-01-15T10:00:00Z' });
+    await storage.uploadJSON('test-bucket', 'runs/run-k8s/results/shard-0.json', {
+      shard: 0, passed: 1, failed: 0, skipped: 0, duration: 1000,
+      tests: [{ name: 'should login', file: 'login.spec.ts', status: 'passed', duration: 1000 }],
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should report pod states for a Kubernetes run', async () => {
+    pods = [makePod(0, 'Succeeded'), makePod(1, 'Running')];
+
+    await statusCommand('run-k8s', { output: 'json' });
+
+    const { data } = JSON.parse(output);
+    expect(data.status).toBe('running');
+    expect(data.shards).toEqual([
+      expect.objectContaining({ shardId: 0, state: 'completed', podStatus: 'succeeded' }),
+      expect.objectContaining({ shardId: 1, state: 'running', podStatus: 'running' }),
+    ]);
+    // The namespace the run's jobs were created in, not the configured one
+    expect(listedNamespaces).toEqual(['ci']);
+  });
+
+  it('should report a pod that exited without a result as stopped', async () => {
+    pods = [makePod(0, 'Succeeded'), makePod(1, 'Failed')];
+
+    await statusCommand('run-k8s', { output: 'json' });
+
+    const { data } = JSON.parse(output);
+    expect(data.shards[1]).toEqual(expect.objectContaining({ shardId: 1, state: 'stopped', podStatus: 'failed' }));
+  });
+
+  it('should read ECS task shards from their tags and report the newest task of a shard', async () => {
+    const storage = new FileSystemStorage(root);
+    await storage.uploadJSON('test-bucket', 'runs/run-ecs/manifest.json', { testCode: 'cache/test-code/abc.tar.gz', hash: 'abc', backend: 'ecs' });
+    await storage.uploadJSON('test-bucket', 'runs/run-ecs/shards.json', [{ id: 0, files: [], estimatedDuration: 1000, totalSize: 0 }]);
+    await storage.uploadJSON('test-bucket', 'runs/run-ecs/tasks.json', {
+      taskArns: ['arn:relaunched', 'arn:interrupted'], cluster: 'c', region: 'us-east-1', createdAt: '2025-01-15T10:00:00Z',
+    });
+    describeRequests.length = 0;
+    ecsTasks = [
+      makeTask('arn:relaunched', 0, 'RUNNING', '2025-01-15T10:05:00Z'),
+      makeTask('arn:interrupted', 0, 'STOPPED', '2025-01-15T10:00:00Z'),
+    ];
+
+    await statusCommand('run-ecs', { output: 'json' });
+
+    const { data } = JSON.parse(output);
+    expect(describeRequests).toEqual([expect.objectContaining({ include: ['TAGS'] })]);
+    expect(data.shards).toEqual([expect.objectContaining({ shardId: 0, state: 'running', ecsStatus: 'RUNNING' })]);
+  });
+});
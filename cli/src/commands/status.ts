@@ -1,14 +1,19 @@
 import chalk from 'chalk';
-import { ECSClient, DescribeTasksCommand } from '@aws-sdk/client-ecs';
+import { ECSClient, DescribeTasksCommand, Task } from '@aws-sdk/client-ecs';
 import { Logger } from '../utils/logger';
 import { loadConfig, findConfigFile } from '../utils/config';
-import { createS3Client } from '../aws/s3-client';
-import { S3ClientWrapper } from '../aws/s3-client';
-import { CheaptestConfig, TestResult, TestShard, RunStatus } from '../types';
+import { Storage, createStorage } from '../storage';
+import { CheaptestConfig, OutputFormat, TestResult, TestShard, RunStatus } from '../types';
 import { getErrorMessage } from '../utils/retry';
+import { ShardProgress, loadProgress, formatProgress } from '../core/progress';
+import { isJsonOutput, printJson, printJsonError } from '../output/json';
+import { taskShards } from '../backends/ecs';
+import { PodState, kubernetesBackendForRun } from '../backends/kubernetes';
+import { runBackend } from '../backends/common';
 
 interface StatusOptions {
   watch?: boolean;
+  output?: OutputFormat;
 }
 
 interface TasksManifest {
@@ -18,14 +23,24 @@ interface TasksManifest {
   createdAt: string;
 }
 
-type ShardState = 'pending' | 'running' | 'stopped' | 'completed' | 'failed' | 'unknown';
+type ShardState = 'pending' | 'running' | 'stopped' | 'completed' | 'failed' | 'interrupted' | 'unknown';
 
 interface ShardStatusInfo {
   shardId: number;
   state: ShardState;
   result?: TestResult;
   ecsStatus?: string;
+  podStatus?: PodState; // Kubernetes runs
   exitCode?: number;
+  progress?: ShardProgress; // Live counts from the worker's events until the result is uploaded
+}
+
+interface BrowserResults {
+  browser: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number;
 }
 
 interface StatusData {
@@ -33,47 +48,103 @@ interface StatusData {
   shardStatuses: ShardStatusInfo[];
   results: TestResult[];
   metadata: Record<string, string>;
-  hasTaskArns: boolean;
+  hasTaskArns: boolean; // Live ECS task or Kubernetes pod state was available
+}
+
+interface LiveShardState {
+  state: ShardState;
+  ecsStatus?: string;
+  podStatus?: PodState;
+  exitCode?: number;
 }
 
+/**
+ * `data` of the --output json document
+ */
+interface StatusReport extends RunStatus {
+  framework?: string;
+  shards: ShardStatusInfo[];
+  browsers?: BrowserResults[]; // Runs with a tests.browsers matrix
+}
+
+const POLL_INTERVAL_MS = 5000;
+
 export async function statusCommand(runId: string, options: StatusOptions): Promise<void> {
   const logger = new Logger();
+  let json = isJsonOutput(options.output);
+  if (json) logger.useStderr();
 
   if (!runId) {
     logger.error('Run ID is required');
     logger.info('');
     logger.info(`Usage: ${chalk.cyan('cheaptest status <runId>')}`);
     logger.info(`Example: ${chalk.cyan('cheaptest status run-1707600000000')}`);
+    if (json) printJsonError('status', new Error('Run ID is required'));
     process.exit(1);
   }
 
   try {
     const configPath = await findConfigFile() || '.cheaptest.yml';
     const config = await loadConfig(configPath);
-    const s3Client = createS3Client(config.aws.region);
-
-    if (options.watch) {
-      await watchStatus(runId, config, s3Client, logger);
+    const storage = createStorage(config);
+    json = isJsonOutput(options.output, config);
+
+    if (json) {
+      logger.useStderr();
+      printJson('status', await reportStatus(runId, config, storage, logger, !!options.watch));
+    } else if (options.watch) {
+      await watchStatus(runId, config, storage, logger);
     } else {
       logger.header('Run Status');
       logger.info('');
-      await showStatus(runId, config, s3Client, logger, false);
+      await showStatus(runId, config, storage, logger, false);
     }
   } catch (err: unknown) {
     logger.error(`Failed to get status: ${getErrorMessage(err)}`);
+    if (json) printJsonError('status', err);
     process.exit(1);
   }
 }
 
+/**
+ * Status for --output json. With --watch, polls until every shard has
+ * finished and reports the final state.
+ */
+async function reportStatus(
+  runId: string,
+  config: CheaptestConfig,
+  storage: Storage,
+  logger: Logger,
+  watch: boolean,
+): Promise<StatusReport> {
+  while (true) {
+    const data = await gatherStatus(runId, config, storage);
+    const status = summarizeStatus(runId, data);
+
+    if (!watch || isFinished(status)) {
+      const browsers = resultsByBrowser(data.results);
+      return {
+        ...status,
+        framework: data.metadata.framework,
+        shards: data.shardStatuses,
+        ...(browsers.length > 0 && { browsers }),
+      };
+    }
+
+    logger.info(`${status.progress.completed}/${status.progress.total} shards complete, waiting...`);
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
 async function gatherStatus(
   runId: string,
   config: CheaptestConfig,
-  s3Client: S3ClientWrapper,
+  storage: Storage,
 ): Promise<StatusData> {
   // 1. Load shards.json (validates run exists)
   let shards: TestShard[];
   try {
-    shards = await s3Client.downloadJSON<TestShard[]>(
+    shards = await storage.downloadJSON<TestShard[]>(
       config.storage.bucket,
       `runs/${runId}/shards.json`,
     );
@@ -84,13 +155,13 @@ async function gatherStatus(
   // 2. Get shards.json metadata for timestamps/framework
   let metadata: Record<string, string> = {};
   try {
-    metadata = await s3Client.getMetadata(config.storage.bucket, `runs/${runId}/shards.json`);
+    metadata = await storage.getMetadata(config.storage.bucket, `runs/${runId}/shards.json`);
   } catch {
     // Non-critical
   }
 
   // 3. List completed result files
-  const resultKeys = await s3Client.list({
+  const resultKeys = await storage.list({
     bucket: config.storage.bucket,
     prefix: `runs/${runId}/results/`,
   });
@@ -100,26 +171,80 @@ async function gatherStatus(
   const results: TestResult[] = [];
   for (const key of completedKeys) {
     try {
-      const result = await s3Client.downloadJSON<TestResult>(config.storage.bucket, key);
+      const result = await storage.downloadJSON<TestResult>(config.storage.bucket, key);
       results.push(result);
     } catch {
       // Skip corrupt results
     }
   }
 
-  // 5. Try to load task ARNs for live ECS state
-  let ecsTaskStates: Map<number, { status: string; exitCode?: number }> | null = null;
-  let hasTaskArns = false;
+  // 5. Live state from the backend the run used
+  const liveStates = await runBackend(storage, config.storage.bucket, runId) === 'kubernetes'
+    ? await podStates(runId, config, storage)
+    : await ecsTaskStates(runId, config, storage);
+  const hasTaskArns = liveStates !== null;
+
+  // 6. Live progress of shards still running
+  const unfinished = shards.filter(shard => !results.some(r => r.shard === shard.id));
+  const progress = await loadProgress(storage, config.storage.bucket, runId, unfinished);
 
+  // 7. Build per-shard status
+  const shardStatuses: ShardStatusInfo[] = shards.map(shard => {
+    const result = results.find(r => r.shard === shard.id);
+    const live = liveStates?.get(shard.id);
+    const shardProgress = progress.find(p => p.shard === shard.id);
+
+    // S3 result is the source of truth
+    if (result) {
+      return {
+        shardId: shard.id,
+        state: (result.interrupted ? 'interrupted' : result.failed > 0 ? 'failed' : 'completed') as ShardState,
+        result,
+        ecsStatus: live?.ecsStatus,
+        podStatus: live?.podStatus,
+        exitCode: live?.exitCode,
+      };
+    }
+
+    // No result yet — use the live state if available, else the worker's events
+    if (live) {
+      return {
+        shardId: shard.id,
+        state: live.state,
+        ecsStatus: live.ecsStatus,
+        podStatus: live.podStatus,
+        exitCode: live.exitCode,
+        progress: shardProgress,
+      };
+    }
+
+    return {
+      shardId: shard.id,
+      state: (shardProgress && !shardProgress.done ? 'running' : 'unknown') as ShardState,
+      progress: shardProgress,
+    };
+  });
+
+  return { shards, shardStatuses, results, metadata, hasTaskArns };
+}
+
+/**
+ * Each shard's ECS task state, from the task ARNs in tasks.json;
+ * null when the run has none or ECS can't be queried
+ */
+async function ecsTaskStates(
+  runId: string,
+  config: CheaptestConfig,
+  storage: Storage,
+): Promise<Map<number, LiveShardState> | null> {
   try {
-    const tasksManifest = await s3Client.downloadJSON<TasksManifest>(
+    const tasksManifest = await storage.downloadJSON<TasksManifest>(
       config.storage.bucket,
       `runs/${runId}/tasks.json`,
     );
-    hasTaskArns = true;
 
     const ecsClient = new ECSClient({ region: tasksManifest.region, maxAttempts: 3, retryMode: 'adaptive' });
-    const allTasks: any[] = [];
+    const allTasks: Task[] = [];
 
     // DescribeTasksCommand supports max 100 tasks per call
     const batchSize = 100;
@@ -128,64 +253,59 @@ async function gatherStatus(
       const resp = await ecsClient.send(new DescribeTasksCommand({
         cluster: tasksManifest.cluster,
         tasks: batch,
+        include: ['TAGS'], // For the shard of a task started alone
       }));
       allTasks.push(...(resp.tasks || []));
     }
 
-    ecsTaskStates = new Map();
-    for (const task of allTasks) {
-      const shardTag = task.tags?.find((t: any) => t.key === 'CheaptestShard');
-      if (shardTag?.value !== undefined) {
-        const shardId = parseInt(shardTag.value);
-        ecsTaskStates.set(shardId, {
-          status: task.lastStatus || 'UNKNOWN',
+    const states = new Map<number, LiveShardState>();
+    const shardOfTask = await taskShards(storage, config.storage.bucket, runId, allTasks);
+    // A Spot relaunch gives a shard several tasks; the newest one is its current state
+    const newestFirst = [...allTasks].sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+    for (const task of newestFirst) {
+      const shardId = task.taskArn !== undefined ? shardOfTask.get(task.taskArn) : undefined;
+      if (shardId !== undefined && !states.has(shardId)) {
+        const status = task.lastStatus || 'UNKNOWN';
+        states.set(shardId, {
+          state: mapEcsStatus(status),
+          ecsStatus: status,
           exitCode: task.containers?.[0]?.exitCode,
         });
       }
     }
+    return states;
   } catch {
     // No task ARNs available or ECS query failed — S3-only mode
+    return null;
   }
+}
 
-  // 6. Build per-shard status
-  const shardStatuses: ShardStatusInfo[] = shards.map(shard => {
-    const result = results.find(r => r.shard === shard.id);
-    const ecsState = ecsTaskStates?.get(shard.id);
-
-    // S3 result is the source of truth
-    if (result) {
-      return {
-        shardId: shard.id,
-        state: (result.failed > 0 ? 'failed' : 'completed') as ShardState,
-        result,
-        ecsStatus: ecsState?.status,
-        exitCode: ecsState?.exitCode,
-      };
-    }
-
-    // No result yet — use ECS state if available
-    if (ecsState) {
-      return {
-        shardId: shard.id,
-        state: mapEcsStatus(ecsState.status),
-        ecsStatus: ecsState.status,
-        exitCode: ecsState.exitCode,
-      };
+/**
+ * Each shard's latest pod state on Kubernetes; null when the cluster
+ * can't be reached
+ */
+async function podStates(
+  runId: string,
+  config: CheaptestConfig,
+  storage: Storage,
+): Promise<Map<number, LiveShardState> | null> {
+  try {
+    const backend = await kubernetesBackendForRun(storage, config, runId, new Logger());
+    const states = new Map<number, LiveShardState>();
+    for (const [shardId, podStatus] of await backend.shardStates(runId)) {
+      states.set(shardId, { state: mapPodState(podStatus), podStatus });
     }
-
-    return {
-      shardId: shard.id,
-      state: 'unknown' as ShardState,
-    };
-  });
-
-  return { shards, shardStatuses, results, metadata, hasTaskArns };
+    return states;
+  } catch {
+    // Cluster unreachable — S3-only mode
+    return null;
+  }
 }
 
 async function showStatus(
   runId: string,
   config: CheaptestConfig,
-  s3Client: S3ClientWrapper,
+  storage: Storage,
   logger: Logger,
   quiet: boolean,
 ): Promise<RunStatus> {
@@ -195,7 +315,7 @@ async function showStatus(
 
   let data: StatusData;
   try {
-    data = await gatherStatus(runId, config, s3Client);
+    data = await gatherStatus(runId, config, storage);
   } catch (err: unknown) {
     if (!quiet) {
       logger.failSpinner('Run not found');
@@ -213,14 +333,18 @@ async function showStatus(
 
   renderStatus(runId, data, logger);
 
-  // Build RunStatus return value
-  const completed = data.shardStatuses.filter(s => s.state === 'completed' || s.state === 'failed').length;
+  return summarizeStatus(runId, data);
+}
+
+function summarizeStatus(runId: string, data: StatusData): RunStatus {
+  const completed = data.shardStatuses.filter(s => s.result).length;
   const running = data.shardStatuses.filter(s => s.state === 'running').length;
   const failed = data.shardStatuses.filter(s => s.state === 'failed').length;
+  const interrupted = data.shardStatuses.filter(s => s.state === 'interrupted').length;
 
   let overallStatus: RunStatus['status'];
   if (completed === data.shards.length) {
-    overallStatus = failed > 0 ? 'failed' : 'completed';
+    overallStatus = interrupted > 0 ? 'cancelled' : failed > 0 ? 'failed' : 'completed';
   } else if (running > 0) {
     overallStatus = 'running';
   } else if (completed > 0) {
@@ -257,13 +381,14 @@ function renderStatus(runId: string, data: StatusData, logger: Logger): void {
     logger.info(`  Started:      ${chalk.gray(started.toLocaleString())} (${formatDuration(elapsed)} ago)`);
   }
   if (!hasTaskArns) {
-    logger.info(`  ${chalk.gray('(ECS task tracking not available for this run)')}`);
+    logger.info(`  ${chalk.gray('(Live task or pod state not available for this run)')}`);
   }
   logger.info('');
 
   // --- Counts ---
   const completed = shardStatuses.filter(s => s.state === 'completed').length;
   const failed = shardStatuses.filter(s => s.state === 'failed').length;
+  const interrupted = shardStatuses.filter(s => s.state === 'interrupted').length;
   const running = shardStatuses.filter(s => s.state === 'running').length;
   const pending = shardStatuses.filter(s => s.state === 'pending').length;
   const stopped = shardStatuses.filter(s => s.state === 'stopped').length;
@@ -274,22 +399,25 @@ function renderStatus(runId: string, data: StatusData, logger: Logger): void {
   const barWidth = 40;
   const completedWidth = Math.round((completed / total) * barWidth);
   const failedWidth = Math.round((failed / total) * barWidth);
+  const interruptedWidth = Math.round((interrupted / total) * barWidth);
   const runningWidth = Math.round((running / total) * barWidth);
-  const remaining = Math.max(0, barWidth - completedWidth - failedWidth - runningWidth);
+  const remaining = Math.max(0, barWidth - completedWidth - failedWidth - interruptedWidth - runningWidth);
 
   const bar =
     chalk.green('\u2588'.repeat(completedWidth)) +
     chalk.red('\u2588'.repeat(failedWidth)) +
+    chalk.yellow('\u2588'.repeat(interruptedWidth)) +
     chalk.blue('\u2588'.repeat(runningWidth)) +
     chalk.gray('\u2591'.repeat(remaining));
 
-  logger.info(`  Progress: [${bar}] ${completed + failed}/${total}`);
+  logger.info(`  Progress: [${bar}] ${completed + failed + interrupted}/${total}`);
   logger.info('');
 
   // --- Status Counts ---
   const parts: string[] = [];
   if (completed > 0) parts.push(chalk.green(`Completed: ${completed}`));
   if (failed > 0) parts.push(chalk.red(`Failed: ${failed}`));
+  if (interrupted > 0) parts.push(chalk.yellow(`Interrupted: ${interrupted}`));
   if (running > 0) parts.push(chalk.blue(`Running: ${running}`));
   if (pending > 0) parts.push(chalk.yellow(`Pending: ${pending}`));
   if (stopped > 0) parts.push(chalk.gray(`Stopped: ${stopped}`));
@@ -301,11 +429,20 @@ function renderStatus(runId: string, data: StatusData, logger: Logger): void {
   logger.info('  Shards:');
   for (const shard of shardStatuses) {
     const icon = stateIcon(shard.state);
-    const ecsLabel = shard.ecsStatus ? chalk.gray(` [${shard.ecsStatus}]`) : '';
+    const liveStatus = shard.ecsStatus || shard.podStatus;
+    const ecsLabel = liveStatus ? chalk.gray(` [${liveStatus}]`) : '';
     const testCount = shard.result
-      ? chalk.gray(` (${shard.result.passed}P/${shard.result.failed}F/${shard.result.skipped}S)`)
+      ? chalk.gray(` (${shard.result.passed}P/${shard.result.failed}F/${shard.result.skipped}S${shard.result.interrupted ? ', stopped early' : ''})`)
+      : shard.progress
+        ? chalk.gray(` (${formatProgress(shard.progress)})`)
+        : '';
+    const stalled = shard.progress?.stalled && shard.progress.lastEventAt
+      ? chalk.red(` no heartbeat since ${new Date(shard.progress.lastEventAt).toLocaleTimeString()}`)
       : '';
-    logger.info(`    ${icon} Shard ${shard.shardId}${ecsLabel}${testCount}`);
+    logger.info(`    ${icon} Shard ${shard.shardId}${ecsLabel}${testCount}${stalled}`);
+    if (shard.progress?.current && !shard.progress.stalled) {
+      logger.info(`        ${chalk.gray(shard.progress.current)}`);
+    }
   }
   logger.info('');
 
@@ -317,7 +454,7 @@ function renderStatus(runId: string, data: StatusData, logger: Logger): void {
     const totalSkipped = results.reduce((s, r) => s + r.skipped, 0);
     const totalDuration = results.reduce((s, r) => s + r.duration, 0);
 
-    const label = completed + failed < total ? 'Test Results (partial)' : 'Test Results';
+    const label = completed + failed < total || interrupted > 0 ? 'Test Results (partial)' : 'Test Results';
     logger.info(`  ${chalk.bold(label)}:`);
     logger.info(`    Total:   ${totalTests}`);
     if (totalPassed > 0) logger.info(`    ${chalk.green('Passed:')}  ${totalPassed}`);
@@ -326,13 +463,27 @@ function renderStatus(runId: string, data: StatusData, logger: Logger): void {
     logger.info(`    Duration: ${formatDuration(totalDuration)}`);
     logger.info('');
 
+    // --- Per-Browser Results ---
+    const browsers = resultsByBrowser(results);
+    if (browsers.length > 0) {
+      logger.info(`  ${chalk.bold('By Browser')}:`);
+      for (const b of browsers) {
+        const failedLabel = b.failed > 0 ? chalk.red(`${b.failed} failed`) : `${b.failed} failed`;
+        logger.info(
+          `    ${b.browser.padEnd(10)} ${chalk.green(`${b.passed} passed`)}, ${failedLabel}, ${b.skipped} skipped  ${chalk.gray(formatDuration(b.duration))}`
+        );
+      }
+      logger.info('');
+    }
+
     // --- Failed Test Details ---
     if (totalFailed > 0) {
       logger.info(`  ${chalk.bold.red('Failed Tests')}:`);
       for (const result of results) {
         const failedTests = result.tests.filter(t => t.status === 'failed');
         for (const test of failedTests) {
-          logger.info(`    ${chalk.red('\u2716')} Shard ${result.shard}: ${chalk.cyan(test.file)} - ${test.name}`);
+          const browser = test.browser ? chalk.gray(` [${test.browser}]`) : '';
+          logger.info(`    ${chalk.red('\u2716')} Shard ${result.shard}: ${chalk.cyan(test.file)}${browser} - ${test.name}`);
           if (test.error) {
             logger.info(`      ${chalk.gray(test.error.substring(0, 150))}`);
           }
@@ -346,11 +497,9 @@ function renderStatus(runId: string, data: StatusData, logger: Logger): void {
 async function watchStatus(
   runId: string,
   config: CheaptestConfig,
-  s3Client: S3ClientWrapper,
+  storage: Storage,
   logger: Logger,
 ): Promise<void> {
-  const POLL_INTERVAL_MS = 5000;
-
   process.on('SIGINT', () => {
     logger.info('');
     logger.info('Watch mode stopped.');
@@ -364,12 +513,14 @@ async function watchStatus(
     logger.header(`Run Status (watching) - ${new Date().toLocaleTimeString()}`);
     logger.info('');
 
-    const status = await showStatus(runId, config, s3Client, logger, true);
+    const status = await showStatus(runId, config, storage, logger, true);
 
-    if (status.status === 'completed' || status.status === 'failed') {
+    if (isFinished(status)) {
       logger.info('');
       if (status.status === 'completed') {
         logger.success('Run completed. Exiting watch mode.');
+      } else if (status.status === 'cancelled') {
+        logger.warn('Run was stopped before finishing; results are partial. Exiting watch mode.');
       } else {
         logger.error('Run completed with failures. Exiting watch mode.');
       }
@@ -399,10 +550,24 @@ function mapEcsStatus(ecsStatus: string): ShardState {
   }
 }
 
+// A finished pod without an uploaded result stopped before reporting
+function mapPodState(state: PodState): ShardState {
+  switch (state) {
+    case 'pending':
+      return 'pending';
+    case 'running':
+      return 'running';
+    case 'succeeded':
+    case 'failed':
+      return 'stopped';
+  }
+}
+
 function stateIcon(state: ShardState): string {
   switch (state) {
     case 'completed': return chalk.green('\u2714');
     case 'failed':    return chalk.red('\u2716');
+    case 'interrupted': return chalk.yellow('\u25A0');
     case 'running':   return chalk.blue('\u25B6');
     case 'pending':   return chalk.yellow('\u25CB');
     case 'stopped':   return chalk.gray('\u25A0');
@@ -410,6 +575,30 @@ function stateIcon(state: ShardState): string {
   }
 }
 
+/**
+ * Test counts per browser for runs with a tests.browsers matrix
+ */
+function resultsByBrowser(results: TestResult[]): BrowserResults[] {
+  const byBrowser = new Map<string, BrowserResults>();
+  for (const result of results) {
+    for (const test of result.tests) {
+      if (!test.browser) continue;
+      let entry = byBrowser.get(test.browser);
+      if (!entry) {
+        entry = { browser: test.browser, passed: 0, failed: 0, skipped: 0, duration: 0 };
+        byBrowser.set(test.browser, entry);
+      }
+      entry[test.status]++;
+      entry.duration += test.duration;
+    }
+  }
+  return [...byBrowser.values()];
+}
+
+function isFinished(status: RunStatus): boolean {
+  return status.status === 'completed' || status.status === 'failed' || status.status === 'cancelled';
+}
+
 function formatDuration(ms: number): string {
   if (ms < 1000) return `${ms}ms`;
   const seconds = Math.floor(ms / 1000) % 60;
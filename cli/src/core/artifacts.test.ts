@@ -0,0 +1,76 @@
+import path from 'path';
+import { findArtifacts, artifactDestination } from './artifacts';
+import { TestArtifact, TestCase, TestResult } from '../types';
+
+function makeArtifact(name: string, key: string): TestArtifact {
+  return { name, contentType: name === 'trace' ? 'application/zip' : 'image/png', key };
+}
+
+function makeResult(shard: number, tests: TestCase[]): TestResult {
+  return {
+    shard,
+    passed: tests.filter(t => t.status === 'passed').length,
+    failed: tests.filter(t => t.status === 'failed').length,
+    skipped: 0,
+    duration: 1000,
+    tests,
+  };
+}
+
+const trace = makeArtifact('trace', 'runs/run-1/artifacts/shard-0/auth.spec.ts/should-login/trace.zip');
+const screenshot = makeArtifact('screenshot', 'runs/run-1/artifacts/shard-1/cart.spec.ts/should-checkout/test-failed-1.png');
+
+const login: TestCase = {
+  name: 'should login',
+  file: 'auth.spec.ts',
+  status: 'failed',
+  duration: 1000,
+  artifacts: [trace],
+};
+const logout: TestCase = { name: 'should logout', file: 'auth.spec.ts', status: 'passed', duration: 1000 };
+const checkout: TestCase = {
+  name: 'should checkout',
+  file: 'cart.spec.ts',
+  status: 'failed',
+  duration: 1000,
+  artifacts: [screenshot],
+};
+
+describe('findArtifacts', () => {
+  const results = [makeResult(0, [login, logout]), makeResult(1, [checkout])];
+
+  it('should list every artifact with its test and shard', () => {
+    const matches = findArtifacts(results);
+
+    expect(matches).toEqual([
+      { shard: 0, test: login, artifact: trace },
+      { shard: 1, test: checkout, artifact: screenshot },
+    ]);
+  });
+
+  it('should filter by test name case-insensitively', () => {
+    expect(findArtifacts(results, 'LOGIN').map(m => m.artifact)).toEqual([trace]);
+  });
+
+  it('should filter by file', () => {
+    expect(findArtifacts(results, 'cart.spec').map(m => m.artifact)).toEqual([screenshot]);
+  });
+
+  it('should return nothing when no test matches', () => {
+    expect(findArtifacts(results, 'search')).toEqual([]);
+  });
+});
+
+describe('artifactDestination', () => {
+  it('should mirror the key below the run directory', () => {
+    expect(artifactDestination('out', 'run-1', trace.key)).toBe(
+      path.join('out', 'run-1', 'shard-0', 'auth.spec.ts', 'should-login', 'trace.zip')
+    );
+  });
+
+  it('should fall back to the file name for keys outside the run', () => {
+    expect(artifactDestination('out', 'run-1', 'elsewhere/video.webm')).toBe(
+      path.join('out', 'run-1', 'video.webm')
+    );
+  });
+});
@@ -0,0 +1,40 @@
+import path from 'path';
+import { TestArtifact, TestCase, TestResult } from '../types';
+
+export interface ArtifactMatch {
+  shard: number;
+  test: TestCase;
+  artifact: TestArtifact;
+}
+
+/**
+ * Artifacts recorded on a run's tests. The optional filter matches a
+ * substring of the test name or file, case-insensitively.
+ */
+export function findArtifacts(results: TestResult[], testFilter?: string): ArtifactMatch[] {
+  const filter = testFilter?.toLowerCase();
+  const matches: ArtifactMatch[] = [];
+
+  for (const result of results) {
+    for (const test of result.tests) {
+      if (filter && !test.name.toLowerCase().includes(filter) && !test.file.toLowerCase().includes(filter)) {
+        continue;
+      }
+      for (const artifact of test.artifacts || []) {
+        matches.push({ shard: result.shard, test, artifact });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Local path for a downloaded artifact: <directory>/<runId>/ followed by
+ * the key below runs/<runId>/artifacts/
+ */
+export function artifactDestination(directory: string, runId: string, key: string): string {
+  const prefix = `runs/${runId}/artifacts/`;
+  const relative = key.startsWith(prefix) ? key.slice(prefix.length) : path.posix.basename(key);
+  return path.join(directory, runId, ...relative.split('/'));
+}
@@ -0,0 +1,136 @@
+import { compareRuns, calculateShardSkew, findResultDifferences } from './backend-comparison';
+import { BackendType, RunSummary, TestCase, TestResult } from '../types';
+
+function makeResult(shard: number, duration: number, tests: TestCase[] = []): TestResult {
+  return {
+    shard,
+    passed: tests.filter(t => t.status === 'passed').length,
+    failed: tests.filter(t => t.status === 'failed').length,
+    skipped: tests.filter(t => t.status === 'skipped').length,
+    duration,
+    tests,
+  };
+}
+
+function makeSummary(backend: BackendType, results: TestResult[], overrides?: Partial<RunSummary>): RunSummary {
+  return {
+    runId: `run-1-${backend}`,
+    backend,
+    totalTests: 0,
+    passed: 0,
+    failed: 0,
+    skipped: 0,
+    duration: 60000,
+    cost: 0.01,
+    startTime: new Date('2025-01-15T10:00:00Z'),
+    endTime: new Date('2025-01-15T10:01:00Z'),
+    results,
+    ...overrides,
+  };
+}
+
+const login: TestCase = { name: 'should login', file: 'auth.spec.ts', status: 'passed', duration: 1000 };
+const logout: TestCase = { name: 'should logout', file: 'auth.spec.ts', status: 'passed', duration: 1000 };
+
+describe('calculateShardSkew', () => {
+  it('should report max over average shard duration', () => {
+    const summary = makeSummary('ecs', [makeResult(0, 1000), makeResult(1, 3000)]);
+
+    const skew = calculateShardSkew(summary);
+
+    expect(skew.minDuration).toBe(1000);
+    expect(skew.maxDuration).toBe(3000);
+    expect(skew.avgDuration).toBe(2000);
+    expect(skew.skew).toBe(1.5);
+  });
+
+  it('should be 1 for perfectly balanced shards', () => {
+    const summary = makeSummary('ecs', [makeResult(0, 2000), makeResult(1, 2000)]);
+
+    expect(calculateShardSkew(summary).skew).toBe(1);
+  });
+
+  it('should handle runs without detailed results', () => {
+    const summary = makeSummary('ecs', [], { results: undefined });
+
+    expect(calculateShardSkew(summary)).toEqual({ minDuration: 0, maxDuration: 0, avgDuration: 0, skew: 1 });
+  });
+});
+
+describe('findResultDifferences', () => {
+  it('should return nothing when results match', () => {
+    const a = makeSummary('ecs', [makeResult(0, 1000, [login, logout])]);
+    const b = makeSummary('kubernetes', [makeResult(0, 1000, [logout, login])]);
+
+    expect(findResultDifferences(a, b)).toEqual([]);
+  });
+
+  it('should report tests whose status differs', () => {
+    const a = makeSummary('ecs', [makeResult(0, 1000, [login])]);
+    const b = makeSummary('kubernetes', [makeResult(0, 1000, [{ ...login, status: 'failed' }])]);
+
+    expect(findResultDifferences(a, b)).toEqual([
+      { file: 'auth.spec.ts', name: 'should login', statuses: { ecs: 'passed', kubernetes: 'failed' } },
+    ]);
+  });
+
+  it('should compare each browser of a matrix on its own', () => {
+    const a = makeSummary('ecs', [makeResult(0, 1000, [
+      { ...login, browser: 'chromium' },
+      { ...login, status: 'failed', browser: 'webkit' },
+    ])]);
+    const b = makeSummary('kubernetes', [makeResult(0, 1000, [
+      { ...login, browser: 'webkit' },
+      { ...login, browser: 'chromium' },
+    ])]);
+
+    expect(findResultDifferences(a, b)).toEqual([
+      { file: 'auth.spec.ts', name: 'should login', browser: 'webkit', statuses: { ecs: 'failed', kubernetes: 'passed' } },
+    ]);
+  });
+
+  it('should report tests missing from one backend', () => {
+    const a = makeSummary('ecs', [makeResult(0, 1000, [login, logout])]);
+    const b = makeSummary('kubernetes', [makeResult(0, 1000, [login])]);
+
+    const diffs = findResultDifferences(a, b);
+
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0].name).toBe('should logout');
+    expect(diffs[0].statuses).toEqual({ ecs: 'passed', kubernetes: 'missing' });
+  });
+
+  it('should match tests regardless of which shard ran them', () => {
+    const a = makeSummary('ecs', [makeResult(0, 1000, [login]), makeResult(1, 1000, [logout])]);
+    const b = makeSummary('kubernetes', [makeResult(0, 1000, [logout]), makeResult(1, 1000, [login])]);
+
+    expect(findResultDifferences(a, b)).toEqual([]);
+  });
+});
+
+describe('compareRuns', () => {
+  it('should key wall time, cost and skew by backend', () => {
+    const a = makeSummary('ecs', [makeResult(0, 1000)], { duration: 90000, cost: 0.02 });
+    const b = makeSummary('kubernetes', [makeResult(0, 1500)], { duration: 60000, cost: 0.005 });
+
+    const comparison = compareRuns(a, b);
+
+    expect(comparison.backends).toEqual(['ecs', 'kubernetes']);
+    expect(comparison.wallTime).toEqual({ ecs: 90000, kubernetes: 60000 });
+    expect(comparison.cost).toEqual({ ecs: 0.02, kubernetes: 0.005 });
+    expect(comparison.skew.ecs.maxDuration).toBe(1000);
+    expect(comparison.skew.kubernetes.maxDuration).toBe(1500);
+  });
+
+  it('should align per-shard durations across backends', () => {
+    const a = makeSummary('ecs', [makeResult(1, 2000), makeResult(0, 1000)]);
+    const b = makeSummary('kubernetes', [makeResult(0, 1200)]);
+
+    const { shards } = compareRuns(a, b);
+
+    expect(shards).toEqual([
+      { shard: 0, durations: { ecs: 1000, kubernetes: 1200 } },
+      { shard: 1, durations: { ecs: 2000 } },
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { BackendType, RunSummary, TestCase } from '../types';
+
+export interface ShardSkew {
+  minDuration: number;
+  maxDuration: number;
+  avgDuration: number;
+  skew: number; // max / avg, where 1 is perfectly even
+}
+
+export interface ShardDurationRow {
+  shard: number;
+  durations: Partial<Record<BackendType, number>>;
+}
+
+export interface ResultDifference {
+  file: string;
+  name: string;
+  browser?: string; // Set when the runs have a tests.browsers matrix
+  statuses: Partial<Record<BackendType, TestCase['status'] | 'missing'>>;
+}
+
+export interface BackendComparison {
+  backends: [BackendType, BackendType];
+  wallTime: Record<string, number>;
+  cost: Record<string, number>;
+  skew: Record<string, ShardSkew>;
+  shards: ShardDurationRow[];
+  differences: ResultDifference[];
+}
+
+/**
+ * Compare two runs of the same shard plan on different backends
+ */
+export function compareRuns(a: RunSummary, b: RunSummary): BackendComparison {
+  return {
+    backends: [a.backend, b.backend],
+    wallTime: { [a.backend]: a.duration, [b.backend]: b.duration },
+    cost: { [a.backend]: a.cost, [b.backend]: b.cost },
+    skew: { [a.backend]: calculateShardSkew(a), [b.backend]: calculateShardSkew(b) },
+    shards: alignShardDurations(a, b),
+    differences: findResultDifferences(a, b),
+  };
+}
+
+/**
+ * How unevenly shard durations are spread within a single run
+ */
+export function calculateShardSkew(summary: RunSummary): ShardSkew {
+  const durations = (summary.results || []).map(r => r.duration);
+
+  if (durations.length === 0) {
+    return { minDuration: 0, maxDuration: 0, avgDuration: 0, skew: 1 };
+  }
+
+  const minDuration = Math.min(...durations);
+  const maxDuration = Math.max(...durations);
+  const avgDuration = durations.reduce((sum, d) => sum + d, 0) / durations.length;
+
+  return {
+    minDuration,
+    maxDuration,
+    avgDuration,
+    skew: avgDuration > 0 ? maxDuration / avgDuration : 1,
+  };
+}
+
+function alignShardDurations(a: RunSummary, b: RunSummary): ShardDurationRow[] {
+  const rows = new Map<number, ShardDurationRow>();
+
+  for (const summary of [a, b]) {
+    for (const result of summary.results || []) {
+      const row = rows.get(result.shard) || { shard: result.shard, durations: {} };
+      row.durations[summary.backend] = result.duration;
+      rows.set(result.shard, row);
+    }
+  }
+
+  return [...rows.values()].sort((x, y) => x.shard - y.shard);
+}
+
+function testKey(test: TestCase): string {
+  return test.browser ? `${test.file}::${test.name}::${test.browser}` : `${test.file}::${test.name}`;
+}
+
+/**
+ * Tests whose outcome differs between the two runs, including tests
+ * that only one backend reported
+ */
+export function findResultDifferences(a: RunSummary, b: RunSummary): ResultDifference[] {
+  const index = (summary: RunSummary): Map<string, TestCase> => {
+    const tests = new Map<string, TestCase>();
+    for (const result of summary.results || []) {
+      for (const test of result.tests) {
+        tests.set(testKey(test), test);
+      }
+    }
+    return tests;
+  };
+
+  const testsA = index(a);
+  const testsB = index(b);
+  const keys = new Set([...testsA.keys(), ...testsB.keys()]);
+  const differences: ResultDifference[] = [];
+
+  for (const key of keys) {
+    const testA = testsA.get(key);
+    const testB = testsB.get(key);
+
+    if (testA?.status === testB?.status) continue;
+
+    const test = (testA || testB)!;
+    differences.push({
+      file: test.file,
+      name: test.name,
+      ...(test.browser && { browser: test.browser }),
+      statuses: {
+        [a.backend]: testA?.status || 'missing',
+        [b.backend]: testB?.status || 'missing',
+      },
+    });
+  }
+
+  return differences.sort((x, y) =>
+    x.file.localeCompare(y.file) || x.name.localeCompare(y.name) || (x.browser || '').localeCompare(y.browser || '')
+  );
+}
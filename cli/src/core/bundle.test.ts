@@ -0,0 +1,122 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { createBundle, createBundleFilter } from './bundle';
+
+describe('createBundle', () => {
+  let root: string;
+  let dir: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'bundle-test-'));
+    dir = path.join(root, 'e2e');
+    await fs.mkdir(path.join(dir, 'auth'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'auth/login.spec.ts'), 'test("login")');
+    await fs.writeFile(path.join(dir, 'checkout.spec.ts'), 'test("checkout")');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should list files sorted and key the bundle by its hash', async () => {
+    const bundle = await createBundle(dir);
+
+    expect(bundle.files).toEqual([
+      { path: 'auth/login.spec.ts', size: 13 },
+      { path: 'checkout.spec.ts', size: 16 },
+    ]);
+    expect(bundle.size).toBe(29);
+    expect(bundle.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(bundle.key).toBe(`cache/test-code/${bundle.hash}.tar.gz`);
+  });
+
+  it('should leave out node_modules', async () => {
+    await fs.mkdir(path.join(dir, 'node_modules/pkg'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'node_modules/pkg/index.js'), '');
+    const before = await createBundle(dir);
+
+    await fs.writeFile(path.join(dir, 'node_modules/pkg/index.js'), 'changed');
+
+    expect(before.files.map(f => f.path)).not.toContain('node_modules/pkg/index.js');
+    expect((await createBundle(dir)).hash).toBe(before.hash);
+  });
+
+  it('should hash the same when only timestamps change', async () => {
+    const before = await createBundle(dir);
+
+    await fs.utimes(path.join(dir, 'checkout.spec.ts'), new Date(2020, 0, 1), new Date(2020, 0, 1));
+
+    expect((await createBundle(dir)).hash).toBe(before.hash);
+  });
+
+  it('should hash differently when content, paths or the directory name change', async () => {
+    const original = (await createBundle(dir)).hash;
+
+    await fs.writeFile(path.join(dir, 'checkout.spec.ts'), 'test("checkout", () => {})');
+    const edited = (await createBundle(dir)).hash;
+
+    await fs.rename(path.join(dir, 'checkout.spec.ts'), path.join(dir, 'cart.spec.ts'));
+    const renamed = (await createBundle(dir)).hash;
+
+    await fs.rename(dir, path.join(root, 'tests'));
+    const moved = (await createBundle(path.join(root, 'tests'))).hash;
+
+    expect(new Set([original, edited, renamed, moved]).size).toBe(4);
+  });
+
+  it('should apply .cheaptestignore and tests.include / tests.exclude', async () => {
+    await fs.mkdir(path.join(dir, 'test-results/login'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'test-results/login/trace.zip'), 'zip');
+    await fs.writeFile(path.join(dir, 'video.webm'), 'webm');
+    await fs.writeFile(path.join(dir, 'package.json'), '{}');
+    await fs.writeFile(path.join(dir, '.cheaptestignore'), '# outputs\ntest-results/\n*.webm\n');
+
+    const ignored = await createBundle(dir);
+    const excluded = await createBundle(dir, { exclude: ['checkout.spec.ts'] });
+    const included = await createBundle(dir, { include: ['auth/', 'package.json'] });
+
+    expect(ignored.files.map(f => f.path)).toEqual(['.cheaptestignore', 'auth/login.spec.ts', 'checkout.spec.ts', 'package.json']);
+    expect(excluded.files.map(f => f.path)).toEqual(['.cheaptestignore', 'auth/login.spec.ts', 'package.json']);
+    expect(included.files.map(f => f.path)).toEqual(['auth/login.spec.ts', 'package.json']);
+  });
+});
+
+describe('createBundleFilter', () => {
+  it('should match unanchored patterns at any depth and anchored ones from the root', () => {
+    const filter = createBundleFilter(['*.log', '/build', 'docs/*.md']);
+
+    expect(filter.keepsFile('debug.log')).toBe(false);
+    expect(filter.keepsFile('a/b/debug.log')).toBe(false);
+    expect(filter.keepsFile('build/index.js')).toBe(false);
+    expect(filter.keepsFile('src/build/index.js')).toBe(true);
+    expect(filter.keepsFile('docs/readme.md')).toBe(false);
+    expect(filter.keepsFile('docs/api/readme.md')).toBe(true);
+  });
+
+  it('should only match directories with a trailing slash', () => {
+    const filter = createBundleFilter(['screenshots/']);
+
+    expect(filter.keepsDirectory('e2e/screenshots')).toBe(false);
+    expect(filter.keepsFile('e2e/screenshots/home.png')).toBe(false);
+    expect(filter.keepsFile('screenshots')).toBe(true);
+  });
+
+  it('should support ** and negation, with the last matching rule winning', () => {
+    const filter = createBundleFilter(['fixtures/**/*.json', '!fixtures/**/keep.json', 'videos/', '!videos/intro.mp4']);
+
+    expect(filter.keepsFile('fixtures/users.json')).toBe(false);
+    expect(filter.keepsFile('fixtures/a/b/users.json')).toBe(false);
+    expect(filter.keepsFile('fixtures/a/keep.json')).toBe(true);
+    // Like git, a file can't be re-included from an ignored directory
+    expect(filter.keepsFile('videos/intro.mp4')).toBe(false);
+  });
+
+  it('should treat escaped # and ! as literal characters', () => {
+    const filter = createBundleFilter(['# comment', '\\#notes.txt', '\\!important.txt']);
+
+    expect(filter.keepsFile('#notes.txt')).toBe(false);
+    expect(filter.keepsFile('!important.txt')).toBe(false);
+    expect(filter.keepsFile('comment')).toBe(true);
+  });
+});
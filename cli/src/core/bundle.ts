@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { BackendType } from '../types';
+
+/**
+ * The test code workers download, identified by its content. A bundle is
+ * stored once under cache/test-code/<hash>.tar.gz and every run's
+ * runs/<id>/manifest.json points at it, so re-running an unchanged suite
+ * uploads nothing.
+ */
+export interface TestBundle {
+  hash: string;
+  key: string;
+  /** Sorted by path */
+  files: BundleFile[];
+  /** Total uncompressed size in bytes */
+  size: number;
+}
+
+export interface BundleFile {
+  path: string; // Relative to the test directory
+  size: number;
+}
+
+/**
+ * `data` of runs/<id>/manifest.json
+ */
+export interface RunManifest {
+  testCode: string;
+  hash: string;
+  backend?: BackendType; // Where the workers run, for status and cancel; older runs (ECS only) lack it
+}
+
+/**
+ * tests.include and tests.exclude, in .cheaptestignore syntax
+ */
+export interface BundleRules {
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Which files of the test directory are uploaded and discovered
+ */
+export interface BundleFilter {
+  /** Whether anything under the directory can be kept */
+  keepsDirectory(relativePath: string): boolean;
+  /** Whether the file is kept, checking its parent directories too */
+  keepsFile(relativePath: string): boolean;
+}
+
+export const IGNORE_FILE = '.cheaptestignore';
+
+// node_modules is installed on the worker (see worker/src/dependencies.ts)
+const DEFAULT_IGNORE = ['node_modules/', '.git/'];
+
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+export function bundleKey(hash: string): string {
+  return `cache/test-code/${hash}.tar.gz`;
+}
+
+/**
+ * Build the filter for a test directory from its .cheaptestignore and
+ * tests.include / tests.exclude. Exclude rules are applied after the
+ * ignore file, so they can't be negated by it.
+ */
+export async function loadBundleFilter(directory: string, rules: BundleRules = {}): Promise<BundleFilter> {
+  const ignoreFile = await fs.readFile(path.join(directory, IGNORE_FILE), 'utf-8').catch((err: unknown) => {
+    if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') return '';
+    throw err;
+  });
+  return createBundleFilter([...DEFAULT_IGNORE, ...ignoreFile.split(/\r?\n/), ...(rules.exclude || [])], rules.include);
+}
+
+/**
+ * `ignore` uses gitignore syntax: `#` comments, `!` negation, a trailing
+ * `/` for directories only, and patterns with a `/` anchored to the test
+ * directory. With `include`, only files matching one of those patterns
+ * (or inside a matching directory) are kept.
+ */
+export function createBundleFilter(ignore: string[], include: string[] = []): BundleFilter {
+  const ignoreRules = parseRules(ignore);
+  const includeRules = parseRules(include).filter(rule => !rule.negate);
+
+  const keepsDirectory = (relativePath: string) => !matches(ignoreRules, relativePath, true);
+
+  return {
+    keepsDirectory,
+    keepsFile(relativePath: string): boolean {
+      const parts = relativePath.split('/');
+      const parents = parts.slice(0, -1).map((_, i) => parts.slice(0, i + 1).join('/'));
+
+      if (!parents.every(keepsDirectory) || matches(ignoreRules, relativePath, false)) {
+        return false;
+      }
+      return includeRules.length === 0 ||
+        matches(includeRules, relativePath, false) ||
+        parents.some(parent => matches(includeRules, parent, true));
+    },
+  };
+}
+
+/**
+ * List and hash what the tarball of `directory` would contain: its name (the
+ * tarball's top-level directory), and each file's path, executable bit and
+ * content. Timestamps are left out, so a fresh checkout hashes the same.
+ */
+export async function createBundle(directory: string, rules: BundleRules = {}): Promise<TestBundle> {
+  const filter = await loadBundleFilter(directory, rules);
+  const paths = await listFiles(directory, filter);
+  const hash = crypto.createHash('sha256');
+  hash.update(`${path.basename(path.resolve(directory))}\0`);
+
+  const files: BundleFile[] = [];
+  for (const file of paths) {
+    const absolute = path.join(directory, file);
+    const stat = await fs.lstat(absolute);
+    hash.update(`${file}\0${stat.mode & 0o111 ? 'x' : '-'}\0`);
+    files.push({ path: file, size: stat.size });
+    if (stat.isSymbolicLink()) {
+      hash.update(`-> ${await fs.readlink(absolute)}\0`);
+      continue;
+    }
+    hash.update(`${stat.size}\0`);
+    for await (const chunk of createReadStream(absolute)) {
+      hash.update(chunk as Buffer);
+    }
+  }
+
+  const digest = hash.digest('hex');
+  return {
+    hash: digest,
+    key: bundleKey(digest),
+    files,
+    size: files.reduce((sum, file) => sum + file.size, 0),
+  };
+}
+
+async function listFiles(directory: string, filter: BundleFilter, prefix = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(directory, prefix), { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (filter.keepsDirectory(relative)) {
+        files.push(...await listFiles(directory, filter, relative));
+      }
+    } else if ((entry.isFile() || entry.isSymbolicLink()) && filter.keepsFile(relative)) {
+      files.push(relative);
+    }
+  }
+
+  return files.sort();
+}
+
+function matches(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let matched = false;
+  for (const rule of rules) {
+    if ((isDirectory || !rule.directoryOnly) && rule.regex.test(relativePath)) {
+      matched = !rule.negate;
+    }
+  }
+  return matched;
+}
+
+function parseRules(lines: string[]): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const raw of lines) {
+    let line = raw.trimEnd();
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+
+    // A slash anywhere but the end anchors the pattern to the test directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+    if (!line) continue;
+
+    rules.push({
+      regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globToRegExp(line)}$`),
+      negate,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+function globToRegExp(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+
+    if (char === '*' && pattern[i + 1] === '*' && atSegmentStart && pattern[i + 2] === '/') {
+      source += '(?:.*/)?'; // **/ - any number of directories
+      i += 2;
+    } else if (char === '*' && pattern[i + 1] === '*' && atSegmentStart && i + 2 === pattern.length) {
+      source += '.*'; // trailing ** - everything inside
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+      while (pattern[i + 1] === '*') i++;
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const end = pattern.indexOf(']', i + 2);
+      const set = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += `[${set.startsWith('!') ? `^${set.slice(1)}` : set}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,210 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  CostTracker,
+  CostEntry,
+  TaskUsage,
+  costByBrowser,
+  costByShard,
+  expectedSpotShare,
+  fargateBilledMs,
+  fargateTaskHourCost,
+} from './cost-tracker';
+import { CheaptestConfig, TestResult } from '../types';
+import { FileSystemStorage } from '../storage/filesystem';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeEntry(runId: string, timestamp: number, cost = 0.01): CostEntry {
+  return {
+    runId,
+    timestamp,
+    backend: 'ecs',
+    cost,
+    duration: 60000,
+    totalTests: 10,
+    passed: 10,
+    failed: 0,
+    skipped: 0,
+  };
+}
+
+describe('CostTracker', () => {
+  let root: string;
+  let tracker: CostTracker;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'cost-tracker-test-'));
+    tracker = new CostTracker(new FileSystemStorage(root), 'test-bucket');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should save and load cost for a run', async () => {
+    const entry = makeEntry('run-1', Date.now());
+
+    await tracker.saveCost(entry);
+
+    expect(await tracker.getCostForRun('run-1')).toEqual(entry);
+    expect(await tracker.getCostForRun('run-missing')).toBeNull();
+  });
+
+  it('should return history within the window, newest first', async () => {
+    const now = Date.now();
+    await tracker.saveCost(makeEntry('old', now - 40 * DAY));
+    await tracker.saveCost(makeEntry('a', now - 3 * DAY));
+    await tracker.saveCost(makeEntry('b', now - 1 * DAY));
+
+    const history = await tracker.getCostHistory(30);
+
+    expect(history.map(e => e.runId)).toEqual(['b', 'a']);
+  });
+
+  it('should skip history entries that cannot be parsed', async () => {
+    await tracker.saveCost(makeEntry('a', Date.now()));
+    await fs.writeFile(path.join(root, 'test-bucket/cost-history/broken.json'), '{');
+
+    expect(await tracker.getCostHistory(30)).toHaveLength(1);
+  });
+
+  it('should add up Spot usage of the runs that used it', () => {
+    const entries = [
+      { ...makeEntry('a', Date.now()), spot: { tasks: 8, onDemandTasks: 2, interruptions: 1 } },
+      { ...makeEntry('b', Date.now()), spot: { tasks: 4, onDemandTasks: 0, interruptions: 0 } },
+      makeEntry('c', Date.now()),
+    ];
+
+    expect(tracker.calculateSummary(entries).spot).toEqual({ tasks: 12, onDemandTasks: 2, interruptions: 1 });
+    expect(tracker.calculateSummary([makeEntry('c', Date.now())]).spot).toBeUndefined();
+  });
+});
+
+describe('costByBrowser', () => {
+  const results: TestResult[] = [{
+    shard: 0, passed: 2, failed: 1, skipped: 0, duration: 4000,
+    tests: [
+      { name: 'a', file: 'a.spec.ts', status: 'passed', duration: 1000, browser: 'chromium' },
+      { name: 'a', file: 'a.spec.ts', status: 'failed', duration: 2000, browser: 'webkit' },
+      { name: 'b', file: 'a.spec.ts', status: 'passed', duration: 1000, browser: 'webkit' },
+    ],
+  }];
+
+  it('should split the cost by test time per browser', () => {
+    expect(costByBrowser(results, 0.04)).toEqual({
+      chromium: { tests: 1, failed: 0, duration: 1000, cost: 0.01 },
+      webkit: { tests: 2, failed: 1, duration: 3000, cost: 0.03 },
+    });
+  });
+
+  it('should be undefined without a browser matrix', () => {
+    const plain = [{ ...results[0], tests: results[0].tests.map(t => ({ ...t, browser: undefined })) }];
+
+    expect(costByBrowser(plain, 0.04)).toBeUndefined();
+  });
+
+  it('should add up browser costs in the summary', () => {
+    const tracker = new CostTracker(new FileSystemStorage(os.tmpdir()), 'unused');
+    const byBrowser = costByBrowser(results, 0.04);
+    const entries = [{ ...makeEntry('a', 1), byBrowser }, { ...makeEntry('b', 2), byBrowser }, makeEntry('c', 3)];
+
+    expect(tracker.calculateSummary(entries).byBrowser).toEqual({
+      chromium: { tests: 2, failed: 0, duration: 2000, cost: 0.02 },
+      webkit: { tests: 4, failed: 2, duration: 6000, cost: 0.06 },
+    });
+  });
+});
+
+describe('fargateTaskHourCost', () => {
+  it('should price on-demand, Spot and weighted task-hours', () => {
+    const onDemand = fargateTaskHourCost(1024, 2048);
+    const spot = fargateTaskHourCost(1024, 2048, 1);
+
+    expect(onDemand).toBeCloseTo(0.04937, 5);
+    expect(spot).toBeCloseTo(0.0152, 4);
+    expect(fargateTaskHourCost(1024, 2048, 0.75)).toBeCloseTo(onDemand * 0.25 + spot * 0.75, 8);
+  });
+});
+
+describe('expectedSpotShare', () => {
+  function withCapacity(capacityProvider?: CheaptestConfig['execution']['capacityProvider']): CheaptestConfig {
+    return { execution: { cpu: 1024, memory: 2048, timeout: 10, capacityProvider } } as CheaptestConfig;
+  }
+
+  it('should follow the capacity provider weights', () => {
+    expect(expectedSpotShare(withCapacity())).toBe(0);
+    expect(expectedSpotShare(withCapacity({}))).toBe(1);
+    expect(expectedSpotShare(withCapacity({ spot: 3, onDemand: 1 }))).toBe(0.75);
+    expect(expectedSpotShare(withCapacity({ spot: 0, onDemand: 1 }))).toBe(0);
+  });
+});
+
+describe('fargateBilledMs', () => {
+  function usage(seconds: number): TaskUsage {
+    const start = new Date('2024-01-01T00:00:00Z');
+    return { start, stop: new Date(start.getTime() + seconds * 1000), spot: false };
+  }
+
+  it('should round up to the second with a one-minute minimum', () => {
+    expect(fargateBilledMs(usage(5))).toBe(60000);
+    expect(fargateBilledMs(usage(60))).toBe(60000);
+    expect(fargateBilledMs(usage(90.2))).toBe(91000);
+  });
+});
+
+describe('costByShard', () => {
+  const start = new Date('2024-01-01T00:00:00Z');
+  const minutes = (n: number) => new Date(start.getTime() + n * 60000);
+
+  function result(shard: number, testDurations: number[]): TestResult {
+    return {
+      shard,
+      passed: testDurations.length,
+      failed: 0,
+      skipped: 0,
+      duration: 0,
+      tests: testDurations.map((duration, i) => ({ name: `t${i}`, file: 'a.spec.ts', status: 'passed' as const, duration })),
+    };
+  }
+
+  it('should bill each shard its own task time and split off idle cost', () => {
+    const costs = costByShard(
+      [
+        { shard: 1, start, stop: minutes(2), spot: false },
+        { shard: 0, start, stop: minutes(10), spot: false },
+      ],
+      [result(0, [4 * 60000, 4 * 60000]), result(1, [30000])],
+      1024,
+      2048
+    );
+
+    const hourly = fargateTaskHourCost(1024, 2048);
+    expect(costs.map(c => c.shard)).toEqual([0, 1]);
+    expect(costs[0]).toMatchObject({ tasks: 1, billed: 600000, testTime: 480000 });
+    expect(costs[0].cost).toBeCloseTo(hourly / 6, 8);
+    expect(costs[0].idleCost).toBeCloseTo(costs[0].cost * 0.2, 8);
+    expect(costs[1].idleCost).toBeCloseTo(costs[1].cost * 0.75, 8);
+  });
+
+  it('should add up a shard relaunched after a Spot interruption and skip unknown shards', () => {
+    const costs = costByShard(
+      [
+        { shard: 0, start, stop: minutes(3), spot: true },
+        { shard: 0, start: minutes(3), stop: minutes(8), spot: false },
+        { start, stop: minutes(5), spot: false },
+      ],
+      [result(0, [10 * 60000])],
+      1024,
+      2048
+    );
+
+    expect(costs).toHaveLength(1);
+    expect(costs[0]).toMatchObject({ shard: 0, tasks: 2, billed: 480000, idleCost: 0 });
+    expect(costs[0].cost).toBeCloseTo(
+      fargateTaskHourCost(1024, 2048, 1) / 20 + fargateTaskHourCost(1024, 2048) / 12,
+      8
+    );
+  });
+});
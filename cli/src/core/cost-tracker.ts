@@ -1,5 +1,5 @@
-import { S3Client, GetObjectCommand, PutObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
-import { BackendType } from '../types';
+import { Storage } from '../storage';
+import { BackendType, CheaptestConfig, ShardCost, SpotUsage, TestResult } from '../types';
 import { getErrorMessage } from '../utils/retry';
 
 export interface CostEntry {
@@ -15,6 +15,16 @@ export interface CostEntry {
   parallelism?: number;
   cpu?: number;
   memory?: number;
+  byBrowser?: Record<string, BrowserCost>; // Runs with a tests.browsers matrix
+  spot?: SpotUsage; // ECS runs with execution.capacityProvider
+  shards?: ShardCost[]; // ECS runs: billed cost and idle time per shard
+}
+
+export interface BrowserCost {
+  tests: number;
+  failed: number;
+  duration: number; // Test time, summed over all workers
+  cost: number; // Share of the run's cost, by test time
 }
 
 export interface CostSummary {
@@ -28,56 +38,146 @@ export interface CostSummary {
     ecs?: { runs: number; totalCost: number };
     kubernetes?: { runs: number; totalCost: number };
   };
+  byBrowser?: Record<string, BrowserCost>;
+  spot?: SpotUsage;
+}
+
+/**
+ * Fargate prices in us-east-1 (Linux/x86), per vCPU-hour and GB-hour.
+ * Spot is about 70% cheaper.
+ */
+export const FARGATE_PRICING = {
+  onDemand: { vCpuHour: 0.04048, gbHour: 0.004445 },
+  spot: { vCpuHour: 0.01246, gbHour: 0.00137 },
+};
+
+/**
+ * Cost of one Fargate task-hour. `spotShare` is the fraction of tasks on
+ * Fargate Spot: 0 or 1 for a single task, the weighted share for estimates.
+ */
+export function fargateTaskHourCost(cpu: number, memory: number, spotShare = 0): number {
+  const rate = (pricing: { vCpuHour: number; gbHour: number }) =>
+    (cpu / 1024) * pricing.vCpuHour + (memory / 1024) * pricing.gbHour;
+  return rate(FARGATE_PRICING.spot) * spotShare + rate(FARGATE_PRICING.onDemand) * (1 - spotShare);
+}
+
+// Fargate bills per second with a one-minute minimum
+const FARGATE_MINIMUM_BILLED_MS = 60 * 1000;
+
+/**
+ * When an ECS task was billed: from the start of its image pull until it
+ * stopped
+ */
+export interface TaskUsage {
+  shard?: number; // Unknown when the task never claimed a shard
+  start: Date;
+  stop: Date;
+  spot: boolean;
+}
+
+export function fargateBilledMs(usage: TaskUsage): number {
+  const elapsed = Math.max(0, usage.stop.getTime() - usage.start.getTime());
+  return Math.max(FARGATE_MINIMUM_BILLED_MS, Math.ceil(elapsed / 1000) * 1000);
+}
+
+export function fargateTaskCost(usage: TaskUsage, cpu: number, memory: number): number {
+  const hours = fargateBilledMs(usage) / (1000 * 60 * 60);
+  return fargateTaskHourCost(cpu, memory, usage.spot ? 1 : 0) * hours;
+}
+
+/**
+ * Bill each task and add the tasks up per shard. A shard's test time is the
+ * sum of its tests' durations; the rest of its billed time is idle, and
+ * `idleCost` is that share of its cost.
+ */
+export function costByShard(tasks: TaskUsage[], results: TestResult[], cpu: number, memory: number): ShardCost[] {
+  const byShard = new Map<number, ShardCost>();
+
+  for (const task of tasks) {
+    if (task.shard === undefined) continue;
+    const entry = byShard.get(task.shard) || { shard: task.shard, tasks: 0, billed: 0, testTime: 0, cost: 0, idleCost: 0 };
+    entry.tasks++;
+    entry.billed += fargateBilledMs(task);
+    entry.cost += fargateTaskCost(task, cpu, memory);
+    byShard.set(task.shard, entry);
+  }
+
+  for (const result of results) {
+    const entry = byShard.get(result.shard);
+    if (entry) entry.testTime += result.tests.reduce((sum, test) => sum + test.duration, 0);
+  }
+
+  for (const entry of byShard.values()) {
+    // Tests running in parallel inside a worker can add up to more than the billed time
+    const idle = Math.max(0, entry.billed - entry.testTime);
+    entry.idleCost = entry.cost * idle / entry.billed;
+  }
+
+  return [...byShard.values()].sort((a, b) => a.shard - b.shard);
+}
+
+/**
+ * Share of ECS tasks expected on Fargate Spot under execution.capacityProvider
+ */
+export function expectedSpotShare(config: CheaptestConfig): number {
+  const capacity = config.execution.capacityProvider;
+  if (!capacity) return 0;
+  const spot = capacity.spot ?? 1;
+  const onDemand = capacity.onDemand ?? 0;
+  return spot + onDemand > 0 ? spot / (spot + onDemand) : 0;
+}
+
+/**
+ * Split a run's cost between browsers in proportion to the test time each
+ * one used. Undefined when the run had no browser matrix.
+ */
+export function costByBrowser(results: TestResult[], cost: number): Record<string, BrowserCost> | undefined {
+  const byBrowser: Record<string, BrowserCost> = {};
+  let totalDuration = 0;
+
+  for (const result of results) {
+    for (const test of result.tests) {
+      if (!test.browser) continue;
+      const entry = byBrowser[test.browser] ||= { tests: 0, failed: 0, duration: 0, cost: 0 };
+      entry.tests++;
+      if (test.status === 'failed') entry.failed++;
+      entry.duration += test.duration;
+      totalDuration += test.duration;
+    }
+  }
+
+  const browsers = Object.values(byBrowser);
+  if (browsers.length === 0) return undefined;
+
+  for (const entry of browsers) {
+    entry.cost = totalDuration > 0 ? cost * entry.duration / totalDuration : cost / browsers.length;
+  }
+  return byBrowser;
 }
 
 export class CostTracker {
-  private s3: S3Client;
-  
   constructor(
-    private bucket: string,
-    region: string
-  ) {
-    this.s3 = new S3Client({ region, maxAttempts: 3, retryMode: 'adaptive' });
-  }
+    private storage: Storage,
+    private bucket: string
+  ) {}
   
   /**
    * Save cost data for a run
    */
   async saveCost(entry: CostEntry): Promise<void> {
-    const key = `cost-history/${entry.runId}.json`;
-    
-    await this.s3.send(
-      new PutObjectCommand({
-        Bucket: this.bucket,
-        Key: key,
-        Body: JSON.stringify(entry, null, 2),
-        ContentType: 'application/json',
-      })
-    );
+    await this.storage.uploadJSON(this.bucket, `cost-history/${entry.runId}.json`, entry);
   }
   
   /**
    * Get cost data for a specific run
    */
   async getCostForRun(runId: string): Promise<CostEntry | null> {
-    try {
-      const key = `cost-history/${runId}.json`;
-      
-      const response = await this.s3.send(
-        new GetObjectCommand({
-          Bucket: this.bucket,
-          Key: key,
-        })
-      );
-      
-      const body = await response.Body?.transformToString();
-      return body ? JSON.parse(body) : null;
-    } catch (err: unknown) {
-      if (err instanceof Error && err.name === 'NoSuchKey') {
-        return null;
-      }
-      throw err;
+    const key = `cost-history/${runId}.json`;
+    
+    if (!(await this.storage.exists(this.bucket, key))) {
+      return null;
     }
+    return this.storage.downloadJSON<CostEntry>(this.bucket, key);
   }
   
   /**
@@ -89,37 +189,16 @@ export class CostTracker {
     
     try {
       // List all cost history files
-      const listResponse = await this.s3.send(
-        new ListObjectsV2Command({
-          Bucket: this.bucket,
-          Prefix: 'cost-history/',
-        })
-      );
-      
-      if (!listResponse.Contents) {
-        return [];
-      }
+      const keys = await this.storage.list({ bucket: this.bucket, prefix: 'cost-history/' });
       
       // Fetch each cost file
-      for (const object of listResponse.Contents) {
-        if (!object.Key) continue;
-        
+      for (const key of keys) {
         try {
-          const response = await this.s3.send(
-            new GetObjectCommand({
-              Bucket: this.bucket,
-              Key: object.Key,
-            })
-          );
+          const entry = await this.storage.downloadJSON<CostEntry>(this.bucket, key);
           
-          const body = await response.Body?.transformToString();
-          if (body) {
-            const entry: CostEntry = JSON.parse(body);
-            
-            // Only include entries within time range
-            if (entry.timestamp >= cutoffDate) {
-              entries.push(entry);
-            }
+          // Only include entries within time range
+          if (entry.timestamp >= cutoffDate) {
+            entries.push(entry);
           }
         } catch {
           // Skip files that can't be parsed
@@ -172,6 +251,29 @@ export class CostTracker {
       };
     }
     
+    // Add up browser costs across the runs that had a matrix
+    let byBrowser: CostSummary['byBrowser'];
+    for (const entry of entries) {
+      for (const [browser, cost] of Object.entries(entry.byBrowser || {})) {
+        byBrowser ||= {};
+        const total = byBrowser[browser] ||= { tests: 0, failed: 0, duration: 0, cost: 0 };
+        total.tests += cost.tests;
+        total.failed += cost.failed;
+        total.duration += cost.duration;
+        total.cost += cost.cost;
+      }
+    }
+
+    // Add up Spot usage across the runs that used a capacity provider
+    let spot: SpotUsage | undefined;
+    for (const entry of entries) {
+      if (!entry.spot) continue;
+      spot ||= { tasks: 0, onDemandTasks: 0, interruptions: 0 };
+      spot.tasks += entry.spot.tasks;
+      spot.onDemandTasks += entry.spot.onDemandTasks;
+      spot.interruptions += entry.spot.interruptions;
+    }
+
     return {
       totalRuns,
       totalCost,
@@ -180,6 +282,8 @@ export class CostTracker {
       avgDuration: totalDuration / totalRuns,
       totalTests,
       byBackend,
+      ...(byBrowser && { byBrowser }),
+      ...(spot && { spot }),
     };
   }
 }
\ No newline at end of file
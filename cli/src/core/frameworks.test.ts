@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { getFramework, isFramework, listFrameworks, loadConfiguredRunner, loadRunnerModule } from './frameworks';
+import { detectFrameworkFromPath } from './test-parser';
+
+const RUNNER_MODULE = `
+module.exports = {
+  name: 'mocha-api',
+  patterns: ['**/*.api.js'],
+  countTests: content => (content.match(/\\bspecify\\(/g) || []).length,
+  execute: async () => [],
+};
+`;
+
+describe('framework registry', () => {
+  it('should register the built-in frameworks', () => {
+    expect(listFrameworks()).toEqual(
+      expect.arrayContaining(['playwright', 'cypress', 'selenium', 'puppeteer', 'webdriverio', 'testcafe'])
+    );
+  });
+
+  it('should count tests the way each framework declares them', () => {
+    const content = `it('a', () => {}); test('b', () => {});`;
+
+    expect(getFramework('playwright').countTests(content)).toBe(2);
+    expect(getFramework('selenium').countTests(content)).toBe(1);
+    expect(getFramework('testcafe').countTests(content)).toBe(1);
+  });
+
+  it('should name the known frameworks for an unknown one', () => {
+    expect(() => getFramework('nightwatch')).toThrow('Unknown test framework "nightwatch" (expected playwright');
+    expect(isFramework('nightwatch')).toBe(false);
+  });
+
+  it('should detect built-in frameworks from the path', () => {
+    expect(detectFrameworkFromPath('examples/webdriverio')).toBe('webdriverio');
+    expect(detectFrameworkFromPath('e2e')).toBeNull();
+  });
+});
+
+describe('loadRunnerModule', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'frameworks-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should register a custom runner', async () => {
+    await fs.writeFile(path.join(dir, 'runner.js'), RUNNER_MODULE);
+
+    const framework = loadRunnerModule(path.join(dir, 'runner.js'));
+
+    expect(framework.name).toBe('mocha-api');
+    expect(getFramework('mocha-api').patterns).toEqual(['**/*.api.js']);
+    expect(getFramework('mocha-api').countTests('specify(1); specify(2)')).toBe(2);
+    expect(getFramework('mocha-api').estimatePerTest).toBe(5000);
+  });
+
+  it('should reject a module without an execute function', async () => {
+    await fs.writeFile(path.join(dir, 'runner.js'), `module.exports = { name: 'x', patterns: ['*.js'] };`);
+
+    expect(() => loadRunnerModule(path.join(dir, 'runner.js'))).toThrow('must export an execute function');
+  });
+
+  it('should wrap load errors', () => {
+    expect(() => loadRunnerModule(path.join(dir, 'missing.js'))).toThrow('Failed to load runner module');
+  });
+
+  it('should only load runners from inside the test directory', async () => {
+    await fs.mkdir(path.join(dir, 'e2e'));
+    await fs.writeFile(path.join(dir, 'e2e', 'runner.js'), RUNNER_MODULE);
+
+    expect(loadConfiguredRunner('runner.js', path.join(dir, 'e2e'))?.name).toBe('mocha-api');
+    expect(loadConfiguredRunner(undefined, path.join(dir, 'e2e'))).toBeUndefined();
+    expect(() => loadConfiguredRunner('../runner.js', path.join(dir, 'e2e'))).toThrow('must be inside the test directory');
+  });
+});
@@ -0,0 +1,174 @@
+import path from 'path';
+import { TestFramework } from '../types';
+import { getErrorMessage } from '../utils/retry';
+
+/**
+ * What the CLI needs to know about a test framework: how to find its test
+ * files and how long they take. Running them is the worker's half of the
+ * plugin (see worker/src/registry.ts).
+ */
+export interface FrameworkDefinition {
+  name: TestFramework;
+  patterns: string[]; // Discovery globs; the first is used when tests.pattern is empty
+  countTests(content: string): number; // Tests in one file, for duration estimates
+  estimatePerTest: number; // Milliseconds per test before timings are measured
+  splittable?: boolean; // The worker can run a subset of a file's tests (--split-tests)
+  browsers?: boolean; // The worker runs tests.browsers
+  projectConfig?: ProjectConfigFormat; // The framework's own config, which the worker loads too
+}
+
+/**
+ * Where a framework's own config file keeps its test file globs, so
+ * discovery finds the files a local run would (see core/project-config.ts)
+ */
+export interface ProjectConfigFormat {
+  files: string[]; // Config file names, in the order the framework looks for them
+  section?: string; // Object the keys below are nested in (Cypress: e2e)
+  testDir?: string; // Key of the directory the globs are relative to
+  match: string; // Key of the test file globs
+  ignore?: string; // Key of globs to leave out
+  defaultMatch: string[]; // When the config doesn't set `match`
+  defaultIgnore?: string[];
+  anyDepth?: boolean; // Globs match at any depth below testDir, as if prefixed with **/
+}
+
+// Match: test('...', test("...", it('...', it("...
+const countTestsAndIts = (content: string) => (content.match(/\b(test|it)\s*\(/g) || []).length;
+const countIts = (content: string) => (content.match(/\bit\s*\(/g) || []).length;
+
+const BUILTIN_FRAMEWORKS: FrameworkDefinition[] = [
+  {
+    name: 'playwright',
+    patterns: ['**/*.spec.ts', '**/*.spec.js', '**/*.test.ts', '**/*.test.js', '**/test/**/*.ts', '**/test/**/*.js'],
+    countTests: countTestsAndIts,
+    estimatePerTest: 5000,
+    splittable: true,
+    browsers: true,
+    projectConfig: {
+      files: ['playwright.config.ts', 'playwright.config.js', 'playwright.config.mts', 'playwright.config.mjs', 'playwright.config.cts', 'playwright.config.cjs'],
+      testDir: 'testDir',
+      match: 'testMatch',
+      ignore: 'testIgnore',
+      defaultMatch: ['**/*.@(spec|test).?(c|m)[jt]s?(x)'],
+      anyDepth: true,
+    },
+  },
+  {
+    name: 'cypress',
+    patterns: ['**/*.cy.ts', '**/*.cy.js', '**/e2e/**/*.cy.ts', '**/e2e/**/*.cy.js'],
+    countTests: countTestsAndIts,
+    estimatePerTest: 8000, // Tends to be slower
+    projectConfig: {
+      files: ['cypress.config.ts', 'cypress.config.js', 'cypress.config.mjs', 'cypress.config.cjs'],
+      section: 'e2e',
+      match: 'specPattern',
+      ignore: 'excludeSpecPattern',
+      defaultMatch: ['cypress/e2e/**/*.cy.{js,jsx,ts,tsx}'],
+      defaultIgnore: ['*.hot-update.js'],
+    },
+  },
+  {
+    name: 'selenium',
+    patterns: ['**/*.test.ts', '**/*.test.js', '**/*.spec.ts', '**/*.spec.js'],
+    countTests: countIts,
+    estimatePerTest: 10000,
+    splittable: true,
+    browsers: true,
+  },
+  {
+    name: 'puppeteer',
+    patterns: ['**/*.test.ts', '**/*.test.js', '**/*.spec.ts', '**/*.spec.js'],
+    countTests: countTestsAndIts,
+    estimatePerTest: 5000,
+  },
+  {
+    name: 'webdriverio',
+    patterns: ['**/*.e2e.ts', '**/*.e2e.js', '**/specs/**/*.ts', '**/specs/**/*.js'],
+    countTests: countIts,
+    estimatePerTest: 10000,
+  },
+  {
+    name: 'testcafe',
+    patterns: ['**/*.test.ts', '**/*.test.js', '**/*.testcafe.ts', '**/*.testcafe.js'],
+    countTests: content => (content.match(/\btest\s*\(/g) || []).length,
+    estimatePerTest: 8000,
+  },
+];
+
+const registry = new Map<string, FrameworkDefinition>(
+  BUILTIN_FRAMEWORKS.map(framework => [framework.name, framework])
+);
+
+/**
+ * Add a framework, replacing any registered under the same name
+ */
+export function registerFramework(framework: FrameworkDefinition): void {
+  registry.set(framework.name, framework);
+}
+
+export function getFramework(name: TestFramework): FrameworkDefinition {
+  const framework = registry.get(name);
+  if (!framework) {
+    throw new Error(`Unknown test framework "${name}" (expected ${listFrameworks().join(', ')}, or a tests.runner module)`);
+  }
+  return framework;
+}
+
+export function isFramework(name: string): boolean {
+  return registry.has(name);
+}
+
+export function listFrameworks(): TestFramework[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Load and register a custom runner module (tests.runner). The module is a
+ * CommonJS file exporting `name`, `patterns`, an optional `countTests` and
+ * `estimatePerTest`, and the `execute` function the worker calls.
+ */
+export function loadRunnerModule(modulePath: string): FrameworkDefinition {
+  const absolutePath = path.resolve(modulePath);
+
+  let loaded: Partial<FrameworkDefinition> & { execute?: unknown; default?: unknown };
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    loaded = require(absolutePath);
+  } catch (err: unknown) {
+    throw new Error(`Failed to load runner module ${modulePath}: ${getErrorMessage(err)}`);
+  }
+  const runner = (loaded.default || loaded) as typeof loaded;
+
+  if (typeof runner.name !== 'string' || !runner.name) {
+    throw new Error(`Runner module ${modulePath} must export a name`);
+  }
+  if (!Array.isArray(runner.patterns) || runner.patterns.length === 0) {
+    throw new Error(`Runner module ${modulePath} must export patterns for test discovery`);
+  }
+  if (typeof runner.execute !== 'function') {
+    throw new Error(`Runner module ${modulePath} must export an execute function for the worker`);
+  }
+
+  const framework: FrameworkDefinition = {
+    name: runner.name,
+    patterns: runner.patterns,
+    countTests: typeof runner.countTests === 'function' ? runner.countTests : countTestsAndIts,
+    estimatePerTest: runner.estimatePerTest || 5000,
+  };
+  registerFramework(framework);
+  return framework;
+}
+
+/**
+ * Register the config's tests.runner, if any. The module lives in the test
+ * directory so workers receive it with the test code.
+ */
+export function loadConfiguredRunner(runner: string | undefined, testDirectory: string): FrameworkDefinition | undefined {
+  if (!runner) return undefined;
+
+  const modulePath = path.resolve(testDirectory, runner);
+  if (path.relative(path.resolve(testDirectory), modulePath).startsWith('..')) {
+    throw new Error(`tests.runner must be inside the test directory (${testDirectory}) so workers receive it`);
+  }
+  return loadRunnerModule(modulePath);
+}
@@ -0,0 +1,75 @@
+import { logKey, logPrefix, parseLogKey, groupLogParts, parseShardLog, interleaveLogs } from './logs';
+
+describe('parseLogKey', () => {
+  it('should read the shard and part from a log key', () => {
+    expect(parseLogKey(logKey('run-1', 12))).toEqual({ shard: 12, part: 0 });
+    expect(parseLogKey(logKey('run-1', 12, 3))).toEqual({ shard: 12, part: 3 });
+  });
+
+  it('should ignore other keys', () => {
+    expect(parseLogKey('runs/run-1/results/shard-0.json')).toBeNull();
+  });
+});
+
+describe('groupLogParts', () => {
+  it('should order each shard\'s parts numerically', () => {
+    const keys = [2, 10, 0, 1].map(part => logKey('run-1', 0, part));
+
+    expect(groupLogParts([logKey('run-1', 1), ...keys])).toEqual(new Map([
+      [0, [0, 1, 2, 10].map(part => logKey('run-1', 0, part))],
+      [1, [logKey('run-1', 1)]],
+    ]));
+  });
+
+  it('should not mix up shards sharing a prefix', () => {
+    const keys = [logKey('run-1', 1), logKey('run-1', 10, 1)];
+
+    expect(keys.filter(key => key.startsWith(logPrefix('run-1', 1)))).toEqual([logKey('run-1', 1)]);
+    expect([...groupLogParts(keys).keys()]).toEqual([1, 10]);
+  });
+});
+
+describe('parseShardLog', () => {
+  it('should split timestamped lines', () => {
+    const content =
+      '2025-01-15T10:00:00.000Z Cheaptest Worker Starting\n' +
+      '2025-01-15T10:00:01.500Z   Run ID: run-1\n';
+
+    expect(parseShardLog(3, content)).toEqual([
+      { shard: 3, timestamp: '2025-01-15T10:00:00.000Z', text: 'Cheaptest Worker Starting' },
+      { shard: 3, timestamp: '2025-01-15T10:00:01.500Z', text: '  Run ID: run-1' },
+    ]);
+  });
+
+  it('should give lines without a timestamp the previous one', () => {
+    const content = '2025-01-15T10:00:00.000Z first\ncontinued\n';
+
+    expect(parseShardLog(0, content)[1]).toEqual({
+      shard: 0,
+      timestamp: '2025-01-15T10:00:00.000Z',
+      text: 'continued',
+    });
+  });
+
+  it('should keep empty timestamped lines', () => {
+    expect(parseShardLog(0, '2025-01-15T10:00:00.000Z \n')).toEqual([
+      { shard: 0, timestamp: '2025-01-15T10:00:00.000Z', text: '' },
+    ]);
+  });
+});
+
+describe('interleaveLogs', () => {
+  it('should merge shards by time', () => {
+    const shard0 = parseShardLog(0, '2025-01-15T10:00:00.000Z a1\n2025-01-15T10:00:02.000Z a2\n');
+    const shard1 = parseShardLog(1, '2025-01-15T10:00:01.000Z b1\n2025-01-15T10:00:03.000Z b2\n');
+
+    expect(interleaveLogs([shard0, shard1]).map(l => l.text)).toEqual(['a1', 'b1', 'a2', 'b2']);
+  });
+
+  it('should keep each shard in order when timestamps tie', () => {
+    const shard0 = parseShardLog(0, '2025-01-15T10:00:00.000Z a1\n2025-01-15T10:00:00.000Z a2\n');
+    const shard1 = parseShardLog(1, '2025-01-15T10:00:00.000Z b1\n');
+
+    expect(interleaveLogs([shard1, shard0]).map(l => l.text)).toEqual(['b1', 'a1', 'a2']);
+  });
+});
@@ -0,0 +1,86 @@
+export interface LogLine {
+  shard: number;
+  timestamp: string; // ISO 8601, so timestamps sort as strings
+  text: string;
+}
+
+export interface LogPart {
+  shard: number;
+  part: number;
+}
+
+const LOG_KEY_PATTERN = /\/logs\/shard-(\d+)(?:\.(\d+))?\.log$/;
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z) (.*)$/;
+
+/**
+ * Workers upload their log in parts: shard-N.log, then shard-N.1.log,
+ * shard-N.2.log, ... once a part is full
+ */
+export function logKey(runId: string, shard: number, part = 0): string {
+  return `runs/${runId}/logs/shard-${shard}${part ? `.${part}` : ''}.log`;
+}
+
+/**
+ * Prefix of every log part of a run, or of one of its shards
+ */
+export function logPrefix(runId: string, shard?: number): string {
+  return `runs/${runId}/logs/${shard !== undefined ? `shard-${shard}.` : ''}`;
+}
+
+/**
+ * Shard and part of a log key, or null for other keys
+ */
+export function parseLogKey(key: string): LogPart | null {
+  const match = key.match(LOG_KEY_PATTERN);
+  return match ? { shard: parseInt(match[1]), part: match[2] ? parseInt(match[2]) : 0 } : null;
+}
+
+/**
+ * Each shard's log keys in part order, by shard. Other keys are ignored.
+ */
+export function groupLogParts(keys: string[]): Map<number, string[]> {
+  const parts = keys
+    .map(key => ({ key, parsed: parseLogKey(key) }))
+    .filter((entry): entry is { key: string; parsed: LogPart } => entry.parsed !== null)
+    .sort((a, b) => a.parsed.shard - b.parsed.shard || a.parsed.part - b.parsed.part);
+
+  const groups = new Map<number, string[]>();
+  for (const { key, parsed } of parts) {
+    groups.set(parsed.shard, [...(groups.get(parsed.shard) || []), key]);
+  }
+  return groups;
+}
+
+/**
+ * Split a worker log into lines. The worker writes "<ISO timestamp> <text>";
+ * a line without a timestamp inherits the previous line's.
+ */
+export function parseShardLog(shard: number, content: string): LogLine[] {
+  const lines: LogLine[] = [];
+  let timestamp = '';
+
+  for (const raw of content.split('\n')) {
+    const match = raw.match(TIMESTAMP_PATTERN);
+    if (match) {
+      timestamp = match[1];
+      lines.push({ shard, timestamp, text: match[2] });
+    } else if (raw) {
+      lines.push({ shard, timestamp, text: raw });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Merge several shards' lines by time. Each shard's own order is kept,
+ * and lines with the same timestamp stay grouped by shard.
+ */
+export function interleaveLogs(logs: LogLine[][]): LogLine[] {
+  return logs
+    .flatMap((lines, source) => lines.map((line, index) => ({ line, source, index })))
+    .sort((a, b) =>
+      a.line.timestamp.localeCompare(b.line.timestamp) || a.source - b.source || a.index - b.index
+    )
+    .map(({ line }) => line);
+}
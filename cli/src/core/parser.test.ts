@@ -141,6 +141,24 @@ describe('TestParser', () => {
       expect(result.files[0].relativePath).toContain('good.spec.ts');
     });
 
+    it('should leave out files the bundle leaves out', async () => {
+      await fs.mkdir(path.join(tempDir, 'e2e', 'wip'), { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'e2e', 'good.spec.ts'), 'test("example", () => {})');
+      await fs.writeFile(path.join(tempDir, 'e2e', 'wip', 'draft.spec.ts'), 'test("example", () => {})');
+      await fs.writeFile(path.join(tempDir, 'e2e', 'other.spec.ts'), 'test("example", () => {})');
+      await fs.writeFile(path.join(tempDir, '.cheaptestignore'), 'wip/\n');
+
+      const result = await parser.discover({
+        directory: tempDir,
+        pattern: '**/*.spec.ts',
+        framework: 'playwright',
+        include: ['e2e/'],
+        exclude: ['other.spec.ts'],
+      });
+
+      expect(result.files.map(f => f.relativePath)).toEqual(['e2e/good.spec.ts']);
+    });
+
     it('should throw error if no files found', async () => {
       await expect(
         parser.discover({
@@ -443,6 +461,55 @@ describe('TestParser', () => {
     });
   });
 
+  describe('includeTests', () => {
+    async function discoverTests(content: string) {
+      await fs.writeFile(path.join(tempDir, 'big.spec.ts'), content);
+      const result = await parser.discover({
+        directory: tempDir,
+        pattern: '**/*.spec.ts',
+        framework: 'playwright',
+        includeTests: true,
+      });
+      return result.files[0].tests;
+    }
+
+    it('should list test titles with their line numbers', async () => {
+      const tests = await discoverTests([
+        "test.describe('checkout', () => {",
+        "  test('adds to cart', async () => {});",
+        '  test.skip("applies coupon", async () => {});',
+        "  it('pays with card', async () => {",
+        "    test.step('fill form', async () => {});",
+        '  });',
+        '  test(',
+        "    'ships to \\'home\\'',",
+        '    async () => {}',
+        '  );',
+        '});',
+      ].join('\n'));
+
+      expect(tests).toEqual([
+        { title: 'adds to cart', line: 2 },
+        { title: 'applies coupon', line: 3 },
+        { title: 'pays with card', line: 4 },
+        { title: "ships to 'home'", line: 7 },
+      ]);
+    });
+
+    it('should not list tests when a title is computed', async () => {
+      expect(await discoverTests('for (const n of [1, 2]) {\n  test(`case ${n}`, () => {});\n}')).toBeUndefined();
+      expect(await discoverTests('const name = "x";\ntest(name, () => {});')).toBeUndefined();
+    });
+
+    it('should not list tests unless requested', async () => {
+      await fs.writeFile(path.join(tempDir, 'a.spec.ts'), 'test("a", () => {})');
+
+      const result = await parser.discover({ directory: tempDir, pattern: '**/*.spec.ts', framework: 'playwright' });
+
+      expect(result.files[0].tests).toBeUndefined();
+    });
+  });
+
   describe('groupBySuite', () => {
     it('should group files by suite name', () => {
       const files = [
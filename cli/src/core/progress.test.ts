@@ -0,0 +1,122 @@
+import { parseEvents, plannedTests, summarizeProgress, formatProgress, STALL_THRESHOLD_MS } from './progress';
+import { TestFile, TestShard } from '../types';
+
+function makeFile(relativePath: string, overrides: Partial<TestFile> = {}): TestFile {
+  return {
+    path: `/tests/${relativePath}`,
+    relativePath,
+    framework: 'playwright',
+    size: 100,
+    ...overrides,
+  };
+}
+
+function makeShard(files: TestFile[], overrides: Partial<TestShard> = {}): TestShard {
+  return { id: 0, files, estimatedDuration: 0, totalSize: 0, ...overrides };
+}
+
+const START = Date.parse('2025-01-15T10:00:00.000Z');
+
+function at(seconds: number): string {
+  return new Date(START + seconds * 1000).toISOString();
+}
+
+describe('parseEvents', () => {
+  it('should parse one event per line', () => {
+    const content =
+      `{"type":"heartbeat","time":"${at(0)}"}\n` +
+      `{"type":"test-started","time":"${at(1)}","file":"a.spec.ts","name":"loads"}\n`;
+
+    expect(parseEvents(content)).toEqual([
+      { type: 'heartbeat', time: at(0) },
+      { type: 'test-started', time: at(1), file: 'a.spec.ts', name: 'loads' },
+    ]);
+  });
+
+  it('should skip torn lines', () => {
+    const content = `{"type":"heartbeat","time":"${at(0)}"}\n{"type":"test-fin\n`;
+
+    expect(parseEvents(content)).toHaveLength(1);
+  });
+});
+
+describe('plannedTests', () => {
+  it('should count discovered and selected tests', () => {
+    const shard = makeShard([
+      makeFile('a.spec.ts', { tests: [{ title: 'a', line: 1 }, { title: 'b', line: 5 }] }),
+      makeFile('b.spec.ts', {
+        tests: [{ title: 'c', line: 1 }, { title: 'd', line: 5 }],
+        selectedTests: [{ title: 'c', line: 1 }],
+      }),
+    ]);
+
+    expect(plannedTests(shard)).toBe(3);
+  });
+
+  it('should be unknown when a file was not discovered', () => {
+    const shard = makeShard([makeFile('a.spec.ts', { tests: [{ title: 'a', line: 1 }] }), makeFile('b.spec.ts')]);
+
+    expect(plannedTests(shard)).toBeUndefined();
+  });
+
+  it('should be unknown for queue shards', () => {
+    expect(plannedTests(makeShard([], { queue: true }))).toBeUndefined();
+  });
+});
+
+describe('summarizeProgress', () => {
+  const events = parseEvents([
+    `{"type":"heartbeat","time":"${at(0)}"}`,
+    `{"type":"planned","time":"${at(1)}","tests":4}`,
+    `{"type":"test-started","time":"${at(2)}","file":"a.spec.ts","name":"loads"}`,
+    `{"type":"test-finished","time":"${at(3)}","file":"a.spec.ts","name":"loads","status":"passed","duration":900}`,
+    `{"type":"test-started","time":"${at(4)}","file":"a.spec.ts","name":"saves"}`,
+    `{"type":"test-finished","time":"${at(5)}","file":"a.spec.ts","name":"saves","status":"failed","duration":300}`,
+    `{"type":"test-started","time":"${at(6)}","file":"b.spec.ts","name":"logs in"}`,
+  ].join('\n'));
+
+  it('should count finished tests and track the current one', () => {
+    expect(summarizeProgress(2, events, START + 10000)).toEqual({
+      shard: 2,
+      passed: 1,
+      failed: 1,
+      skipped: 0,
+      remaining: 2,
+      current: 'b.spec.ts > logs in',
+      lastEventAt: at(6),
+      done: false,
+      stalled: false,
+    });
+  });
+
+  it('should prefer the planned count to the discovered one', () => {
+    expect(summarizeProgress(0, events, START, 10).remaining).toBe(2);
+  });
+
+  it('should fall back to the discovered count', () => {
+    const finished = events.filter(e => e.type !== 'planned');
+
+    expect(summarizeProgress(0, finished, START, 10).remaining).toBe(8);
+    expect(summarizeProgress(0, finished, START).remaining).toBeUndefined();
+  });
+
+  it('should flag a shard whose events stopped', () => {
+    expect(summarizeProgress(0, events, START + 6000 + STALL_THRESHOLD_MS + 1).stalled).toBe(true);
+  });
+
+  it('should not flag a shard that finished', () => {
+    const done = [...events, { type: 'done' as const, time: at(7) }];
+
+    const progress = summarizeProgress(0, done, START + 7000 + STALL_THRESHOLD_MS + 1);
+
+    expect(progress.done).toBe(true);
+    expect(progress.stalled).toBe(false);
+  });
+});
+
+describe('formatProgress', () => {
+  it('should leave out unknown remaining counts', () => {
+    expect(formatProgress({ passed: 3, failed: 1, remaining: 6 })).toBe('3 passed, 1 failed, 6 remaining');
+    expect(formatProgress({ passed: 3, failed: 1 })).toBe('3 passed, 1 failed');
+  });
+});
@@ -0,0 +1,146 @@
+import { Storage } from '../storage';
+import { TestShard } from '../types';
+
+/**
+ * One line of a worker's runs/<id>/events/shard-N.ndjson
+ */
+export interface ProgressEvent {
+  type: 'planned' | 'test-started' | 'test-finished' | 'heartbeat' | 'done';
+  time: string; // ISO 8601
+  tests?: number; // planned
+  file?: string; // test-started, test-finished
+  name?: string;
+  status?: 'passed' | 'failed' | 'skipped'; // test-finished
+  duration?: number;
+}
+
+export interface ShardProgress {
+  shard: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  remaining?: number; // Unknown until the worker or the shard's files say how many tests will run
+  current?: string; // Test running now, as "file > name"
+  lastEventAt?: string;
+  done: boolean;
+  stalled: boolean; // No heartbeat for STALL_THRESHOLD_MS and the worker never said it was done
+}
+
+/**
+ * Workers send a heartbeat every 15 seconds and upload every 5, so a full
+ * minute of silence means the worker is hung or gone
+ */
+export const STALL_THRESHOLD_MS = 60000;
+
+export function eventsKey(runId: string, shard: number): string {
+  return `runs/${runId}/events/shard-${shard}.ndjson`;
+}
+
+/**
+ * Parse an NDJSON event stream, skipping lines that aren't valid JSON
+ */
+export function parseEvents(content: string): ProgressEvent[] {
+  const events: ProgressEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      // Torn write from a reporter process
+    }
+  }
+  return events;
+}
+
+/**
+ * Tests a shard will run, from discovery, or undefined when the CLI didn't
+ * discover them (or the shard pulls its files from the work queue)
+ */
+export function plannedTests(shard: TestShard): number | undefined {
+  if (shard.queue) return undefined;
+
+  let total = 0;
+  for (const file of shard.files) {
+    const tests = file.selectedTests || file.tests;
+    if (!tests) return undefined;
+    total += tests.length;
+  }
+  return total;
+}
+
+/**
+ * Counts so far for one shard. `planned` events from the worker take
+ * precedence over the shard's discovered test count.
+ */
+export function summarizeProgress(
+  shard: number,
+  events: ProgressEvent[],
+  now: number,
+  discovered?: number,
+): ShardProgress {
+  const progress: ShardProgress = { shard, passed: 0, failed: 0, skipped: 0, done: false, stalled: false };
+  let planned: number | undefined;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'planned':
+        planned = (planned || 0) + (event.tests || 0);
+        break;
+      case 'test-started':
+        progress.current = `${event.file} > ${event.name}`;
+        break;
+      case 'test-finished':
+        if (event.status) progress[event.status]++;
+        progress.current = undefined;
+        break;
+      case 'done':
+        progress.done = true;
+        break;
+    }
+    progress.lastEventAt = event.time;
+  }
+
+  const total = planned ?? discovered;
+  if (total !== undefined) {
+    progress.remaining = Math.max(0, total - progress.passed - progress.failed - progress.skipped);
+  }
+  if (progress.lastEventAt && !progress.done) {
+    progress.stalled = now - new Date(progress.lastEventAt).getTime() > STALL_THRESHOLD_MS;
+  }
+
+  return progress;
+}
+
+/**
+ * Progress of every shard that has uploaded events. A missing or unreadable
+ * stream just means the worker hasn't started yet.
+ */
+export async function loadProgress(
+  storage: Storage,
+  bucket: string,
+  runId: string,
+  shards: TestShard[],
+  now = Date.now(),
+): Promise<ShardProgress[]> {
+  const progress: ShardProgress[] = [];
+  for (const shard of shards) {
+    try {
+      const events = parseEvents(await storage.downloadText(bucket, eventsKey(runId, shard.id)));
+      progress.push(summarizeProgress(shard.id, events, now, plannedTests(shard)));
+    } catch {
+      // Not uploaded yet
+    }
+  }
+  return progress;
+}
+
+/**
+ * "12 passed, 1 failed, 30 remaining" for a shard or a run's totals
+ */
+export function formatProgress(progress: Pick<ShardProgress, 'passed' | 'failed' | 'remaining'>): string {
+  const parts = [`${progress.passed} passed`, `${progress.failed} failed`];
+  if (progress.remaining !== undefined) {
+    parts.push(`${progress.remaining} remaining`);
+  }
+  return parts.join(', ');
+}
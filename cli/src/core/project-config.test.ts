@@ -0,0 +1,102 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { readProjectConfig } from './project-config';
+import { TestParser } from './test-parser';
+
+describe('readProjectConfig', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'project-config-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read testDir, testMatch and testIgnore from a Playwright config', async () => {
+    await fs.writeFile(path.join(dir, 'playwright.config.ts'), `
+import { defineConfig } from '@playwright/test';
+
+export default defineConfig({
+  testDir: './tests',
+  testMatch: ['*.e2e.ts', "**/smoke/*.ts"],
+  testIgnore: 'legacy/**',
+  use: { baseURL: 'http://localhost:3000' },
+});
+`);
+
+    expect(await readProjectConfig(dir, 'playwright')).toEqual({
+      file: 'playwright.config.ts',
+      patterns: ['tests/**/*.e2e.ts', 'tests/**/smoke/*.ts'],
+      ignore: ['tests/**/legacy/**'],
+    });
+  });
+
+  it('should use Playwright defaults for keys the config leaves out', async () => {
+    await fs.writeFile(path.join(dir, 'playwright.config.js'), `module.exports = { retries: 2 };`);
+
+    expect(await readProjectConfig(dir, 'playwright')).toEqual({
+      file: 'playwright.config.js',
+      patterns: ['**/*.@(spec|test).?(c|m)[jt]s?(x)'],
+      ignore: [],
+    });
+  });
+
+  it('should read the e2e specPattern from a Cypress config', async () => {
+    await fs.writeFile(path.join(dir, 'cypress.config.ts'), `
+export default defineConfig({
+  e2e: {
+    baseUrl: 'http://localhost:3000',
+    specPattern: 'cypress/integration/**/*.cy.ts',
+  },
+  component: {
+    specPattern: 'src/**/*.cy.tsx',
+  },
+});
+`);
+
+    expect(await readProjectConfig(dir, 'cypress')).toEqual({
+      file: 'cypress.config.ts',
+      patterns: ['cypress/integration/**/*.cy.ts'],
+      ignore: ['**/*.hot-update.js'],
+    });
+  });
+
+  it('should refuse values it cannot read', async () => {
+    await fs.writeFile(path.join(dir, 'playwright.config.ts'), `export default { testMatch: /.*\\.e2e\\.ts/ };`);
+
+    await expect(readProjectConfig(dir, 'playwright')).rejects.toThrow(
+      "Can't read testMatch from playwright.config.ts"
+    );
+  });
+
+  it('should refuse a testDir outside the test directory', async () => {
+    await fs.writeFile(path.join(dir, 'playwright.config.ts'), `export default { testDir: '../e2e' };`);
+
+    await expect(readProjectConfig(dir, 'playwright')).rejects.toThrow('outside the test directory');
+  });
+
+  it('should return undefined without a config or a config format', async () => {
+    expect(await readProjectConfig(dir, 'playwright')).toBeUndefined();
+    expect(await readProjectConfig(dir, 'selenium')).toBeUndefined();
+  });
+
+  it('should drive discovery when tests.pattern is empty', async () => {
+    await fs.mkdir(path.join(dir, 'tests', 'legacy'), { recursive: true });
+    await fs.writeFile(path.join(dir, 'playwright.config.ts'), `export default { testDir: 'tests', testIgnore: 'legacy/**' };`);
+    await fs.writeFile(path.join(dir, 'tests', 'login.spec.ts'), `test('a', () => {});`);
+    await fs.writeFile(path.join(dir, 'tests', 'legacy', 'old.spec.ts'), `test('b', () => {});`);
+    await fs.writeFile(path.join(dir, 'helpers.spec.ts'), `test('c', () => {});`);
+
+    const parser = new TestParser();
+    const fromConfig = await parser.discover({ directory: dir, pattern: '', framework: 'playwright' });
+    const explicit = await parser.discover({ directory: dir, pattern: '**/*.spec.ts', framework: 'playwright' });
+
+    expect(fromConfig.configFile).toBe('playwright.config.ts');
+    expect(fromConfig.files.map(f => f.relativePath)).toEqual(['tests/login.spec.ts']);
+    expect(explicit.configFile).toBeUndefined();
+    expect(explicit.totalFiles).toBe(3);
+  });
+});
@@ -0,0 +1,116 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { TestFramework } from '../types';
+import { ProjectConfigFormat, getFramework } from './frameworks';
+
+/**
+ * Test file globs read from the framework's own config (playwright.config.ts,
+ * cypress.config.ts) in the test directory. The worker runs that same config,
+ * so discovery has to find the files it would.
+ */
+export interface ProjectConfig {
+  file: string; // Config file name in the test directory
+  patterns: string[]; // Globs relative to the test directory
+  ignore: string[];
+}
+
+/**
+ * Read the test file globs from the framework's config in `directory`, or
+ * undefined when the framework has no config format or there's no config.
+ * Configs are TypeScript or JavaScript the CLI doesn't execute, so only
+ * string literals and arrays of them are read.
+ */
+export async function readProjectConfig(
+  directory: string,
+  framework: TestFramework
+): Promise<ProjectConfig | undefined> {
+  const format = getFramework(framework).projectConfig;
+  if (!format) return undefined;
+
+  for (const file of format.files) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(directory, file), 'utf-8');
+    } catch {
+      continue;
+    }
+    return parseProjectConfig(file, content, format);
+  }
+  return undefined;
+}
+
+export function parseProjectConfig(file: string, content: string, format: ProjectConfigFormat): ProjectConfig {
+  const source = sectionOf(content, format.section);
+
+  const [testDir] = readStrings(file, source, format.testDir) || ['.'];
+  const base = path.posix.normalize(testDir.replace(/\\/g, '/'));
+  if (base === '..' || base.startsWith('../') || path.posix.isAbsolute(base)) {
+    throw new Error(`${format.testDir} in ${file} is outside the test directory, so workers wouldn't receive its tests`);
+  }
+
+  const match = readStrings(file, source, format.match) || format.defaultMatch;
+  const ignore = readStrings(file, source, format.ignore) || format.defaultIgnore || [];
+
+  return {
+    file,
+    patterns: match.map(glob => path.posix.join(base, anyDepth(glob, format.anyDepth))),
+    // Ignore globs without a directory match at any depth, as in both frameworks
+    ignore: ignore.map(glob => path.posix.join(base, anyDepth(glob, format.anyDepth || !glob.includes('/')))),
+  };
+}
+
+function anyDepth(glob: string, enabled: boolean | undefined): string {
+  return enabled && !glob.startsWith('**/') ? `**/${glob}` : glob;
+}
+
+/**
+ * The part of the config from the section's key (e.g. `e2e:`) up to the next
+ * top-level section Cypress knows, so `component.specPattern` isn't read for
+ * e2e. Without the key, the whole file.
+ */
+function sectionOf(content: string, section: string | undefined): string {
+  if (!section) return content;
+
+  const start = content.search(new RegExp(`\\b${section}\\s*:`));
+  if (start === -1) return content;
+
+  const rest = content.slice(start);
+  const end = rest.slice(section.length).search(/\bcomponent\s*:/);
+  return end === -1 ? rest : rest.slice(0, section.length + end);
+}
+
+/**
+ * The string literal or array of string literals assigned to `key`, or
+ * undefined if the key isn't set. Throws for any other value (a RegExp, a
+ * variable, path.join(...)), since guessing would shard the wrong files.
+ */
+function readStrings(file: string, source: string, key: string | undefined): string[] | undefined {
+  if (!key) return undefined;
+
+  const assignment = new RegExp(`(?:^|[\\s,{])['"]?${key}['"]?\\s*:\\s*`, 'm').exec(source);
+  if (!assignment) return undefined;
+
+  const value = source.slice(assignment.index + assignment[0].length);
+  const literal = /^(['"`])((?:\\.|(?!\1).)*)\1/;
+
+  const single = literal.exec(value);
+  if (single && !(single[1] === '`' && single[2].includes('${'))) {
+    return [single[2]];
+  }
+
+  if (value.startsWith('[')) {
+    const strings: string[] = [];
+    let rest = value.slice(1).trimStart();
+    while (!rest.startsWith(']')) {
+      const item = literal.exec(rest);
+      if (!item || (item[1] === '`' && item[2].includes('${'))) break;
+      strings.push(item[2]);
+      rest = rest.slice(item[0].length).replace(/^\s*,?\s*/, '');
+    }
+    if (rest.startsWith(']')) return strings;
+  }
+
+  throw new Error(
+    `Can't read ${key} from ${file}: only strings and arrays of strings are supported. Set tests.pattern in .cheaptest.yml instead`
+  );
+}
@@ -0,0 +1,83 @@
+import { isQuarantined, applyQuarantine } from './quarantine';
+import { RunSummary, TestCase } from '../types';
+
+const login: TestCase = { name: 'should login', file: 'auth.spec.ts', status: 'failed', duration: 1000 };
+const logout: TestCase = { name: 'should logout', file: 'auth.spec.ts', status: 'passed', duration: 1000 };
+const search: TestCase = { name: 'should search', file: 'search.spec.ts', status: 'failed', duration: 1000 };
+
+function makeSummary(tests: TestCase[]): RunSummary {
+  return {
+    runId: 'run-1',
+    backend: 'ecs',
+    totalTests: tests.length,
+    passed: tests.filter(t => t.status === 'passed').length,
+    failed: tests.filter(t => t.status === 'failed').length,
+    skipped: 0,
+    duration: 1000,
+    cost: 0.01,
+    startTime: new Date(),
+    endTime: new Date(),
+    results: [{
+      shard: 0,
+      passed: tests.filter(t => t.status === 'passed').length,
+      failed: tests.filter(t => t.status === 'failed').length,
+      skipped: 0,
+      duration: 1000,
+      tests,
+    }],
+  };
+}
+
+describe('isQuarantined', () => {
+  it('should match a whole file', () => {
+    expect(isQuarantined(login, ['auth.spec.ts'])).toBe(true);
+    expect(isQuarantined(search, ['auth.spec.ts'])).toBe(false);
+  });
+
+  it('should match a single test by file and name', () => {
+    expect(isQuarantined(login, ['auth.spec.ts::should login'])).toBe(true);
+    expect(isQuarantined(logout, ['auth.spec.ts::should login'])).toBe(false);
+  });
+
+  it('should match absolute paths reported by the worker', () => {
+    const test = { ...login, file: '/workspace/tests/auth.spec.ts' };
+
+    expect(isQuarantined(test, ['tests/auth.spec.ts::should login'])).toBe(true);
+  });
+
+  it('should not match partial file names', () => {
+    expect(isQuarantined({ ...login, file: 'oauth.spec.ts' }, ['auth.spec.ts'])).toBe(false);
+  });
+});
+
+describe('applyQuarantine', () => {
+  it('should leave quarantined failures out of the failed count', () => {
+    const summary = applyQuarantine(makeSummary([login, logout, search]), ['auth.spec.ts']);
+
+    expect(summary.failed).toBe(1);
+    expect(summary.quarantined).toBe(1);
+    expect(summary.results![0].tests[0].quarantined).toBe(true);
+    expect(summary.results![0].tests[2].quarantined).toBeUndefined();
+  });
+
+  it('should leave quarantined failures out of each shard\'s failed count', () => {
+    const summary = applyQuarantine(makeSummary([login, logout, search]), ['auth.spec.ts']);
+
+    expect(summary.results![0].failed).toBe(1);
+    expect(summary.results![0].passed).toBe(1);
+  });
+
+  it('should not mark quarantined tests that passed', () => {
+    const summary = applyQuarantine(makeSummary([logout]), ['auth.spec.ts']);
+
+    expect(summary.quarantined).toBeUndefined();
+    expect(summary.results![0].tests[0].quarantined).toBeUndefined();
+  });
+
+  it('should return the summary unchanged without a quarantine list', () => {
+    const original = makeSummary([login]);
+
+    expect(applyQuarantine(original)).toBe(original);
+    expect(applyQuarantine(original, [])).toBe(original);
+  });
+});
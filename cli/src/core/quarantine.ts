@@ -0,0 +1,53 @@
+import { RunSummary, TestCase } from '../types';
+
+/**
+ * Whether a test matches a quarantine entry from tests.quarantine.
+ *
+ * An entry is either a test file path, which quarantines every test in the
+ * file, or `<file>::<test name>` for a single test. Paths are matched by
+ * suffix since workers may report them relative or absolute.
+ */
+export function isQuarantined(test: Pick<TestCase, 'file' | 'name'>, quarantine: string[]): boolean {
+  const file = test.file.replace(/\\/g, '/');
+  const matchesFile = (entryFile: string) => file === entryFile || file.endsWith(`/${entryFile}`);
+
+  return quarantine.some(entry => {
+    const separator = entry.indexOf('::');
+    if (separator === -1) {
+      return matchesFile(entry);
+    }
+    return matchesFile(entry.slice(0, separator)) && test.name === entry.slice(separator + 2);
+  });
+}
+
+/**
+ * Mark failed tests that are quarantined and leave them out of the run's
+ * and each shard's failed count, so they are reported but don't fail the run.
+ */
+export function applyQuarantine(summary: RunSummary, quarantine: string[] = []): RunSummary {
+  if (quarantine.length === 0 || !summary.results) {
+    return summary;
+  }
+
+  let quarantined = 0;
+  const results = summary.results.map(result => {
+    const tests = result.tests.map(test => {
+      if (test.status !== 'failed' || !isQuarantined(test, quarantine)) return test;
+      return { ...test, quarantined: true };
+    });
+    const inShard = tests.filter(t => t.quarantined).length;
+    quarantined += inShard;
+    return { ...result, failed: result.failed - inShard, tests };
+  });
+
+  if (quarantined === 0) {
+    return summary;
+  }
+
+  return {
+    ...summary,
+    failed: summary.failed - quarantined,
+    quarantined,
+    results,
+  };
+}
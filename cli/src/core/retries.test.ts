@@ -0,0 +1,162 @@
+import { collectFailedFiles, mergeRetryResults, countFlaky } from './retries';
+import { TestCase, TestFile, TestResult } from '../types';
+
+function makeFile(relativePath: string): TestFile {
+  return {
+    path: `/repo/tests/${relativePath}`,
+    relativePath,
+    framework: 'playwright',
+    estimatedDuration: 1000,
+    size: 100,
+  };
+}
+
+function makeResult(shard: number, tests: TestCase[]): TestResult {
+  return {
+    shard,
+    passed: tests.filter(t => t.status === 'passed').length,
+    failed: tests.filter(t => t.status === 'failed').length,
+    skipped: tests.filter(t => t.status === 'skipped').length,
+    duration: 1000,
+    tests,
+  };
+}
+
+const login: TestCase = { name: 'should login', file: 'auth.spec.ts', status: 'failed', duration: 1000, error: 'timeout' };
+const logout: TestCase = { name: 'should logout', file: 'auth.spec.ts', status: 'passed', duration: 1000 };
+const search: TestCase = { name: 'should search', file: 'search.spec.ts', status: 'passed', duration: 1000 };
+
+describe('collectFailedFiles', () => {
+  const files = [makeFile('auth.spec.ts'), makeFile('search.spec.ts')];
+
+  it('should return only files with failed tests', () => {
+    const results = [makeResult(0, [login, logout]), makeResult(1, [search])];
+
+    expect(collectFailedFiles(results, files).map(f => f.relativePath)).toEqual(['auth.spec.ts']);
+  });
+
+  it('should list a file once even with several failures', () => {
+    const results = [makeResult(0, [login, { ...logout, status: 'failed' }])];
+
+    expect(collectFailedFiles(results, files)).toHaveLength(1);
+  });
+
+  it('should match absolute paths reported by the worker', () => {
+    const results = [makeResult(0, [{ ...login, file: '/workspace/tests/auth.spec.ts' }])];
+
+    expect(collectFailedFiles(results, files).map(f => f.relativePath)).toEqual(['auth.spec.ts']);
+  });
+
+  it('should return nothing when all tests passed', () => {
+    expect(collectFailedFiles([makeResult(0, [logout, search])], files)).toEqual([]);
+  });
+
+  it('should retry only the browsers a test failed in', () => {
+    const units = ['chromium', 'firefox'].flatMap(browser =>
+      files.map(f => ({ ...f, browser: browser as TestFile['browser'] })));
+    const results = [makeResult(0, [
+      { ...login, browser: 'firefox' },
+      { ...login, status: 'passed', browser: 'chromium' },
+    ])];
+
+    expect(collectFailedFiles(results, units).map(f => `${f.relativePath}:${f.browser}`)).toEqual(['auth.spec.ts:firefox']);
+  });
+});
+
+describe('mergeRetryResults', () => {
+  it('should mark tests that pass on retry as flaky', () => {
+    const results = [makeResult(0, [login, logout])];
+    const retry = [makeResult(2, [{ ...login, status: 'passed', duration: 800, error: undefined }, logout])];
+
+    const [merged] = mergeRetryResults(results, retry, 1);
+
+    expect(merged.passed).toBe(2);
+    expect(merged.failed).toBe(0);
+    expect(merged.tests[0]).toMatchObject({ status: 'passed', duration: 800, flaky: true, retries: 1 });
+  });
+
+  it('should keep the latest error when a test fails again', () => {
+    const results = [makeResult(0, [login])];
+    const retry = [makeResult(2, [{ ...login, error: 'still broken' }])];
+
+    const [merged] = mergeRetryResults(results, retry, 2);
+
+    expect(merged.failed).toBe(1);
+    expect(merged.tests[0]).toMatchObject({ status: 'failed', error: 'still broken', retries: 2 });
+    expect(merged.tests[0].flaky).toBeUndefined();
+  });
+
+  it('should ignore retry results for tests that already passed', () => {
+    const results = [makeResult(0, [login, logout])];
+    const retry = [makeResult(2, [login, { ...logout, status: 'failed' }])];
+
+    const [merged] = mergeRetryResults(results, retry, 1);
+
+    expect(merged.tests[1]).toBe(logout);
+    expect(merged.passed).toBe(1);
+  });
+
+  it('should keep the artifacts of every attempt', () => {
+    const firstTrace = { name: 'trace', contentType: 'application/zip', key: 'runs/r/artifacts/shard-0/a/trace.zip' };
+    const retryTrace = { name: 'trace', contentType: 'application/zip', key: 'runs/r/artifacts/shard-2/a/trace.zip' };
+    const results = [makeResult(0, [{ ...login, artifacts: [firstTrace] }])];
+    const retry = [makeResult(2, [{ ...login, status: 'passed', artifacts: [retryTrace] }])];
+
+    const [merged] = mergeRetryResults(results, retry, 1);
+
+    expect(merged.tests[0].artifacts).toEqual([firstTrace, retryTrace]);
+  });
+
+  it('should leave tests missing from the retry untouched', () => {
+    const results = [makeResult(0, [login])];
+
+    const [merged] = mergeRetryResults(results, [], 1);
+
+    expect(merged.tests[0]).toBe(login);
+  });
+
+  it('should match retried tests by browser', () => {
+    const results = [makeResult(0, [{ ...login, browser: 'chromium' }, { ...login, browser: 'webkit' }])];
+    const retry = [makeResult(2, [{ ...login, status: 'passed', error: undefined, browser: 'webkit' }])];
+
+    const [merged] = mergeRetryResults(results, retry, 1);
+
+    expect(merged.tests.map(t => t.status)).toEqual(['failed', 'passed']);
+  });
+
+  it('should replace a file that never ran with the tests it reported on retry', () => {
+    const notRun: TestCase = { name: 'auth.spec.ts', file: 'auth.spec.ts', status: 'failed', duration: 0, error: 'never finished', notRun: true };
+    const results = [makeResult(0, [search, notRun])];
+    const retry = [makeResult(2, [
+      { ...login, file: '/workspace/auth.spec.ts', status: 'passed', error: undefined },
+      { ...logout, file: '/workspace/auth.spec.ts' },
+    ])];
+
+    const [merged] = mergeRetryResults(results, retry, 1);
+
+    expect(merged.tests.map(t => t.name)).toEqual(['should search', 'should login', 'should logout']);
+    expect(merged.tests.every(t => t.retries === 1 || t === search)).toBe(true);
+    expect(merged.passed).toBe(3);
+    expect(merged.failed).toBe(0);
+  });
+
+  it('should keep a file that never ran failed when its retry reported nothing', () => {
+    const notRun: TestCase = { name: 'auth.spec.ts', file: 'auth.spec.ts', status: 'failed', duration: 0, error: 'never finished', notRun: true };
+
+    const [merged] = mergeRetryResults([makeResult(0, [notRun])], [], 1);
+
+    expect(merged.tests).toEqual([notRun]);
+    expect(merged.failed).toBe(1);
+  });
+});
+
+describe('countFlaky', () => {
+  it('should count flaky tests across shards', () => {
+    const results = [
+      makeResult(0, [{ ...login, status: 'passed', flaky: true }, logout]),
+      makeResult(1, [{ ...search, flaky: true }]),
+    ];
+
+    expect(countFlaky(results)).toBe(2);
+  });
+});
@@ -0,0 +1,122 @@
+import { TestCase, TestFile, TestResult } from '../types';
+import { matchesTestFile } from './test-parser';
+
+function testKey(test: TestCase): string {
+  return test.browser ? `${test.file}::${test.name}::${test.browser}` : `${test.file}::${test.name}`;
+}
+
+/**
+ * Find the test files that contain at least one failed test. With a
+ * browser matrix only the browsers the test failed in are retried.
+ */
+export function collectFailedFiles(results: TestResult[], files: TestFile[]): TestFile[] {
+  const failedFiles = new Map<string, TestFile>();
+
+  for (const result of results) {
+    for (const test of result.tests) {
+      if (test.status !== 'failed') continue;
+
+      const file = files.find(f => matchesTestFile(test.file, f) && f.browser === test.browser);
+      if (file) {
+        failedFiles.set(file.browser ? `${file.relativePath}::${file.browser}` : file.relativePath, file);
+      }
+    }
+  }
+
+  return [...failedFiles.values()];
+}
+
+/**
+ * Fold the results of a retry wave into the original results.
+ *
+ * Only tests that were failing are updated: a test that passes on retry
+ * becomes passed and is marked flaky, one that fails again keeps the latest
+ * error. Retry results for tests that already passed are ignored, since the
+ * whole file is re-run. A `notRun` placeholder is replaced by the tests its
+ * file reported on retry.
+ */
+export function mergeRetryResults(
+  results: TestResult[],
+  retryResults: TestResult[],
+  attempt: number
+): TestResult[] {
+  const retried = new Map<string, TestCase>();
+  for (const result of retryResults) {
+    for (const test of result.tests) {
+      retried.set(testKey(test), test);
+    }
+  }
+
+  return results.map(result => {
+    const reported = new Set(result.tests.filter(t => !t.notRun).map(testKey));
+
+    const tests = result.tests.flatMap((test): TestCase[] => {
+      if (test.notRun) {
+        // Tests a stopped worker already reported for the file stay as they are
+        const ran = [...retried.values()].filter(t =>
+          isSameFile(t.file, test.file) && t.browser === test.browser && !reported.has(testKey(t))
+        );
+        return ran.length > 0 ? ran.map(t => ({ ...t, retries: attempt })) : [test];
+      }
+      return [mergeRetriedTest(test, retried.get(testKey(test)), attempt)];
+    });
+
+    return {
+      ...result,
+      passed: tests.filter(t => t.status === 'passed').length,
+      failed: tests.filter(t => t.status === 'failed').length,
+      skipped: tests.filter(t => t.status === 'skipped').length,
+      tests,
+    };
+  });
+}
+
+function mergeRetriedTest(test: TestCase, retry: TestCase | undefined, attempt: number): TestCase {
+  if (test.status !== 'failed' || !retry) return test;
+
+  if (retry.status === 'passed') {
+    return {
+      ...test,
+      status: 'passed',
+      duration: retry.duration,
+      flaky: true,
+      retries: attempt,
+      ...mergeArtifacts(test, retry),
+    };
+  }
+
+  return {
+    ...test,
+    error: retry.error ?? test.error,
+    stack: retry.stack ?? test.stack,
+    retries: attempt,
+    ...mergeArtifacts(test, retry),
+  };
+}
+
+/**
+ * Workers may report absolute paths; placeholders use the relative path
+ */
+function isSameFile(reported: string, relativePath: string): boolean {
+  const normalized = reported.replace(/\\/g, '/');
+  return normalized === relativePath || normalized.endsWith(`/${relativePath}`);
+}
+
+/**
+ * Keep the artifacts of every attempt; the failed first attempt's trace
+ * is often the one that explains a flaky test
+ */
+function mergeArtifacts(test: TestCase, retry: TestCase): Pick<TestCase, 'artifacts'> {
+  const artifacts = [...(test.artifacts || []), ...(retry.artifacts || [])];
+  return artifacts.length > 0 ? { artifacts } : {};
+}
+
+/**
+ * Count tests that only passed after a retry
+ */
+export function countFlaky(results: TestResult[]): number {
+  return results.reduce(
+    (sum, result) => sum + result.tests.filter(t => t.flaky).length,
+    0
+  );
+}
@@ -0,0 +1,138 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { CheaptestConfig } from '../types';
+import { registerSecretProvider, resolveWorkerEnv, splitSecretEnv, validateWorkerEnv } from './secrets';
+import { clearSecretValues, redact, redactMetadata, redactRows } from '../utils/redact';
+
+function makeExecution(overrides?: Partial<CheaptestConfig['execution']>): CheaptestConfig['execution'] {
+  return { cpu: 1024, memory: 2048, timeout: 10, ...overrides };
+}
+
+describe('resolveWorkerEnv', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'secrets-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    delete process.env.CHEAPTEST_TEST_TOKEN;
+    clearSecretValues();
+  });
+
+  it('should pass execution.env values as strings', async () => {
+    const env = await resolveWorkerEnv(makeExecution({ env: { API_URL: 'https://staging.example.com', RETRIES: 2, DEBUG: false } }));
+
+    expect(env).toEqual({ API_URL: 'https://staging.example.com', RETRIES: '2', DEBUG: 'false' });
+  });
+
+  it('should resolve env: secrets from the CLI environment and list their names', async () => {
+    process.env.CHEAPTEST_TEST_TOKEN = 's3cr3t-token';
+
+    const env = await resolveWorkerEnv(makeExecution({
+      env: { API_URL: 'https://staging.example.com' },
+      secrets: { API_TOKEN: 'env:CHEAPTEST_TEST_TOKEN' },
+    }));
+
+    expect(env).toEqual({
+      API_URL: 'https://staging.example.com',
+      API_TOKEN: 's3cr3t-token',
+      CHEAPTEST_SECRETS: 'API_TOKEN',
+    });
+  });
+
+  it('should resolve file: secrets whole or by key from JSON and .env files', async () => {
+    await fs.writeFile(path.join(dir, 'token'), 'plain-token\n');
+    await fs.writeFile(path.join(dir, 'secrets.json'), JSON.stringify({ password: 'json-password' }));
+    await fs.writeFile(path.join(dir, 'secrets.env'), 'STRIPE_KEY=sk_test_123\n# comment\nOTHER=x\n');
+
+    const env = await resolveWorkerEnv(makeExecution({
+      secrets: {
+        TOKEN: `file:${path.join(dir, 'token')}`,
+        PASSWORD: `file:${path.join(dir, 'secrets.json')}#password`,
+        STRIPE_KEY: `file:${path.join(dir, 'secrets.env')}#STRIPE_KEY`,
+      },
+    }));
+
+    expect(env).toEqual({
+      TOKEN: 'plain-token',
+      PASSWORD: 'json-password',
+      STRIPE_KEY: 'sk_test_123',
+      CHEAPTEST_SECRETS: 'TOKEN,PASSWORD,STRIPE_KEY',
+    });
+  });
+
+  it('should name the secret that could not be resolved', async () => {
+    await expect(resolveWorkerEnv(makeExecution({ secrets: { API_TOKEN: 'env:CHEAPTEST_TEST_TOKEN' } })))
+      .rejects.toThrow('Could not resolve execution.secrets.API_TOKEN (env:CHEAPTEST_TEST_TOKEN): environment variable CHEAPTEST_TEST_TOKEN is not set');
+  });
+
+  it('should register resolved values for redaction', async () => {
+    process.env.CHEAPTEST_TEST_TOKEN = 's3cr3t-token';
+    await resolveWorkerEnv(makeExecution({ secrets: { API_TOKEN: 'env:CHEAPTEST_TEST_TOKEN' } }));
+
+    expect(redact('Authorization: Bearer s3cr3t-token')).toBe('Authorization: Bearer ***');
+    expect(redactMetadata({ error: 'login failed with s3cr3t-token' })).toEqual({ error: 'login failed with ***' });
+    expect(redactRows([['token', 's3cr3t-token', 3]])).toEqual([['token', '***', 3]]);
+  });
+
+  it('should use registered secret stores', async () => {
+    registerSecretProvider('vault', async reference => `value-of-${reference}`);
+
+    const env = await resolveWorkerEnv(makeExecution({ secrets: { DB_PASSWORD: 'vault:ci/db' } }));
+
+    expect(env.DB_PASSWORD).toBe('value-of-ci/db');
+  });
+});
+
+describe('validateWorkerEnv', () => {
+  it('should accept valid env and secrets', () => {
+    expect(validateWorkerEnv(makeExecution({
+      env: { API_URL: 'https://staging.example.com' },
+      secrets: { API_TOKEN: 'env:CI_API_TOKEN' },
+    }))).toEqual([]);
+  });
+
+  it('should reject invalid and reserved names', () => {
+    expect(validateWorkerEnv(makeExecution({
+      env: { 'API-URL': 'x', RUN_ID: 'x' },
+      secrets: { CHEAPTEST_TOKEN: 'env:TOKEN' },
+    }))).toEqual([
+      'Invalid variable name "API-URL" in execution.env',
+      'RUN_ID in execution.env is set by cheaptest and can\'t be overridden',
+      'CHEAPTEST_TOKEN in execution.secrets is set by cheaptest and can\'t be overridden',
+    ]);
+  });
+
+  it('should reject names in both sections and non-scalar values', () => {
+    const errors = validateWorkerEnv(makeExecution({
+      env: { API_TOKEN: 'x', HEADERS: { a: 'b' } as unknown as string },
+      secrets: { API_TOKEN: 'env:CI_API_TOKEN' },
+    }));
+
+    expect(errors).toContain('API_TOKEN is in both execution.env and execution.secrets');
+    expect(errors).toContain('execution.env.HEADERS must be a string, number or boolean');
+  });
+
+  it('should reject references to unknown secret stores', () => {
+    const errors = validateWorkerEnv(makeExecution({ secrets: { API_TOKEN: 'plain-value', DB: 'nowhere:db' } }));
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^execution\.secrets\.API_TOKEN must reference a secret store \(env:\.\.\., file:\.\.\./);
+  });
+});
+
+describe('splitSecretEnv', () => {
+  it('should separate the secrets named in CHEAPTEST_SECRETS', () => {
+    const { plain, secrets } = splitSecretEnv({ API_URL: 'https://x', API_TOKEN: 's3cr3t', CHEAPTEST_SECRETS: 'API_TOKEN' });
+
+    expect(plain).toEqual({ API_URL: 'https://x', CHEAPTEST_SECRETS: 'API_TOKEN' });
+    expect(secrets).toEqual({ API_TOKEN: 's3cr3t' });
+  });
+
+  it('should treat everything as plain without secrets', () => {
+    expect(splitSecretEnv({ API_URL: 'https://x' })).toEqual({ plain: { API_URL: 'https://x' }, secrets: {} });
+  });
+});
@@ -0,0 +1,156 @@
+import fs from 'fs/promises';
+import path from 'path';
+import dotenv from 'dotenv';
+import { CheaptestConfig } from '../types';
+import { addSecretValues } from '../utils/redact';
+import { getErrorMessage } from '../utils/retry';
+
+/**
+ * Looks up a secret by the part of its reference after the scheme, e.g.
+ * `API_TOKEN` for `env:API_TOKEN`
+ */
+export type SecretProvider = (reference: string) => Promise<string>;
+
+// Set by the backends; execution.env and execution.secrets can't override them
+export const RESERVED_ENV = [
+  'RUN_ID',
+  'SHARD_ID',
+  'SHARD_IDS',
+  'S3_BUCKET',
+  'AWS_REGION',
+  'TEST_FRAMEWORK',
+  'TEST_TIMEOUT',
+  'TEST_RUNNER_MODULE',
+  'S3_ENDPOINT',
+  'STORAGE_DIR',
+  'QUEUE_DIR',
+];
+
+// Names of the secret variables, so the worker can redact their values
+export const SECRETS_ENV = 'CHEAPTEST_SECRETS';
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const providers = new Map<string, SecretProvider>([
+  // The CLI's own environment, e.g. a CI system's secret variables
+  ['env', async name => {
+    const value = process.env[name];
+    if (value === undefined) throw new Error(`environment variable ${name} is not set`);
+    return value;
+  }],
+  // A file such as /run/secrets/token, or `<file>#<key>` for one key of a
+  // JSON or .env file; the local stand-in for a secret store
+  ['file', async reference => {
+    const [file, key] = reference.split('#');
+    const content = await fs.readFile(path.resolve(file), 'utf-8');
+    if (!key) return content.trim();
+
+    let values: Record<string, unknown>;
+    try {
+      values = JSON.parse(content);
+    } catch {
+      values = dotenv.parse(content);
+    }
+    if (values[key] === undefined) throw new Error(`${file} has no key ${key}`);
+    return String(values[key]);
+  }],
+]);
+
+/**
+ * Add a secret store, replacing any registered under the same scheme
+ */
+export function registerSecretProvider(scheme: string, provider: SecretProvider): void {
+  providers.set(scheme, provider);
+}
+
+/**
+ * Config errors in execution.env and execution.secrets, for validateConfig
+ */
+export function validateWorkerEnv(execution: CheaptestConfig['execution']): string[] {
+  const errors: string[] = [];
+  const env = execution.env || {};
+  const secrets = execution.secrets || {};
+
+  for (const [section, names] of [['execution.env', Object.keys(env)], ['execution.secrets', Object.keys(secrets)]] as const) {
+    for (const name of names) {
+      if (!ENV_NAME.test(name)) {
+        errors.push(`Invalid variable name "${name}" in ${section}`);
+      } else if (RESERVED_ENV.includes(name) || name.startsWith('CHEAPTEST_')) {
+        errors.push(`${name} in ${section} is set by cheaptest and can't be overridden`);
+      }
+    }
+  }
+
+  for (const name of Object.keys(secrets)) {
+    if (name in env) {
+      errors.push(`${name} is in both execution.env and execution.secrets`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(env)) {
+    if (value === null || typeof value === 'object') {
+      errors.push(`execution.env.${name} must be a string, number or boolean`);
+    }
+  }
+
+  for (const [name, reference] of Object.entries(secrets)) {
+    const scheme = typeof reference === 'string' ? reference.split(':')[0] : '';
+    if (typeof reference !== 'string' || !reference.includes(':') || !providers.has(scheme)) {
+      errors.push(
+        `execution.secrets.${name} must reference a secret store (${[...providers.keys()].map(s => `${s}:...`).join(', ')})`
+      );
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The variables every worker gets on top of the cheaptest contract: plain
+ * execution.env values and the resolved execution.secrets. Secret values
+ * are registered for redaction before they're returned.
+ */
+export async function resolveWorkerEnv(execution: CheaptestConfig['execution']): Promise<Record<string, string>> {
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(execution.env || {})) {
+    env[name] = String(value);
+  }
+
+  const secrets = Object.entries(execution.secrets || {});
+  if (secrets.length === 0) return env;
+
+  for (const [name, reference] of secrets) {
+    const separator = reference.indexOf(':');
+    const provider = providers.get(reference.slice(0, separator));
+    if (!provider) {
+      throw new Error(`Unknown secret store in execution.secrets.${name}: ${reference}`);
+    }
+    try {
+      env[name] = await provider(reference.slice(separator + 1));
+    } catch (err: unknown) {
+      throw new Error(`Could not resolve execution.secrets.${name} (${reference}): ${getErrorMessage(err)}`);
+    }
+  }
+
+  addSecretValues(secrets.map(([name]) => env[name]));
+  env[SECRETS_ENV] = secrets.map(([name]) => name).join(',');
+  return env;
+}
+
+/**
+ * Split resolveWorkerEnv's result into plain variables and the resolved
+ * secrets, for backends that hand secrets to the worker by reference
+ * (a Kubernetes Secret, the docker CLI's own environment) instead of by value
+ */
+export function splitSecretEnv(env: Record<string, string>): {
+  plain: Record<string, string>;
+  secrets: Record<string, string>;
+} {
+  const names = new Set((env[SECRETS_ENV] || '').split(',').filter(Boolean));
+  const plain: Record<string, string> = {};
+  const secrets: Record<string, string> = {};
+  for (const [name, value] of Object.entries(env)) {
+    (names.has(name) ? secrets : plain)[name] = value;
+  }
+  return { plain, secrets };
+}
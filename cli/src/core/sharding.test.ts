@@ -1,4 +1,4 @@
-import { TestSharding, createShards, getOptimalShardCount } from './sharding';
+import { TestSharding, createShards, createQueueShards, queueOrder, splitLargeFiles, expandBrowsers, getOptimalShardCount } from './sharding';
 import { TestFile, TestFramework } from '../types';
 
 describe('TestSharding', () => {
@@ -354,6 +354,102 @@ describe('TestSharding', () => {
     });
   });
 
+  describe('expandBrowsers', () => {
+    const files: TestFile[] = [
+      { path: '/a.spec.ts', relativePath: 'a.spec.ts', framework: 'playwright', size: 100, estimatedDuration: 3000 },
+      { path: '/b.spec.ts', relativePath: 'b.spec.ts', framework: 'playwright', size: 100 },
+    ];
+
+    it('should create one unit per file and browser', () => {
+      const units = expandBrowsers(files, ['chromium', 'webkit']);
+
+      expect(units.map(u => `${u.relativePath}:${u.browser}`)).toEqual([
+        'a.spec.ts:chromium', 'a.spec.ts:webkit', 'b.spec.ts:chromium', 'b.spec.ts:webkit',
+      ]);
+      expect(units[1].estimatedDuration).toBe(3000);
+    });
+
+    it('should leave files alone without a browser matrix', () => {
+      expect(expandBrowsers(files)).toBe(files);
+      expect(expandBrowsers(files, [])).toBe(files);
+    });
+
+    it('should spread a file\'s browsers across shards', () => {
+      const shards = createShards(expandBrowsers(files.slice(0, 1), ['chromium', 'firefox']), 2);
+
+      expect(shards.map(s => s.files.map(f => f.browser))).toEqual([['chromium'], ['firefox']]);
+    });
+  });
+
+  describe('splitLargeFiles', () => {
+    const tests = Array.from({ length: 8 }, (_, i) => ({ title: `test ${i}`, line: i + 1 }));
+    const big: TestFile = {
+      path: '/big.spec.ts', relativePath: 'big.spec.ts', framework: 'playwright', size: 100, estimatedDuration: 80000, tests,
+    };
+    const small: TestFile = {
+      path: '/small.spec.ts', relativePath: 'small.spec.ts', framework: 'playwright', size: 100, estimatedDuration: 20000,
+      tests: [{ title: 'only', line: 1 }],
+    };
+
+    it('should split files longer than a fair share into test groups', () => {
+      // 100s over 4 shards: 25s target, so the 80s file becomes 4 groups of 2 tests
+      const files = splitLargeFiles([big, small], 4);
+
+      expect(files).toHaveLength(5);
+      const groups = files.filter(f => f.relativePath === 'big.spec.ts');
+      expect(groups.map(g => g.selectedTests!.map(t => t.line))).toEqual([[1, 2], [3, 4], [5, 6], [7, 8]]);
+      expect(groups.every(g => g.estimatedDuration === 20000)).toBe(true);
+      expect(files.find(f => f.relativePath === 'small.spec.ts')!.selectedTests).toBeUndefined();
+    });
+
+    it('should spread a split file across shards', () => {
+      const shards = createShards(splitLargeFiles([big, small], 4), 4);
+
+      const shardsWithBig = shards.filter(s => s.files.some(f => f.relativePath === 'big.spec.ts'));
+      expect(shardsWithBig.length).toBeGreaterThan(1);
+    });
+
+    it('should not split more ways than the file has tests', () => {
+      const twoTests = { ...big, tests: tests.slice(0, 2) };
+
+      expect(splitLargeFiles([twoTests, small], 10)).toHaveLength(3);
+    });
+
+    it('should keep files without a test listing or from cypress whole', () => {
+      const unlisted = { ...big, tests: undefined };
+      const cypress: TestFile = { ...big, framework: 'cypress' };
+
+      expect(splitLargeFiles([unlisted, small], 4)).toEqual([unlisted, small]);
+      expect(splitLargeFiles([cypress, small], 4)).toEqual([cypress, small]);
+    });
+  });
+
+  describe('work queue', () => {
+    const files: TestFile[] = [
+      { path: '/a.spec.ts', relativePath: 'a.spec.ts', framework: 'playwright', size: 100, estimatedDuration: 2000 },
+      { path: '/b.spec.ts', relativePath: 'b.spec.ts', framework: 'playwright', size: 100, estimatedDuration: 9000 },
+      { path: '/c.spec.ts', relativePath: 'c.spec.ts', framework: 'playwright', size: 100 },
+    ];
+
+    it('should create empty queue workers', () => {
+      const shards = createQueueShards(files, 2);
+
+      expect(shards).toHaveLength(2);
+      expect(shards.map(s => s.id)).toEqual([0, 1]);
+      expect(shards.every(s => s.queue && s.files.length === 0)).toBe(true);
+      expect(shards[0].estimatedDuration).toBe(5500);
+    });
+
+    it('should not create more workers than files', () => {
+      expect(createQueueShards(files, 10)).toHaveLength(3);
+    });
+
+    it('should order the queue longest first', () => {
+      expect(queueOrder(files).map(f => f.relativePath)).toEqual(['b.spec.ts', 'a.spec.ts', 'c.spec.ts']);
+      expect(files[0].relativePath).toBe('a.spec.ts');
+    });
+  });
+
   describe('getOptimalShardCount', () => {
     it('should return file count when fewer files than max parallelism', () => {
         expect(getOptimalShardCount(5, 10)).toBe(5);
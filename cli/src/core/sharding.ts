@@ -1,4 +1,5 @@
-import { TestFile, TestShard } from '../types';
+import { Browser, TestFile, TestShard } from '../types';
+import { getFramework } from './frameworks';
 
 export interface ShardingOptions {
   files: TestFile[];
@@ -249,6 +250,83 @@ export function createShards(
   return result.shards;
 }
 
+/**
+ * Expand each file into one work unit per browser in the tests.browsers
+ * matrix. Every unit runs the whole file, so it keeps the file's estimate.
+ */
+export function expandBrowsers(files: TestFile[], browsers: Browser[] = []): TestFile[] {
+  if (browsers.length === 0) return files;
+  return files.flatMap(file => browsers.map(browser => ({ ...file, browser })));
+}
+
+/**
+ * Split files that would take longer than one shard's fair share into
+ * chunks of consecutive tests, so a large spec can spread over several
+ * workers. Each chunk keeps the file's path and lists its tests in
+ * `selectedTests`; its estimate is the file's estimate split by test count.
+ * Files without a test listing (see TestParser `includeTests`), and files of
+ * frameworks whose worker runner can't run a subset of a file, stay whole.
+ */
+export function splitLargeFiles(files: TestFile[], shardCount: number): TestFile[] {
+  const totalDuration = files.reduce((sum, f) => sum + (f.estimatedDuration || 0), 0);
+  const targetDuration = totalDuration / Math.max(1, shardCount);
+
+  return files.flatMap(file => {
+    const tests = file.tests || [];
+    const duration = file.estimatedDuration || 0;
+
+    if (
+      !getFramework(file.framework).splittable ||
+      tests.length < 2 ||
+      targetDuration <= 0 ||
+      duration <= targetDuration
+    ) {
+      return [file];
+    }
+
+    const chunkCount = Math.min(tests.length, Math.ceil(duration / targetDuration));
+    const chunkSize = Math.ceil(tests.length / chunkCount);
+    const chunks: TestFile[] = [];
+
+    for (let i = 0; i < tests.length; i += chunkSize) {
+      const selectedTests = tests.slice(i, i + chunkSize);
+      chunks.push({
+        ...file,
+        selectedTests,
+        estimatedDuration: Math.round(duration * selectedTests.length / tests.length),
+      });
+    }
+
+    return chunks;
+  });
+}
+
+/**
+ * Create workers for work-queue mode. Workers start without files and pull
+ * them one at a time from the run's queue, so a slow file only holds up the
+ * worker running it.
+ */
+export function createQueueShards(files: TestFile[], workerCount: number): TestShard[] {
+  const count = Math.max(1, Math.min(workerCount, files.length));
+  const totalDuration = files.reduce((sum, f) => sum + (f.estimatedDuration || 0), 0);
+
+  return Array.from({ length: count }, (_, id) => ({
+    id,
+    files: [],
+    estimatedDuration: Math.round(totalDuration / count),
+    totalSize: 0,
+    queue: true,
+  }));
+}
+
+/**
+ * Order files for the work queue: longest first, so slow files start early
+ * and short ones fill the gaps at the end of the run.
+ */
+export function queueOrder(files: TestFile[]): TestFile[] {
+  return [...files].sort((a, b) => (b.estimatedDuration || 0) - (a.estimatedDuration || 0));
+}
+
 /**
  * Get optimal shard count based on file count and parallelism limits
  */
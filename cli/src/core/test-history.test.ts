@@ -0,0 +1,175 @@
+import { TestHistory, TestHistoryEntry, TestOutcome } from './test-history';
+import { RunSummary } from '../types';
+import { Storage } from '../storage';
+
+const mockStorage = {
+  uploadJSON: jest.fn(),
+  downloadJSON: jest.fn(),
+  list: jest.fn(),
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeEntry(runId: string, timestamp: number, tests: TestOutcome[]): TestHistoryEntry {
+  return { runId, timestamp, backend: 'ecs', tests };
+}
+
+function outcome(name: string, status: TestOutcome['status'], flaky?: boolean): TestOutcome {
+  return { file: 'auth.spec.ts', name, status, ...(flaky ? { flaky } : {}) };
+}
+
+describe('TestHistory', () => {
+  let history: TestHistory;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    history = new TestHistory(mockStorage as unknown as Storage, 'test-bucket');
+  });
+
+  describe('saveRun', () => {
+    it('should store per-test outcomes and browsers under test-history/', async () => {
+      const summary: RunSummary = {
+        runId: 'run-1',
+        backend: 'ecs',
+        totalTests: 2,
+        passed: 2,
+        failed: 0,
+        skipped: 0,
+        duration: 1000,
+        cost: 0.01,
+        startTime: new Date(1000),
+        endTime: new Date(2000),
+        results: [{
+          shard: 0,
+          passed: 2,
+          failed: 0,
+          skipped: 0,
+          duration: 1000,
+          tests: [
+            { name: 'should login', file: 'auth.spec.ts', status: 'passed', duration: 500, flaky: true, retries: 1 },
+            { name: 'should logout', file: 'auth.spec.ts', status: 'passed', duration: 500, browser: 'webkit' },
+          ],
+        }],
+      };
+
+      await history.saveRun(summary);
+
+      expect(mockStorage.uploadJSON).toHaveBeenCalledWith('test-bucket', 'test-history/run-1.json', {
+        runId: 'run-1',
+        timestamp: 1000,
+        backend: 'ecs',
+        tests: [
+          { file: 'auth.spec.ts', name: 'should login', status: 'passed', flaky: true },
+          { file: 'auth.spec.ts', name: 'should logout', browser: 'webkit', status: 'passed' },
+        ],
+      });
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return entries within the window, oldest first', async () => {
+      const now = Date.now();
+      const entries: Record<string, TestHistoryEntry> = {
+        'test-history/a.json': makeEntry('a', now - 1 * DAY, []),
+        'test-history/b.json': makeEntry('b', now - 3 * DAY, []),
+        'test-history/c.json': makeEntry('c', now - 40 * DAY, []),
+      };
+      mockStorage.list.mockResolvedValue(Object.keys(entries));
+      mockStorage.downloadJSON.mockImplementation(async (_bucket: string, key: string) => entries[key]);
+
+      const result = await history.getHistory(30);
+
+      expect(mockStorage.list).toHaveBeenCalledWith({ bucket: 'test-bucket', prefix: 'test-history/' });
+      expect(result.map(e => e.runId)).toEqual(['b', 'a']);
+    });
+
+    it('should skip entries that cannot be read', async () => {
+      mockStorage.list.mockResolvedValue(['test-history/a.json', 'test-history/broken.json']);
+      mockStorage.downloadJSON.mockImplementation(async (_bucket: string, key: string) => {
+        if (key.includes('broken')) throw new Error('Unexpected token');
+        return makeEntry('a', Date.now(), []);
+      });
+
+      expect(await history.getHistory(30)).toHaveLength(1);
+    });
+
+    it('should wrap listing errors', async () => {
+      mockStorage.list.mockRejectedValue(new Error('Access Denied'));
+
+      await expect(history.getHistory(30)).rejects.toThrow('Failed to load test history: Access Denied');
+    });
+  });
+
+  describe('calculateFlakiness', () => {
+    it('should score tests that flip between runs', () => {
+      const entries = [
+        makeEntry('1', 1, [outcome('login', 'passed')]),
+        makeEntry('2', 2, [outcome('login', 'failed')]),
+        makeEntry('3', 3, [outcome('login', 'passed')]),
+        makeEntry('4', 4, [outcome('login', 'passed')]),
+      ];
+
+      const [login] = history.calculateFlakiness(entries);
+
+      expect(login).toMatchObject({ runs: 4, passed: 3, failed: 1, statusChanges: 2, lastFailure: 2 });
+      expect(login.score).toBe(0.5);
+    });
+
+    it('should count passes on retry as flaky', () => {
+      const entries = [
+        makeEntry('1', 1, [outcome('login', 'passed', true)]),
+        makeEntry('2', 2, [outcome('login', 'passed')]),
+      ];
+
+      const [login] = history.calculateFlakiness(entries);
+
+      expect(login.flakyRuns).toBe(1);
+      expect(login.score).toBe(0.5);
+    });
+
+    it('should not score consistently failing tests as flaky', () => {
+      const entries = [
+        makeEntry('1', 1, [outcome('broken', 'failed')]),
+        makeEntry('2', 2, [outcome('broken', 'failed')]),
+      ];
+
+      expect(history.calculateFlakiness(entries)[0].score).toBe(0);
+    });
+
+    it('should ignore skipped runs', () => {
+      const entries = [
+        makeEntry('1', 1, [outcome('login', 'passed')]),
+        makeEntry('2', 2, [outcome('login', 'skipped')]),
+        makeEntry('3', 3, [outcome('login', 'passed')]),
+      ];
+
+      const [login] = history.calculateFlakiness(entries);
+
+      expect(login.runs).toBe(2);
+      expect(login.score).toBe(0);
+    });
+
+    it('should score each browser of a matrix on its own', () => {
+      const entries = [1, 2].map(run => makeEntry(String(run), run, [
+        { ...outcome('login', 'passed'), browser: 'chromium' },
+        { ...outcome('login', 'failed'), browser: 'webkit' },
+      ]));
+
+      const scores = history.calculateFlakiness(entries);
+
+      expect(scores.map(s => [s.browser, s.runs, s.score])).toEqual([['chromium', 2, 0], ['webkit', 2, 0]]);
+    });
+
+    it('should sort flakiest first regardless of entry order', () => {
+      const entries = [
+        makeEntry('2', 2, [outcome('stable', 'passed'), outcome('flaky', 'failed')]),
+        makeEntry('1', 1, [outcome('stable', 'passed'), outcome('flaky', 'passed')]),
+      ];
+
+      const scores = history.calculateFlakiness(entries);
+
+      expect(scores.map(s => s.name)).toEqual(['flaky', 'stable']);
+      expect(scores[0].statusChanges).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { Storage } from '../storage';
+import { BackendType, RunSummary, TestCase } from '../types';
+import { getErrorMessage } from '../utils/retry';
+
+export interface TestOutcome {
+  file: string;
+  name: string;
+  browser?: string; // Set when the run has a tests.browsers matrix
+  status: TestCase['status'];
+  flaky?: boolean;
+}
+
+export interface TestHistoryEntry {
+  runId: string;
+  timestamp: number;
+  backend: BackendType;
+  tests: TestOutcome[];
+}
+
+export interface TestFlakiness {
+  file: string;
+  name: string;
+  browser?: string; // Each browser of a matrix is scored on its own
+  runs: number;
+  passed: number;
+  failed: number;
+  flakyRuns: number; // Runs where the test only passed on retry
+  statusChanges: number; // Pass/fail flips between consecutive runs
+  lastFailure?: number;
+  score: number; // 0 (stable) to 1 (flips every run)
+}
+
+const HISTORY_PREFIX = 'test-history/';
+
+export class TestHistory {
+  constructor(
+    private storage: Storage,
+    private bucket: string
+  ) {}
+
+  /**
+   * Save per-test outcomes for a run
+   */
+  async saveRun(summary: RunSummary): Promise<void> {
+    const entry: TestHistoryEntry = {
+      runId: summary.runId,
+      timestamp: summary.startTime.getTime(),
+      backend: summary.backend,
+      tests: (summary.results || []).flatMap(result =>
+        result.tests.map(test => ({
+          file: test.file,
+          name: test.name,
+          ...(test.browser ? { browser: test.browser } : {}),
+          status: test.status,
+          ...(test.flaky ? { flaky: true } : {}),
+        }))
+      ),
+    };
+
+    await this.storage.uploadJSON(this.bucket, `${HISTORY_PREFIX}${summary.runId}.json`, entry);
+  }
+
+  /**
+   * Get test history for last N days, oldest first
+   */
+  async getHistory(days: number): Promise<TestHistoryEntry[]> {
+    const cutoffDate = Date.now() - (days * 24 * 60 * 60 * 1000);
+    const entries: TestHistoryEntry[] = [];
+
+    try {
+      const keys = await this.storage.list({ bucket: this.bucket, prefix: HISTORY_PREFIX });
+
+      for (const key of keys) {
+        try {
+          const entry = await this.storage.downloadJSON<TestHistoryEntry>(this.bucket, key);
+          if (entry.timestamp >= cutoffDate) {
+            entries.push(entry);
+          }
+        } catch {
+          // Skip files that can't be parsed
+          continue;
+        }
+      }
+
+      entries.sort((a, b) => a.timestamp - b.timestamp);
+
+      return entries;
+    } catch (err: unknown) {
+      throw new Error(`Failed to load test history: ${getErrorMessage(err)}`);
+    }
+  }
+
+  /**
+   * Score every test seen in the history, flakiest first.
+   *
+   * A test is inconsistent in a run when it only passed on retry, or when its
+   * outcome differs from the previous run it appeared in. The score is the
+   * share of runs that were inconsistent, so a test that always fails scores
+   * 0: it is broken, not flaky. Skipped runs are ignored.
+   */
+  calculateFlakiness(entries: TestHistoryEntry[]): TestFlakiness[] {
+    const byTest = new Map<string, TestFlakiness & { lastStatus?: TestCase['status'] }>();
+
+    for (const entry of [...entries].sort((a, b) => a.timestamp - b.timestamp)) {
+      for (const test of entry.tests) {
+        if (test.status === 'skipped') continue;
+
+        const key = test.browser ? `${test.file}::${test.name}::${test.browser}` : `${test.file}::${test.name}`;
+        let stats = byTest.get(key);
+        if (!stats) {
+          stats = {
+            file: test.file,
+            name: test.name,
+            ...(test.browser ? { browser: test.browser } : {}),
+            runs: 0,
+            passed: 0,
+            failed: 0,
+            flakyRuns: 0,
+            statusChanges: 0,
+            score: 0,
+          };
+          byTest.set(key, stats);
+        }
+
+        stats.runs++;
+        if (test.status === 'passed') {
+          stats.passed++;
+        } else {
+          stats.failed++;
+          stats.lastFailure = entry.timestamp;
+        }
+        if (test.flaky) {
+          stats.flakyRuns++;
+          stats.lastFailure = entry.timestamp;
+        }
+        if (stats.lastStatus && stats.lastStatus !== test.status) {
+          stats.statusChanges++;
+        }
+        stats.lastStatus = test.status;
+      }
+    }
+
+    return [...byTest.values()]
+      .map(({ lastStatus: _lastStatus, ...stats }) => ({
+        ...stats,
+        score: Math.min(1, (stats.flakyRuns + stats.statusChanges) / stats.runs),
+      }))
+      .sort((a, b) => b.score - a.score || b.runs - a.runs);
+  }
+}
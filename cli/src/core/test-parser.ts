@@ -1,14 +1,20 @@
 import { glob } from 'glob';
 import fs from 'fs/promises';
 import path from 'path';
-import { TestFile, TestFramework } from '../types';
+import { TestFile, TestFramework, TestRef } from '../types';
+import { getFramework, listFrameworks } from './frameworks';
+import { readProjectConfig } from './project-config';
+import { loadBundleFilter } from './bundle';
 
 export interface TestDiscoveryOptions {
   directory: string;
   pattern: string;
   framework: TestFramework;
+  // tests.include / tests.exclude; .cheaptestignore in the directory applies too
+  include?: string[];
   exclude?: string[];
   includeEstimates?: boolean;
+  includeTests?: boolean;
 }
 
 export interface TestDiscoveryResult {
@@ -16,35 +22,13 @@ export interface TestDiscoveryResult {
   totalFiles: number;
   totalSize: number;
   estimatedDuration?: number;
+  configFile?: string; // Framework config the globs were read from
 }
 
 /**
  * Discovers test files in a directory based on framework and pattern
  */
 export class TestParser {
-  private readonly frameworkPatterns: Record<TestFramework, string[]> = {
-    playwright: [
-      '**/*.spec.ts',
-      '**/*.spec.js',
-      '**/*.test.ts',
-      '**/*.test.js',
-      '**/test/**/*.ts',
-      '**/test/**/*.js',
-    ],
-    cypress: [
-      '**/*.cy.ts',
-      '**/*.cy.js',
-      '**/e2e/**/*.cy.ts',
-      '**/e2e/**/*.cy.js',
-    ],
-    selenium: [
-      '**/*.test.ts',
-      '**/*.test.js',
-      '**/*.spec.ts',
-      '**/*.spec.js',
-    ],
-  };
-
   private readonly defaultExcludes = [
     '**/node_modules/**',
     '**/dist/**',
@@ -62,8 +46,10 @@ export class TestParser {
       directory,
       pattern,
       framework,
-      exclude = [],
+      include,
+      exclude,
       includeEstimates = false,
+      includeTests = false,
     } = options;
 
     // Resolve absolute directory path
@@ -72,28 +58,33 @@ export class TestParser {
     // Check if directory exists
     await this.validateDirectory(absoluteDir);
 
-    // Build glob pattern
-    const searchPattern = this.buildPattern(pattern, framework);
-    const ignorePatterns = [...this.defaultExcludes, ...exclude];
+    // Without an explicit pattern, find the files the framework's own
+    // config would run, falling back to the framework defaults
+    const projectConfig = pattern ? undefined : await readProjectConfig(absoluteDir, framework);
+    const searchPattern = projectConfig ? projectConfig.patterns : this.buildPattern(pattern, framework);
+    const ignorePatterns = [...this.defaultExcludes, ...(projectConfig?.ignore || [])];
 
-    // Find files
-    const filePaths = await glob(searchPattern, {
+    // Find files, leaving out what isn't uploaded to the workers
+    const filter = await loadBundleFilter(absoluteDir, { include, exclude });
+    const filePaths = (await glob(searchPattern, {
       cwd: absoluteDir,
       ignore: ignorePatterns,
       absolute: false,
       nodir: true,
-    });
+    })).filter(filePath => filter.keepsFile(filePath.split(path.sep).join('/')));
 
     if (filePaths.length === 0) {
       throw new Error(
-        `No test files found in ${directory} matching pattern: ${pattern}`
+        projectConfig
+          ? `No test files found in ${directory} matching ${projectConfig.file}: ${projectConfig.patterns.join(', ')}`
+          : `No test files found in ${directory} matching pattern: ${pattern}`
       );
     }
 
     // Parse each file
     const files: TestFile[] = await Promise.all(
       filePaths.map((filePath) =>
-        this.parseFile(absoluteDir, filePath, framework, includeEstimates)
+        this.parseFile(absoluteDir, filePath, framework, includeEstimates, includeTests)
       )
     );
 
@@ -111,6 +102,7 @@ export class TestParser {
       totalFiles: files.length,
       totalSize,
       estimatedDuration,
+      configFile: projectConfig?.file,
     };
   }
 
@@ -121,7 +113,8 @@ export class TestParser {
     baseDir: string,
     relativePath: string,
     framework: TestFramework,
-    includeEstimates: boolean
+    includeEstimates: boolean,
+    includeTests = false
   ): Promise<TestFile> {
     const absolutePath = path.join(baseDir, relativePath);
     const stats = await fs.stat(absolutePath);
@@ -144,6 +137,15 @@ export class TestParser {
       );
     }
 
+    // List individual tests so large files can be split across shards
+    if (includeTests) {
+      try {
+        file.tests = this.listTests(await fs.readFile(absolutePath, 'utf-8'));
+      } catch {
+        // Unreadable files are only sharded as a whole
+      }
+    }
+
     return file;
   }
 
@@ -157,8 +159,8 @@ export class TestParser {
   }
 
   // Otherwise use framework defaults
-  const patterns = this.frameworkPatterns[framework];
-  
+  const patterns = getFramework(framework).patterns;
+
   // For glob, we use the first pattern as primary
   return patterns[0];
 }
@@ -230,35 +232,41 @@ export class TestParser {
    * Count number of test cases in a file
    */
   private countTests(content: string, framework: TestFramework): number {
-    let count = 0;
-
-    switch (framework) {
-      case 'playwright':
-      case 'cypress':
-        // Match: test('...', test("...", it('...', it("...
-        count = (content.match(/\b(test|it)\s*\(/g) || []).length;
-        break;
-      case 'selenium':
-        // Match: it('...', it("...
-        count = (content.match(/\bit\s*\(/g) || []).length;
-        break;
+    return getFramework(framework).countTests(content) || 1; // At least 1 test per file
+  }
+
+  /**
+   * List test blocks with a literal title, e.g. test('login', ...) or
+   * it.only("logout", ...). Returns undefined if any test has a computed
+   * title (a variable, or a template literal with expressions), since such
+   * a file can't be split safely and is only sharded as a whole.
+   */
+  private listTests(content: string): TestRef[] | undefined {
+    const tests: TestRef[] = [];
+    const testCall = /\b(?:test|it)(?:\.(?:only|skip|fixme|fail|slow))?\s*\(\s*(['"`])((?:\\.|(?!\1).)*)\1/g;
+    const plainCall = /\b(?:test|it)\s*\(\s*(\S)/g;
+
+    for (const [, firstChar] of content.matchAll(plainCall)) {
+      if (!`'"\``.includes(firstChar)) return undefined;
     }
 
-    return count || 1; // At least 1 test per file
+    for (const match of content.matchAll(testCall)) {
+      const [, quote, title] = match;
+      if (quote === '`' && title.includes('${')) return undefined;
+      tests.push({
+        title: title.replace(/\\(.)/g, '$1'),
+        line: content.slice(0, match.index).split('\n').length,
+      });
+    }
+
+    return tests;
   }
 
   /**
    * Get base time estimate per test for framework
    */
   private getBaseEstimate(framework: TestFramework): number {
-    // Base estimates in milliseconds
-    const estimates: Record<TestFramework, number> = {
-      playwright: 5000,  // 5 seconds per test
-      cypress: 8000,     // 8 seconds per test (tends to be slower)
-      selenium: 10000,   // 10 seconds per test
-    };
-
-    return estimates[framework];
+    return getFramework(framework).estimatePerTest;
   }
 
   /**
@@ -364,6 +372,25 @@ export class TestParser {
   }
 }
 
+/**
+ * Auto-detect test framework from directory path
+ * Looks for framework names in the path (e.g., "examples/playwright" -> "playwright")
+ */
+export function detectFrameworkFromPath(testPath: string): TestFramework | null {
+  const normalizedPath = testPath.toLowerCase();
+  return listFrameworks().find(framework => normalizedPath.includes(framework)) || null;
+}
+
+/**
+ * Whether a file path reported by a worker refers to a discovered test file.
+ * Frameworks report paths differently (relative to the test root, or absolute
+ * inside the worker's workspace), so a suffix match is accepted.
+ */
+export function matchesTestFile(reported: string, file: TestFile): boolean {
+  const normalized = reported.replace(/\\/g, '/');
+  return normalized === file.relativePath || normalized.endsWith(`/${file.relativePath}`);
+}
+
 /**
  * Convenience function to discover tests
  */
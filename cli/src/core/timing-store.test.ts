@@ -0,0 +1,131 @@
+import { TimingStore, TimingData, recordTimings, applyTimings } from './timing-store';
+import { TestCase, TestFile, TestResult } from '../types';
+import { Storage } from '../storage';
+
+const mockStorage = {
+  exists: jest.fn(),
+  uploadJSON: jest.fn(),
+  downloadJSON: jest.fn(),
+};
+
+function makeFile(relativePath: string, estimatedDuration = 10000): TestFile {
+  return {
+    path: `/repo/e2e/${relativePath}`,
+    relativePath,
+    framework: 'cypress',
+    size: 100,
+    estimatedDuration,
+  };
+}
+
+function makeResult(shard: number, duration: number, tests: TestCase[]): TestResult {
+  return { shard, passed: tests.length, failed: 0, skipped: 0, duration, tests };
+}
+
+function timedTest(file: string, duration: number): TestCase {
+  return { name: `test in ${file}`, file, status: 'passed', duration };
+}
+
+describe('TimingStore', () => {
+  const store = new TimingStore(mockStorage as unknown as Storage, 'test-bucket');
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should return empty timings before the first run', async () => {
+    mockStorage.exists.mockResolvedValue(false);
+
+    expect(await store.load('cypress')).toEqual({ files: {} });
+    expect(mockStorage.downloadJSON).not.toHaveBeenCalled();
+  });
+
+  it('should keep timings per framework', async () => {
+    const data: TimingData = { files: { 'a.cy.ts': { duration: 1000, samples: 1, updatedAt: 1 } } };
+    mockStorage.exists.mockResolvedValue(true);
+    mockStorage.downloadJSON.mockResolvedValue(data);
+
+    expect(await store.load('cypress')).toEqual(data);
+    expect(mockStorage.downloadJSON).toHaveBeenCalledWith('test-bucket', 'timings/cypress.json');
+
+    await store.save('playwright', data);
+    expect(mockStorage.uploadJSON).toHaveBeenCalledWith('test-bucket', 'timings/playwright.json', data);
+  });
+
+  it('should wrap load errors', async () => {
+    mockStorage.exists.mockRejectedValue(new Error('Access Denied'));
+
+    await expect(store.load('cypress')).rejects.toThrow('Failed to load test timings: Access Denied');
+  });
+});
+
+describe('recordTimings', () => {
+  const login = makeFile('login.cy.ts');
+  const search = makeFile('search.cy.ts');
+
+  it('should split shard overhead evenly across its files', () => {
+    const results = [makeResult(0, 20000, [timedTest('login.cy.ts', 4000), timedTest('search.cy.ts', 6000)])];
+
+    const { files } = recordTimings({ files: {} }, results, [login, search], 123);
+
+    expect(files['login.cy.ts']).toEqual({ duration: 9000, samples: 1, updatedAt: 123 });
+    expect(files['search.cy.ts']).toEqual({ duration: 11000, samples: 1, updatedAt: 123 });
+  });
+
+  it('should smooth new measurements into existing timings', () => {
+    const data: TimingData = { files: { 'login.cy.ts': { duration: 10000, samples: 3, updatedAt: 1 } } };
+    const results = [makeResult(0, 20000, [timedTest('login.cy.ts', 20000)])];
+
+    const { files } = recordTimings(data, results, [login], 2);
+
+    expect(files['login.cy.ts']).toEqual({ duration: 15000, samples: 4, updatedAt: 2 });
+  });
+
+  it('should match absolute paths reported by the worker', () => {
+    const results = [makeResult(0, 5000, [timedTest('/workspace/e2e/login.cy.ts', 5000)])];
+
+    const { files } = recordTimings({ files: {} }, results, [login]);
+
+    expect(files['login.cy.ts'].duration).toBe(5000);
+  });
+
+  it('should add up a split file measured on several workers', () => {
+    const results = [
+      makeResult(0, 5000, [timedTest('login.cy.ts', 5000)]),
+      makeResult(1, 7000, [timedTest('login.cy.ts', 7000)]),
+    ];
+
+    const { files } = recordTimings({ files: {} }, results, [login]);
+
+    expect(files['login.cy.ts']).toMatchObject({ duration: 12000, samples: 1 });
+  });
+
+  it('should record one browser\'s time for a file run in several browsers', () => {
+    const results = [
+      makeResult(0, 4000, [{ ...timedTest('login.cy.ts', 4000), browser: 'chromium' }]),
+      makeResult(1, 6000, [{ ...timedTest('login.cy.ts', 6000), browser: 'firefox' }]),
+    ];
+
+    const { files } = recordTimings({ files: {} }, results, [login]);
+
+    expect(files['login.cy.ts'].duration).toBe(5000);
+  });
+
+  it('should not record shards that reported no tests', () => {
+    const data: TimingData = { files: { 'login.cy.ts': { duration: 10000, samples: 1, updatedAt: 1 } } };
+    const results = [makeResult(0, 60000, [])];
+
+    expect(recordTimings(data, results, [login])).toEqual(data);
+  });
+});
+
+describe('applyTimings', () => {
+  it('should use measured durations and keep estimates for new files', () => {
+    const data: TimingData = { files: { 'login.cy.ts': { duration: 42000, samples: 2, updatedAt: 1 } } };
+    const files = [makeFile('login.cy.ts'), makeFile('new.cy.ts', 8000)];
+
+    const result = applyTimings(files, data);
+
+    expect(result.measured).toBe(1);
+    expect(result.files.map(f => f.estimatedDuration)).toEqual([42000, 8000]);
+    expect(files[0].estimatedDuration).toBe(10000);
+  });
+});
@@ -0,0 +1,124 @@
+import { Storage } from '../storage';
+import { TestFile, TestFramework, TestResult } from '../types';
+import { matchesTestFile } from './test-parser';
+import { getErrorMessage } from '../utils/retry';
+
+export interface FileTiming {
+  duration: number; // Smoothed measured duration in ms
+  samples: number;
+  updatedAt: number;
+}
+
+export interface TimingData {
+  files: Record<string, FileTiming>; // Keyed by TestFile.relativePath
+}
+
+/**
+ * Weight of the newest measurement. Recent runs count most, while a single
+ * slow run on a noisy worker only moves the estimate halfway.
+ */
+const SMOOTHING = 0.5;
+
+export class TimingStore {
+  constructor(
+    private storage: Storage,
+    private bucket: string
+  ) {}
+
+  /**
+   * Load measured file durations for a framework (empty if none recorded yet)
+   */
+  async load(framework: TestFramework): Promise<TimingData> {
+    const key = this.key(framework);
+
+    try {
+      if (!(await this.storage.exists(this.bucket, key))) {
+        return { files: {} };
+      }
+      return await this.storage.downloadJSON<TimingData>(this.bucket, key);
+    } catch (err: unknown) {
+      throw new Error(`Failed to load test timings: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async save(framework: TestFramework, data: TimingData): Promise<void> {
+    await this.storage.uploadJSON(this.bucket, this.key(framework), data);
+  }
+
+  private key(framework: TestFramework): string {
+    return `timings/${framework}.json`;
+  }
+}
+
+/**
+ * Fold a run's measured durations into the timing data.
+ *
+ * A file's duration is the sum of its tests plus an even share of its
+ * worker's overhead (worker startup, browser launch, per-spec setup), which
+ * is what the file actually costs a worker. Files that reported no tests,
+ * e.g. because the worker crashed, are not recorded.
+ */
+export function recordTimings(
+  data: TimingData,
+  results: TestResult[],
+  testFiles: TestFile[],
+  now = Date.now()
+): TimingData {
+  const files = { ...data.files };
+  const samples = new Map<string, number>();
+  const browsers = new Map<string, Set<string | undefined>>();
+
+  for (const result of results) {
+    const measured = new Map<string, number>();
+    for (const test of result.tests) {
+      const file = testFiles.find(f => matchesTestFile(test.file, f));
+      if (!file) continue;
+      measured.set(file.relativePath, (measured.get(file.relativePath) || 0) + test.duration);
+      browsers.set(file.relativePath, (browsers.get(file.relativePath) || new Set()).add(test.browser));
+    }
+    if (measured.size === 0) continue;
+
+    const testTime = [...measured.values()].reduce((sum, d) => sum + d, 0);
+    const overheadPerFile = Math.max(0, result.duration - testTime) / measured.size;
+
+    // A split file reports from several workers, so its sample is the sum
+    for (const [relativePath, duration] of measured) {
+      samples.set(relativePath, (samples.get(relativePath) || 0) + duration + overheadPerFile);
+    }
+  }
+
+  // With a browser matrix the file ran once per browser; store one run's time
+  for (const [relativePath, total] of samples) {
+    const sample = total / (browsers.get(relativePath)?.size || 1);
+    const previous = files[relativePath];
+    files[relativePath] = previous
+      ? {
+          duration: Math.round(SMOOTHING * sample + (1 - SMOOTHING) * previous.duration),
+          samples: previous.samples + 1,
+          updatedAt: now,
+        }
+      : { duration: Math.round(sample), samples: 1, updatedAt: now };
+  }
+
+  return { files };
+}
+
+/**
+ * Replace heuristic estimates with measured durations where available.
+ * New files keep the estimate from TestParser.
+ */
+export function applyTimings(
+  files: TestFile[],
+  data: TimingData
+): { files: TestFile[]; measured: number } {
+  let measured = 0;
+
+  const updated = files.map(file => {
+    const timing = data.files[file.relativePath];
+    if (!timing) return file;
+    measured++;
+    return { ...file, estimatedDuration: timing.duration };
+  });
+
+  return { files: updated, measured };
+}
@@ -1,17 +1,24 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import { runCommand } from './commands/run';
 import { initCommand } from './commands/init';
 import { statusCommand } from './commands/status';
 import { costCommand } from './commands/cost';
 import { compareCommand } from './commands/compare';
+import { flakyCommand } from './commands/flaky';
 import { cancelCommand } from './commands/cancel';
+import { artifactsCommand } from './commands/artifacts';
+import { logsCommand } from './commands/logs';
 import { version } from '../package.json';
 
 const program = new Command();
 
+// --output json prints one JSON document on stdout; logs go to stderr
+const outputOption = () =>
+  new Option('-o, --output <format>', 'Output format (pretty|json)').choices(['pretty', 'json']);
+
 program
   .name('cheaptest')
   .description('Cost-effective parallel e2e test runner')
@@ -23,14 +30,17 @@ program
   .description('Run e2e tests in parallel')
   .option('-t, --tests <path>', 'Path to test directory', './e2e')
   .option('-p, --parallel <number>', 'Number of parallel workers', '10')
-  .option('-b, --backend <type>', 'Backend to use (ecs|kubernetes)', 'ecs')
-  .option('-f, --framework <type>', 'Test framework (playwright|cypress|selenium)')
+  .option('-b, --backend <type>', 'Backend to use (ecs|kubernetes|local)', 'ecs')
+  .option('-f, --framework <type>', 'Test framework (playwright|cypress|selenium|puppeteer|webdriverio|testcafe, or a tests.runner name)')
   .option('-c, --config <path>', 'Path to config file', '.cheaptest.yml')
   .option('-v, --verbose', 'Verbose output', false)
   .option('--dry-run', 'Show execution plan without running', false)
   .option('--timeout <minutes>', 'Test timeout in minutes', '30')
   .option('--retries <number>', 'Number of retries for failed tests', '0')
+  .option('--queue', 'Workers pull test files from a shared queue instead of fixed shards', false)
+  .option('--split-tests', 'Split large spec files across shards by test (Playwright, Selenium)', false)
   .option('--junit <path>', 'Write JUnit XML report to file')
+  .addOption(outputOption())
   .action(runCommand);
 
 // Initialize configuration
@@ -38,7 +48,8 @@ program
   .command('init')
   .description('Initialize cheaptest configuration')
   .option('-f, --force', 'Overwrite existing config', false)
-  .option('-b, --backend <type>', 'Default backend (ecs|kubernetes)', 'ecs')
+  .option('-b, --backend <type>', 'Default backend (ecs|kubernetes|local)', 'ecs')
+  .addOption(outputOption())
   .action(initCommand);
 
 // Check run status
@@ -46,6 +57,7 @@ program
   .command('status [runId]')
   .description('Check status of a test run')
   .option('-w, --watch', 'Watch status in real-time', false)
+  .addOption(outputOption())
   .action(statusCommand);
 
 // Cost analysis
@@ -56,21 +68,57 @@ program
   .option('--last-7-days', 'Show costs from last 7 days', false)
   .option('--last-30-days', 'Show costs from last 30 days', false)
   .option('--breakdown', 'Show detailed cost breakdown', false)
+  .addOption(outputOption())
   .action(costCommand);
 
+// Flaky test report
+program
+  .command('flaky')
+  .description('List the flakiest tests from recorded run history')
+  .option('--days <number>', 'Days of history to analyze', '30')
+  .option('--limit <number>', 'Maximum number of tests to show', '20')
+  .option('--min-runs <number>', 'Only score tests seen in at least this many runs', '3')
+  .option('-c, --config <path>', 'Path to config file')
+  .addOption(outputOption())
+  .action(flakyCommand);
+
 // Cancel a run
 program
   .command('cancel <runId>')
   .description('Cancel a running test run by stopping all ECS tasks')
   .option('--force', 'Skip confirmation and stop tasks immediately', false)
+  .addOption(outputOption())
   .action(cancelCommand);
 
+// Download test artifacts
+program
+  .command('artifacts <runId>')
+  .description('Download traces, screenshots and videos recorded for a run')
+  .option('--test <name>', 'Only tests whose name or file contains this text')
+  .option('-d, --dir <path>', 'Directory to download into', 'cheaptest-artifacts')
+  .addOption(outputOption())
+  .action(artifactsCommand);
+
+// Worker logs
+program
+  .command('logs <runId>')
+  .description('Print the output of a run\'s workers')
+  .option('-s, --shard <number>', 'Only this shard')
+  .option('-f, --follow', 'Keep printing new output until the shards finish', false)
+  .addOption(outputOption())
+  .action(logsCommand);
+
 // Compare backends
 program
   .command('compare-backends')
-  .description('Compare ECS vs Kubernetes performance and costs')
+  .description('Run the same shard plan on ECS and Kubernetes and compare results and costs')
   .option('-t, --tests <path>', 'Path to test directory', './e2e')
   .option('-p, --parallel <number>', 'Number of parallel workers', '10')
+  .option('-f, --framework <type>', 'Test framework (playwright|cypress|selenium|puppeteer|webdriverio|testcafe, or a tests.runner name)')
+  .option('-c, --config <path>', 'Path to config file', '.cheaptest.yml')
+  .option('--concurrent', 'Run both backends at the same time', false)
+  .option('-v, --verbose', 'Verbose output', false)
+  .addOption(outputOption())
   .action(compareCommand);
 
 // Error handling
@@ -0,0 +1,104 @@
+import type { V1Job, V1Pod, V1Secret } from '@kubernetes/client-node';
+import { getErrorMessage } from '../utils/retry';
+
+/**
+ * The subset of the Kubernetes API the backend needs.
+ * Kept small so tests can substitute a fake or recorded client.
+ */
+export interface KubernetesApi {
+  createJob(namespace: string, job: V1Job): Promise<void>;
+  listJobs(namespace: string, labelSelector: string): Promise<V1Job[]>;
+  listPods(namespace: string, labelSelector: string): Promise<V1Pod[]>;
+  deleteJobs(namespace: string, labelSelector: string): Promise<void>;
+  createSecret(namespace: string, secret: V1Secret): Promise<void>;
+  deleteSecrets(namespace: string, labelSelector: string): Promise<void>;
+}
+
+type KubernetesModule = typeof import('@kubernetes/client-node');
+
+// @kubernetes/client-node is ESM-only. TypeScript compiles `import()` to
+// `require()` under CommonJS, so the import has to be hidden from the compiler.
+const importEsm = new Function('specifier', 'return import(specifier)') as (
+  specifier: string
+) => Promise<KubernetesModule>;
+
+export class KubernetesClientWrapper implements KubernetesApi {
+  constructor(
+    private batch: InstanceType<KubernetesModule['BatchV1Api']>,
+    private core: InstanceType<KubernetesModule['CoreV1Api']>
+  ) {}
+
+  async createJob(namespace: string, job: V1Job): Promise<void> {
+    try {
+      await this.batch.createNamespacedJob({ namespace, body: job });
+    } catch (err: unknown) {
+      throw new Error(`Failed to create job ${job.metadata?.name}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async listJobs(namespace: string, labelSelector: string): Promise<V1Job[]> {
+    try {
+      const response = await this.batch.listNamespacedJob({ namespace, labelSelector });
+      return response.items;
+    } catch (err: unknown) {
+      throw new Error(`Failed to list jobs: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async listPods(namespace: string, labelSelector: string): Promise<V1Pod[]> {
+    try {
+      const response = await this.core.listNamespacedPod({ namespace, labelSelector });
+      return response.items;
+    } catch (err: unknown) {
+      throw new Error(`Failed to list pods: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async deleteJobs(namespace: string, labelSelector: string): Promise<void> {
+    try {
+      // Background propagation also removes the pods owned by each job
+      await this.batch.deleteCollectionNamespacedJob({
+        namespace,
+        labelSelector,
+        propagationPolicy: 'Background',
+      });
+    } catch (err: unknown) {
+      throw new Error(`Failed to delete jobs: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async createSecret(namespace: string, secret: V1Secret): Promise<void> {
+    try {
+      await this.core.createNamespacedSecret({ namespace, body: secret });
+    } catch (err: unknown) {
+      throw new Error(`Failed to create secret ${secret.metadata?.name}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async deleteSecrets(namespace: string, labelSelector: string): Promise<void> {
+    try {
+      await this.core.deleteCollectionNamespacedSecret({ namespace, labelSelector });
+    } catch (err: unknown) {
+      throw new Error(`Failed to delete secrets: ${getErrorMessage(err)}`);
+    }
+  }
+}
+
+/**
+ * Create a Kubernetes client from the default kubeconfig,
+ * optionally switching to a specific context
+ */
+export async function createKubernetesClient(context?: string): Promise<KubernetesApi> {
+  const k8s = await importEsm('@kubernetes/client-node');
+
+  const kubeConfig = new k8s.KubeConfig();
+  kubeConfig.loadFromDefault();
+  if (context) {
+    kubeConfig.setCurrentContext(context);
+  }
+
+  return new KubernetesClientWrapper(
+    kubeConfig.makeApiClient(k8s.BatchV1Api),
+    kubeConfig.makeApiClient(k8s.CoreV1Api)
+  );
+}
@@ -0,0 +1,158 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { getErrorMessage } from '../utils/retry';
+
+const execFileAsync = promisify(execFile);
+
+export interface ContainerSpec {
+  name: string;
+  image: string;
+  labels: Record<string, string>;
+  env: Record<string, string>;
+  passEnv?: string[]; // Copied from the CLI's environment without appearing in the command line
+  secretEnv?: Record<string, string>; // Set in the docker CLI's environment and passed by name, like passEnv
+  volumes?: string[]; // host:container
+  network?: string;
+  cpus?: number;
+  memoryMb?: number;
+}
+
+export interface ContainerInfo {
+  id: string;
+  name: string;
+  labels: Record<string, string>;
+  state: 'created' | 'running' | 'exited' | 'dead' | string;
+  exitCode: number;
+  createdAt: Date;
+  finishedAt?: Date;
+}
+
+// Fields of `docker inspect` output the backend reads
+interface InspectedContainer {
+  Id: string;
+  Name?: string;
+  Created: string;
+  Config?: { Labels?: Record<string, string> };
+  State?: { Status?: string; ExitCode?: number; FinishedAt?: string };
+}
+
+/**
+ * The subset of Docker the local backend needs.
+ * Kept small so tests can substitute a fake.
+ */
+export interface DockerApi {
+  run(spec: ContainerSpec): Promise<string>;
+  list(label: string): Promise<ContainerInfo[]>;
+  stop(label: string): Promise<void>;
+  remove(label: string): Promise<void>;
+}
+
+/**
+ * Docker through the `docker` CLI, so whatever context and socket the
+ * developer has configured is used as is
+ */
+export class DockerCli implements DockerApi {
+  async run(spec: ContainerSpec): Promise<string> {
+    try {
+      const { stdout } = await this.docker(buildRunArgs(spec), spec.secretEnv);
+      return stdout.trim();
+    } catch (err: unknown) {
+      throw new Error(`Failed to start container ${spec.name}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async list(label: string): Promise<ContainerInfo[]> {
+    try {
+      const ids = await this.ids(label);
+      if (ids.length === 0) {
+        return [];
+      }
+
+      const { stdout } = await this.docker(['inspect', ...ids]);
+      return (JSON.parse(stdout) as InspectedContainer[]).map(parseInspect);
+    } catch (err: unknown) {
+      throw new Error(`Failed to list containers: ${getErrorMessage(err)}`);
+    }
+  }
+
+  /**
+   * SIGTERM, then SIGKILL after 30 seconds like ECS and Kubernetes, so
+   * workers can upload partial results. Returns once all have exited.
+   */
+  async stop(label: string): Promise<void> {
+    try {
+      const ids = await this.ids(label);
+      if (ids.length > 0) {
+        await this.docker(['stop', '--time', '30', ...ids]);
+      }
+    } catch (err: unknown) {
+      throw new Error(`Failed to stop containers: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async remove(label: string): Promise<void> {
+    try {
+      const ids = await this.ids(label);
+      if (ids.length > 0) {
+        await this.docker(['rm', '--force', ...ids]);
+      }
+    } catch (err: unknown) {
+      throw new Error(`Failed to remove containers: ${getErrorMessage(err)}`);
+    }
+  }
+
+  private async ids(label: string): Promise<string[]> {
+    const { stdout } = await this.docker(['ps', '--all', '--quiet', '--filter', `label=${label}`]);
+    return stdout.split('\n').map(id => id.trim()).filter(Boolean);
+  }
+
+  private docker(args: string[], env?: Record<string, string>): Promise<{ stdout: string; stderr: string }> {
+    return execFileAsync('docker', args, {
+      maxBuffer: 16 * 1024 * 1024,
+      ...(env && { env: { ...process.env, ...env } }),
+    });
+  }
+}
+
+export function buildRunArgs(spec: ContainerSpec): string[] {
+  const args = ['run', '--detach', '--name', spec.name];
+
+  for (const [key, value] of Object.entries(spec.labels)) {
+    args.push('--label', `${key}=${value}`);
+  }
+  for (const [key, value] of Object.entries(spec.env)) {
+    args.push('--env', `${key}=${value}`);
+  }
+  for (const key of [...(spec.passEnv || []), ...Object.keys(spec.secretEnv || {})]) {
+    args.push('--env', key);
+  }
+  for (const volume of spec.volumes || []) {
+    args.push('--volume', volume);
+  }
+  if (spec.network) {
+    args.push('--network', spec.network);
+  }
+  if (spec.cpus) {
+    args.push('--cpus', spec.cpus.toString());
+  }
+  if (spec.memoryMb) {
+    args.push('--memory', `${spec.memoryMb}m`);
+  }
+
+  args.push(spec.image);
+  return args;
+}
+
+function parseInspect(container: InspectedContainer): ContainerInfo {
+  const finishedAt = container.State?.FinishedAt;
+  return {
+    id: container.Id,
+    name: (container.Name || '').replace(/^\//, ''),
+    labels: container.Config?.Labels || {},
+    state: container.State?.Status || 'unknown',
+    exitCode: container.State?.ExitCode ?? 0,
+    createdAt: new Date(container.Created),
+    // Docker reports the zero time for containers that have not finished
+    finishedAt: finishedAt && !finishedAt.startsWith('0001-') ? new Date(finishedAt) : undefined,
+  };
+}
@@ -0,0 +1,72 @@
+import { formatJsonDocument, formatJsonError, isJsonOutput, JSON_SCHEMA_VERSION } from './json';
+import { DEFAULT_CONFIG } from '../utils/config';
+import { CheaptestConfig, RunSummary } from '../types';
+
+function makeConfig(format: CheaptestConfig['output']['format']): CheaptestConfig {
+  return { ...DEFAULT_CONFIG, output: { ...DEFAULT_CONFIG.output, format } };
+}
+
+describe('isJsonOutput', () => {
+  it('should prefer the --output flag over the config', () => {
+    expect(isJsonOutput('json', makeConfig('pretty'))).toBe(true);
+    expect(isJsonOutput('pretty', makeConfig('json'))).toBe(false);
+  });
+
+  it('should fall back to output.format from the config', () => {
+    expect(isJsonOutput(undefined, makeConfig('json'))).toBe(true);
+    expect(isJsonOutput(undefined, makeConfig('pretty'))).toBe(false);
+  });
+
+  it('should treat junit as terminal output', () => {
+    expect(isJsonOutput(undefined, makeConfig('junit'))).toBe(false);
+  });
+
+  it('should default to terminal output without a flag or config', () => {
+    expect(isJsonOutput()).toBe(false);
+  });
+});
+
+describe('formatJsonDocument', () => {
+  it('should wrap data with the schema version and command', () => {
+    const document = JSON.parse(formatJsonDocument('flaky', { runs: 3 }));
+
+    expect(document).toEqual({
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'flaky',
+      data: { runs: 3 },
+    });
+  });
+
+  it('should serialize dates as ISO 8601 strings', () => {
+    const summary: RunSummary = {
+      runId: 'run-123',
+      backend: 'ecs',
+      totalTests: 1,
+      passed: 1,
+      failed: 0,
+      skipped: 0,
+      duration: 1000,
+      cost: 0.001,
+      startTime: new Date('2025-01-15T10:00:00Z'),
+      endTime: new Date('2025-01-15T10:00:01Z'),
+    };
+
+    const document = JSON.parse(formatJsonDocument('run', summary));
+
+    expect(document.data.startTime).toBe('2025-01-15T10:00:00.000Z');
+    expect(document.data.endTime).toBe('2025-01-15T10:00:01.000Z');
+    expect(document.data.runId).toBe('run-123');
+  });
+});
+
+describe('formatJsonError', () => {
+  it('should report the error message without data', () => {
+    const document = JSON.parse(formatJsonError('status', new Error('Run not found: run-1')));
+
+    expect(document).toEqual({
+      schemaVersion: JSON_SCHEMA_VERSION,
+      command: 'status',
+      error: { message: 'Run not found: run-1' },
+    });
+  });
+});
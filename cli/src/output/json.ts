@@ -0,0 +1,51 @@
+import { CheaptestConfig, OutputFormat } from '../types';
+import { getErrorMessage } from '../utils/retry';
+
+/**
+ * Bumped only for breaking changes to a document's shape. Adding fields
+ * is not a breaking change.
+ */
+export const JSON_SCHEMA_VERSION = 1;
+
+/**
+ * The single document a command prints on stdout with `--output json`.
+ * Exactly one of `data` (the command's result) or `error` is set.
+ */
+export interface JsonDocument<T = unknown> {
+  schemaVersion: number;
+  command: string;
+  data?: T;
+  error?: { message: string };
+}
+
+/**
+ * Whether a command should print JSON: the --output flag wins, then
+ * output.format from the config file. Anything else (including 'junit',
+ * which has its own --junit flag) prints the usual terminal output.
+ */
+export function isJsonOutput(flag?: OutputFormat, config?: CheaptestConfig): boolean {
+  return (flag ?? config?.output.format) === 'json';
+}
+
+export function formatJsonDocument<T>(command: string, data: T): string {
+  const document: JsonDocument<T> = { schemaVersion: JSON_SCHEMA_VERSION, command, data };
+  // Dates serialize as ISO 8601 strings via Date#toJSON
+  return JSON.stringify(document, null, 2);
+}
+
+export function formatJsonError(command: string, err: unknown): string {
+  const document: JsonDocument = {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    command,
+    error: { message: getErrorMessage(err) },
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+export function printJson<T>(command: string, data: T): void {
+  process.stdout.write(formatJsonDocument(command, data) + '\n');
+}
+
+export function printJsonError(command: string, err: unknown): void {
+  process.stdout.write(formatJsonError(command, err) + '\n');
+}
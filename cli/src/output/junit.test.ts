@@ -1,4 +1,5 @@
 import { generateJunitXml } from './junit';
+import { applyQuarantine } from '../core/quarantine';
 import { RunSummary, TestResult, TestCase } from '../types';
 
 function makeSummary(overrides?: Partial<RunSummary>): RunSummary {
@@ -82,6 +83,24 @@ describe('generateJunitXml', () => {
     expect(xml).toContain('name="cheaptest.shard-1"');
   });
 
+  it('should create one testsuite per shard and browser with a browser matrix', () => {
+    const results: TestResult[] = [
+      {
+        shard: 0, passed: 1, failed: 1, skipped: 0, duration: 9000,
+        tests: [
+          { name: 'test-a', file: 'e2e/a.spec.ts', status: 'passed', duration: 3000, browser: 'chromium' },
+          { name: 'test-a', file: 'e2e/a.spec.ts', status: 'failed', duration: 5000, browser: 'webkit', error: 'boom' },
+        ],
+      },
+    ];
+
+    const xml = generateJunitXml(makeSummary({ totalTests: 2, passed: 1, failed: 1, results }));
+
+    expect(xml).toContain('name="cheaptest.shard-0.chromium"');
+    expect(xml).toMatch(/name="cheaptest\.shard-0\.webkit"\s+tests="1"\s+failures="1"/);
+    expect(xml).toContain('classname="webkit.e2e.a.spec"');
+  });
+
   it('should convert file paths to classname format', () => {
     const xml = generateJunitXml(makeSummary());
 
@@ -112,6 +131,18 @@ describe('generateJunitXml', () => {
     expect(xml).toContain('<skipped />');
   });
 
+  it('should render quarantined failures as skipped, not as failures', () => {
+    const summary = applyQuarantine(makeSummary(), ['e2e/auth/login.spec.ts::should show error']);
+
+    const xml = generateJunitXml(summary);
+
+    expect(xml).not.toContain('<failure');
+    expect(xml).toContain('<skipped message="quarantined" />');
+    expect(xml).toContain('<system-out>Error: Expected visible but got hidden');
+    expect(xml).toContain('<testsuites name="cheaptest" tests="3" failures="0" skipped="1"');
+    expect(xml).toMatch(/tests="3"\s+failures="0"\s+skipped="1"/);
+  });
+
   it('should escape XML special characters in test names', () => {
     const results: TestResult[] = [
       {
@@ -16,12 +16,19 @@ function formatDuration(ms: number): string {
 }
 
 function renderTestCase(tc: TestCase): string {
-  const classname = escapeXml(tc.file.replace(/\//g, '.').replace(/\.[^.]+$/, ''));
+  const file = tc.file.replace(/\//g, '.').replace(/\.[^.]+$/, '');
+  // Same file in several browsers: keep each browser's cases apart in CI reports
+  const classname = escapeXml(tc.browser ? `${tc.browser}.${file}` : file);
   const name = escapeXml(tc.name);
   const time = formatDuration(tc.duration);
 
   let inner = '';
-  if (tc.status === 'failed') {
+  if (tc.quarantined) {
+    // Reported, but not as a failure: CI would fail the build on <failure>
+    const body = tc.stack || tc.error;
+    const output = body ? `\n      <system-out>${escapeXml(body)}</system-out>` : '';
+    inner = `\n      <skipped message="quarantined" />${output}\n    `;
+  } else if (tc.status === 'failed') {
     const message = tc.error ? ` message="${escapeXml(tc.error)}"` : '';
     const body = tc.stack ? escapeXml(tc.stack) : (tc.error ? escapeXml(tc.error) : '');
     inner = `\n      <failure${message}>${body}</failure>\n    `;
@@ -32,8 +39,10 @@ function renderTestCase(tc: TestCase): string {
   return `    <testcase classname="${classname}" name="${name}" time="${time}">${inner}</testcase>`;
 }
 
-function renderTestSuite(result: TestResult, summary: RunSummary): string {
-  const tests = result.passed + result.failed + result.skipped;
+function renderTestSuite(result: TestResult, summary: RunSummary, name = `cheaptest.shard-${result.shard}`): string {
+  // Quarantined failures are in neither `failed` nor `skipped`, and render as skipped
+  const quarantined = result.tests.filter(t => t.quarantined).length;
+  const tests = result.passed + result.failed + result.skipped + quarantined;
   const timestamp = summary.startTime instanceof Date
     ? summary.startTime.toISOString()
     : new Date(summary.startTime).toISOString();
@@ -41,10 +50,10 @@ function renderTestSuite(result: TestResult, summary: RunSummary): string {
   const cases = result.tests.map(renderTestCase).join('\n');
 
   return [
-    `  <testsuite name="cheaptest.shard-${result.shard}"`,
+    `  <testsuite name="${escapeXml(name)}"`,
     `             tests="${tests}"`,
     `             failures="${result.failed}"`,
-    `             skipped="${result.skipped}"`,
+    `             skipped="${result.skipped + quarantined}"`,
     `             time="${formatDuration(result.duration)}"`,
     `             timestamp="${timestamp}">`,
     cases,
@@ -52,6 +61,29 @@ function renderTestSuite(result: TestResult, summary: RunSummary): string {
   ].join('\n');
 }
 
+/**
+ * One testsuite per shard, or per shard and browser with a browser matrix
+ */
+function renderTestSuites(result: TestResult, summary: RunSummary): string[] {
+  const browsers = [...new Set(result.tests.map(t => t.browser))];
+  if (browsers.every(b => b === undefined)) {
+    return [renderTestSuite(result, summary)];
+  }
+
+  return browsers.map(browser => {
+    const tests = result.tests.filter(t => t.browser === browser);
+    const suite: TestResult = {
+      shard: result.shard,
+      passed: tests.filter(t => t.status === 'passed').length,
+      failed: tests.filter(t => t.status === 'failed' && !t.quarantined).length,
+      skipped: tests.filter(t => t.status === 'skipped').length,
+      duration: tests.reduce((sum, t) => sum + t.duration, 0),
+      tests,
+    };
+    return renderTestSuite(suite, summary, `cheaptest.shard-${result.shard}.${browser ?? 'default'}`);
+  });
+}
+
 export function generateJunitXml(summary: RunSummary): string {
   if (!summary.results || summary.results.length === 0) {
     throw new Error(
@@ -59,11 +91,11 @@ export function generateJunitXml(summary: RunSummary): string {
     );
   }
 
-  const suites = summary.results.map(r => renderTestSuite(r, summary)).join('\n');
+  const suites = summary.results.flatMap(r => renderTestSuites(r, summary)).join('\n');
 
   return [
     '<?xml version="1.0" encoding="UTF-8"?>',
-    `<testsuites name="cheaptest" tests="${summary.totalTests}" failures="${summary.failed}" skipped="${summary.skipped}" time="${formatDuration(summary.duration)}">`,
+    `<testsuites name="cheaptest" tests="${summary.totalTests}" failures="${summary.failed}" skipped="${summary.skipped + (summary.quarantined ?? 0)}" time="${formatDuration(summary.duration)}">`,
     suites,
     '</testsuites>',
     '',
@@ -0,0 +1,112 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import * as tar from 'tar';
+import { FileSystemStorage } from './filesystem';
+
+describe('FileSystemStorage', () => {
+  let root: string;
+  let store: FileSystemStorage;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'file-store-test-'));
+    store = new FileSystemStorage(path.join(root, 'storage'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should store objects as files under <root>/<bucket>/<key>', async () => {
+    await store.uploadJSON('test-bucket', 'runs/run-1/shards.json', [{ id: 0 }]);
+
+    const content = await fs.readFile(path.join(root, 'storage/test-bucket/runs/run-1/shards.json'), 'utf-8');
+    expect(JSON.parse(content)).toEqual([{ id: 0 }]);
+    expect(await store.downloadJSON('test-bucket', 'runs/run-1/shards.json')).toEqual([{ id: 0 }]);
+    expect(await store.exists('test-bucket', 'runs/run-1/shards.json')).toBe(true);
+  });
+
+  it('should report missing objects like S3 does', async () => {
+    await expect(store.downloadJSON('test-bucket', 'runs/run-1/results/shard-0.json'))
+      .rejects.toThrow('Object not found');
+    expect(await store.exists('test-bucket', 'missing.json')).toBe(false);
+  });
+
+  it('should download objects to a local file', async () => {
+    const artifact = path.join(root, 'storage/test-bucket/runs/run-1/artifacts/shard-0/trace.zip');
+    await fs.mkdir(path.dirname(artifact), { recursive: true });
+    await fs.writeFile(artifact, 'trace');
+
+    const destination = path.join(root, 'out/run-1/trace.zip');
+    await store.downloadFile('test-bucket', 'runs/run-1/artifacts/shard-0/trace.zip', destination);
+
+    expect(await fs.readFile(destination, 'utf-8')).toBe('trace');
+    await expect(store.downloadFile('test-bucket', 'missing.zip', destination)).rejects.toThrow('Object not found');
+  });
+
+  it('should list keys under a prefix in order', async () => {
+    await store.uploadJSON('test-bucket', 'runs/run-1/results/shard-1.json', {});
+    await store.uploadJSON('test-bucket', 'runs/run-1/results/shard-0.json', {});
+    await store.uploadJSON('test-bucket', 'runs/run-10/results/shard-0.json', {});
+    await store.uploadJSON('test-bucket', 'cost-history/run-1.json', {});
+
+    expect(await store.list({ bucket: 'test-bucket', prefix: 'runs/run-1/results/' })).toEqual([
+      'runs/run-1/results/shard-0.json',
+      'runs/run-1/results/shard-1.json',
+    ]);
+    expect(await store.list({ bucket: 'test-bucket', prefix: 'runs/run-1' })).toHaveLength(3);
+    expect(await store.list({ bucket: 'test-bucket', prefix: 'test-history/' })).toEqual([]);
+  });
+
+  it('should keep metadata out of listings', async () => {
+    await store.uploadJSON('test-bucket', 'runs/run-1/shards.json', [], { totalShards: '2' });
+
+    expect(await store.getMetadata('test-bucket', 'runs/run-1/shards.json')).toEqual({ totalShards: '2' });
+    expect(await store.list({ bucket: 'test-bucket' })).toEqual(['runs/run-1/shards.json']);
+  });
+
+  it('should write the test directory as a tarball without node_modules', async () => {
+    const testDir = path.join(root, 'e2e');
+    await fs.mkdir(path.join(testDir, 'node_modules/pkg'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'login.spec.ts'), 'test()');
+    await fs.writeFile(path.join(testDir, 'node_modules/pkg/index.js'), '');
+
+    await store.uploadDirectory(testDir, 'test-bucket', 'runs/run-1/test-code.tar.gz');
+
+    const entries: string[] = [];
+    await tar.list({
+      file: path.join(root, 'storage/test-bucket/runs/run-1/test-code.tar.gz'),
+      onReadEntry: entry => { entries.push(entry.path); },
+    });
+    expect(entries).toContain('e2e/login.spec.ts');
+    expect(entries.some(e => e.includes('node_modules'))).toBe(false);
+  });
+
+  it('should only include the listed files when given a file list', async () => {
+    const testDir = path.join(root, 'e2e');
+    await fs.mkdir(testDir);
+    await fs.writeFile(path.join(testDir, 'login.spec.ts'), 'test()');
+    await fs.writeFile(path.join(testDir, 'notes.md'), '');
+
+    await store.uploadDirectory(testDir, 'test-bucket', 'cache/test-code/abc.tar.gz', ['login.spec.ts']);
+
+    const entries: string[] = [];
+    await tar.list({
+      file: path.join(root, 'storage/test-bucket/cache/test-code/abc.tar.gz'),
+      onReadEntry: entry => { entries.push(entry.path); },
+    });
+    expect(entries).toEqual(['e2e/login.spec.ts']);
+    expect(await store.list({ bucket: 'test-bucket' })).toEqual(['cache/test-code/abc.tar.gz']);
+  });
+
+  it('should extract tarballs it stored', async () => {
+    const testDir = path.join(root, 'e2e');
+    await fs.mkdir(testDir);
+    await fs.writeFile(path.join(testDir, 'login.spec.ts'), 'test()');
+    await store.uploadDirectory(testDir, 'test-bucket', 'runs/run-1/test-code.tar.gz');
+
+    await store.downloadAndExtract('test-bucket', 'runs/run-1/test-code.tar.gz', path.join(root, 'workspace'));
+
+    expect(await fs.readFile(path.join(root, 'workspace/e2e/login.spec.ts'), 'utf-8')).toBe('test()');
+  });
+});
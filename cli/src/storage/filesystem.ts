@@ -0,0 +1,186 @@
+import fs from 'fs/promises';
+import path from 'path';
+import * as tar from 'tar';
+import { getErrorMessage } from '../utils/retry';
+import { redactMetadata } from '../utils/redact';
+import type { Storage, StorageListOptions } from './index';
+
+// Object metadata lives outside the bucket directories so listings never see it
+const METADATA_DIR = '.metadata';
+
+/**
+ * Storage in a local directory. Objects are files under <root>/<bucket>/<key>,
+ * the layout the worker's LocalStorage reads when the local backend mounts
+ * the same directory into each container.
+ */
+export class FileSystemStorage implements Storage {
+  constructor(private root: string) {}
+
+  async ensureBucketExists(bucket: string): Promise<void> {
+    try {
+      await fs.mkdir(path.join(this.root, bucket), { recursive: true });
+    } catch (err: unknown) {
+      throw new Error(`Failed to create storage directory: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async uploadJSON(
+    bucket: string,
+    key: string,
+    data: unknown,
+    metadata?: Record<string, string>
+  ): Promise<string> {
+    const file = this.path(bucket, key);
+
+    try {
+      await this.write(file, JSON.stringify(data, null, 2));
+      if (metadata) {
+        await this.write(this.metadataPath(bucket, key), JSON.stringify(redactMetadata(metadata)));
+      }
+      return file;
+    } catch (err: unknown) {
+      throw new Error(`Failed to write ${key}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async downloadJSON<T>(bucket: string, key: string): Promise<T> {
+    return JSON.parse(await this.downloadText(bucket, key));
+  }
+
+  async downloadText(bucket: string, key: string): Promise<string> {
+    try {
+      return await fs.readFile(this.path(bucket, key), 'utf-8');
+    } catch (err: unknown) {
+      if (isNotFound(err)) {
+        throw new Error(`Object not found: ${this.path(bucket, key)}`);
+      }
+      throw new Error(`Failed to read ${key}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  /**
+   * Write the directory as a tarball, excluding node_modules like the S3 upload.
+   * The tarball only appears under its key once complete, like an S3 object.
+   */
+  async uploadDirectory(directory: string, bucket: string, key: string, files?: string[]): Promise<string> {
+    const file = this.path(bucket, key);
+    const base = path.basename(directory);
+
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await tar.create(
+        {
+          gzip: true,
+          file: `${file}.partial`,
+          cwd: path.dirname(directory),
+          filter: (filePath: string) => !!files || !filePath.includes('node_modules'),
+        },
+        files ? files.map(f => `${base}/${f}`) : [base]
+      );
+      await fs.rename(`${file}.partial`, file);
+      return file;
+    } catch (err: unknown) {
+      throw new Error(`Failed to upload directory: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async downloadAndExtract(bucket: string, key: string, destination: string): Promise<void> {
+    try {
+      await fs.mkdir(destination, { recursive: true });
+      await tar.extract({ file: this.path(bucket, key), cwd: destination });
+    } catch (err: unknown) {
+      throw new Error(`Failed to download and extract: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async downloadFile(bucket: string, key: string, destination: string): Promise<string> {
+    try {
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      await fs.copyFile(this.path(bucket, key), destination);
+      return destination;
+    } catch (err: unknown) {
+      if (isNotFound(err)) {
+        throw new Error(`Object not found: ${this.path(bucket, key)}`);
+      }
+      throw new Error(`Failed to read ${key}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  /**
+   * Keys under a prefix in lexicographic order, like ListObjectsV2
+   */
+  async list(options: StorageListOptions): Promise<string[]> {
+    const { bucket, prefix = '', maxKeys = Infinity } = options;
+    const bucketDir = path.join(this.root, bucket);
+    // Only walk the directory the prefix is certain to be in
+    const startDir = prefix.slice(0, prefix.lastIndexOf('/') + 1);
+
+    try {
+      const keys = (await walk(path.join(bucketDir, startDir)))
+        .map(file => path.relative(bucketDir, file).split(path.sep).join('/'))
+        .filter(key => key.startsWith(prefix))
+        .sort();
+      return keys.slice(0, maxKeys);
+    } catch (err: unknown) {
+      throw new Error(`Failed to list ${prefix}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async exists(bucket: string, key: string): Promise<boolean> {
+    return fs.access(this.path(bucket, key)).then(() => true).catch(() => false);
+  }
+
+  async getMetadata(bucket: string, key: string): Promise<Record<string, string>> {
+    try {
+      await fs.access(this.path(bucket, key));
+      const content = await fs.readFile(this.metadataPath(bucket, key), 'utf-8').catch((err: unknown) => {
+        if (isNotFound(err)) return '{}';
+        throw err;
+      });
+      return JSON.parse(content);
+    } catch (err: unknown) {
+      throw new Error(`Failed to get metadata: ${getErrorMessage(err)}`);
+    }
+  }
+
+  private path(bucket: string, key: string): string {
+    return path.join(this.root, bucket, key);
+  }
+
+  private metadataPath(bucket: string, key: string): string {
+    return path.join(this.root, METADATA_DIR, bucket, `${key}.json`);
+  }
+
+  private async write(file: string, content: string): Promise<void> {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, content);
+  }
+}
+
+/**
+ * All files below a directory (none if it doesn't exist)
+ */
+async function walk(directory: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch (err: unknown) {
+    if (isNotFound(err)) return [];
+    throw err;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await walk(full));
+    } else {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+function isNotFound(err: unknown): boolean {
+  return !!err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT';
+}
@@ -0,0 +1,53 @@
+import path from 'path';
+import { createS3Client } from '../aws/s3-client';
+import { CheaptestConfig } from '../types';
+import { FileSystemStorage } from './filesystem';
+
+export interface StorageListOptions {
+  bucket: string;
+  prefix?: string;
+  maxKeys?: number; // Total keys to return; every key by default
+}
+
+/**
+ * Object store for run artifacts, results and history. Keys use the same
+ * layout everywhere (runs/<id>/..., cost-history/..., timings/...), so
+ * commands work the same whichever implementation config.storage selects:
+ *
+ * - S3 (S3ClientWrapper), optionally at a custom endpoint such as MinIO
+ * - A local directory (FileSystemStorage)
+ */
+export interface Storage {
+  ensureBucketExists(bucket: string): Promise<void>;
+  uploadJSON(bucket: string, key: string, data: unknown, metadata?: Record<string, string>): Promise<string>;
+  downloadJSON<T>(bucket: string, key: string): Promise<T>;
+  downloadText(bucket: string, key: string): Promise<string>;
+  /**
+   * Upload a directory as a gzipped tarball with the directory as its top
+   * level. `files` (relative to the directory) limits it to those files;
+   * otherwise everything but node_modules is included.
+   */
+  uploadDirectory(directory: string, bucket: string, key: string, files?: string[]): Promise<string>;
+  downloadAndExtract(bucket: string, key: string, destination: string): Promise<void>;
+  /** Download an object to a local file, creating parent directories */
+  downloadFile(bucket: string, key: string, destination: string): Promise<string>;
+  list(options: StorageListOptions): Promise<string[]>;
+  exists(bucket: string, key: string): Promise<boolean>;
+  getMetadata(bucket: string, key: string): Promise<Record<string, string>>;
+}
+
+export const DEFAULT_STORAGE_PATH = '.cheaptest/storage';
+
+export function createStorage(config: CheaptestConfig): Storage {
+  if (config.storage.type === 'filesystem') {
+    return new FileSystemStorage(storagePath(config));
+  }
+  return createS3Client(config.aws.region, config.storage.endpoint);
+}
+
+/**
+ * Absolute root of filesystem storage (Docker bind mounts need an absolute path)
+ */
+export function storagePath(config: CheaptestConfig): string {
+  return path.resolve(config.storage.path || DEFAULT_STORAGE_PATH);
+}
@@ -1,6 +1,12 @@
-export type BackendType = 'ecs' | 'kubernetes';
+export type BackendType = 'ecs' | 'kubernetes' | 'local';
 export type OutputFormat = 'pretty' | 'json' | 'junit';
-export type TestFramework = 'playwright' | 'cypress' | 'selenium';
+// Built in: playwright, cypress, selenium, puppeteer, webdriverio, testcafe;
+// tests.runner can add more (see core/frameworks.ts)
+export type TestFramework = string;
+export type StorageType = 's3' | 'filesystem';
+export type Browser = 'chromium' | 'firefox' | 'webkit';
+
+export const BROWSERS: Browser[] = ['chromium', 'firefox', 'webkit'];
 
 export interface TestFile {
   path: string;
@@ -9,6 +15,14 @@ export interface TestFile {
   size: number;
   estimatedDuration?: number;
   suite?: string;
+  tests?: TestRef[]; // Test blocks found in the file (discovery with includeTests)
+  selectedTests?: TestRef[]; // Run only these tests; set when a large file is split across shards
+  browser?: Browser; // Run in this browser; set when tests.browsers expands a file into one unit per browser
+}
+
+export interface TestRef {
+  title: string;
+  line: number; // 1-based line of the test( / it( call
 }
 
 export interface CheaptestConfig {
@@ -24,15 +38,30 @@ export interface CheaptestConfig {
     directory: string;
     pattern: string;
     framework: TestFramework;
+    runner?: string; // Custom runner module, relative to and inside tests.directory
+    quarantine?: string[]; // Test files or "<file>::<test name>" that run but don't fail the run
+    browsers?: Browser[]; // Run every file once per browser (Playwright and Selenium)
+    include?: string[]; // Only these paths are uploaded and discovered (.cheaptestignore syntax)
+    exclude?: string[]; // Never uploaded or discovered, on top of .cheaptestignore
   };
   execution: {
     cpu: number;
     memory: number;
     timeout: number;
+    env?: Record<string, string | number | boolean>; // Passed to every worker as is
+    secrets?: Record<string, string>; // Variable name -> secret reference (env:NAME, file:path[#key])
+    capacityProvider?: {
+      spot?: number; // FARGATE_SPOT weight (default 1)
+      onDemand?: number; // FARGATE weight (default 0)
+      maxInterruptions?: number; // Spot interruptions of a shard before it is relaunched on-demand (default 2)
+    };
   };
   storage: {
+    type?: StorageType; // Default s3 (filesystem for the local backend)
     bucket: string;
     retentionDays: number;
+    endpoint?: string; // S3-compatible endpoint such as MinIO
+    path?: string; // Root directory for filesystem storage (default .cheaptest/storage)
   };
   output: {
     format: OutputFormat;
@@ -42,6 +71,12 @@ export interface CheaptestConfig {
   kubernetes?: {
     context?: string;
     namespace?: string;
+    image?: string;
+    serviceAccount?: string;
+  };
+  local?: {
+    image?: string; // Worker image for `docker run` (default cheaptest-worker:latest)
+    network?: string; // Docker network for the containers, e.g. to reach MinIO
   };
 }
 
@@ -58,6 +93,11 @@ export interface RunOptions {
   testFiles?: TestFile[];
   shards?: TestShard[];
   junit?: string;
+  output?: OutputFormat;
+  queue?: boolean;
+  splitTests?: boolean;
+  runId?: string; // Generated by the backend when not provided
+  workerEnv?: Record<string, string>; // execution.env and resolved execution.secrets
 }
 
 export interface TestShard {
@@ -65,6 +105,8 @@ export interface TestShard {
   files: TestFile[];
   estimatedDuration: number;
   totalSize: number;
+  attempt?: number; // Set on shards created to retry failed tests
+  queue?: boolean; // Worker pulls files from runs/<id>/queue.json instead of `files`
 }
 
 export interface TestResult {
@@ -74,6 +116,8 @@ export interface TestResult {
   skipped: number;
   duration: number;
   tests: TestCase[];
+  interrupted?: boolean; // The worker was stopped early; only tests that finished are included
+  queueItems?: number[]; // Queue shards: indices of the runs/<id>/queue.json entries the worker finished
 }
 
 export interface TestCase {
@@ -83,6 +127,18 @@ export interface TestCase {
   duration: number;
   error?: string;
   stack?: string;
+  flaky?: boolean; // Failed at first, passed on retry
+  retries?: number;
+  quarantined?: boolean; // Failed, but listed in tests.quarantine
+  artifacts?: TestArtifact[]; // Traces, screenshots and videos uploaded by the worker
+  browser?: string; // Set when the run has a tests.browsers matrix
+  notRun?: boolean; // Placeholder failure for a file that never ran; a retry replaces it with the file's tests
+}
+
+export interface TestArtifact {
+  name: string; // e.g. trace, screenshot, video
+  contentType: string;
+  key: string; // Storage key under runs/<id>/artifacts/
 }
 
 export interface RunSummary {
@@ -92,11 +148,31 @@ export interface RunSummary {
   passed: number;
   failed: number;
   skipped: number;
+  flaky?: number;
+  quarantined?: number; // Quarantined failures, not counted in failed
+  interrupted?: boolean; // Workers were stopped (timeout or cancel); results are partial
   duration: number;
   cost: number;
   startTime: Date;
   endTime: Date;
   results?: TestResult[];
+  spot?: SpotUsage; // ECS runs with execution.capacityProvider
+  shardCosts?: ShardCost[]; // ECS: billed from each task's start and stop times
+}
+
+export interface ShardCost {
+  shard: number;
+  tasks: number; // More than one when a Spot interruption relaunched the shard
+  billed: number; // Billed task time in ms, after Fargate's rounding
+  testTime: number; // Time spent in tests, in ms
+  cost: number;
+  idleCost: number; // Part of `cost` billed outside tests: image pull, setup, uploads, minimum
+}
+
+export interface SpotUsage {
+  tasks: number; // Tasks that ran on Fargate Spot
+  onDemandTasks: number;
+  interruptions: number;
 }
 
 export interface BackendInterface {
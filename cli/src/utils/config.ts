@@ -1,6 +1,8 @@
 import fs from 'fs/promises';
 import yaml from 'yaml';
-import { CheaptestConfig } from '../types';
+import { BROWSERS, CheaptestConfig } from '../types';
+import { getFramework, isFramework } from '../core/frameworks';
+import { validateWorkerEnv } from '../core/secrets';
 
 export const DEFAULT_CONFIG: CheaptestConfig = {
   version: 1,
@@ -96,6 +98,45 @@ export function validateConfig(config: CheaptestConfig): string[] {
   if (config.execution.memory < 512) {
     errors.push('Memory must be at least 512');
   }
+
+  for (const browser of config.tests.browsers || []) {
+    if (!BROWSERS.includes(browser)) {
+      errors.push(`Unknown browser "${browser}" in tests.browsers (expected ${BROWSERS.join(', ')})`);
+    }
+  }
+
+  for (const key of ['include', 'exclude'] as const) {
+    const patterns = config.tests[key];
+    if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some(p => typeof p !== 'string'))) {
+      errors.push(`tests.${key} must be a list of patterns`);
+    }
+  }
+
+  const capacity = config.execution.capacityProvider;
+  if (capacity !== undefined) {
+    // ECS accepts capacity provider weights from 0 to 1000
+    for (const key of ['spot', 'onDemand'] as const) {
+      const weight = capacity[key];
+      if (weight !== undefined && (!Number.isInteger(weight) || weight < 0 || weight > 1000)) {
+        errors.push(`execution.capacityProvider.${key} must be a whole number from 0 to 1000`);
+      }
+    }
+    if ((capacity.spot ?? 1) === 0 && (capacity.onDemand ?? 0) === 0) {
+      errors.push('execution.capacityProvider needs a spot or onDemand weight above 0');
+    }
+    const max = capacity.maxInterruptions;
+    if (max !== undefined && (!Number.isInteger(max) || max < 0)) {
+      errors.push('execution.capacityProvider.maxInterruptions must be a whole number of 0 or more');
+    }
+  }
+
+  // Custom runners (tests.runner) aren't loaded yet; run checks them
+  const framework = isFramework(config.tests.framework) ? getFramework(config.tests.framework) : undefined;
+  if (config.tests.browsers?.length && framework && !framework.browsers) {
+    errors.push('tests.browsers is only supported for Playwright and Selenium');
+  }
+
+  errors.push(...validateWorkerEnv(config.execution));
   
   return errors;
 }
@@ -1,56 +1,76 @@
 import chalk from 'chalk';
 import ora, { Ora } from 'ora';
+import { redact } from './redact';
 
 export class Logger {
   private verbose: boolean;
+  private silent: boolean;
+  private stderr = false;
   private spinner: Ora | null = null;
 
-  constructor(verbose = false) {
+  /**
+   * A silent logger only reports errors. Used when several backends
+   * run side by side and their progress output would interleave.
+   */
+  constructor(verbose = false, silent = false) {
     this.verbose = verbose;
+    this.silent = silent;
+  }
+
+  /**
+   * Send everything to stderr, leaving stdout for a machine-readable
+   * document (--output json)
+   */
+  useStderr(): void {
+    this.stderr = true;
   }
 
   info(message: string): void {
-    console.log(chalk.blue('[INFO]'), message);
+    if (this.silent) return;
+    this.write(chalk.blue('[INFO]'), message);
   }
 
   success(message: string): void {
-    console.log(chalk.green('[OK]'), message);
+    if (this.silent) return;
+    this.write(chalk.green('[OK]'), message);
   }
 
   error(message: string): void {
-    console.error(chalk.red('[ERROR]'), message);
+    console.error(chalk.red('[ERROR]'), redact(message));
   }
 
   warn(message: string): void {
-    console.warn(chalk.yellow('[WARN]'), message);
+    if (this.silent) return;
+    console.warn(chalk.yellow('[WARN]'), redact(message));
   }
 
   debug(message: string): void {
-    if (this.verbose) {
-      console.log(chalk.gray('[DEBUG]'), message);
+    if (this.verbose && !this.silent) {
+      this.write(chalk.gray('[DEBUG]'), message);
     }
   }
 
   startSpinner(message: string): void {
-    this.spinner = ora(message).start();
+    if (this.silent) return;
+    this.spinner = ora(redact(message)).start();
   }
 
   updateSpinner(message: string): void {
     if (this.spinner) {
-      this.spinner.text = message;
+      this.spinner.text = redact(message);
     }
   }
 
   succeedSpinner(message?: string): void {
     if (this.spinner) {
-      this.spinner.succeed(message);
+      this.spinner.succeed(message && redact(message));
       this.spinner = null;
     }
   }
 
   failSpinner(message?: string): void {
     if (this.spinner) {
-      this.spinner.fail(message);
+      this.spinner.fail(message && redact(message));
       this.spinner = null;
     }
   }
@@ -63,20 +83,38 @@ export class Logger {
   }
 
   table(data: Record<string, any>[]): void {
-    // We'll implement this with the 'table' package
-    console.table(data);
+    if (this.silent) return;
+    // console.table bypasses write(), so redact the cells first
+    console.table(data.map(row => Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [key, typeof value === 'string' ? redact(value) : value])
+    )));
   }
 
   header(message: string): void {
-    console.log();
-    console.log(chalk.bold.cyan(message));
-    console.log(chalk.cyan('━'.repeat(message.length)));
+    if (this.silent) return;
+    this.write();
+    this.write(chalk.bold.cyan(message));
+    this.write(chalk.cyan('━'.repeat(message.length)));
   }
 
   section(title: string, content: string): void {
-    console.log();
-    console.log(chalk.bold(title));
-    console.log(content);
+    if (this.silent) return;
+    this.write();
+    this.write(chalk.bold(title));
+    this.write(content);
+  }
+
+  /**
+   * Every line goes through here, error() and warn(), so resolved secrets
+   * (execution.secrets) are never printed
+   */
+  private write(...args: unknown[]): void {
+    args = args.map(arg => (typeof arg === 'string' ? redact(arg) : arg));
+    if (this.stderr) {
+      console.error(...args);
+    } else {
+      console.log(...args);
+    }
   }
 
   cost(amount: number): string {
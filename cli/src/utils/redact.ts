@@ -0,0 +1,38 @@
+export const REDACTED = '***';
+
+// Longest first, so a secret containing another is replaced whole
+let secrets: string[] = [];
+
+/**
+ * Register resolved secret values. From then on they're replaced in
+ * everything `Logger` prints and in object metadata.
+ */
+export function addSecretValues(values: string[]): void {
+  secrets = [...new Set([...secrets, ...values.filter(v => v.length > 0)])].sort((a, b) => b.length - a.length);
+}
+
+export function clearSecretValues(): void {
+  secrets = [];
+}
+
+export function redact(text: string): string {
+  for (const secret of secrets) {
+    text = text.split(secret).join(REDACTED);
+  }
+  return text;
+}
+
+/**
+ * Object metadata with secret values replaced
+ */
+export function redactMetadata(metadata: Record<string, string> | undefined): Record<string, string> | undefined {
+  return metadata && Object.fromEntries(Object.entries(metadata).map(([key, value]) => [key, redact(value)]));
+}
+
+/**
+ * Table cells with secret values replaced. Redact before rendering: a
+ * wrapped cell can split a secret across lines.
+ */
+export function redactRows(rows: ReadonlyArray<readonly unknown[]>): unknown[][] {
+  return rows.map(row => row.map(cell => (typeof cell === 'string' ? redact(cell) : cell)));
+}
@@ -12,6 +12,13 @@ resource "aws_ecs_cluster" "main" {
   }
 }
 
+# Lets tasks run on Fargate Spot (execution.capacityProvider in .cheaptest.yml).
+# Without a strategy, RunTask uses launchType FARGATE as before.
+resource "aws_ecs_cluster_capacity_providers" "main" {
+  cluster_name       = aws_ecs_cluster.main.name
+  capacity_providers = ["FARGATE", "FARGATE_SPOT"]
+}
+
 # CloudWatch Log Group for ECS tasks
 resource "aws_cloudwatch_log_group" "ecs_tasks" {
   name              = "/ecs/${var.project_name}-${var.environment}-worker"
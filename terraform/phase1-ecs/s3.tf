@@ -33,6 +33,20 @@ resource "aws_s3_bucket_lifecycle_configuration" "storage" {
       prefix = "runs/"
     }
   }
+
+  # Dependency caches and test code bundles are content-addressed; old ones expire too
+  rule {
+    id     = "cleanup-old-dependency-caches"
+    status = "Enabled"
+
+    expiration {
+      days = var.s3_retention_days
+    }
+
+    filter {
+      prefix = "cache/"
+    }
+  }
 }
 
 # Server-side encryption
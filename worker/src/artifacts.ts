@@ -0,0 +1,66 @@
+import path from 'path';
+import { TestArtifact, TestCase } from './runner';
+import { WorkerStorage } from './storage';
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+/**
+ * Upload each test's attachments (Playwright traces, screenshots, videos)
+ * to runs/<id>/artifacts/shard-<n>/<file>/<test>/ (plus <browser>/ with a
+ * browser matrix) and record their keys on the test. Must run before the
+ * next framework invocation, which clears its output directory. A failed
+ * upload only loses that artifact.
+ */
+export async function uploadArtifacts(
+  storage: WorkerStorage,
+  bucket: string,
+  runId: string,
+  shardId: number,
+  tests: TestCase[]
+): Promise<TestCase[]> {
+  const uploaded: TestCase[] = [];
+
+  for (const test of tests) {
+    const { attachments, ...rest } = test;
+    if (!attachments || attachments.length === 0) {
+      uploaded.push(rest);
+      continue;
+    }
+
+    const prefix = `runs/${runId}/artifacts/shard-${shardId}/${slug(test.file)}/${slug(test.name)}` +
+      (test.browser ? `/${test.browser}` : '');
+    const artifacts: TestArtifact[] = [];
+
+    for (const attachment of attachments) {
+      const key = `${prefix}/${path.basename(attachment.path)}`;
+      try {
+        await storage.uploadFile(bucket, key, attachment.path, attachment.contentType);
+        artifacts.push({ name: attachment.name, contentType: attachment.contentType, key });
+      } catch (err: unknown) {
+        console.warn(`[WARN] Could not upload ${attachment.name} for "${test.name}": ${getErrorMessage(err)}`);
+      }
+    }
+
+    uploaded.push(artifacts.length > 0 ? { ...rest, artifacts } : rest);
+  }
+
+  const count = uploaded.reduce((sum, t) => sum + (t.artifacts?.length || 0), 0);
+  if (count > 0) {
+    console.log(`[OK] Uploaded ${count} test artifacts`);
+  }
+
+  return uploaded;
+}
+
+/**
+ * Storage-safe path segment for a file path or test title
+ */
+function slug(value: string): string {
+  return value
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100) || 'unnamed';
+}
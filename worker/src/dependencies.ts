@@ -0,0 +1,140 @@
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import * as tar from 'tar';
+import { WorkerStorage } from './storage';
+import { stopOnAbort } from './runner';
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+interface PackageManager {
+  lockfile: string;
+  command: string;
+  args: string[];
+}
+
+// In the order they're checked, when a project has more than one lockfile
+const PACKAGE_MANAGERS: PackageManager[] = [
+  { lockfile: 'package-lock.json', command: 'npm', args: ['ci', '--no-audit', '--no-fund'] },
+  { lockfile: 'npm-shrinkwrap.json', command: 'npm', args: ['ci', '--no-audit', '--no-fund'] },
+  { lockfile: 'yarn.lock', command: 'corepack', args: ['yarn', 'install', '--frozen-lockfile'] },
+  { lockfile: 'pnpm-lock.yaml', command: 'corepack', args: ['pnpm', 'install', '--frozen-lockfile'] },
+];
+
+/**
+ * Give the test project its own node_modules when it has a package.json.
+ * With a lockfile, node_modules is restored from a tarball in the bucket
+ * at `cache/node_modules/<hash>.tar.gz`, keyed by the lockfile, Node
+ * version and platform, and only the first run for a lockfile installs
+ * and uploads it. Without package.json the runners keep using the image's
+ * node_modules.
+ */
+export async function installDependencies(
+  storage: WorkerStorage,
+  bucket: string,
+  testRoot: string,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<void> {
+  try {
+    await fs.access(path.join(testRoot, 'package.json'));
+  } catch {
+    return;
+  }
+
+  const manager = await findPackageManager(testRoot);
+  if (!manager) {
+    console.log('[WARN] package.json has no lockfile, installing without a cache');
+    await run('npm', ['install', '--no-audit', '--no-fund'], testRoot, timeout, signal);
+    console.log('[OK] Dependencies installed');
+    return;
+  }
+
+  const lockfile = await fs.readFile(path.join(testRoot, manager.lockfile));
+  const hash = crypto
+    .createHash('sha256')
+    .update(lockfile)
+    .update(`${process.version} ${process.platform} ${process.arch}`)
+    .digest('hex');
+  const cacheKey = `cache/node_modules/${hash}.tar.gz`;
+
+  const start = Date.now();
+  try {
+    await storage.downloadAndExtract(bucket, cacheKey, testRoot);
+    console.log(`[OK] Dependencies restored from cache in ${((Date.now() - start) / 1000).toFixed(2)}s (${manager.lockfile})`);
+    return;
+  } catch {
+    console.log(`[INFO] No dependency cache for ${manager.lockfile}, installing...`);
+  }
+
+  await run(manager.command, manager.args, testRoot, timeout, signal);
+  console.log(`[OK] Dependencies installed in ${((Date.now() - start) / 1000).toFixed(2)}s`);
+
+  // The next run with this lockfile restores instead of installing. A failed
+  // upload only costs that run the install again.
+  const tarball = path.join(os.tmpdir(), `node_modules-${hash}.tar.gz`);
+  try {
+    await tar.create({ gzip: true, file: tarball, cwd: testRoot, portable: true }, ['node_modules']);
+    await storage.uploadFile(bucket, cacheKey, tarball, 'application/gzip');
+    console.log(`[OK] Dependency cache uploaded to ${cacheKey}`);
+  } catch (err: unknown) {
+    console.warn(`[WARN] Could not upload the dependency cache: ${getErrorMessage(err)}`);
+  } finally {
+    await fs.rm(tarball, { force: true });
+  }
+}
+
+async function findPackageManager(testRoot: string): Promise<PackageManager | undefined> {
+  for (const manager of PACKAGE_MANAGERS) {
+    try {
+      await fs.access(path.join(testRoot, manager.lockfile));
+      return manager;
+    } catch {
+      // Try the next lockfile
+    }
+  }
+  return undefined;
+}
+
+function run(command: string, args: string[], cwd: string, timeout: number, signal?: AbortSignal): Promise<void> {
+  console.log(`  Command: ${command} ${args.join(' ')}`);
+
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, {
+      cwd,
+      // Dev dependencies hold the test tooling; the image sets NODE_ENV=production
+      env: { ...process.env, NODE_ENV: 'development' },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    proc.stdout?.on('data', (data) => process.stdout.write(data.toString()));
+    proc.stderr?.on('data', (data) => process.stderr.write(data.toString()));
+
+    const timer = setTimeout(() => {
+      proc.kill('SIGTERM');
+      reject(new Error(`Dependency install timed out after ${timeout}ms`));
+    }, timeout);
+
+    const detach = stopOnAbort(proc, signal);
+
+    proc.on('close', (code) => {
+      clearTimeout(timer);
+      detach();
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} ${args.join(' ')} exited with code ${code}`));
+      }
+    });
+
+    proc.on('error', (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to spawn ${command}: ${error.message}`));
+    });
+  });
+}
@@ -0,0 +1,110 @@
+import fs from 'fs';
+import { TestCase } from './runner';
+import { WorkerStorage } from './storage';
+import { redact } from './redact';
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+/**
+ * One line of runs/<id>/events/shard-N.ndjson. `time` is ISO 8601.
+ *
+ * - planned: the framework is about to run `tests` more tests
+ * - test-started / test-finished: per test (Selenium only reports
+ *   test-finished, once each Jest run is done)
+ * - heartbeat: the worker is alive, sent every 15 seconds
+ * - done: the worker is about to exit; a shard whose heartbeats stop
+ *   without it has stalled or been killed
+ */
+export type WorkerEvent =
+  | { type: 'planned'; time: string; tests: number }
+  | { type: 'test-started'; time: string; file: string; name: string }
+  | { type: 'test-finished'; time: string; file: string; name: string; status: TestCase['status']; duration: number }
+  | { type: 'heartbeat'; time: string }
+  | { type: 'done'; time: string };
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const FLUSH_INTERVAL_MS = 5000;
+
+/**
+ * Progress events for `cheaptest run` and `cheaptest status --watch`.
+ * Events are appended to a local NDJSON file, which child processes such
+ * as the Playwright reporter append to as well (CHEAPTEST_EVENTS_FILE),
+ * and the file is re-uploaded whenever it has grown.
+ */
+export class EventStream {
+  readonly file: string;
+  private uploadedSize = -1;
+  private timers: NodeJS.Timeout[] = [];
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private storage: WorkerStorage,
+    private bucket: string,
+    private key: string,
+    file = '/tmp/cheaptest-events.ndjson'
+  ) {
+    this.file = file;
+    fs.writeFileSync(this.file, '');
+  }
+
+  start(): void {
+    this.heartbeat();
+    this.timers = [
+      setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS),
+      setInterval(() => { void this.flush(); }, FLUSH_INTERVAL_MS),
+    ];
+    this.timers.forEach(timer => timer.unref());
+  }
+
+  testsFinished(tests: TestCase[]): void {
+    for (const test of tests) {
+      this.emit({
+        type: 'test-finished',
+        time: new Date().toISOString(),
+        file: test.file,
+        name: test.name,
+        status: test.status,
+        duration: test.duration,
+      });
+    }
+  }
+
+  /**
+   * Upload the events if the file grew since the last upload. Uploads
+   * never overlap, so an older snapshot can't overwrite a newer one.
+   */
+  flush(): Promise<void> {
+    this.flushing = this.flushing.then(async () => {
+      try {
+        const content = fs.readFileSync(this.file, 'utf-8');
+        if (content.length === this.uploadedSize) return;
+        await this.storage.uploadText(this.bucket, this.key, redact(content));
+        this.uploadedSize = content.length;
+      } catch (err: unknown) {
+        console.warn(`[WARN] Could not upload progress events: ${getErrorMessage(err)}`);
+      }
+    });
+    return this.flushing;
+  }
+
+  async close(): Promise<void> {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.emit({ type: 'done', time: new Date().toISOString() });
+    await this.flush();
+  }
+
+  private heartbeat(): void {
+    this.emit({ type: 'heartbeat', time: new Date().toISOString() });
+  }
+
+  private emit(event: WorkerEvent): void {
+    try {
+      fs.appendFileSync(this.file, JSON.stringify(event) + '\n');
+    } catch {
+      // Progress is best effort; results are what count
+    }
+  }
+}
@@ -1,7 +1,78 @@
 import { spawn } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises';
-import { RunnerConfig, TestCase } from '../runner';
+import { RunnerConfig, TestCase, findBin, findConfigFile, stopOnAbort } from '../runner';
+
+// Where Cypress looks for a project's config, in its own order
+const CONFIG_FILES = ['cypress.config.ts', 'cypress.config.js', 'cypress.config.mjs', 'cypress.config.cjs'];
+
+/**
+ * Mocha reporter loaded by Cypress. Cypress creates one per spec, so each
+ * spec's tests are written to their own file in the `output` directory,
+ * keyed by the spec path on the root suite. Also appends test-started and
+ * test-finished events to CHEAPTEST_EVENTS_FILE as tests run.
+ */
+const RESULTS_REPORTER = `
+const fs = require('fs');
+const path = require('path');
+
+function specOf(runnable) {
+  let current = runnable;
+  while (current && !current.file) current = current.parent;
+  return current ? current.file : undefined;
+}
+
+class CheaptestCypressReporter {
+  constructor(runner, options) {
+    const output = (options.reporterOptions || {}).output;
+    const tests = [];
+    let spec;
+
+    const record = (test, status, err) => {
+      spec = spec || specOf(test);
+      tests.push({
+        name: test.title,
+        status,
+        duration: test.duration || 0,
+        error: err ? err.message : undefined,
+        stack: err ? err.stack : undefined,
+      });
+      this.emit({ type: 'test-finished', file: spec, name: test.title, status, duration: test.duration || 0 });
+    };
+
+    runner.on('start', () => { spec = specOf(runner.suite); });
+    runner.on('test', test => {
+      spec = spec || specOf(test);
+      this.emit({ type: 'test-started', file: spec, name: test.title });
+    });
+    runner.on('pass', test => record(test, 'passed'));
+    runner.on('pending', test => record(test, 'skipped'));
+    runner.on('fail', (test, err) => record(test, 'failed', err));
+    runner.on('end', () => {
+      if (!output || !spec) return;
+      fs.mkdirSync(output, { recursive: true });
+      const name = spec.replace(/[^a-zA-Z0-9._-]+/g, '_') + '.json';
+      fs.writeFileSync(path.join(output, name), JSON.stringify({ spec, tests }));
+    });
+  }
+
+  emit(event) {
+    const file = process.env.CHEAPTEST_EVENTS_FILE;
+    if (!file || !event.file) return;
+    try {
+      fs.appendFileSync(file, JSON.stringify({ ...event, time: new Date().toISOString() }) + '\\n');
+    } catch {}
+  }
+}
+
+module.exports = CheaptestCypressReporter;
+`;
+
+interface CypressProcess {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
 
 export class CypressRunner {
   private config: RunnerConfig;
@@ -20,10 +91,18 @@ export class CypressRunner {
 
     const testFiles = this.config.shard.files.map(f => f.relativePath);
 
-    // Create Cypress config (use .js to avoid TypeScript compilation)
-    const cypressConfig = await this.createCypressConfig();
-    const configPath = path.join(testRoot, 'cypress.shard.config.js');
-    await fs.writeFile(configPath, cypressConfig);
+    // The project's own config keeps its baseUrl, support file and
+    // setupNodeEvents; the reporter and specs are set on the command line.
+    // Without one, create a config (use .js to avoid TypeScript compilation)
+    const projectConfig = await findConfigFile(testRoot, CONFIG_FILES);
+    let configPath: string;
+    if (projectConfig) {
+      configPath = path.join(testRoot, projectConfig);
+      console.log(`  Using project config: ${projectConfig}`);
+    } else {
+      configPath = path.join(testRoot, 'cypress.shard.config.js');
+      await fs.writeFile(configPath, await this.createCypressConfig());
+    }
 
     // Create tsconfig.json if it doesn't exist (needed for TypeScript test files)
     const tsconfigPath = path.join(testRoot, 'tsconfig.json');
@@ -54,15 +133,36 @@ export class CypressRunner {
       console.log('  Symlinked node_modules for TypeScript support');
     }
 
-    // Cypress runs one spec at a time, so we'll run them sequentially
-    const allTests: TestCase[] = [];
+    const reporterPath = path.join(testRoot, 'cheaptest-cypress-reporter.js');
+    await fs.writeFile(reporterPath, RESULTS_REPORTER);
+
+    const resultsDir = path.join(testRoot, 'cypress', 'results');
+    await fs.rm(resultsDir, { recursive: true, force: true });
+
+    if (testFiles.length === 0) return [];
 
-    for (const testFile of testFiles) {
-      const tests = await this.runSpec(testFile, configPath, testRoot);
-      allTests.push(...tests);
+    // One Cypress process for every spec: Cypress and Electron boot once
+    const batchStart = Date.now();
+    const batch = await this.runCypress(testFiles, configPath, reporterPath, resultsDir, testRoot);
+    const results = await this.readResults(resultsDir, testRoot);
+    console.log(
+      `  Ran ${results.size}/${testFiles.length} specs in one Cypress process in ${((Date.now() - batchStart) / 1000).toFixed(2)}s`
+    );
+
+    // A crash loses the specs that hadn't finished; rerun those one at a time
+    // so a spec that takes Cypress down can't take the others with it
+    const missing = testFiles.filter(f => !results.has(f));
+    if (missing.length > 0 && !this.config.signal?.aborted) {
+      console.warn(
+        `[WARN] Cypress exited with code ${batch.code} before reporting ${missing.length} spec(s), running them one at a time`
+      );
+      for (const specFile of missing) {
+        if (this.config.signal?.aborted) break;
+        results.set(specFile, await this.runSpec(specFile, configPath, reporterPath, resultsDir, testRoot));
+      }
     }
 
-    return allTests;
+    return testFiles.flatMap(f => results.get(f) || []);
   }
 
   /**
@@ -85,32 +185,52 @@ export class CypressRunner {
     return this.config.workspace;
   }
 
-  private async runSpec(specFile: string, configPath: string, testRoot: string): Promise<TestCase[]> {
-    console.log(`  Running: ${specFile}`);
-
-    const resultsPath = path.join(
-      testRoot,
-      'cypress',
-      'results',
-      `${path.basename(specFile, path.extname(specFile))}.json`
-    );
+  /**
+   * Run one spec in its own Cypress process, falling back to Cypress's
+   * console output when the reporter didn't write its results
+   */
+  private async runSpec(
+    specFile: string,
+    configPath: string,
+    reporterPath: string,
+    resultsDir: string,
+    testRoot: string
+  ): Promise<TestCase[]> {
+    const { stdout, stderr } = await this.runCypress([specFile], configPath, reporterPath, resultsDir, testRoot);
+    const results = await this.readResults(resultsDir, testRoot);
+
+    const tests = results.get(specFile);
+    if (tests) return tests;
+
+    // A stopped run has no report; the tests that never finished are left out
+    if (this.config.signal?.aborted) return [];
+
+    console.error(`Failed to read results for ${specFile}`);
+    return this.parseFallbackResults(stdout, stderr, specFile);
+  }
 
-    // Ensure results directory exists
-    await fs.mkdir(path.dirname(resultsPath), { recursive: true });
+  private async runCypress(
+    specFiles: string[],
+    configPath: string,
+    reporterPath: string,
+    resultsDir: string,
+    testRoot: string
+  ): Promise<CypressProcess> {
+    console.log(specFiles.length === 1 ? `  Running: ${specFiles[0]}` : `  Running ${specFiles.length} specs`);
 
-    // Use the installed Cypress from /app/node_modules instead of npx
-    const cypressBin = '/app/node_modules/.bin/cypress';
+    // The project's Cypress when it installed its own, otherwise the image's
+    const cypressBin = await findBin(testRoot, 'cypress');
 
-    // Use absolute path for spec file (relative to testRoot)
-    const absoluteSpecPath = path.join(testRoot, specFile);
+    // Use absolute paths for spec files (relative to testRoot)
+    const specs = specFiles.map(f => path.join(testRoot, f)).join(',');
 
     return new Promise((resolve, reject) => {
       const args = [
         'run',
         '--config-file', configPath,
-        '--spec', absoluteSpecPath,
-        '--reporter', 'json',
-        '--reporter-options', `output=${resultsPath}`,
+        '--spec', specs,
+        '--reporter', reporterPath,
+        '--reporter-options', `output=${resultsDir}`,
         '--headless',
       ];
 
@@ -118,6 +238,10 @@ export class CypressRunner {
 
       const proc = spawn(cypressBin, args, {
         cwd: testRoot,
+        env: {
+          ...process.env,
+          ...(this.config.events && { CHEAPTEST_EVENTS_FILE: this.config.events.file }),
+        },
         stdio: ['ignore', 'pipe', 'pipe'],
       });
 
@@ -138,22 +262,15 @@ export class CypressRunner {
 
       const timeout = setTimeout(() => {
         proc.kill('SIGTERM');
-        reject(new Error(`Cypress spec ${specFile} timed out`));
+        reject(new Error(`Cypress tests timed out after ${this.config.timeout}ms`));
       }, this.config.timeout);
 
+      const detach = stopOnAbort(proc, this.config.signal);
+
       proc.on('close', (code) => {
         clearTimeout(timeout);
-
-        (async () => {
-          try {
-            const results = await this.parseResults(resultsPath, specFile);
-            resolve(results);
-          } catch (error) {
-            console.error(`Failed to parse results for ${specFile}:`, error);
-            const fallbackResults = this.parseFallbackResults(stdout, stderr, specFile);
-            resolve(fallbackResults);
-          }
-        })().catch(reject);
+        detach();
+        resolve({ code, stdout, stderr });
       });
 
       proc.on('error', (error) => {
@@ -183,49 +300,37 @@ module.exports = {
 `;
   }
 
-  private async parseResults(resultsPath: string, specFile: string): Promise<TestCase[]> {
-    try {
-      const content = await fs.readFile(resultsPath, 'utf-8');
-      const data = JSON.parse(content);
-
-      const tests: TestCase[] = [];
-
-      if (data.results) {
-        for (const result of data.results) {
-          if (result.suites) {
-            for (const suite of result.suites) {
-              this.extractTestsFromSuite(suite, tests, specFile);
-            }
-          }
-        }
-      }
+  /**
+   * Results the reporter wrote so far, by spec path relative to the test root
+   */
+  private async readResults(resultsDir: string, testRoot: string): Promise<Map<string, TestCase[]>> {
+    const results = new Map<string, TestCase[]>();
 
-      return tests;
-    } catch (error) {
-      throw new Error(`Failed to parse Cypress results: ${error}`);
+    let names: string[];
+    try {
+      names = await fs.readdir(resultsDir);
+    } catch {
+      return results; // No spec finished
     }
-  }
 
-  private extractTestsFromSuite(suite: any, tests: TestCase[], file: string): void {
-    if (suite.tests) {
-      for (const test of suite.tests) {
-        tests.push({
-          name: test.title,
+    for (const name of names.filter(n => n.endsWith('.json'))) {
+      try {
+        const data = JSON.parse(await fs.readFile(path.join(resultsDir, name), 'utf-8'));
+        const file = path.relative(testRoot, path.resolve(testRoot, data.spec));
+        results.set(file, data.tests.map((test: any): TestCase => ({
+          name: test.name,
           file,
-          status: this.mapStatus(test.state),
-          duration: test.duration || 0,
-          error: test.err?.message,
-          stack: test.err?.stack,
-        });
+          status: this.mapStatus(test.status),
+          duration: test.duration,
+          error: test.error,
+          stack: test.stack,
+        })));
+      } catch (error) {
+        console.error(`Failed to parse Cypress results ${name}:`, error);
       }
     }
 
-    // Recursively process child suites
-    if (suite.suites) {
-      for (const childSuite of suite.suites) {
-        this.extractTestsFromSuite(childSuite, tests, file);
-      }
-    }
+    return results;
   }
 
   private mapStatus(state: string | undefined): 'passed' | 'failed' | 'skipped' {
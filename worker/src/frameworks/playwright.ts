@@ -1,7 +1,59 @@
 import { spawn } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises';
-import { RunnerConfig, TestCase } from '../runner';
+import { RunnerConfig, TestAttachment, TestCase, TestShard, findBin, findConfigFile, stopOnAbort } from '../runner';
+
+// Where Playwright looks for a project's config, in its own order
+const CONFIG_FILES = [
+  'playwright.config.ts',
+  'playwright.config.js',
+  'playwright.config.mts',
+  'playwright.config.mjs',
+  'playwright.config.cts',
+  'playwright.config.cjs',
+];
+
+/**
+ * Appends per-test progress events to CHEAPTEST_EVENTS_FILE as the tests
+ * run, alongside the JSON reporter that produces the results
+ */
+const PROGRESS_REPORTER = `
+const fs = require('fs');
+const path = require('path');
+
+class CheaptestProgressReporter {
+  onBegin(config, suite) {
+    this.emit({ type: 'planned', tests: suite.allTests().length });
+  }
+
+  onTestBegin(test) {
+    this.emit({ type: 'test-started', ...this.describe(test) });
+  }
+
+  onTestEnd(test, result) {
+    const status = result.status === 'passed' || result.status === 'skipped' ? result.status : 'failed';
+    this.emit({ type: 'test-finished', ...this.describe(test), status, duration: result.duration });
+  }
+
+  describe(test) {
+    return { file: path.relative(process.cwd(), test.location.file), name: test.title };
+  }
+
+  emit(event) {
+    const file = process.env.CHEAPTEST_EVENTS_FILE;
+    if (!file) return;
+    try {
+      fs.appendFileSync(file, JSON.stringify({ ...event, time: new Date().toISOString() }) + '\\n');
+    } catch {}
+  }
+
+  printsToStdio() {
+    return false;
+  }
+}
+
+module.exports = CheaptestProgressReporter;
+`;
 
 export class PlaywrightRunner {
   private config: RunnerConfig;
@@ -23,13 +75,33 @@ export class PlaywrightRunner {
     const fileListPath = path.join(testRoot, '.shard-files.txt');
     await fs.writeFile(fileListPath, testFiles.join('\n'));
 
-    // Create Playwright config for this shard (use .js to avoid TypeScript compilation)
-    const playwrightConfig = this.createPlaywrightConfig(testFiles);
-    const configPath = path.join(testRoot, 'playwright.shard.config.js');
-    await fs.writeFile(configPath, playwrightConfig);
+    // With a browser matrix each file comes with the browser to run it in
+    const groups = new Map<string | undefined, TestShard['files']>();
+    for (const file of this.config.shard.files) {
+      groups.set(file.browser, [...(groups.get(file.browser) || []), file]);
+    }
+    const browsers = [...groups.keys()].filter((b): b is string => b !== undefined);
+
+    // The project's own config keeps its baseURL, use options, global setup
+    // and webServer; the reporter, output directory and files are set on
+    // the command line
+    const projectConfig = await findConfigFile(testRoot, CONFIG_FILES);
+    if (projectConfig) {
+      console.log(`  Using project config: ${projectConfig}`);
+    }
+
+    // Browser matrix projects are added in a config around the project's.
+    // Without a project config, generate one (use .js to avoid TypeScript compilation)
+    let configPath: string;
+    if (projectConfig && browsers.length === 0) {
+      configPath = path.join(testRoot, projectConfig);
+    } else {
+      configPath = path.join(testRoot, 'playwright.shard.config.js');
+      await fs.writeFile(configPath, this.createPlaywrightConfig(browsers, projectConfig));
+    }
 
-    // Run Playwright with JSON reporter
-    const resultsPath = path.join(testRoot, 'playwright-results.json');
+    const reporterPath = path.join(testRoot, 'cheaptest-progress-reporter.js');
+    await fs.writeFile(reporterPath, PROGRESS_REPORTER);
 
     // Symlink node_modules from /app if not present
     const nodeModulesLink = path.join(testRoot, 'node_modules');
@@ -40,15 +112,49 @@ export class PlaywrightRunner {
       console.log('  Symlinked node_modules for dependencies');
     }
 
-    // Use the installed Playwright from /app/node_modules instead of npx
-    const playwrightBin = '/app/node_modules/.bin/playwright';
+    // One invocation per browser, since --project applies to every file given
+    const tests: TestCase[] = [];
+    for (const [browser, files] of groups) {
+      if (this.config.signal?.aborted) break;
+      tests.push(...await this.runPlaywright(testRoot, configPath, reporterPath, files, browser));
+    }
+
+    return tests;
+  }
+
+  /**
+   * Run Playwright once with the JSON reporter, as the given browser's
+   * project when there is one
+   */
+  private async runPlaywright(
+    testRoot: string,
+    configPath: string,
+    reporterPath: string,
+    files: TestShard['files'],
+    browser?: string
+  ): Promise<TestCase[]> {
+    const testFiles = files.map(f => f.relativePath);
+
+    // Split files run only their selected tests, addressed as file:line
+    const targets = files.flatMap(f =>
+      f.selectedTests ? f.selectedTests.map(t => `${f.relativePath}:${t.line}`) : [f.relativePath]
+    );
+
+    // Run Playwright with JSON reporter
+    const resultsPath = path.join(testRoot, browser ? `playwright-results-${browser}.json` : 'playwright-results.json');
+
+    // The project's Playwright when it installed its own, otherwise the image's
+    const playwrightBin = await findBin(testRoot, 'playwright');
 
     return new Promise((resolve, reject) => {
       const args = [
         'test',
         '--config', configPath,
-        '--reporter', `json`,
-        ...testFiles,
+        '--reporter', `json,${reporterPath}`,
+        // Each browser keeps its own output dir, or the next run would clear its artifacts
+        '--output', browser ? path.join('test-results', browser) : 'test-results',
+        ...(browser ? ['--project', browser] : []),
+        ...targets,
       ];
 
       console.log(`  Command: ${playwrightBin} ${args.join(' ')}`);
@@ -58,6 +164,7 @@ export class PlaywrightRunner {
         env: {
           ...process.env,
           PLAYWRIGHT_JSON_OUTPUT_NAME: resultsPath,
+          ...(this.config.events && { CHEAPTEST_EVENTS_FILE: this.config.events.file }),
           // Ensure node can find modules in /app
           NODE_PATH: '/app/node_modules',
         },
@@ -84,19 +191,29 @@ export class PlaywrightRunner {
         reject(new Error(`Playwright tests timed out after ${this.config.timeout}ms`));
       }, this.config.timeout);
 
+      // SIGINT lets Playwright finish its reporters, so the JSON report
+      // still lists every test that completed
+      const detach = stopOnAbort(proc, this.config.signal, 'SIGINT');
+
       proc.on('close', (code) => {
         clearTimeout(timeout);
+        detach();
 
         (async () => {
           try {
             // Parse Playwright JSON results
-            const results = await this.parseResults(resultsPath);
-            resolve(results);
+            const results = await this.parseResults(resultsPath, testRoot);
+            resolve(browser ? results.map(t => ({ ...t, browser })) : results);
           } catch (error) {
+            // A stopped run has no report; the tests that never finished are left out
+            if (this.config.signal?.aborted) {
+              resolve([]);
+              return;
+            }
             // If parsing fails, try to extract info from stdout/stderr
             console.error('Failed to parse results:', error);
             const fallbackResults = this.parseFallbackResults(stdout, stderr, testFiles);
-            resolve(fallbackResults);
+            resolve(browser ? fallbackResults.map(t => ({ ...t, browser })) : fallbackResults);
           }
         })().catch(reject);
       });
@@ -128,7 +245,32 @@ export class PlaywrightRunner {
     return this.config.workspace;
   }
 
-  private createPlaywrightConfig(testFiles: string[]): string {
+  private createPlaywrightConfig(browsers: string[], projectConfig?: string): string {
+    if (projectConfig) {
+      // Keep the project's own projects; add one for each matrix browser it
+      // doesn't already have, named after its browser
+      return `
+const loaded = require(${JSON.stringify(`./${projectConfig}`)});
+const base = loaded.default || loaded;
+const projects = base.projects || [];
+
+module.exports = {
+  ...base,
+  projects: [
+    ...projects,
+    ...${JSON.stringify(browsers)}
+      .filter(name => !projects.some(project => project.name === name))
+      .map(name => ({ name, use: { browserName: name } })),
+  ],
+};
+`;
+    }
+
+    // One project per browser in the matrix, named after its browser
+    const projects = browsers.length > 0
+      ? `\n  projects: ${JSON.stringify(browsers.map(name => ({ name, use: { browserName: name } })))},`
+      : '';
+
     // Use CommonJS module.exports to avoid needing @playwright/test import in workspace
     return `
 module.exports = {
@@ -143,21 +285,24 @@ module.exports = {
     trace: 'retain-on-failure',
     screenshot: 'only-on-failure',
     video: 'retain-on-failure',
-  },
+  },${projects}
 };
 `;
   }
 
-  private async parseResults(resultsPath: string): Promise<TestCase[]> {
+  private async parseResults(resultsPath: string, testRoot: string): Promise<TestCase[]> {
     try {
       const content = await fs.readFile(resultsPath, 'utf-8');
       const data = JSON.parse(content);
 
       const tests: TestCase[] = [];
 
+      // Report paths are relative to the config's testDir
+      const rootDir = data.config?.rootDir || testRoot;
+
       if (data.suites) {
         for (const suite of data.suites) {
-          this.extractTestsFromSuite(suite, tests);
+          this.extractTestsFromSuite(suite, tests, rootDir, testRoot);
         }
       }
 
@@ -167,20 +312,28 @@ module.exports = {
     }
   }
 
-  private extractTestsFromSuite(suite: any, tests: TestCase[]): void {
+  private extractTestsFromSuite(suite: any, tests: TestCase[], rootDir: string, testRoot: string): void {
     // Process tests in this suite
     if (suite.specs) {
       for (const spec of suite.specs) {
         for (const test of spec.tests || []) {
-          const result = test.results?.[0];
+          // The last attempt, when the project config sets retries
+          const result = test.results?.[test.results.length - 1];
+          // After a stop, tests that were cut off or never started aren't results
+          if (this.config.signal?.aborted && (!result || result.status === 'interrupted')) continue;
+          // Traces, screenshots and videos written to disk (inline bodies are skipped)
+          const attachments: TestAttachment[] = (result?.attachments || [])
+            .filter((a: any) => a.path)
+            .map((a: any) => ({ name: a.name, contentType: a.contentType, path: a.path }));
           
           tests.push({
             name: spec.title,
-            file: suite.file || 'unknown',
+            file: suite.file ? path.relative(testRoot, path.resolve(rootDir, suite.file)) : 'unknown',
             status: this.mapStatus(result?.status),
             duration: result?.duration || 0,
             error: result?.error?.message,
             stack: result?.error?.stack,
+            ...(attachments.length > 0 && { attachments }),
           });
         }
       }
@@ -189,7 +342,7 @@ module.exports = {
     // Recursively process child suites
     if (suite.suites) {
       for (const childSuite of suite.suites) {
-        this.extractTestsFromSuite(childSuite, tests);
+        this.extractTestsFromSuite(childSuite, tests, rootDir, testRoot);
       }
     }
   }
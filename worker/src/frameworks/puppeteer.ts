@@ -0,0 +1,10 @@
+import { SeleniumRunner } from './selenium';
+
+/**
+ * Puppeteer suites written for Jest run exactly like Selenium ones: the
+ * same Jest config, reporter and split-file handling. Puppeteer itself
+ * must be installed in the worker image.
+ */
+export class PuppeteerRunner extends SeleniumRunner {
+  protected readonly label = 'Puppeteer';
+}
@@ -1,33 +1,37 @@
 import { spawn } from 'child_process';
 import path from 'path';
 import fs from 'fs/promises';
-import { RunnerConfig, TestCase } from '../runner';
+import { RunnerConfig, TestCase, TestShard, findBin, stopOnAbort } from '../runner';
+
+// WebDriver names for the browsers of a tests.browsers matrix. WebKit means
+// Safari, which needs a macOS Selenium Grid (SELENIUM_REMOTE_URL).
+const WEBDRIVER_BROWSERS: Record<string, string> = {
+  chromium: 'chrome',
+  firefox: 'firefox',
+  webkit: 'safari',
+};
 
 export class SeleniumRunner {
-  private config: RunnerConfig;
+  protected config: RunnerConfig;
+  protected readonly label: string = 'Selenium';
 
   constructor(config: RunnerConfig) {
     this.config = config;
   }
 
   async execute(): Promise<TestCase[]> {
-    console.log('Running Selenium tests with Jest...');
+    console.log(`Running ${this.label} tests with Jest...`);
 
     // Find the actual test root directory
     // The tarball extracts with the parent directory name (e.g., /workspace/selenium/...)
     const testRoot = await this.findTestRoot();
     console.log(`  Test root directory: ${testRoot}`);
 
-    const testFiles = this.config.shard.files.map(f => f.relativePath);
-
     // Create Jest config for Selenium tests
     const jestConfig = await this.createJestConfig();
     const configPath = path.join(testRoot, 'jest.shard.config.js');
     await fs.writeFile(configPath, jestConfig);
 
-    // Run Jest with JSON reporter
-    const resultsPath = path.join(testRoot, 'selenium-results.json');
-
     // Symlink node_modules from /app if not present
     const nodeModulesLink = path.join(testRoot, 'node_modules');
     try {
@@ -37,8 +41,61 @@ export class SeleniumRunner {
       console.log('  Symlinked node_modules for dependencies');
     }
 
-    // Use the installed Jest from /app/node_modules instead of npx
-    const jestBin = '/app/node_modules/.bin/jest';
+    const tests: TestCase[] = [];
+    const report = (finished: TestCase[]) => {
+      this.config.events?.testsFinished(finished);
+      tests.push(...finished);
+    };
+
+    // With a browser matrix each file comes with the browser to run it in
+    const groups = new Map<string | undefined, TestShard['files']>();
+    for (const file of this.config.shard.files) {
+      groups.set(file.browser, [...(groups.get(file.browser) || []), file]);
+    }
+
+    let part = 0;
+    for (const [browser, files] of groups) {
+      // Whole files run together. Jest's -t name filter applies to every file
+      // in a run, so each split file runs on its own with its selected tests.
+      const wholeFiles = files.filter(f => !f.selectedTests).map(f => f.relativePath);
+      const splitFiles = new Map<string, Set<string>>();
+      for (const file of files) {
+        if (!file.selectedTests) continue;
+        const titles = splitFiles.get(file.relativePath) || new Set<string>();
+        file.selectedTests.forEach(t => titles.add(t.title));
+        splitFiles.set(file.relativePath, titles);
+      }
+
+      if (wholeFiles.length > 0 && !this.config.signal?.aborted) {
+        report(await this.runJest(testRoot, configPath, `selenium-results-${part++}.json`, wholeFiles, undefined, browser));
+      }
+      for (const [file, titles] of splitFiles) {
+        if (this.config.signal?.aborted) break;
+        report(await this.runJest(testRoot, configPath, `selenium-results-${part++}.json`, [file], titles, browser));
+      }
+    }
+
+    return tests;
+  }
+
+  /**
+   * Run Jest once with the JSON reporter. With `titles`, only tests with
+   * those titles run (-t) and are reported; the name pattern can also match
+   * other tests whose full name ends the same way, so results are filtered too.
+   * With `browser`, selenium-webdriver's Builder picks it up from SELENIUM_BROWSER.
+   */
+  private async runJest(
+    testRoot: string,
+    configPath: string,
+    resultsFile: string,
+    testFiles: string[],
+    titles?: Set<string>,
+    browser?: string
+  ): Promise<TestCase[]> {
+    const resultsPath = path.join(testRoot, resultsFile);
+
+    // The project's Jest when it installed its own, otherwise the image's
+    const jestBin = await findBin(testRoot, 'jest');
 
     return new Promise((resolve, reject) => {
       const args = [
@@ -47,6 +104,7 @@ export class SeleniumRunner {
         '--outputFile', resultsPath,
         '--testTimeout', this.config.timeout.toString(),
         '--runInBand', // Run tests serially
+        ...(titles ? ['-t', `(^| )(${[...titles].map(escapeRegExp).join('|')})$`] : []),
         ...testFiles,
       ];
 
@@ -57,6 +115,7 @@ export class SeleniumRunner {
         env: {
           ...process.env,
           NODE_ENV: 'test',
+          ...(browser && { SELENIUM_BROWSER: WEBDRIVER_BROWSERS[browser] || browser }),
         },
         stdio: ['ignore', 'pipe', 'pipe'],
       });
@@ -78,20 +137,28 @@ export class SeleniumRunner {
 
       const timeout = setTimeout(() => {
         proc.kill('SIGTERM');
-        reject(new Error(`Selenium tests timed out after ${this.config.timeout}ms`));
+        reject(new Error(`${this.label} tests timed out after ${this.config.timeout}ms`));
       }, this.config.timeout);
 
+      const detach = stopOnAbort(proc, this.config.signal);
+
       proc.on('close', (code) => {
         clearTimeout(timeout);
+        detach();
 
         (async () => {
           try {
-            const results = await this.parseResults(resultsPath);
-            resolve(results);
+            const results = await this.parseResults(resultsPath, titles);
+            resolve(browser ? results.map(t => ({ ...t, browser })) : results);
           } catch (error) {
+            // A stopped run has no report; the tests that never finished are left out
+            if (this.config.signal?.aborted) {
+              resolve([]);
+              return;
+            }
             console.error('Failed to parse results:', error);
             const fallbackResults = this.parseFallbackResults(stdout, stderr, testFiles);
-            resolve(fallbackResults);
+            resolve(browser ? fallbackResults.map(t => ({ ...t, browser })) : fallbackResults);
           }
         })().catch(reject);
       });
@@ -140,7 +207,7 @@ module.exports = {
 `;
   }
 
-  private async parseResults(resultsPath: string): Promise<TestCase[]> {
+  private async parseResults(resultsPath: string, titles?: Set<string>): Promise<TestCase[]> {
     try {
       const content = await fs.readFile(resultsPath, 'utf-8');
       const data = JSON.parse(content);
@@ -150,6 +217,7 @@ module.exports = {
       if (data.testResults) {
         for (const fileResult of data.testResults) {
           for (const assertionResult of fileResult.assertionResults || []) {
+            if (titles && !titles.has(assertionResult.title)) continue;
             tests.push({
               name: assertionResult.fullName || assertionResult.title,
               file: fileResult.name,
@@ -218,4 +286,8 @@ module.exports = {
 
     return tests;
   }
-}
\ No newline at end of file
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,109 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import fs from 'fs/promises';
+import { RunnerConfig, TestCase, findBin, findTestRoot, stopOnAbort } from '../runner';
+
+export class TestCafeRunner {
+  private config: RunnerConfig;
+
+  constructor(config: RunnerConfig) {
+    this.config = config;
+  }
+
+  async execute(): Promise<TestCase[]> {
+    console.log('Running TestCafe tests...');
+
+    const testRoot = await findTestRoot(this.config.workspace);
+    console.log(`  Test root directory: ${testRoot}`);
+
+    // Symlink node_modules from /app if not present
+    const nodeModulesLink = path.join(testRoot, 'node_modules');
+    try {
+      await fs.access(nodeModulesLink);
+    } catch {
+      await fs.symlink('/app/node_modules', nodeModulesLink);
+      console.log('  Symlinked node_modules for dependencies');
+    }
+
+    const testFiles = this.config.shard.files.map(f => f.relativePath);
+    if (testFiles.length === 0) return [];
+
+    const resultsPath = path.join(testRoot, 'testcafe-results.json');
+    await fs.rm(resultsPath, { force: true });
+
+    // The project's TestCafe when it installed its own, otherwise the image's
+    const testcafeBin = await findBin(testRoot, 'testcafe');
+
+    return new Promise((resolve, reject) => {
+      const args = [
+        'chromium:headless --no-sandbox --disable-dev-shm-usage',
+        ...testFiles,
+        '--reporter', `spec,json:${resultsPath}`,
+        '--selector-timeout', '10000',
+      ];
+
+      console.log(`  Command: ${testcafeBin} ${args.join(' ')}`);
+
+      const proc = spawn(testcafeBin, args, {
+        cwd: testRoot,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      proc.stdout?.on('data', (data) => process.stdout.write(data.toString()));
+      proc.stderr?.on('data', (data) => process.stderr.write(data.toString()));
+
+      const timeout = setTimeout(() => {
+        proc.kill('SIGTERM');
+        reject(new Error(`TestCafe tests timed out after ${this.config.timeout}ms`));
+      }, this.config.timeout);
+
+      const detach = stopOnAbort(proc, this.config.signal);
+
+      proc.on('close', (code) => {
+        clearTimeout(timeout);
+        detach();
+
+        this.parseResults(resultsPath, testRoot).then(tests => {
+          this.config.events?.testsFinished(tests);
+          resolve(tests);
+        }, error => {
+          // A stopped run has no report; the tests that never finished are left out
+          if (this.config.signal?.aborted) {
+            resolve([]);
+            return;
+          }
+          reject(new Error(`TestCafe exited with code ${code} without a report: ${error.message}`));
+        });
+      });
+
+      proc.on('error', (error) => {
+        clearTimeout(timeout);
+        reject(new Error(`Failed to spawn TestCafe: ${error.message}`));
+      });
+    });
+  }
+
+  /**
+   * TestCafe's JSON reporter lists fixtures, each with its file `path` and
+   * tests; a test failed when it has `errs`
+   */
+  private async parseResults(resultsPath: string, testRoot: string): Promise<TestCase[]> {
+    const data = JSON.parse(await fs.readFile(resultsPath, 'utf-8'));
+
+    const tests: TestCase[] = [];
+    for (const fixture of data.fixtures || []) {
+      for (const test of fixture.tests || []) {
+        const errors: string[] = test.errs || [];
+        tests.push({
+          name: test.name,
+          file: path.relative(testRoot, fixture.path),
+          status: test.skipped ? 'skipped' : errors.length > 0 ? 'failed' : 'passed',
+          duration: test.durationMs || 0,
+          error: errors[0]?.split('\n')[0],
+          stack: errors.length > 0 ? errors.join('\n\n') : undefined,
+        });
+      }
+    }
+    return tests;
+  }
+}
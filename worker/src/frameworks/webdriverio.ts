@@ -0,0 +1,159 @@
+import { spawn } from 'child_process';
+import path from 'path';
+import fs from 'fs/promises';
+import { RunnerConfig, TestCase, findBin, findTestRoot, stopOnAbort } from '../runner';
+
+export class WebdriverIORunner {
+  private config: RunnerConfig;
+
+  constructor(config: RunnerConfig) {
+    this.config = config;
+  }
+
+  async execute(): Promise<TestCase[]> {
+    console.log('Running WebdriverIO tests...');
+
+    const testRoot = await findTestRoot(this.config.workspace);
+    console.log(`  Test root directory: ${testRoot}`);
+
+    const resultsPath = path.join(testRoot, 'wdio-results.ndjson');
+    await fs.rm(resultsPath, { force: true });
+
+    const configPath = path.join(testRoot, 'wdio.shard.conf.js');
+    await fs.writeFile(configPath, this.createWdioConfig(resultsPath));
+
+    // Symlink node_modules from /app if not present
+    const nodeModulesLink = path.join(testRoot, 'node_modules');
+    try {
+      await fs.access(nodeModulesLink);
+    } catch {
+      await fs.symlink('/app/node_modules', nodeModulesLink);
+      console.log('  Symlinked node_modules for dependencies');
+    }
+
+    const testFiles = this.config.shard.files.map(f => f.relativePath);
+    if (testFiles.length === 0) return [];
+
+    // The project's WebdriverIO when it installed its own, otherwise the image's
+    const wdioBin = await findBin(testRoot, 'wdio');
+
+    return new Promise((resolve, reject) => {
+      const args = ['run', configPath, ...testFiles.flatMap(f => ['--spec', path.join(testRoot, f)])];
+
+      console.log(`  Command: ${wdioBin} ${args.join(' ')}`);
+
+      const proc = spawn(wdioBin, args, {
+        cwd: testRoot,
+        env: {
+          ...process.env,
+          ...(this.config.events && { CHEAPTEST_EVENTS_FILE: this.config.events.file }),
+        },
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      // Through process.stdout so the output reaches the shard's log
+      proc.stdout?.on('data', (data) => process.stdout.write(data.toString()));
+      proc.stderr?.on('data', (data) => process.stderr.write(data.toString()));
+
+      const timeout = setTimeout(() => {
+        proc.kill('SIGTERM');
+        reject(new Error(`WebdriverIO tests timed out after ${this.config.timeout}ms`));
+      }, this.config.timeout);
+
+      const detach = stopOnAbort(proc, this.config.signal);
+
+      proc.on('close', (code) => {
+        clearTimeout(timeout);
+        detach();
+
+        this.parseResults(resultsPath, testRoot).then(tests => {
+          // Without results, something other than the tests failed
+          if (tests.length === 0 && code !== 0 && !this.config.signal?.aborted) {
+            reject(new Error(`WebdriverIO exited with code ${code} without running any tests`));
+            return;
+          }
+          resolve(tests);
+        }, reject);
+      });
+
+      proc.on('error', (error) => {
+        clearTimeout(timeout);
+        reject(new Error(`Failed to spawn WebdriverIO: ${error.message}`));
+      });
+    });
+  }
+
+  /**
+   * Headless Chrome with Mocha. The afterTest hook runs in each spec's
+   * worker process and appends one line per test to `resultsPath`, plus a
+   * test-finished event for live progress.
+   */
+  private createWdioConfig(resultsPath: string): string {
+    return `
+const fs = require('fs');
+
+function append(file, record) {
+  if (!file) return;
+  try {
+    fs.appendFileSync(file, JSON.stringify(record) + '\\n');
+  } catch {}
+}
+
+exports.config = {
+  runner: 'local',
+  specs: [],
+  maxInstances: 1,
+  capabilities: [{
+    browserName: 'chrome',
+    'goog:chromeOptions': { args: ['--headless=new', '--no-sandbox', '--disable-dev-shm-usage'] },
+  }],
+  logLevel: 'warn',
+  framework: 'mocha',
+  reporters: ['spec'],
+  mochaOpts: { timeout: ${this.config.timeout} },
+  afterTest(test, context, { error, duration, passed }) {
+    const status = passed ? 'passed' : 'failed';
+    append(${JSON.stringify(resultsPath)}, {
+      file: test.file,
+      name: test.title,
+      status,
+      duration,
+      error: error ? error.message : undefined,
+      stack: error ? error.stack : undefined,
+    });
+    append(process.env.CHEAPTEST_EVENTS_FILE, {
+      type: 'test-finished', time: new Date().toISOString(), file: test.file, name: test.title, status, duration,
+    });
+  },
+};
+`;
+  }
+
+  private async parseResults(resultsPath: string, testRoot: string): Promise<TestCase[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(resultsPath, 'utf-8');
+    } catch {
+      return []; // No test finished
+    }
+
+    const tests: TestCase[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const test = JSON.parse(line);
+        tests.push({
+          name: test.name,
+          file: path.relative(testRoot, test.file),
+          status: test.status,
+          duration: test.duration || 0,
+          error: test.error,
+          stack: test.stack,
+        });
+      } catch {
+        // Torn write from a stopped worker process
+      }
+    }
+    return tests;
+  }
+}
@@ -1,16 +1,34 @@
-import { TestRunner } from './runner';
-import { S3ClientWrapper } from './s3-client';
+import { TestRunner, TestResult, TestShard, findTestRoot } from './runner';
+import { createStorage, WorkerStorage } from './storage';
+import { uploadArtifacts } from './artifacts';
+import { LogStreamer } from './logs';
+import { EventStream } from './events';
+import { loadRunnerModule } from './registry';
+import { installDependencies } from './dependencies';
+import { redact, redactTests } from './redact';
+import { WorkQueue, ClaimStore, S3ClaimStore, LocalClaimStore, QueueItem, claimShard } from './queue';
+
+// ECS, Kubernetes and `docker stop` send SIGKILL 30 seconds after SIGTERM
+const SHUTDOWN_DEADLINE_MS = 25000;
+
+// Aborted on SIGTERM so the framework stops and finished tests are still uploaded
+const shutdown = new AbortController();
 
 interface WorkerConfig {
   runId: string;
   shardId: number;
   bucket: string;
   region: string;
-  framework: 'playwright' | 'cypress' | 'selenium';
+  framework: string;
+  runnerModule?: string; // Custom runner, relative to the test root
   timeout: number;
 }
 
 async function main() {
+  // Capture output from the start; it is uploaded once storage is known
+  const logs = new LogStreamer();
+  let events: EventStream | null = null;
+
   try {
     console.log('='.repeat(60));
     console.log('Cheaptest Worker Starting');
@@ -22,15 +40,16 @@ async function main() {
       shardId: parseInt(process.env.SHARD_ID || '0'),
       bucket: process.env.S3_BUCKET || '',
       region: process.env.AWS_REGION || 'us-east-1',
-      framework: (process.env.TEST_FRAMEWORK || 'playwright') as any,
+      framework: process.env.TEST_FRAMEWORK || 'playwright',
+      runnerModule: process.env.TEST_RUNNER_MODULE || undefined,
       timeout: parseInt(process.env.TEST_TIMEOUT || '300000'),
     };
 
     console.log('Configuration:');
     console.log(`  Run ID: ${config.runId}`);
-    console.log(`  Shard ID: ${config.shardId}`);
+    console.log(`  Shard ID: ${process.env.SHARD_ID || !process.env.SHARD_IDS ? config.shardId : `one of ${process.env.SHARD_IDS}`}`);
     console.log(`  Bucket: ${config.bucket}`);
-    console.log(`  Framework: ${config.framework}`);
+    console.log(`  Framework: ${config.framework}${config.runnerModule ? ` (${config.runnerModule})` : ''}`);
     console.log(`  Timeout: ${config.timeout}ms`);
     console.log('');
 
@@ -39,18 +58,46 @@ async function main() {
       throw new Error('Missing required configuration: RUN_ID and S3_BUCKET must be set');
     }
 
-    // Initialize S3 client
-    const s3Client = new S3ClientWrapper(config.region);
+    // Initialize storage (S3 unless STORAGE_DIR or S3_ENDPOINT say otherwise)
+    const s3Client = createStorage(config.region);
+
+    // Tasks launched together share SHARD_IDS and each claims one of them
+    if (!process.env.SHARD_ID && process.env.SHARD_IDS) {
+      const shardIds = process.env.SHARD_IDS.split(',').map(id => parseInt(id));
+      const store = new S3ClaimStore(s3Client, config.bucket, `runs/${config.runId}/shard-claims`);
+      const claimed = await claimShard(store, shardIds, { taskArn: await ecsTaskArn(), claimedAt: new Date().toISOString() });
+      if (claimed === null) {
+        throw new Error(`Every shard in SHARD_IDS (${process.env.SHARD_IDS}) was already claimed`);
+      }
+      config.shardId = claimed;
+      console.log(`[OK] Claimed shard ${claimed}`);
+    }
+
+    logs.streamTo(s3Client, config.bucket, `runs/${config.runId}/logs/shard-${config.shardId}.log`);
+    events = new EventStream(s3Client, config.bucket, `runs/${config.runId}/events/shard-${config.shardId}.ndjson`);
+    events.start();
 
-    // Download test code from S3
+    // Download test code from S3; the run's manifest names the shared,
+    // content-addressed bundle (cache/test-code/<hash>.tar.gz)
     console.log('[INFO] Downloading test code...');
-    const testCodeKey = `runs/${config.runId}/test-code.tar.gz`;
+    const manifest = await s3Client.downloadJSON<{ testCode: string }>(config.bucket, `runs/${config.runId}/manifest.json`);
+    const testCodeKey = manifest.testCode;
     const workspace = '/workspace';
     
     await s3Client.downloadAndExtract(config.bucket, testCodeKey, workspace);
     console.log('[OK] Test code downloaded and extracted');
     console.log('');
 
+    // The project's own dependencies (helpers, page objects, its framework
+    // version), restored from the bucket's cache when its lockfile was seen before
+    await installDependencies(s3Client, config.bucket, await findTestRoot(workspace), config.timeout, shutdown.signal);
+
+    if (config.runnerModule) {
+      const name = await loadRunnerModule(workspace, config.runnerModule);
+      console.log(`[OK] Runner ${name} loaded from ${config.runnerModule}`);
+      console.log('');
+    }
+
     // Download shard configuration
     console.log('[INFO] Downloading shard configuration...');
     const shardsKey = `runs/${config.runId}/shards.json`;
@@ -61,77 +108,75 @@ async function main() {
       throw new Error(`Shard ${config.shardId} not found in configuration`);
     }
 
-    console.log(`[OK] Shard configuration loaded: ${shard.files.length} test files`);
+    // Queue shards pull files from the shared work queue instead of a fixed list
+    let queue: WorkQueue | null = null;
+    if (shard.queue) {
+      const files = await s3Client.downloadJSON<QueueItem['file'][]>(
+        config.bucket,
+        `runs/${config.runId}/queue.json`
+      );
+      // QUEUE_DIR swaps S3 for a shared local directory when running workers locally
+      const store: ClaimStore = process.env.QUEUE_DIR
+        ? new LocalClaimStore(process.env.QUEUE_DIR)
+        : new S3ClaimStore(s3Client, config.bucket, `runs/${config.runId}/queue/claims`);
+      queue = new WorkQueue(files, store, config.shardId);
+      console.log(`[OK] Work queue loaded: ${files.length} test files shared between workers`);
+    } else {
+      console.log(`[OK] Shard configuration loaded: ${shard.files.length} test files`);
+    }
     console.log('');
 
     // Run tests
     console.log('[TEST] Running tests...');
     console.log('-'.repeat(60));
 
-    const runner = new TestRunner({
-      framework: config.framework,
-      workspace,
-      timeout: config.timeout,
-      shard,
-    });
+    const { result, runnerError } = queue
+      ? await runQueue(queue, shard.id, config, workspace, s3Client, events)
+      : await runShard(shard, config, workspace, s3Client, events);
 
-    let result;
-    let runnerError: Error | null = null;
-
-    try {
-      result = await runner.run();
-    } catch (error: unknown) {
-      // Capture error but continue to upload partial results
-      runnerError = error instanceof Error ? error : new Error(String(error));
-      console.error('[ERROR] Test runner error:', runnerError.message);
-
-      // Create error result so we still upload something
-      result = {
-        shard: config.shardId,
-        passed: 0,
-        failed: shard.files.length,
-        skipped: 0,
-        duration: 0,
-        tests: shard.files.map((f: any) => ({
-          name: f.relativePath,
-          file: f.relativePath,
-          status: 'failed' as const,
-          duration: 0,
-          error: `Test runner crashed: ${runnerError!.message}`,
-        })),
-      };
-    }
+    const interrupted = shutdown.signal.aborted;
 
     console.log('-'.repeat(60));
-    console.log(runnerError ? '[WARN] Tests completed with errors' : '[OK] Tests completed');
+    if (interrupted) {
+      console.log('[WARN] Tests stopped early, uploading partial results');
+    } else {
+      console.log(runnerError ? '[WARN] Tests completed with errors' : '[OK] Tests completed');
+    }
     console.log(`  Passed: ${result.passed}`);
     console.log(`  Failed: ${result.failed}`);
     console.log(`  Skipped: ${result.skipped}`);
     console.log(`  Duration: ${(result.duration / 1000).toFixed(2)}s`);
+    // Time not spent in tests: framework and browser startup, reporting, uploads
+    const testTime = result.tests.reduce((sum, t) => sum + t.duration, 0);
+    console.log(`  Overhead: ${(Math.max(0, result.duration - testTime) / 1000).toFixed(2)}s`);
     console.log('');
 
     // Upload results to S3 (even on failure)
     console.log('[INFO] Uploading results...');
     const resultsKey = `runs/${config.runId}/results/shard-${config.shardId}.json`;
 
-    await s3Client.uploadJSON(config.bucket, resultsKey, result, {
+    const redacted = { ...result, tests: redactTests(result.tests) };
+    await s3Client.uploadJSON(config.bucket, resultsKey, interrupted ? { ...redacted, interrupted } : redacted, {
       runId: config.runId,
       shardId: config.shardId.toString(),
       framework: config.framework,
       timestamp: new Date().toISOString(),
-      ...(runnerError && { error: runnerError.message }),
+      ...(runnerError && { error: redact(runnerError.message) }),
+      ...(interrupted && { interrupted: 'true' }),
     });
 
     console.log(`[OK] Results uploaded to ${resultsKey}`);
     console.log('');
 
     // Exit with appropriate code
-    const exitCode = result.failed > 0 || runnerError ? 1 : 0;
+    const exitCode = interrupted ? 143 : result.failed > 0 || runnerError ? 1 : 0;
     
     console.log('='.repeat(60));
     console.log(`Worker completed with exit code ${exitCode}`);
     console.log('='.repeat(60));
 
+    await events.close();
+    await logs.close();
     process.exit(exitCode);
 
   } catch (error) {
@@ -139,14 +184,142 @@ async function main() {
     console.error('[ERROR] Worker failed:');
     console.error(error);
     console.error('');
+    await events?.close();
+    await logs.close();
     process.exit(1);
   }
 }
 
+/**
+ * This task's ARN from the ECS task metadata endpoint, so `cheaptest status`
+ * can tell which task claimed a shard; undefined outside ECS
+ */
+async function ecsTaskArn(): Promise<string | undefined> {
+  const uri = process.env.ECS_CONTAINER_METADATA_URI_V4;
+  if (!uri) return undefined;
+  try {
+    const response = await fetch(`${uri}/task`);
+    const metadata = await response.json() as { TaskARN?: string };
+    return metadata.TaskARN;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Run a fixed list of files and upload the tests' artifacts. If the runner
+ * crashes, every file is reported as failed so results are still uploaded.
+ */
+async function runShard(
+  shard: TestShard,
+  config: WorkerConfig,
+  workspace: string,
+  storage: WorkerStorage,
+  events: EventStream
+): Promise<{ result: TestResult; runnerError: Error | null }> {
+  const runner = new TestRunner({
+    framework: config.framework,
+    workspace,
+    timeout: config.timeout,
+    shard,
+    events,
+    signal: shutdown.signal,
+  });
+
+  try {
+    const result = await runner.run();
+    const tests = await uploadArtifacts(storage, config.bucket, config.runId, shard.id, result.tests);
+    return { result: { ...result, tests }, runnerError: null };
+  } catch (error: unknown) {
+    // Capture error but continue to upload partial results
+    const runnerError = error instanceof Error ? error : new Error(String(error));
+    console.error('[ERROR] Test runner error:', runnerError.message);
+
+    // Stopping the framework can make it fail; that says nothing about the tests
+    if (shutdown.signal.aborted) {
+      return {
+        runnerError,
+        result: { shard: shard.id, passed: 0, failed: 0, skipped: 0, duration: 0, tests: [] },
+      };
+    }
+
+    // Create error result so we still upload something
+    return {
+      runnerError,
+      result: {
+        shard: shard.id,
+        passed: 0,
+        failed: shard.files.length,
+        skipped: 0,
+        duration: 0,
+        tests: shard.files.map((f: any) => ({
+          name: f.relativePath,
+          file: f.relativePath,
+          status: 'failed' as const,
+          duration: 0,
+          error: `Test runner crashed: ${runnerError.message}`,
+          browser: f.browser,
+        })),
+      },
+    };
+  }
+}
+
+/**
+ * Claim and run files one at a time until the queue is empty,
+ * collecting everything into this worker's single result. `queueItems`
+ * lists the files that ran to the end, so the CLI can tell which claimed
+ * files a stopped or crashed worker never finished.
+ */
+async function runQueue(
+  queue: WorkQueue,
+  shardId: number,
+  config: WorkerConfig,
+  workspace: string,
+  storage: WorkerStorage,
+  events: EventStream
+): Promise<{ result: TestResult; runnerError: Error | null }> {
+  const startTime = Date.now();
+  const tests: TestResult['tests'] = [];
+  const queueItems: number[] = [];
+  let runnerError: Error | null = null;
+
+  let item: QueueItem | null;
+  while (!shutdown.signal.aborted && (item = await queue.claimNext())) {
+    console.log(`[QUEUE] Claimed #${item.index}: ${item.file.relativePath}${item.file.browser ? ` (${item.file.browser})` : ''}`);
+
+    const outcome = await runShard({ id: shardId, files: [item.file] }, config, workspace, storage, events);
+    tests.push(...outcome.result.tests);
+    runnerError = runnerError || outcome.runnerError;
+    // A file cut off by SIGTERM is left for the CLI to report and retry
+    if (!shutdown.signal.aborted) queueItems.push(item.index);
+  }
+
+  return {
+    runnerError,
+    result: {
+      shard: shardId,
+      passed: tests.filter(t => t.status === 'passed').length,
+      failed: tests.filter(t => t.status === 'failed').length,
+      skipped: tests.filter(t => t.status === 'skipped').length,
+      duration: Date.now() - startTime,
+      tests,
+      queueItems,
+    },
+  };
+}
+
 // Handle signals
 process.on('SIGTERM', () => {
-  console.log('Received SIGTERM, shutting down gracefully...');
-  process.exit(143);
+  if (shutdown.signal.aborted) return;
+  console.log('Received SIGTERM, stopping tests and uploading partial results...');
+  shutdown.abort();
+
+  // main() exits once results are uploaded; don't wait for SIGKILL if it can't
+  setTimeout(() => {
+    console.error('[ERROR] Partial results were not uploaded in time');
+    process.exit(143);
+  }, SHUTDOWN_DEADLINE_MS).unref();
 });
 
 process.on('SIGINT', () => {
@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { LogStreamer } from './logs';
+import { LocalStorage } from './storage';
+
+describe('LogStreamer', () => {
+  let root: string;
+  let storage: LocalStorage;
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'logs-test-'));
+    storage = new LocalStorage(root);
+    // Keep the captured output out of jest's own
+    stdout = jest.spyOn(process.stdout, 'write').mockReturnValue(true);
+    stderr = jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+  });
+
+  afterEach(async () => {
+    stdout.mockRestore();
+    stderr.mockRestore();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  function readLog(name: string): Promise<string> {
+    return fs.readFile(path.join(root, 'bucket/runs/r/logs', name), 'utf-8');
+  }
+
+  function text(log: string): string[] {
+    return log.split('\n').filter(Boolean).map(line => line.slice(line.indexOf(' ') + 1));
+  }
+
+  it('should upload timestamped lines, including an unterminated last one', async () => {
+    const logs = new LogStreamer();
+    logs.streamTo(storage, 'bucket', 'runs/r/logs/shard-0.log');
+
+    process.stdout.write('first\nsec');
+    process.stderr.write('ond\nlast');
+    await logs.close();
+
+    const log = await readLog('shard-0.log');
+    expect(log).toMatch(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z first\n/);
+    expect(text(log)).toEqual(['first', 'second', 'last']);
+  });
+
+  it('should start a new part once the current one is full', async () => {
+    const logs = new LogStreamer(100);
+    logs.streamTo(storage, 'bucket', 'runs/r/logs/shard-0.log');
+
+    process.stdout.write(`${'a'.repeat(100)}\n`);
+    await logs.flush();
+    process.stdout.write('b\n');
+    await logs.flush();
+    process.stdout.write('c\n');
+    await logs.close();
+
+    expect(text(await readLog('shard-0.log'))).toEqual(['a'.repeat(100)]);
+    expect(text(await readLog('shard-0.1.log'))).toEqual(['b', 'c']);
+  });
+
+  it('should upload only when something new was written', async () => {
+    const upload = jest.spyOn(storage, 'uploadText');
+    const logs = new LogStreamer();
+    logs.streamTo(storage, 'bucket', 'runs/r/logs/shard-0.log');
+
+    process.stdout.write('line\n');
+    await logs.flush();
+    await logs.flush();
+    await logs.close();
+
+    expect(upload).toHaveBeenCalledTimes(1);
+  });
+});
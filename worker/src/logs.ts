@@ -0,0 +1,129 @@
+import { WorkerStorage } from './storage';
+import { StreamRedactor } from './redact';
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+type Write = typeof process.stdout.write;
+
+const FLUSH_INTERVAL_MS = 5000;
+const PART_SIZE = 1024 * 1024;
+
+/**
+ * Tees everything written to stdout/stderr (including the test framework's
+ * output) into runs/<id>/logs/shard-N.log. Each line is stored as
+ * "<ISO timestamp> <text>" so `cheaptest logs` can interleave shards.
+ *
+ * Object stores can't append, so the log is uploaded in parts of about
+ * 1 MB: shard-N.log, then shard-N.1.log, shard-N.2.log, ... A flush
+ * re-uploads only the current part, and only when it changed; once a part
+ * is full it is uploaded a last time and dropped from memory. Secret values are redacted both in the log and in the container's output,
+ * also when a write splits one (see StreamRedactor).
+ */
+export class LogStreamer {
+  private lines: string[] = [];
+  private partial = '';
+  private part = 0;
+  private uploadedCount = -1;
+  private target: { storage: WorkerStorage; bucket: string; key: string } | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private originalStdout: Write;
+  private originalStderr: Write;
+  private stdoutRedactor = new StreamRedactor();
+  private stderrRedactor = new StreamRedactor();
+
+  /**
+   * Starts capturing immediately, so output from before storage is known
+   * is not lost
+   */
+  constructor(private partSize = PART_SIZE) {
+    this.originalStdout = process.stdout.write.bind(process.stdout);
+    this.originalStderr = process.stderr.write.bind(process.stderr);
+    process.stdout.write = this.tee(this.originalStdout, this.stdoutRedactor);
+    process.stderr.write = this.tee(this.originalStderr, this.stderrRedactor);
+  }
+
+  /**
+   * Upload the captured log every few seconds from now on
+   */
+  streamTo(storage: WorkerStorage, bucket: string, key: string): void {
+    this.target = { storage, bucket, key };
+    this.timer = setInterval(() => { void this.flush(); }, FLUSH_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Upload the current part if anything was written to it since the last
+   * upload, and start a new one if it is full. Uploads never overlap, so an
+   * older snapshot can't overwrite a newer one.
+   */
+  flush(): Promise<void> {
+    this.flushing = this.flushing.then(async () => {
+      if (!this.target || this.lines.length === this.uploadedCount) return;
+
+      const count = this.lines.length;
+      const text = this.lines.join('');
+      const key = this.part ? this.target.key.replace(/\.log$/, `.${this.part}.log`) : this.target.key;
+      try {
+        await this.target.storage.uploadText(this.target.bucket, key, text);
+        this.uploadedCount = count;
+        if (text.length >= this.partSize) {
+          // Lines written during the upload start the next part
+          this.lines = this.lines.slice(count);
+          this.part++;
+          this.uploadedCount = 0;
+        }
+      } catch (err: unknown) {
+        // Report on the real stderr only, or this would be logged forever
+        this.originalStderr(`[WARN] Could not upload log: ${getErrorMessage(err)}\n`);
+      }
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Stop capturing and upload what's left, including an unterminated last line
+   */
+  async close(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    process.stdout.write = this.originalStdout;
+    process.stderr.write = this.originalStderr;
+    // Text held back as a possible start of a secret turned out not to be one
+    const streams = [
+      [this.originalStdout, this.stdoutRedactor],
+      [this.originalStderr, this.stderrRedactor],
+    ] as const;
+    for (const [write, redactor] of streams) {
+      const held = redactor.end();
+      if (held) {
+        this.capture(held);
+        write(held);
+      }
+    }
+    if (this.partial) {
+      this.lines.push(`${new Date().toISOString()} ${this.partial}\n`);
+      this.partial = '';
+    }
+    await this.flush();
+  }
+
+  private tee(write: Write, redactor: StreamRedactor): Write {
+    return ((chunk: any, ...rest: any[]) => {
+      const text = redactor.write(typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString('utf-8'));
+      this.capture(text);
+      return write(text, ...rest);
+    }) as Write;
+  }
+
+  private capture(text: string): void {
+    const parts = (this.partial + text).split('\n');
+    this.partial = parts.pop() || '';
+    const timestamp = new Date().toISOString();
+    for (const line of parts) {
+      this.lines.push(`${timestamp} ${line}\n`);
+    }
+  }
+}
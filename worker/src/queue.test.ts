@@ -0,0 +1,125 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { ClaimStore, LocalClaimStore, QueueItem, WorkQueue, claimShard } from './queue';
+
+function makeFiles(count: number): QueueItem['file'][] {
+  return Array.from({ length: count }, (_, i) => ({ path: `/workspace/t${i}.spec.ts`, relativePath: `t${i}.spec.ts` }));
+}
+
+/** Claim until the queue is empty, yielding between claims like a worker running tests */
+async function drain(queue: WorkQueue): Promise<number[]> {
+  const claimed: number[] = [];
+  let item: QueueItem | null;
+  while ((item = await queue.claimNext())) {
+    claimed.push(item.index);
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  return claimed;
+}
+
+describe('LocalClaimStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'claims-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should let only the first create of a key succeed', async () => {
+    const store = new LocalClaimStore(path.join(directory, 'claims'));
+
+    expect(await store.create('0.json', { worker: 0 })).toBe(true);
+    expect(await store.create('0.json', { worker: 1 })).toBe(false);
+
+    const body = await fs.readFile(path.join(directory, 'claims', '0.json'), 'utf-8');
+    expect(JSON.parse(body)).toEqual({ worker: 0 });
+  });
+
+  it('should let one of many simultaneous creates succeed', async () => {
+    const stores = Array.from({ length: 8 }, () => new LocalClaimStore(directory));
+
+    const outcomes = await Promise.all(stores.map((store, worker) => store.create('0.json', { worker })));
+
+    expect(outcomes.filter(Boolean)).toHaveLength(1);
+  });
+
+  describe('WorkQueue', () => {
+    it('should give two consumers every file exactly once between them', async () => {
+      const files = makeFiles(20);
+      const first = new WorkQueue(files, new LocalClaimStore(directory), 0);
+      const second = new WorkQueue(files, new LocalClaimStore(directory), 1);
+
+      const [a, b] = await Promise.all([drain(first), drain(second)]);
+
+      expect(a.filter(index => b.includes(index))).toEqual([]);
+      expect([...a, ...b].sort((x, y) => x - y)).toEqual(files.map((_, i) => i));
+      expect(a.length).toBeGreaterThan(0);
+      expect(b.length).toBeGreaterThan(0);
+    });
+
+    it('should record which worker claimed each file', async () => {
+      const queue = new WorkQueue(makeFiles(1), new LocalClaimStore(directory), 3);
+
+      const item = await queue.claimNext();
+
+      expect(item).toEqual({ index: 0, file: makeFiles(1)[0] });
+      const claim = JSON.parse(await fs.readFile(path.join(directory, '0.json'), 'utf-8'));
+      expect(claim.worker).toBe(3);
+    });
+
+    it('should return null for an empty queue', async () => {
+      const queue = new WorkQueue([], new LocalClaimStore(directory), 0);
+
+      expect(await queue.claimNext()).toBeNull();
+    });
+
+    it('should return null once other workers claimed every file', async () => {
+      const files = makeFiles(3);
+      await drain(new WorkQueue(files, new LocalClaimStore(directory), 0));
+
+      expect(await new WorkQueue(files, new LocalClaimStore(directory), 1).claimNext()).toBeNull();
+    });
+  });
+});
+
+describe('claimShard', () => {
+  /** In-memory create-if-absent, counting the attempts */
+  class MemoryClaimStore implements ClaimStore {
+    keys = new Set<string>();
+    attempts = 0;
+
+    async create(key: string): Promise<boolean> {
+      this.attempts++;
+      if (this.keys.has(key)) return false;
+      this.keys.add(key);
+      return true;
+    }
+  }
+
+  it('should take the first shard nobody has claimed', async () => {
+    const store = new MemoryClaimStore();
+    store.keys.add('4.json');
+
+    expect(await claimShard(store, [4, 5, 6], {})).toBe(5);
+    expect(store.attempts).toBe(2);
+  });
+
+  it('should give tasks started together different shards', async () => {
+    const store = new MemoryClaimStore();
+
+    const claimed = await Promise.all([0, 1, 2].map(() => claimShard(store, [7, 8, 9], {})));
+
+    expect([...claimed].sort()).toEqual([7, 8, 9]);
+  });
+
+  it('should return null when every shard is taken', async () => {
+    const store = new MemoryClaimStore();
+    await claimShard(store, [0], {});
+
+    expect(await claimShard(store, [0], {})).toBeNull();
+  });
+});
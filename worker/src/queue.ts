@@ -0,0 +1,103 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { WorkerStorage } from './storage';
+
+export interface QueueItem {
+  index: number;
+  file: {
+    path: string;
+    relativePath: string;
+    browser?: string;
+  };
+}
+
+/**
+ * Atomic create-if-absent, the only primitive the queue needs.
+ * Returns false when another worker created the key first.
+ */
+export interface ClaimStore {
+  create(key: string, body: unknown): Promise<boolean>;
+}
+
+/**
+ * Claims as objects in the run's storage: S3 objects written with
+ * If-None-Match: *, or exclusively created files with LocalStorage
+ */
+export class S3ClaimStore implements ClaimStore {
+  constructor(
+    private s3Client: WorkerStorage,
+    private bucket: string,
+    private prefix: string
+  ) {}
+
+  create(key: string, body: unknown): Promise<boolean> {
+    return this.s3Client.uploadJSONIfAbsent(this.bucket, `${this.prefix}/${key}`, body);
+  }
+}
+
+/**
+ * Local stand-in for S3: claims are files created with O_EXCL, so several
+ * worker processes sharing a directory behave like workers sharing a bucket.
+ */
+export class LocalClaimStore implements ClaimStore {
+  constructor(private directory: string) {}
+
+  async create(key: string, body: unknown): Promise<boolean> {
+    await fs.mkdir(this.directory, { recursive: true });
+    try {
+      await fs.writeFile(path.join(this.directory, key), JSON.stringify(body), { flag: 'wx' });
+      return true;
+    } catch (err: unknown) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'EEXIST') {
+        return false;
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * Shared queue of test files. The CLI uploads the files once, longest first;
+ * each worker walks the list and runs a file only if it wins the claim for
+ * it, so fast workers keep pulling files while a slow one is busy.
+ */
+export class WorkQueue {
+  private cursor = 0;
+
+  constructor(
+    private files: QueueItem['file'][],
+    private store: ClaimStore,
+    private workerId: number
+  ) {}
+
+  async claimNext(): Promise<QueueItem | null> {
+    while (this.cursor < this.files.length) {
+      const index = this.cursor++;
+      const claimed = await this.store.create(`${index}.json`, {
+        worker: this.workerId,
+        claimedAt: new Date().toISOString(),
+      });
+
+      if (claimed) {
+        return { index, file: this.files[index] };
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Pick this worker's shard from a list shared by several workers. The ECS
+ * backend starts up to 10 identical tasks per RunTask call with SHARD_IDS;
+ * each takes the first shard no other task has claimed. Returns null when
+ * every shard is taken.
+ */
+export async function claimShard(store: ClaimStore, shardIds: number[], body: unknown): Promise<number | null> {
+  for (const shardId of shardIds) {
+    if (await store.create(`${shardId}.json`, body)) {
+      return shardId;
+    }
+  }
+  return null;
+}
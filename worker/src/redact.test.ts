@@ -0,0 +1,39 @@
+import { StreamRedactor, redact } from './redact';
+
+describe('redact', () => {
+  it('should replace every value, longest first', () => {
+    expect(redact('token=abc123 key=abc', ['abc123', 'abc'])).toBe('token=*** key=***');
+  });
+});
+
+describe('StreamRedactor', () => {
+  it('should redact a secret split across writes', () => {
+    const redactor = new StreamRedactor(['s3cr3t-token']);
+
+    const output = ['Bearer s3c', 'r3t-', 'token sent\n'].map(chunk => redactor.write(chunk)).join('') + redactor.end();
+
+    expect(output).toBe('Bearer *** sent\n');
+  });
+
+  it('should hold back only what could start a secret', () => {
+    const redactor = new StreamRedactor(['s3cr3t']);
+
+    expect(redactor.write('progress: s3')).toBe('progress: ');
+    expect(redactor.write('x done')).toBe('s3x done');
+    expect(redactor.end()).toBe('');
+  });
+
+  it('should return held text at the end', () => {
+    const redactor = new StreamRedactor(['s3cr3t']);
+
+    expect(redactor.write('almost s3cr')).toBe('almost ');
+    expect(redactor.end()).toBe('s3cr');
+  });
+
+  it('should pass text through unchanged without secrets', () => {
+    const redactor = new StreamRedactor([]);
+
+    expect(redactor.write('s3cr3t')).toBe('s3cr3t');
+    expect(redactor.end()).toBe('');
+  });
+});
@@ -0,0 +1,70 @@
+import { TestCase } from './runner';
+
+const REDACTED = '***';
+
+// Longest first, so a secret containing another is replaced whole. The CLI
+// lists the names of the execution.secrets variables in CHEAPTEST_SECRETS.
+const secrets = (process.env.CHEAPTEST_SECRETS || '')
+  .split(',')
+  .map(name => process.env[name.trim()] || '')
+  .filter(value => value.length > 0)
+  .sort((a, b) => b.length - a.length);
+
+/**
+ * Replace the values of the run's secrets, so tests that print them or
+ * fail with them in an assertion don't leak them into logs and results
+ */
+export function redact(text: string, values: string[] = secrets): string {
+  for (const secret of values) {
+    text = text.split(secret).join(REDACTED);
+  }
+  return text;
+}
+
+/**
+ * Redacts output that arrives in chunks, where a secret can be split
+ * between two writes. The end of a chunk that could be the start of a
+ * secret is held back until the next chunk (or end()) shows whether it is.
+ */
+export class StreamRedactor {
+  private held = '';
+
+  constructor(private values: string[] = secrets) {}
+
+  write(text: string): string {
+    const full = redact(this.held + text, this.values);
+    const keep = this.secretPrefixLength(full);
+    this.held = full.slice(full.length - keep);
+    return full.slice(0, full.length - keep);
+  }
+
+  end(): string {
+    const rest = this.held;
+    this.held = '';
+    return rest;
+  }
+
+  // Length of the longest end of `text` that a secret starts with
+  private secretPrefixLength(text: string): number {
+    let longest = 0;
+    for (const secret of this.values) {
+      for (let length = Math.min(secret.length - 1, text.length); length > longest; length--) {
+        if (text.endsWith(secret.slice(0, length))) {
+          longest = length;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+}
+
+export function redactTests(tests: TestCase[]): TestCase[] {
+  if (secrets.length === 0) return tests;
+  return tests.map(test => ({
+    ...test,
+    name: redact(test.name),
+    ...(test.error !== undefined && { error: redact(test.error) }),
+    ...(test.stack !== undefined && { stack: redact(test.stack) }),
+  }));
+}
@@ -0,0 +1,68 @@
+import path from 'path';
+import { RunnerConfig, TestCase, findTestRoot } from './runner';
+import { PlaywrightRunner } from './frameworks/playwright';
+import { CypressRunner } from './frameworks/cypress';
+import { SeleniumRunner } from './frameworks/selenium';
+import { PuppeteerRunner } from './frameworks/puppeteer';
+import { WebdriverIORunner } from './frameworks/webdriverio';
+import { TestCafeRunner } from './frameworks/testcafe';
+
+/**
+ * Runs a shard's files with one framework and parses its report into
+ * TestCases. The CLI half of a framework (discovery patterns, test
+ * counting) lives in cli/src/core/frameworks.ts.
+ */
+export interface FrameworkRunner {
+  execute(): Promise<TestCase[]>;
+}
+
+export type RunnerFactory = (config: RunnerConfig) => FrameworkRunner;
+
+/**
+ * What a tests.runner module exports for the worker. `execute` gets the
+ * runner config plus the directory the test code was extracted to.
+ */
+interface RunnerModule {
+  name: string;
+  execute(context: RunnerConfig & { testRoot: string }): Promise<TestCase[]>;
+}
+
+const runners = new Map<string, RunnerFactory>([
+  ['playwright', config => new PlaywrightRunner(config)],
+  ['cypress', config => new CypressRunner(config)],
+  ['selenium', config => new SeleniumRunner(config)],
+  ['puppeteer', config => new PuppeteerRunner(config)],
+  ['webdriverio', config => new WebdriverIORunner(config)],
+  ['testcafe', config => new TestCafeRunner(config)],
+]);
+
+export function registerRunner(name: string, factory: RunnerFactory): void {
+  runners.set(name, factory);
+}
+
+export function getRunner(name: string): RunnerFactory {
+  const factory = runners.get(name);
+  if (!factory) {
+    throw new Error(`Unknown framework: ${name} (registered: ${[...runners.keys()].join(', ')})`);
+  }
+  return factory;
+}
+
+/**
+ * Register the runner module the CLI sent as TEST_RUNNER_MODULE. It came
+ * with the test code, so its path is relative to the test root.
+ */
+export async function loadRunnerModule(workspace: string, modulePath: string): Promise<string> {
+  const testRoot = await findTestRoot(workspace);
+
+  const loaded = require(path.resolve(testRoot, modulePath));
+  const runner: RunnerModule = loaded.default || loaded;
+  if (!runner.name || typeof runner.execute !== 'function') {
+    throw new Error(`Runner module ${modulePath} must export a name and an execute function`);
+  }
+
+  registerRunner(runner.name, config => ({
+    execute: () => runner.execute({ ...config, testRoot }),
+  }));
+  return runner.name;
+}
@@ -1,20 +1,28 @@
-import { PlaywrightRunner } from './frameworks/playwright';
-import { CypressRunner } from './frameworks/cypress';
-import { SeleniumRunner } from './frameworks/selenium';
+import { ChildProcess } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { EventStream } from './events';
+import { getRunner } from './registry';
 
 export interface TestShard {
   id: number;
   files: Array<{
     path: string;
     relativePath: string;
+    // Set when the CLI split a large file across shards: run only these tests
+    selectedTests?: Array<{ title: string; line: number }>;
+    browser?: string; // Set by a tests.browsers matrix: chromium, firefox or webkit
   }>;
+  queue?: boolean; // Pull files from the run's work queue instead of `files`
 }
 
 export interface RunnerConfig {
-  framework: 'playwright' | 'cypress' | 'selenium';
+  framework: string; // A registered runner (see registry.ts)
   workspace: string;
   timeout: number;
   shard: TestShard;
+  events?: EventStream; // Live progress for the CLI; results don't depend on it
+  signal?: AbortSignal; // Aborted on SIGTERM: stop the framework and report what finished
 }
 
 export interface TestResult {
@@ -24,6 +32,8 @@ export interface TestResult {
   skipped: number;
   duration: number;
   tests: TestCase[];
+  interrupted?: boolean; // The worker was stopped early; only tests that finished are included
+  queueItems?: number[]; // Queue shards: indices of the queue.json entries this worker finished
 }
 
 export interface TestCase {
@@ -31,8 +41,89 @@ export interface TestCase {
   file: string;
   status: 'passed' | 'failed' | 'skipped';
   duration: number;
+  browser?: string; // Browser the test ran in, with a tests.browsers matrix
   error?: string;
   stack?: string;
+  // Files the framework left on disk for this test; replaced by `artifacts` once uploaded
+  attachments?: TestAttachment[];
+  artifacts?: TestArtifact[];
+}
+
+export interface TestAttachment {
+  name: string; // e.g. trace, screenshot, video
+  contentType: string;
+  path: string;
+}
+
+export interface TestArtifact {
+  name: string;
+  contentType: string;
+  key: string; // Storage key under runs/<id>/artifacts/
+}
+
+/**
+ * Send `killSignal` to a framework process when the worker is asked to stop.
+ * Returns a function that detaches the listener once the process has exited.
+ */
+export function stopOnAbort(
+  proc: ChildProcess,
+  signal: AbortSignal | undefined,
+  killSignal: NodeJS.Signals = 'SIGTERM'
+): () => void {
+  if (!signal) return () => {};
+
+  const stop = () => {
+    console.log(`[WARN] Stopping test process (${killSignal})`);
+    proc.kill(killSignal);
+  };
+  if (signal.aborted) {
+    stop();
+    return () => {};
+  }
+  signal.addEventListener('abort', stop, { once: true });
+  return () => signal.removeEventListener('abort', stop);
+}
+
+/**
+ * The tarball extracts with the test directory's name (e.g.
+ * /workspace/e2e/...), so the test root is the workspace's only
+ * subdirectory, or the workspace itself
+ */
+export async function findTestRoot(workspace: string): Promise<string> {
+  const entries = await fs.readdir(workspace, { withFileTypes: true });
+  const dirs = entries.filter(e => e.isDirectory() && !e.name.startsWith('.'));
+  return dirs.length === 1 ? path.join(workspace, dirs[0].name) : workspace;
+}
+
+/**
+ * A framework's CLI from the test project's own node_modules when its
+ * dependencies were installed, so the CLI and the tests load the same
+ * version, otherwise from the worker image
+ */
+export async function findBin(testRoot: string, name: string): Promise<string> {
+  const projectBin = path.join(testRoot, 'node_modules', '.bin', name);
+  try {
+    await fs.access(projectBin);
+    return projectBin;
+  } catch {
+    return path.join('/app/node_modules/.bin', name);
+  }
+}
+
+/**
+ * The first of `names` that exists in the test root, for loading the
+ * project's own framework config
+ */
+export async function findConfigFile(testRoot: string, names: string[]): Promise<string | undefined> {
+  for (const name of names) {
+    try {
+      await fs.access(path.join(testRoot, name));
+      return name;
+    } catch {
+      // Try the next name
+    }
+  }
+  return undefined;
 }
 
 export class TestRunner {
@@ -45,20 +136,7 @@ export class TestRunner {
   async run(): Promise<TestResult> {
     const startTime = Date.now();
 
-    let runner;
-    switch (this.config.framework) {
-      case 'playwright':
-        runner = new PlaywrightRunner(this.config);
-        break;
-      case 'cypress':
-        runner = new CypressRunner(this.config);
-        break;
-      case 'selenium':
-        runner = new SeleniumRunner(this.config);
-        break;
-      default:
-        throw new Error(`Unknown framework: ${this.config.framework}`);
-    }
+    const runner = getRunner(this.config.framework)(this.config);
 
     const tests = await runner.execute();
     const duration = Date.now() - startTime;
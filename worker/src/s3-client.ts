@@ -7,17 +7,26 @@ import fs from 'fs/promises';
 import path from 'path';
 import * as tar from 'tar';
 import { Readable } from 'stream';
+import type { WorkerStorage } from './storage';
 
 function getErrorMessage(err: unknown): string {
   if (err instanceof Error) return err.message;
   return String(err);
 }
 
-export class S3ClientWrapper {
+export class S3ClientWrapper implements WorkerStorage {
   private client: S3Client;
 
-  constructor(region: string) {
-    this.client = new S3Client({ region, maxAttempts: 3, retryMode: 'adaptive' });
+  /**
+   * @param endpoint S3-compatible endpoint such as MinIO (path-style addressing)
+   */
+  constructor(region: string, endpoint?: string) {
+    this.client = new S3Client({
+      region,
+      maxAttempts: 3,
+      retryMode: 'adaptive',
+      ...(endpoint && { endpoint, forcePathStyle: true }),
+    });
   }
 
   async downloadAndExtract(
@@ -109,4 +118,71 @@ export class S3ClientWrapper {
       throw new Error(`Failed to upload JSON: ${getErrorMessage(err)}`);
     }
   }
-}
\ No newline at end of file
+
+  async uploadFile(
+    bucket: string,
+    key: string,
+    filePath: string,
+    contentType: string
+  ): Promise<void> {
+    try {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: await fs.readFile(filePath),
+          ContentType: contentType,
+        })
+      );
+    } catch (err: unknown) {
+      throw new Error(`Failed to upload file: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async uploadText(bucket: string, key: string, text: string): Promise<void> {
+    try {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: text,
+          ContentType: 'text/plain; charset=utf-8',
+        })
+      );
+    } catch (err: unknown) {
+      throw new Error(`Failed to upload text: ${getErrorMessage(err)}`);
+    }
+  }
+
+  /**
+   * Upload JSON only if the key does not exist yet (S3 conditional write).
+   * Returns false when the object already exists. PutObject takes
+   * IfNoneMatch from @aws-sdk/client-s3 3.635.0 on.
+   */
+  async uploadJSONIfAbsent(bucket: string, key: string, data: any): Promise<boolean> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.client.send(
+          new PutObjectCommand({
+            Bucket: bucket,
+            Key: key,
+            Body: JSON.stringify(data),
+            ContentType: 'application/json',
+            IfNoneMatch: '*',
+          })
+        );
+        return true;
+      } catch (err: unknown) {
+        if (err instanceof Error && err.name === 'PreconditionFailed') {
+          return false;
+        }
+        // A concurrent conditional write to the same key is still in flight
+        if (err instanceof Error && err.name === 'ConditionalRequestConflict' && attempt < 3) {
+          await new Promise(resolve => setTimeout(resolve, 200 * attempt));
+          continue;
+        }
+        throw new Error(`Failed to upload JSON: ${getErrorMessage(err)}`);
+      }
+    }
+  }
+}
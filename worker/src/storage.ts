@@ -0,0 +1,118 @@
+import fs from 'fs/promises';
+import path from 'path';
+import * as tar from 'tar';
+import { S3ClientWrapper } from './s3-client';
+
+function getErrorMessage(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+/**
+ * What the worker needs from the run's object store. Implemented by
+ * S3ClientWrapper and by LocalStorage for runs on a developer machine.
+ */
+export interface WorkerStorage {
+  downloadAndExtract(bucket: string, key: string, destination: string): Promise<void>;
+  downloadJSON<T = any>(bucket: string, key: string): Promise<T>;
+  uploadJSON(bucket: string, key: string, data: any, metadata?: Record<string, string>): Promise<void>;
+  uploadJSONIfAbsent(bucket: string, key: string, data: any): Promise<boolean>;
+  uploadFile(bucket: string, key: string, filePath: string, contentType: string): Promise<void>;
+  uploadText(bucket: string, key: string, text: string): Promise<void>;
+}
+
+/**
+ * Object store backed by a directory, laid out as <root>/<bucket>/<key>.
+ * The local backend mounts the same directory into every container.
+ */
+export class LocalStorage implements WorkerStorage {
+  constructor(private root: string) {}
+
+  async downloadAndExtract(
+    bucket: string,
+    key: string,
+    destination: string
+  ): Promise<void> {
+    try {
+      await fs.mkdir(destination, { recursive: true });
+      await tar.extract({
+        file: this.path(bucket, key),
+        cwd: destination,
+      });
+    } catch (err: unknown) {
+      throw new Error(`Failed to download and extract: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async downloadJSON<T = any>(bucket: string, key: string): Promise<T> {
+    try {
+      const content = await fs.readFile(this.path(bucket, key), 'utf-8');
+      return JSON.parse(content);
+    } catch (err: unknown) {
+      throw new Error(`Failed to download JSON: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async uploadJSON(bucket: string, key: string, data: any): Promise<void> {
+    try {
+      const file = this.path(bucket, key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(data, null, 2));
+    } catch (err: unknown) {
+      throw new Error(`Failed to upload JSON: ${getErrorMessage(err)}`);
+    }
+  }
+
+  /**
+   * Create the file with O_EXCL, so only one container sharing the
+   * directory can win
+   */
+  async uploadJSONIfAbsent(bucket: string, key: string, data: any): Promise<boolean> {
+    const file = this.path(bucket, key);
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(data), { flag: 'wx' });
+      return true;
+    } catch (err: unknown) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'EEXIST') {
+        return false;
+      }
+      throw new Error(`Failed to upload JSON: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async uploadFile(bucket: string, key: string, filePath: string): Promise<void> {
+    try {
+      const file = this.path(bucket, key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.copyFile(filePath, file);
+    } catch (err: unknown) {
+      throw new Error(`Failed to upload file: ${getErrorMessage(err)}`);
+    }
+  }
+
+  async uploadText(bucket: string, key: string, text: string): Promise<void> {
+    try {
+      const file = this.path(bucket, key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, text);
+    } catch (err: unknown) {
+      throw new Error(`Failed to upload text: ${getErrorMessage(err)}`);
+    }
+  }
+
+  private path(bucket: string, key: string): string {
+    return path.join(this.root, bucket, key);
+  }
+}
+
+/**
+ * Storage selected by the environment: STORAGE_DIR (a mounted directory),
+ * otherwise S3 or the S3-compatible server at S3_ENDPOINT
+ */
+export function createStorage(region: string): WorkerStorage {
+  if (process.env.STORAGE_DIR) {
+    return new LocalStorage(process.env.STORAGE_DIR);
+  }
+  return new S3ClientWrapper(region, process.env.S3_ENDPOINT);
+}